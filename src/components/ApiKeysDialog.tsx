@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { Key, Check, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AI_PROVIDERS } from "@/lib/ai-config";
+import { deleteUserSecret, listUserSecrets, saveUserSecret, UserSecretInfo } from "@/lib/user-secrets";
+
+interface ApiKeysDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const USER_KEY_PROVIDERS = AI_PROVIDERS.filter((p) => p.userKey);
+
+export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
+  const { toast } = useToast();
+  const [secrets, setSecrets] = useState<UserSecretInfo[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadSecrets = async () => {
+    setLoading(true);
+    try {
+      setSecrets(await listUserSecrets());
+    } catch (error) {
+      console.error("Failed to load API keys:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setDrafts({});
+      loadSecrets();
+    }
+  }, [open]);
+
+  const handleSave = async (provider: string, name: string) => {
+    const value = drafts[provider]?.trim();
+    if (!value) return;
+
+    setBusy(provider);
+    try {
+      await saveUserSecret(provider, value);
+      setDrafts((prev) => ({ ...prev, [provider]: "" }));
+      await loadSecrets();
+      toast({ title: "API key saved", description: `${name} requests will use your own key.` });
+    } catch (error) {
+      toast({
+        title: "Failed to save key",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemove = async (provider: string, name: string) => {
+    setBusy(provider);
+    try {
+      await deleteUserSecret(provider);
+      setSecrets((prev) => prev.filter((s) => s.name !== provider));
+      toast({ title: "API key removed", description: `${name} falls back to the workspace key.` });
+    } catch (error) {
+      toast({
+        title: "Failed to remove key",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Key className="h-5 w-5 text-primary" />
+            Your API Keys
+          </DialogTitle>
+          <DialogDescription>
+            Use your own provider keys. Keys are encrypted on the server and cannot be viewed again;
+            providers without a key use the workspace key.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            {USER_KEY_PROVIDERS.map((provider) => {
+              const saved = secrets.find((s) => s.name === provider.id);
+              const isBusy = busy === provider.id;
+
+              return (
+                <div key={provider.id} className="space-y-2">
+                  <Label htmlFor={`user-key-${provider.id}`} className="flex items-center gap-2">
+                    {provider.name}
+                    {saved && (
+                      <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                        <Check className="h-3 w-3 text-green-500" />
+                        {saved.hint ? `Saved (…${saved.hint})` : "Saved"}
+                      </span>
+                    )}
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id={`user-key-${provider.id}`}
+                      type="password"
+                      autoComplete="off"
+                      placeholder={saved ? "Replace key" : "Paste your API key"}
+                      value={drafts[provider.id] || ""}
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [provider.id]: e.target.value }))}
+                    />
+                    <Button
+                      size="sm"
+                      className="h-10"
+                      disabled={isBusy || !drafts[provider.id]?.trim()}
+                      onClick={() => handleSave(provider.id, provider.name)}
+                    >
+                      {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+                    </Button>
+                    {saved && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-10 w-10 shrink-0"
+                        disabled={isBusy}
+                        onClick={() => handleRemove(provider.id, provider.name)}
+                        aria-label={`Remove ${provider.name} key`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
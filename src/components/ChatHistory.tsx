@@ -1,5 +1,7 @@
-import { Plus, MessageSquare, MoreHorizontal, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Plus, MessageSquare, MoreHorizontal, Trash2, Pencil, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   DropdownMenu,
@@ -21,6 +23,9 @@ interface ChatHistoryProps {
   onNewChat: () => void;
   onSelectChat: (id: string) => void;
   onDeleteChat: (id: string) => void;
+  onRenameChat?: (id: string, title: string) => void;
+  searchQuery?: string;
+  onSearchChange?: (query: string) => void;
 }
 
 export function ChatHistory({
@@ -28,7 +33,25 @@ export function ChatHistory({
   onNewChat,
   onSelectChat,
   onDeleteChat,
+  onRenameChat,
+  searchQuery,
+  onSearchChange,
 }: ChatHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRenameChat?.(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
   const formatDate = (date: Date) => {
     const now = new Date();
     const diff = now.getTime() - date.getTime();
@@ -65,10 +88,27 @@ export function ChatHistory({
           <Plus className="h-3.5 w-3.5" />
           New Chat
         </Button>
+
+        {onSearchChange && (
+          <div className="relative mt-2">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              value={searchQuery ?? ""}
+              onChange={(e) => onSearchChange(e.target.value)}
+              placeholder="Search chats..."
+              className="h-8 pl-7 text-xs"
+            />
+          </div>
+        )}
       </div>
 
       <ScrollArea className="flex-1 px-2 scrollbar-thin">
         <div className="space-y-1 pb-2">
+          {sessions.length === 0 && (
+            <p className="px-2 py-4 text-center text-xs text-muted-foreground">
+              {searchQuery ? "No matching chats" : "No chats yet"}
+            </p>
+          )}
           {sessions.map((session) => (
             <div
               key={session.id}
@@ -78,11 +118,26 @@ export function ChatHistory({
                   ? "bg-primary/20 text-primary"
                   : "text-foreground/70 hover:bg-muted/50"
               )}
-              onClick={() => onSelectChat(session.id)}
+              onClick={() => editingId !== session.id && onSelectChat(session.id)}
             >
               <MessageSquare className="h-3.5 w-3.5 shrink-0 opacity-70" />
               <div className="flex-1 min-w-0">
-                <p className="text-xs font-medium truncate">{session.title}</p>
+                {editingId === session.id ? (
+                  <Input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="h-6 px-1 text-xs"
+                  />
+                ) : (
+                  <p className="text-xs font-medium truncate">{session.title}</p>
+                )}
                 <p className="text-[10px] text-muted-foreground truncate">
                   {formatDate(session.timestamp)}
                 </p>
@@ -99,6 +154,18 @@ export function ChatHistory({
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-28">
+                  {onRenameChat && (
+                    <DropdownMenuItem
+                      className="text-xs"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(session);
+                      }}
+                    >
+                      <Pencil className="h-3 w-3 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem
                     className="text-destructive focus:text-destructive text-xs"
                     onClick={(e) => {
@@ -1,25 +1,105 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
-import { Send, Paperclip, Sparkles, Loader2, Image, Mic } from "lucide-react";
+import { Send, Paperclip, Sparkles, Loader2, Image, Square, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { IterativeRefinement } from "./IterativeRefinement";
+import { ContextMeter } from "./ContextMeter";
+import { FileProgressCards } from "./FileProgressCards";
+import { ContextUsage } from "@/lib/prompt-budget";
+import { scanStreamBlocks, stripEditBlocks } from "@/lib/stream-parser";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  ChatAttachment,
+  getAttachmentUrl,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  validateAttachment,
+} from "@/lib/chat-attachments";
+import { useToast } from "@/hooks/use-toast";
 
 interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  attachments?: ChatAttachment[];
+}
+
+// An image in the input, shown from a local URL while it uploads
+interface PendingAttachment {
+  id: string;
+  previewUrl: string;
+  attachment?: ChatAttachment;
 }
 
 interface ChatPanelProps {
   messages: Message[];
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string, attachments?: ChatAttachment[]) => void;
   onRefine?: (feedback: string, type: "fix" | "improve" | "custom") => void;
   isLoading?: boolean;
   hasFileChanges?: boolean;
+  contextUsage?: ContextUsage | null;
+  onInputChange?: (value: string) => void;
+  // Stops the running generation
+  onCancel?: () => void;
+  // Continues the file a cut-off response left unfinished
+  onResume?: (messageId: string) => void;
+  // Stores a pasted, dropped or picked image; attachments are off without it
+  onUploadAttachment?: (file: File) => Promise<ChatAttachment>;
+  // The selected model reads images
+  supportsVision?: boolean;
+  onAttachmentsChange?: (count: number) => void;
+}
+
+function AttachmentImage({ attachment }: { attachment: ChatAttachment }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAttachmentUrl(attachment.path).then((next) => {
+      if (!cancelled) setUrl(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.path]);
+
+  return (
+    <a href={url ?? undefined} target="_blank" rel="noreferrer" title={attachment.name}>
+      {url ? (
+        <img src={url} alt={attachment.name} className="h-20 max-w-[160px] rounded-lg object-cover border border-primary-foreground/20" />
+      ) : (
+        <div className="h-20 w-20 rounded-lg bg-primary-foreground/10 flex items-center justify-center">
+          <Image className="h-4 w-4 opacity-60" />
+        </div>
+      )}
+    </a>
+  );
+}
+
+function AssistantMessageBody({
+  content,
+  streaming,
+  onResume,
+}: {
+  content: string;
+  streaming: boolean;
+  onResume?: () => void;
+}) {
+  const text = useMemo(() => stripEditBlocks(content), [content]);
+  const { blocks } = useMemo(() => scanStreamBlocks(content, streaming), [content, streaming]);
+
+  return (
+    <>
+      {text && <p className="whitespace-pre-wrap break-words leading-relaxed">{text}</p>}
+      <FileProgressCards blocks={blocks} onResume={onResume} />
+    </>
+  );
 }
 
 const suggestions = [
@@ -29,9 +109,85 @@ const suggestions = [
   "Tambahkan dark mode",
 ];
 
-export function ChatPanel({ messages, onSendMessage, onRefine, isLoading, hasFileChanges }: ChatPanelProps) {
+export function ChatPanel({
+  messages,
+  onSendMessage,
+  onRefine,
+  isLoading,
+  hasFileChanges,
+  contextUsage,
+  onInputChange,
+  onCancel,
+  onResume,
+  onUploadAttachment,
+  supportsVision,
+  onAttachmentsChange,
+}: ChatPanelProps) {
+  const { toast } = useToast();
   const [input, setInput] = useState("");
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isUploading = attachments.some((a) => !a.attachment);
+  const canAttach = !!onUploadAttachment && !!supportsVision;
+
+  useEffect(() => {
+    onInputChange?.(input);
+  }, [input, onInputChange]);
+
+  useEffect(() => {
+    onAttachmentsChange?.(attachments.length);
+  }, [attachments.length, onAttachmentsChange]);
+
+  const removeAttachment = (id: string) =>
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.id !== id);
+    });
+
+  const addFiles = (files: File[]) => {
+    if (!canAttach) return;
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length;
+    if (files.length > room) {
+      toast({ title: "Terlalu banyak gambar", description: `Maksimal ${MAX_ATTACHMENTS_PER_MESSAGE} gambar per pesan` });
+    }
+
+    files.slice(0, Math.max(0, room)).forEach((file) => {
+      const error = validateAttachment(file);
+      if (error) {
+        toast({ title: "Gambar tidak bisa dilampirkan", description: error, variant: "destructive" });
+        return;
+      }
+
+      const id = crypto.randomUUID();
+      setAttachments((prev) => [...prev, { id, previewUrl: URL.createObjectURL(file) }]);
+      onUploadAttachment(file)
+        .then((attachment) => setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, attachment } : a))))
+        .catch((uploadError) => {
+          toast({
+            title: "Upload gagal",
+            description: uploadError instanceof Error ? uploadError.message : "Unknown error",
+            variant: "destructive",
+          });
+          removeAttachment(id);
+        });
+    });
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const images = Array.from(e.clipboardData.files).filter((f) => f.type.startsWith("image/"));
+    if (images.length === 0 || !canAttach) return;
+    e.preventDefault();
+    addFiles(images);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -40,9 +196,12 @@ export function ChatPanel({ messages, onSendMessage, onRefine, isLoading, hasFil
   }, [messages]);
 
   const handleSubmit = () => {
-    if (input.trim() && !isLoading) {
-      onSendMessage(input.trim());
+    if (input.trim() && !isLoading && !isUploading) {
+      const ready = attachments.flatMap((a) => (a.attachment ? [a.attachment] : []));
+      onSendMessage(input.trim(), ready.length > 0 ? ready : undefined);
       setInput("");
+      attachments.forEach((a) => URL.revokeObjectURL(a.previewUrl));
+      setAttachments([]);
     }
   };
 
@@ -102,6 +261,7 @@ export function ChatPanel({ messages, onSendMessage, onRefine, isLoading, hasFil
             messages.map((message, index) => (
               <motion.div
                 key={message.id}
+                id={`message-${message.id}`}
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.02 }}
@@ -123,9 +283,36 @@ export function ChatPanel({ messages, onSendMessage, onRefine, isLoading, hasFil
                       : "bg-card border border-border/50 text-foreground rounded-tl-md"
                   )}
                 >
-                  <p className="whitespace-pre-wrap break-words leading-relaxed">
-                    {message.content.split("===FILE:")[0].trim() || message.content}
-                  </p>
+                  {message.role === "assistant" ? (
+                    <AssistantMessageBody
+                      content={message.content}
+                      streaming={!!isLoading && index === messages.length - 1}
+                      onResume={
+                        onResume && !isLoading && index === messages.length - 1
+                          ? () => onResume(message.id)
+                          : undefined
+                      }
+                    />
+                  ) : (
+                    <>
+                      {message.attachments && message.attachments.length > 0 && (
+                        <div className="mb-2 flex flex-wrap gap-2">
+                          {message.attachments.map((attachment) => (
+                            <AttachmentImage key={attachment.path} attachment={attachment} />
+                          ))}
+                        </div>
+                      )}
+                      <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                    </>
+                  )}
+                  {message.role === "assistant" && message.model && (
+                    <p className="mt-2 text-[10px] text-muted-foreground">
+                      {message.model}
+                      {(message.promptTokens || message.completionTokens)
+                        ? ` · ${((message.promptTokens ?? 0) + (message.completionTokens ?? 0)).toLocaleString()} tokens`
+                        : null}
+                    </p>
+                  )}
                 </div>
               </motion.div>
             ))
@@ -165,20 +352,71 @@ export function ChatPanel({ messages, onSendMessage, onRefine, isLoading, hasFil
 
       {/* Input Area - Lovable Style */}
       <div className="p-4 border-t border-border/50 bg-card/30 backdrop-blur-sm">
-        <div className="relative rounded-2xl border border-border/50 bg-card shadow-lg transition-all focus-within:border-primary/50 focus-within:shadow-primary/10">
+        {contextUsage && <ContextMeter usage={contextUsage} />}
+        <div
+          className={cn(
+            "relative rounded-2xl border border-border/50 bg-card shadow-lg transition-all focus-within:border-primary/50 focus-within:shadow-primary/10",
+            isDragging && "border-primary border-dashed"
+          )}
+          onDragOver={(e) => {
+            if (!canAttach || !e.dataTransfer.types.includes("Files")) return;
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 px-4 pt-3">
+              {attachments.map((a) => (
+                <div key={a.id} className="relative">
+                  <img src={a.previewUrl} alt="" className={cn("h-14 w-14 rounded-lg object-cover border border-border/50", !a.attachment && "opacity-50")} />
+                  {!a.attachment && <Loader2 className="absolute inset-0 m-auto h-4 w-4 animate-spin text-primary" />}
+                  <button
+                    type="button"
+                    className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-background border border-border flex items-center justify-center text-muted-foreground hover:text-foreground"
+                    onClick={() => removeAttachment(a.id)}
+                    title="Hapus gambar"
+                  >
+                    <X className="h-2.5 w-2.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {attachments.length > 0 && supportsVision === false && (
+            <p className="px-4 pt-2 text-[10px] text-yellow-500">
+              Model ini tidak membaca gambar; AI hanya akan melihat nama filenya.
+            </p>
+          )}
           <Textarea
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
             placeholder="Jelaskan apa yang ingin Anda buat..."
             className="min-h-[80px] max-h-[160px] resize-none border-0 bg-transparent px-4 py-3 pr-24 focus-visible:ring-0 text-sm placeholder:text-muted-foreground/60"
             rows={3}
           />
           <div className="absolute bottom-3 right-3 flex items-center gap-1.5">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(",")}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = "";
+              }}
+            />
             <Button
               variant="ghost"
               size="icon"
               className="h-8 w-8 rounded-xl text-muted-foreground hover:text-foreground hover:bg-muted/50"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canAttach || attachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+              title={supportsVision ? "Lampirkan gambar (atau tempel / seret ke sini)" : "Model ini tidak mendukung gambar"}
             >
               <Image className="h-4 w-4" />
             </Button>
@@ -189,14 +427,26 @@ export function ChatPanel({ messages, onSendMessage, onRefine, isLoading, hasFil
             >
               <Paperclip className="h-4 w-4" />
             </Button>
-            <Button
-              size="icon"
-              className="h-9 w-9 rounded-xl bg-primary hover:bg-primary/90 shadow-md shadow-primary/25"
-              onClick={handleSubmit}
-              disabled={!input.trim() || isLoading}
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading && onCancel ? (
+              <Button
+                size="icon"
+                variant="secondary"
+                className="h-9 w-9 rounded-xl"
+                onClick={onCancel}
+                title="Hentikan"
+              >
+                <Square className="h-3.5 w-3.5 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                size="icon"
+                className="h-9 w-9 rounded-xl bg-primary hover:bg-primary/90 shadow-md shadow-primary/25"
+                onClick={handleSubmit}
+                disabled={!input.trim() || isLoading || isUploading}
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
         <p className="text-[10px] text-center text-muted-foreground/60 mt-2">
@@ -1,7 +1,7 @@
-import { X, Save } from "lucide-react";
+import { X, Save, FileImage } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { MonacoEditor } from "@/components/MonacoEditor";
-import { FileNode } from "@/lib/file-system";
+import { FileNode, getFileSize, isBinaryFile } from "@/lib/file-system";
 import { cn } from "@/lib/utils";
 
 interface CodeEditorPanelProps {
@@ -19,6 +19,38 @@ function getFileName(fileId: string): string {
   return fileId.split("/").pop() || fileId;
 }
 
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  avif: "image/avif",
+};
+
+// Binary files are shown, not edited
+function BinaryFileView({ file }: { file: FileNode }) {
+  const imageType = IMAGE_TYPES[file.id.split(".").pop()?.toLowerCase() ?? ""];
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-3 p-4 text-muted-foreground">
+      {imageType ? (
+        <img
+          src={`data:${imageType};base64,${file.content || ""}`}
+          alt={file.name}
+          className="max-w-full max-h-[70%] object-contain rounded border border-border/50 bg-muted/30"
+        />
+      ) : (
+        <FileImage className="h-10 w-10" />
+      )}
+      <p className="text-xs">
+        {file.name} · binary · {Math.ceil(getFileSize(file) / 1024)} KB
+      </p>
+    </div>
+  );
+}
+
 export function CodeEditorPanel({
   file,
   openTabs,
@@ -73,7 +105,9 @@ export function CodeEditorPanel({
 
       {/* Editor Area */}
       <div className="flex-1 overflow-hidden">
-        {file ? (
+        {file && isBinaryFile(file) ? (
+          <BinaryFileView file={file} />
+        ) : file ? (
           <MonacoEditor
             value={file.content || ""}
             language={file.language || "typescript"}
@@ -10,6 +10,7 @@ import {
   CheckCircle,
   ChevronDown,
   ChevronUp,
+  ChevronRight,
   Copy
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -81,6 +82,16 @@ export function ConsolePanel({
   const scrollRef = useRef<HTMLDivElement>(null);
   const [filter, setFilter] = useState<LogLevel | "all">("all");
   const [autoScroll, setAutoScroll] = useState(true);
+  const [expandedLogs, setExpandedLogs] = useState<Set<string>>(new Set());
+
+  const toggleDetails = (id: string) => {
+    setExpandedLogs((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
 
   // Auto-scroll to bottom when new logs arrive
   useEffect(() => {
@@ -216,6 +227,7 @@ export function ConsolePanel({
             filteredLogs.map((log) => {
               const config = levelConfig[log.level];
               const Icon = config.icon;
+              const isExpanded = expandedLogs.has(log.id);
 
               return (
                 <div
@@ -237,9 +249,24 @@ export function ConsolePanel({
                     </Badge>
                   )}
 
-                  <span className={cn("flex-1 break-all", config.color)}>
-                    {log.message}
-                  </span>
+                  <div className="flex-1 min-w-0">
+                    <span
+                      className={cn("break-all", config.color, log.details && "cursor-pointer")}
+                      onClick={() => log.details && toggleDetails(log.id)}
+                    >
+                      {log.details && (
+                        <ChevronRight
+                          className={cn("inline h-3 w-3 mr-0.5 transition-transform", isExpanded && "rotate-90")}
+                        />
+                      )}
+                      {log.message}
+                    </span>
+                    {log.details && isExpanded && (
+                      <pre className="mt-1 whitespace-pre-wrap break-all text-muted-foreground">
+                        {log.details}
+                      </pre>
+                    )}
+                  </div>
 
                   <Button
                     variant="ghost"
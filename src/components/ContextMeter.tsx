@@ -0,0 +1,90 @@
+import { Gauge, Pin } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { ContextFileStatus, ContextUsage } from "@/lib/prompt-budget";
+import { TOKENIZER_NAMES } from "@/lib/tokenizers";
+
+interface ContextMeterProps {
+  usage: ContextUsage;
+}
+
+const STATUS_MARKERS: Record<ContextFileStatus, { marker: string; className: string }> = {
+  full: { marker: "✓", className: "text-green-500" },
+  summary: { marker: "◐", className: "text-yellow-500" },
+  omitted: { marker: "○", className: "text-muted-foreground" },
+  "on-demand": { marker: "↓", className: "text-blue-500" },
+};
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+
+export function ContextMeter({ usage }: ContextMeterProps) {
+  const percent = Math.min(100, (usage.totalTokens / usage.contextWindow) * 100);
+  const includedCount = usage.files.filter((f) => f.status === "full" || f.status === "summary").length;
+  const toolMode = usage.files.some((f) => f.status === "on-demand");
+  const hasPinned = usage.files.some((f) => f.pinned);
+
+  const breakdown = [
+    { label: "System prompt", tokens: usage.systemTokens },
+    ...(usage.instructionTokens > 0 ? [{ label: "Project instructions", tokens: usage.instructionTokens }] : []),
+    { label: "History", tokens: usage.historyTokens },
+    { label: "Request", tokens: usage.requestTokens },
+    { label: "Files", tokens: usage.contextTokens },
+    { label: "Reserved output", tokens: usage.reservedOutput },
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="flex w-full items-center gap-2 px-1 pb-2 text-[10px] text-muted-foreground hover:text-foreground transition-colors">
+          <Gauge className="h-3 w-3 shrink-0" />
+          <Progress value={percent} className={cn("h-1 flex-1", percent > 90 && "[&>div]:bg-destructive")} />
+          <span className="shrink-0 tabular-nums">
+            {formatTokens(usage.totalTokens)} / {formatTokens(usage.contextWindow)}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-3">
+        <div className="space-y-3 text-xs">
+          <div>
+            <p className="font-medium">Konteks AI</p>
+            <p className="text-muted-foreground">
+              {TOKENIZER_NAMES[usage.tokenizer]} · {includedCount} dari {usage.files.length} file
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            {breakdown.map((item) => (
+              <div key={item.label} className="flex justify-between">
+                <span className="text-muted-foreground">{item.label}</span>
+                <span className="tabular-nums">{formatTokens(item.tokens)}</span>
+              </div>
+            ))}
+          </div>
+
+          <ScrollArea className="h-48 rounded-md border border-border/50">
+            <div className="p-2 space-y-0.5 font-mono text-[11px]">
+              {usage.files.map((file) => (
+                <div key={file.path} className="flex items-center gap-2">
+                  <span className={STATUS_MARKERS[file.status].className}>{STATUS_MARKERS[file.status].marker}</span>
+                  <span className={cn("flex-1 truncate", file.status !== "full" && file.status !== "summary" && "text-muted-foreground")}>
+                    {file.path}
+                  </span>
+                  {file.pinned && <Pin className="h-2.5 w-2.5 shrink-0 text-primary" />}
+                  <span className="text-muted-foreground tabular-nums">{formatTokens(file.tokens)}</span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <p className="text-[10px] text-muted-foreground">
+            {toolMode
+              ? "✓ penuh · ↓ dibaca AI lewat read_file bila perlu"
+              : "✓ penuh · ◐ signature saja · ○ tidak disertakan"}
+            {hasPinned && " · pin: file pengetahuan proyek, selalu dikirim penuh"}
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -12,9 +12,11 @@ import {
 interface CreditBlockModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  balance?: number;
+  message?: string;
 }
 
-export function CreditBlockModal({ open, onOpenChange }: CreditBlockModalProps) {
+export function CreditBlockModal({ open, onOpenChange, balance = 0, message }: CreditBlockModalProps) {
   const handleContactTelegram = () => {
     window.open('https://t.me/your_telegram_handle', '_blank');
   };
@@ -37,7 +39,7 @@ export function CreditBlockModal({ open, onOpenChange }: CreditBlockModalProps)
             </div>
             <DialogTitle className="text-xl">Out of Credits</DialogTitle>
             <DialogDescription className="mt-2">
-              Your credit balance is $0. To continue using the AI features, please contact the owner to top up your account.
+              {message || `Your credit balance is $${balance.toFixed(2)}.`} To continue using the AI features, please contact the owner to top up your account.
             </DialogDescription>
           </motion.div>
         </DialogHeader>
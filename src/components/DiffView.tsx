@@ -1,22 +1,249 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { motion } from "framer-motion";
-import { diffLines, Change } from "diff";
-import { Check, X, FileCode, Plus, Minus, Edit3 } from "lucide-react";
+import {
+  Check,
+  X,
+  FileCode,
+  Plus,
+  Minus,
+  Edit3,
+  ArrowRight,
+  Pencil,
+  Rows3,
+  Columns2,
+  ChevronsUpDown,
+  GitMerge,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileChange } from "@/lib/file-system";
+import { Textarea } from "@/components/ui/textarea";
+import { FileChange, getFileSize } from "@/lib/file-system";
+import {
+  DiffContextSegment,
+  DiffHunkSegment,
+  DiffSegment,
+  applyHunkSelection,
+  computeDiffSegments,
+  countHunks,
+  splitLines,
+} from "@/lib/diff-hunks";
+import { hasConflictMarkers } from "@/lib/three-way-merge";
 import { cn } from "@/lib/utils";
 
+type DiffMode = "inline" | "split";
+
 interface DiffViewProps {
   changes: FileChange[];
-  onApply: () => void;
+  // Receives the accepted subset of the changes, with hunk decisions and
+  // edits applied. Without onApply the view is read-only and onDiscard
+  // closes it.
+  onApply?: (accepted: FileChange[]) => void;
   onDiscard: () => void;
+  title?: string;
+}
+
+// Review state of one file
+interface FileReview {
+  // The change's newContent this review was started from
+  source: string;
+  included: boolean;
+  // Proposed content, replaced when the user edits it
+  proposed: string;
+  rejectedHunks: number[];
+}
+
+// Unchanged lines shown around each hunk before the rest is collapsed
+const CONTEXT_LINES = 3;
+
+const createReview = (change: FileChange): FileReview => ({
+  source: change.newContent,
+  included: true,
+  proposed: change.newContent,
+  rejectedHunks: [],
+});
+
+const isBinaryChange = (change: FileChange) => change.attributes?.encoding === "base64";
+
+const formatBinarySize = (content: string) => `${Math.ceil(getFileSize({ content, encoding: "base64" }) / 1024)} KB`;
+
+// Hunks only make sense when both sides have text content
+const hasHunks = (change: FileChange) =>
+  (change.type === "modify" || change.type === "rename") && !isBinaryChange(change);
+
+const resolveContent = (change: FileChange, review: FileReview) => {
+  if (!hasHunks(change) || review.rejectedHunks.length === 0) return review.proposed;
+  return applyHunkSelection(computeDiffSegments(change.oldContent, review.proposed), new Set(review.rejectedHunks));
+};
+
+// The accepted subset of the changes, skipping edits with every hunk rejected
+const resolveAcceptedChanges = (changes: FileChange[], getReview: (change: FileChange) => FileReview) =>
+  changes.flatMap((change) => {
+    const review = getReview(change);
+    if (!review.included) return [];
+
+    const newContent = resolveContent(change, review);
+    // Same content with new attributes (a mode change) still applies
+    if (change.type === "modify" && newContent === change.oldContent && !change.attributes) return [];
+    return [{ ...change, newContent }];
+  });
+
+// Included merge results that still contain conflict markers
+const isUnresolved = (change: FileChange, review: FileReview) =>
+  !!change.conflict && review.included && hasConflictMarkers(resolveContent(change, review));
+
+function LineNumber({ value }: { value?: number }) {
+  return <span className="select-none w-9 shrink-0 text-right pr-2 opacity-40">{value ?? ""}</span>;
+}
+
+function ContextLines({ segment, isFirst, isLast, mode }: {
+  segment: DiffContextSegment;
+  isFirst: boolean;
+  isLast: boolean;
+  mode: DiffMode;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const lines = splitLines(segment.value);
+
+  const head = isFirst ? 0 : CONTEXT_LINES;
+  const tail = isLast ? 0 : CONTEXT_LINES;
+  const hidden = expanded ? 0 : lines.length - head - tail;
+
+  const renderLine = (line: string, offset: number) => {
+    const oldLine = segment.oldStart + offset;
+    const newLine = segment.newStart + offset;
+
+    if (mode === "split") {
+      return (
+        <div key={offset} className="grid grid-cols-2 text-muted-foreground">
+          <div className="flex border-r border-border/50">
+            <LineNumber value={oldLine} />
+            <span className="whitespace-pre">{line}</span>
+          </div>
+          <div className="flex">
+            <LineNumber value={newLine} />
+            <span className="whitespace-pre">{line}</span>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={offset} className="flex text-muted-foreground">
+        <LineNumber value={oldLine} />
+        <LineNumber value={newLine} />
+        <span className="select-none w-4 shrink-0" />
+        <span className="whitespace-pre">{line}</span>
+      </div>
+    );
+  };
+
+  if (hidden <= 1) {
+    return <div className="border-l-2 border-l-transparent">{lines.map(renderLine)}</div>;
+  }
+
+  return (
+    <div className="border-l-2 border-l-transparent">
+      {lines.slice(0, head).map((line, i) => renderLine(line, i))}
+      <button
+        type="button"
+        className="w-full flex items-center gap-2 px-3 py-1 bg-muted/30 text-muted-foreground hover:bg-muted/60"
+        onClick={() => setExpanded(true)}
+      >
+        <ChevronsUpDown className="h-3 w-3" />
+        {hidden} unchanged lines
+      </button>
+      {lines.slice(lines.length - tail).map((line, i) => renderLine(line, lines.length - tail + i))}
+    </div>
+  );
 }
 
-function DiffBlock({ change }: { change: FileChange }) {
-  const diff = useMemo(() => {
-    return diffLines(change.oldContent, change.newContent);
-  }, [change.oldContent, change.newContent]);
+function HunkLines({ segment, mode, rejected }: { segment: DiffHunkSegment; mode: DiffMode; rejected: boolean }) {
+  const removed = splitLines(segment.oldValue);
+  const added = splitLines(segment.newValue);
+
+  if (mode === "split") {
+    const rows = Math.max(removed.length, added.length);
+    return (
+      <div className={cn(rejected && "opacity-40")}>
+        {Array.from({ length: rows }, (_, i) => (
+          <div key={i} className="grid grid-cols-2">
+            <div
+              className={cn(
+                "flex border-r border-border/50",
+                i < removed.length && "bg-red-500/10 text-red-300"
+              )}
+            >
+              <LineNumber value={i < removed.length ? segment.oldStart + i : undefined} />
+              <span className="whitespace-pre">{removed[i] ?? ""}</span>
+            </div>
+            <div className={cn("flex", i < added.length && "bg-green-500/10 text-green-300")}>
+              <LineNumber value={i < added.length ? segment.newStart + i : undefined} />
+              <span className="whitespace-pre">{added[i] ?? ""}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn(rejected && "opacity-40")}>
+      {removed.map((line, i) => (
+        <div key={`-${i}`} className="flex bg-red-500/10 border-l-2 border-l-red-500 text-red-300">
+          <LineNumber value={segment.oldStart + i} />
+          <LineNumber />
+          <span className="select-none w-4 shrink-0">-</span>
+          <span className="whitespace-pre">{line}</span>
+        </div>
+      ))}
+      {added.map((line, i) => (
+        <div key={`+${i}`} className="flex bg-green-500/10 border-l-2 border-l-green-500 text-green-300">
+          <LineNumber />
+          <LineNumber value={segment.newStart + i} />
+          <span className="select-none w-4 shrink-0">+</span>
+          <span className="whitespace-pre">{line}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DiffBlock({
+  change,
+  review,
+  mode,
+  readOnly,
+  onReviewChange,
+}: {
+  change: FileChange;
+  review: FileReview;
+  mode: DiffMode;
+  readOnly: boolean;
+  onReviewChange: (review: FileReview) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const segments = useMemo<DiffSegment[]>(() => {
+    return computeDiffSegments(change.oldContent, review.proposed);
+  }, [change.oldContent, review.proposed]);
+
+  const hunkCount = countHunks(segments);
+  const reviewHunks = !readOnly && hasHunks(change) && hunkCount > 1;
+  const acceptedHunks = hunkCount - review.rejectedHunks.length;
+
+  const toggleHunk = (index: number) => {
+    const rejectedHunks = review.rejectedHunks.includes(index)
+      ? review.rejectedHunks.filter((i) => i !== index)
+      : [...review.rejectedHunks, index];
+    onReviewChange({ ...review, rejectedHunks });
+  };
+
+  // Edits replace the proposal, so hunk decisions are folded into the draft
+  const startEditing = () => setDraft(resolveContent(change, review));
+  const saveDraft = () => {
+    onReviewChange({ ...review, proposed: draft ?? review.proposed, rejectedHunks: [] });
+    setDraft(null);
+  };
 
   const getTypeIcon = () => {
     switch (change.type) {
@@ -24,6 +251,8 @@ function DiffBlock({ change }: { change: FileChange }) {
         return <Plus className="h-3.5 w-3.5 text-green-400" />;
       case "delete":
         return <Minus className="h-3.5 w-3.5 text-red-400" />;
+      case "rename":
+        return <ArrowRight className="h-3.5 w-3.5 text-blue-400" />;
       default:
         return <Edit3 className="h-3.5 w-3.5 text-amber-400" />;
     }
@@ -35,6 +264,8 @@ function DiffBlock({ change }: { change: FileChange }) {
         return "bg-green-500/20 text-green-400";
       case "delete":
         return "bg-red-500/20 text-red-400";
+      case "rename":
+        return "bg-blue-500/20 text-blue-400";
       default:
         return "bg-amber-500/20 text-amber-400";
     }
@@ -44,11 +275,33 @@ function DiffBlock({ change }: { change: FileChange }) {
     <motion.div
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
-      className="rounded-lg border border-border bg-card overflow-hidden"
+      className={cn(
+        "rounded-lg border border-border bg-card overflow-hidden",
+        !review.included && "opacity-60"
+      )}
     >
       <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 border-b border-border">
         <FileCode className="h-4 w-4 text-muted-foreground" />
-        <span className="text-sm font-medium flex-1">{change.fileName}</span>
+        <span className={cn("text-sm font-medium flex-1", !review.included && "line-through")}>
+          {change.type === "rename" && change.previousFileId ? `${change.previousFileId} → ${change.fileId}` : change.fileName}
+        </span>
+        {reviewHunks && review.included && (
+          <span className="text-xs text-muted-foreground">
+            {acceptedHunks}/{hunkCount} hunks
+          </span>
+        )}
+        {change.conflict && (
+          <span
+            className={cn(
+              "text-xs px-2 py-0.5 rounded-full font-medium flex items-center gap-1",
+              isUnresolved(change, review) ? "bg-red-500/20 text-red-400" : "bg-muted text-muted-foreground"
+            )}
+            title={isUnresolved(change, review) ? "Edit the file to resolve the conflict markers, or reject it" : undefined}
+          >
+            <GitMerge className="h-3.5 w-3.5" />
+            conflict
+          </span>
+        )}
         <span
           className={cn(
             "text-xs px-2 py-0.5 rounded-full font-medium flex items-center gap-1",
@@ -58,38 +311,117 @@ function DiffBlock({ change }: { change: FileChange }) {
           {getTypeIcon()}
           {change.type}
         </span>
-      </div>
-      <div className="font-mono text-xs overflow-x-auto">
-        {diff.map((part, index) => (
-          <div
-            key={index}
-            className={cn(
-              "px-3 py-0.5 border-l-2",
-              part.added && "bg-green-500/10 border-l-green-500 text-green-300",
-              part.removed && "bg-red-500/10 border-l-red-500 text-red-300",
-              !part.added && !part.removed && "border-l-transparent text-muted-foreground"
+        {!readOnly && (
+          <>
+            {change.type !== "delete" && !isBinaryChange(change) && review.included && draft === null && (
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={startEditing}>
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
             )}
-          >
-            {part.value.split("\n").map((line, lineIndex) => (
-              <div key={lineIndex} className="flex">
-                <span className="select-none w-5 text-right mr-3 opacity-50">
-                  {part.added ? "+" : part.removed ? "-" : " "}
-                </span>
-                <span className="whitespace-pre">{line}</span>
-              </div>
-            ))}
-          </div>
-        ))}
+            <Button
+              variant={review.included ? "ghost" : "outline"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onReviewChange({ ...review, included: !review.included })}
+            >
+              {review.included ? (
+                <>
+                  <X className="h-3.5 w-3.5 mr-1" />
+                  Reject file
+                </>
+              ) : (
+                <>
+                  <Check className="h-3.5 w-3.5 mr-1" />
+                  Accept file
+                </>
+              )}
+            </Button>
+          </>
+        )}
       </div>
+
+      {draft !== null ? (
+        <div className="p-2 space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="font-mono text-xs min-h-[240px]"
+            spellCheck={false}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={saveDraft}>
+              Save edit
+            </Button>
+          </div>
+        </div>
+      ) : review.included && isBinaryChange(change) ? (
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          Binary file
+          {change.type !== "create" && ` · ${formatBinarySize(change.oldContent)} before`}
+          {change.type !== "delete" && ` · ${formatBinarySize(change.newContent)} after`}
+        </p>
+      ) : review.included ? (
+        <div className="font-mono text-xs overflow-x-auto py-1">
+          {segments.map((segment, index) =>
+            segment.type === "context" ? (
+              <ContextLines
+                key={`c${index}`}
+                segment={segment}
+                isFirst={index === 0}
+                isLast={index === segments.length - 1}
+                mode={mode}
+              />
+            ) : (
+              <div key={`h${segment.index}`}>
+                {reviewHunks && (
+                  <div className="flex items-center gap-2 px-3 py-0.5 bg-muted/30 text-muted-foreground">
+                    <span className="flex-1">
+                      @@ -{segment.oldStart} +{segment.newStart} @@
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1.5 text-[11px]"
+                      onClick={() => toggleHunk(segment.index)}
+                    >
+                      {review.rejectedHunks.includes(segment.index) ? "Accept hunk" : "Reject hunk"}
+                    </Button>
+                  </div>
+                )}
+                <HunkLines
+                  segment={segment}
+                  mode={mode}
+                  rejected={review.rejectedHunks.includes(segment.index)}
+                />
+              </div>
+            )
+          )}
+        </div>
+      ) : null}
     </motion.div>
   );
 }
 
-export function DiffView({ changes, onApply, onDiscard }: DiffViewProps) {
+export function DiffView({ changes, onApply, onDiscard, title = "Review Changes" }: DiffViewProps) {
+  const [mode, setMode] = useState<DiffMode>("inline");
+  const [reviews, setReviews] = useState<Record<string, FileReview>>({});
+
+  // A change replaced by a newer proposal starts a fresh review
+  const getReview = (change: FileChange) => {
+    const review = reviews[change.fileId];
+    return review && review.source === change.newContent ? review : createReview(change);
+  };
+
   if (changes.length === 0) {
     return null;
   }
 
+  const accepted = onApply ? resolveAcceptedChanges(changes, getReview) : [];
+  const unresolved = onApply ? changes.filter((change) => isUnresolved(change, getReview(change))).length : 0;
+
   return (
     <motion.div
       initial={{ opacity: 0, scale: 0.95 }}
@@ -97,29 +429,70 @@ export function DiffView({ changes, onApply, onDiscard }: DiffViewProps) {
       exit={{ opacity: 0, scale: 0.95 }}
       className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm p-4"
     >
-      <div className="w-full max-w-4xl max-h-[80vh] bg-card rounded-xl border border-border shadow-2xl flex flex-col overflow-hidden">
+      <div
+        className={cn(
+          "w-full max-h-[80vh] bg-card rounded-xl border border-border shadow-2xl flex flex-col overflow-hidden",
+          mode === "split" ? "max-w-6xl" : "max-w-4xl"
+        )}
+      >
         <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-muted/30">
           <div>
-            <h2 className="text-lg font-semibold">Review Changes</h2>
+            <h2 className="text-lg font-semibold">{title}</h2>
             <p className="text-sm text-muted-foreground">
               {changes.length} file{changes.length !== 1 ? "s" : ""} modified
+              {onApply && accepted.length !== changes.length && `, ${accepted.length} accepted`}
+              {unresolved > 0 && `, ${unresolved} conflict${unresolved !== 1 ? "s" : ""} to resolve`}
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <div className="flex items-center bg-muted/50 rounded-lg p-0.5">
+              <Button
+                variant={mode === "inline" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 px-2 text-xs gap-1"
+                onClick={() => setMode("inline")}
+              >
+                <Rows3 className="h-3.5 w-3.5" />
+                Inline
+              </Button>
+              <Button
+                variant={mode === "split" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 px-2 text-xs gap-1"
+                onClick={() => setMode("split")}
+              >
+                <Columns2 className="h-3.5 w-3.5" />
+                Side by side
+              </Button>
+            </div>
             <Button variant="outline" size="sm" onClick={onDiscard}>
               <X className="h-4 w-4 mr-1.5" />
-              Discard
-            </Button>
-            <Button size="sm" onClick={onApply} className="glow-primary">
-              <Check className="h-4 w-4 mr-1.5" />
-              Apply Changes
+              {onApply ? "Discard" : "Close"}
             </Button>
+            {onApply && (
+              <Button
+                size="sm"
+                onClick={() => onApply(accepted)}
+                disabled={accepted.length === 0 || unresolved > 0}
+                className="glow-primary"
+              >
+                <Check className="h-4 w-4 mr-1.5" />
+                {accepted.length === changes.length ? "Apply Changes" : `Apply ${accepted.length} of ${changes.length}`}
+              </Button>
+            )}
           </div>
         </div>
         <ScrollArea className="flex-1 p-4">
           <div className="space-y-4">
             {changes.map((change) => (
-              <DiffBlock key={change.fileId} change={change} />
+              <DiffBlock
+                key={change.fileId}
+                change={change}
+                review={getReview(change)}
+                mode={mode}
+                readOnly={!onApply}
+                onReviewChange={(review) => setReviews((prev) => ({ ...prev, [change.fileId]: review }))}
+              />
             ))}
           </div>
         </ScrollArea>
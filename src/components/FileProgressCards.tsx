@@ -0,0 +1,61 @@
+import { Check, FileCode, FilePen, FileX, Loader2, Play, PauseCircle, ArrowRightLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { EditDirective, StreamBlock } from "@/lib/stream-parser";
+
+interface FileProgressCardsProps {
+  blocks: StreamBlock[];
+  // Shown on the draft card when the response can be continued
+  onResume?: () => void;
+}
+
+const DIRECTIVE_ICONS: Record<EditDirective, typeof FileCode> = {
+  FILE: FileCode,
+  PATCH: FilePen,
+  DELETE: FileX,
+  RENAME: ArrowRightLeft,
+};
+
+const describeBlock = (block: StreamBlock) => {
+  if (block.directive === "DELETE") return "dihapus";
+  if (block.directive === "RENAME") return "diganti nama";
+  if (block.status === "draft") return `draf · ${block.lineCount} baris`;
+  if (block.status === "writing") return `menulis · ${block.lineCount} baris`;
+  return `${block.lineCount} baris`;
+};
+
+export function FileProgressCards({ blocks, onResume }: FileProgressCardsProps) {
+  if (blocks.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-1.5">
+      {blocks.map((block, index) => {
+        const Icon = DIRECTIVE_ICONS[block.directive];
+        return (
+          <div
+            key={`${block.filePath}-${index}`}
+            className={cn(
+              "flex items-center gap-2 rounded-lg border px-2.5 py-1.5 text-xs",
+              block.status === "draft" ? "border-yellow-500/40 bg-yellow-500/5" : "border-border/50 bg-muted/30"
+            )}
+          >
+            <Icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="flex-1 truncate font-mono">{block.filePath}</span>
+            <span className="shrink-0 text-[10px] text-muted-foreground">{describeBlock(block)}</span>
+            {block.status === "writing" && <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-primary" />}
+            {block.status === "done" && <Check className="h-3.5 w-3.5 shrink-0 text-green-500" />}
+            {block.status === "draft" &&
+              (onResume ? (
+                <Button size="sm" variant="outline" className="h-6 gap-1 px-2 text-[10px]" onClick={onResume}>
+                  <Play className="h-3 w-3" />
+                  Lanjutkan
+                </Button>
+              ) : (
+                <PauseCircle className="h-3.5 w-3.5 shrink-0 text-yellow-500" />
+              ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
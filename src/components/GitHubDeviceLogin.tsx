@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, Copy, ExternalLink, Github, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { invokeFunction } from "@/lib/edge-functions";
+
+interface DeviceCode {
+  userCode: string;
+  verificationUri: string;
+  expiresIn: number;
+  interval: number;
+}
+
+type PollResult =
+  | { status: "pending" | "slow_down"; interval: number }
+  | { status: "expired" | "denied" }
+  | { status: "connected"; user: { login: string; avatar_url: string }; scope: "user" | "project" };
+
+interface GitHubDeviceLoginProps {
+  // Connect an account for this project only instead of for the user
+  projectId?: string;
+  scope?: "user" | "project";
+  label?: string;
+  onConnected: () => void;
+  onCancel?: () => void;
+}
+
+// Sign in with the GitHub device flow: the user enters a short code on
+// github.com while this polls the github-sync function, which keeps the
+// device code and the resulting token on the server
+export function GitHubDeviceLogin({
+  projectId,
+  scope = "user",
+  label = "Sign in with GitHub",
+  onConnected,
+  onCancel,
+}: GitHubDeviceLoginProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState<DeviceCode | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopPolling = () => {
+    if (pollRef.current) clearTimeout(pollRef.current);
+    pollRef.current = null;
+  };
+
+  useEffect(() => stopPolling, []);
+
+  const poll = (interval: number) => {
+    pollRef.current = setTimeout(async () => {
+      try {
+        const result = await invokeFunction<PollResult>("github-sync", { action: "device-poll", projectId });
+        if (result.status === "pending" || result.status === "slow_down") {
+          poll(result.interval);
+          return;
+        }
+
+        setCode(null);
+        if (result.status === "connected") {
+          toast({ title: "Connected!", description: `Signed in to GitHub as ${result.user.login}` });
+          onConnected();
+        } else {
+          toast({
+            title: result.status === "denied" ? "Access denied" : "Code expired",
+            description: result.status === "denied" ? "GitHub access was not granted" : "Start the sign-in again",
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        setCode(null);
+        toast({
+          title: "Connection failed",
+          description: error instanceof Error ? error.message : "Failed to connect to GitHub",
+          variant: "destructive",
+        });
+      }
+    }, interval * 1000);
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      const next = await invokeFunction<DeviceCode>("github-sync", { action: "device-start", projectId, scope });
+      setCode(next);
+      setCopied(false);
+      poll(next.interval);
+    } catch (error) {
+      toast({
+        title: "Connection failed",
+        description: error instanceof Error ? error.message : "Failed to start GitHub sign-in",
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    stopPolling();
+    setCode(null);
+    onCancel?.();
+  };
+
+  const handleCopy = async () => {
+    if (!code) return;
+    await navigator.clipboard.writeText(code.userCode);
+    setCopied(true);
+  };
+
+  if (!code) {
+    return (
+      <Button onClick={handleStart} disabled={starting} className="w-full">
+        {starting ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Github className="h-4 w-4 mr-2" />}
+        {label}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-primary/30 bg-primary/5 text-center">
+      <p className="text-xs text-muted-foreground">Enter this code on GitHub to authorize access:</p>
+      <div className="flex items-center justify-center gap-2">
+        <code className="text-2xl font-mono font-semibold tracking-widest">{code.userCode}</code>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+        </Button>
+      </div>
+      <Button asChild variant="outline" className="w-full">
+        <a href={code.verificationUri} target="_blank" rel="noopener noreferrer">
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open {code.verificationUri.replace(/^https?:\/\//, "")}
+        </a>
+      </Button>
+      <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+        <RefreshCw className="h-3 w-3 animate-spin" />
+        Waiting for authorization...
+        <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={handleCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
-import { useState, useEffect, useCallback, useRef } from "react";
-import { Github, Link, Unlink, GitBranch, Upload, Download, RefreshCw, Check, ExternalLink, FolderGit2, Settings, Zap, ZapOff, Clock } from "lucide-react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { Github, Link, Unlink, GitBranch, GitMerge, GitPullRequest, Upload, Download, RefreshCw, Check, ExternalLink, FolderGit2, Plus, Zap, ZapOff, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
   DialogContent,
@@ -22,9 +23,33 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToastAction } from "@/components/ui/toast";
+import { GitHubDeviceLogin } from "@/components/GitHubDeviceLogin";
+import { GitRemoteConnect } from "@/components/GitRemoteConnect";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuthContext } from "@/contexts/AuthContext";
+import { EdgeFunctionError, invokeFunction } from "@/lib/edge-functions";
+import { FileChange, FileNode } from "@/lib/file-system";
+import {
+  describePendingPushes,
+  EMPTY_SYNC_STATE,
+  fetchRecentPushes,
+  fetchRemoteConfig,
+  fetchSyncState,
+  GitHubBranch,
+  GitHubPush,
+  GitRemoteInfo,
+  GitRemoteProvider,
+  GitSyncState,
+  mergeRemoteChanges,
+  pendingPushes,
+  PullResult,
+  REMOTE_PROVIDER_LABELS,
+  remoteWebUrl,
+  saveSyncState,
+  subscribeToPushes,
+} from "@/lib/github-sync";
 
 interface Repository {
   id: number;
@@ -39,16 +64,42 @@ interface GitHubConnection {
   connected: boolean;
   username?: string;
   avatar_url?: string;
-  repo?: Repository;
+  // "project" when this project is connected with its own account
+  scope?: "user" | "project";
+  provider?: "github" | GitRemoteProvider;
+}
+
+// Pulled changes handed to the editor for review. onApplied runs once the
+// user applies them, which makes the pulled commit the new sync base.
+export interface GitHubMerge {
+  title: string;
+  changes: FileChange[];
+  onApplied: () => void;
 }
 
 interface GitHubIntegrationProps {
   projectId: string;
-  files: any[];
-  onImportFiles?: (files: any[]) => void;
+  files: FileNode[];
+  // Returns false when the merge cannot be reviewed right now
+  onMerge?: (merge: GitHubMerge) => boolean;
+}
+
+interface PushResult {
+  commitSha: string;
+  branch: string;
+  changed: number;
+  deleted: number;
+  // The branch holds exactly the project's files. Until a push or pull gets
+  // there, pushes only add and update files.
+  complete: boolean;
 }
 
-export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubIntegrationProps) {
+const describePush = (result: PushResult) =>
+  result.changed + result.deleted === 0
+    ? `${result.branch} already has these files`
+    : `${result.changed} file(s) updated${result.deleted > 0 ? `, ${result.deleted} deleted` : ""} on ${result.branch}`;
+
+export function GitHubIntegration({ projectId, files, onMerge }: GitHubIntegrationProps) {
   const { toast } = useToast();
   const { user } = useAuthContext();
   const [open, setOpen] = useState(false);
@@ -57,30 +108,198 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [selectedRepo, setSelectedRepo] = useState<string>("");
   const [commitMessage, setCommitMessage] = useState("");
-  const [personalToken, setPersonalToken] = useState("");
-  const [showToken, setShowToken] = useState(false);
+  const [connectProjectAccount, setConnectProjectAccount] = useState(false);
+
+  // GitLab, Gitea or a plain git server used instead of GitHub
+  const [remote, setRemote] = useState<GitRemoteInfo | null>(null);
+  const [showRemoteConnect, setShowRemoteConnect] = useState(false);
+
+  // Branch the project tracks and the commit it last synced with
+  const [syncState, setSyncState] = useState<GitSyncState>(EMPTY_SYNC_STATE);
+  const [branches, setBranches] = useState<GitHubBranch[]>([]);
+  const [defaultBranch, setDefaultBranch] = useState("");
+  const [newBranchName, setNewBranchName] = useState("");
+  const [showCreateBranch, setShowCreateBranch] = useState(false);
+
+  // Push to a new branch and open a pull request
+  const [showPullRequest, setShowPullRequest] = useState(false);
+  const [prBranch, setPrBranch] = useState("");
+  const [prTitle, setPrTitle] = useState("");
+  const [prBody, setPrBody] = useState("");
   
   // Auto-sync state
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [syncStatus, setSyncStatus] = useState<"idle" | "syncing" | "success" | "error">("idle");
+  const [syncError, setSyncError] = useState<string | null>(null);
   const lastFilesRef = useRef<string>("");
   const autoSyncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const autoSyncRef = useRef<() => void>(() => {});
+
+  // Pushes made on GitHub, recorded by the github-webhook function
+  const [pushes, setPushes] = useState<GitHubPush[]>([]);
+  const watchedRepoRef = useRef<string | null>(null);
+  const notifiedShaRef = useRef<string | null>(null);
+  const pullRef = useRef<() => void>(() => {});
 
   // New repo creation state
   const [newRepoName, setNewRepoName] = useState("");
   const [newRepoPrivate, setNewRepoPrivate] = useState(true);
   const [showCreateRepo, setShowCreateRepo] = useState(false);
 
+  // Every call names the project so the server can use its own connection
+  const callGitHub = useCallback(
+    <T,>(body: Record<string, unknown>) => invokeFunction<T>("github-sync", { ...body, projectId }),
+    [projectId]
+  );
+
+  const fetchBranches = useCallback(
+    async (repo: string) => {
+      try {
+        const result = await callGitHub<{ defaultBranch: string; branches: GitHubBranch[] }>({
+          action: "branches",
+          repo,
+        });
+        setBranches(result.branches);
+        setDefaultBranch(result.defaultBranch);
+      } catch (error) {
+        console.error("Error fetching branches:", error);
+        setBranches([]);
+      }
+    },
+    [callGitHub]
+  );
+
+  const fetchRepositories = useCallback(async () => {
+    try {
+      const { repositories } = await callGitHub<{ repositories: Repository[] }>({
+        action: "repos",
+      });
+      setRepositories(repositories);
+    } catch (error) {
+      console.error("Error fetching repositories:", error);
+    }
+  }, [callGitHub]);
+
+  const loadGitHubConnection = useCallback(async () => {
+    try {
+      const status = await callGitHub<GitHubConnection>({ action: "status" });
+      setConnection(status);
+      if (status.connected && status.provider === "github") {
+        await fetchRepositories();
+      }
+    } catch (error) {
+      console.error("Error loading GitHub connection:", error);
+      setConnection({ connected: false });
+    }
+  }, [callGitHub, fetchRepositories]);
+
+  const loadProjectLink = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("projects")
+      .select("github_repo, github_auto_sync")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Failed to load GitHub link:", error);
+      return;
+    }
+
+    // Loaded before the repository is set, so pushes are never compared
+    // against an empty sync state
+    let state = EMPTY_SYNC_STATE;
+    let remoteConfig: GitRemoteInfo | null = null;
+    try {
+      [state, remoteConfig] = await Promise.all([fetchSyncState(projectId), fetchRemoteConfig(projectId)]);
+    } catch (error) {
+      console.error("Failed to load GitHub sync state:", error);
+    }
+
+    setSyncState(state);
+    setRemote(remoteConfig);
+    setSelectedRepo(remoteConfig?.repo || data?.github_repo || "");
+    setAutoSyncEnabled(data?.github_auto_sync ?? false);
+  }, [projectId]);
+
+  // The linked repository is stored per project
+  useEffect(() => {
+    if (user && projectId) {
+      loadProjectLink();
+    }
+  }, [user, projectId, loadProjectLink]);
+
   useEffect(() => {
     if (open && user) {
       loadGitHubConnection();
     }
-  }, [open, user]);
+  }, [open, user, loadGitHubConnection]);
+
+  useEffect(() => {
+    if (open && connection.connected && selectedRepo) {
+      fetchBranches(selectedRepo);
+    }
+  }, [open, connection.connected, selectedRepo, fetchBranches]);
+
+  // Have GitHub report pushes to the linked repository, once per repository
+  useEffect(() => {
+    if (!open || !connection.connected || remote || !selectedRepo || watchedRepoRef.current === selectedRepo) return;
+    watchedRepoRef.current = selectedRepo;
+    callGitHub<{ webhook: boolean }>({ action: "watch", repo: selectedRepo })
+      .then(({ webhook }) => {
+        if (!webhook) console.warn(`No push webhook on ${selectedRepo}; new commits show up on pull only`);
+      })
+      .catch((error) => console.error("Failed to watch repository:", error));
+  }, [open, connection.connected, remote, selectedRepo, callGitHub]);
+
+  useEffect(() => {
+    setPushes([]);
+    if (!user || !projectId || !selectedRepo) return;
+
+    let cancelled = false;
+    fetchRecentPushes(projectId)
+      .then((recent) => {
+        // Keep pushes that arrived over realtime while loading
+        if (!cancelled) setPushes((prev) => [...recent, ...prev.filter((p) => !recent.some((r) => r.id === p.id))]);
+      })
+      .catch((error) => console.error("Failed to load GitHub pushes:", error));
+    const unsubscribe = subscribeToPushes(projectId, (push) =>
+      setPushes((prev) => (prev.some((p) => p.id === push.id) ? prev : [...prev, push]))
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user, projectId, selectedRepo]);
+
+  const pending = useMemo(
+    () => (selectedRepo && !remote ? pendingPushes(pushes, selectedRepo, syncState) : []),
+    [pushes, remote, selectedRepo, syncState]
+  );
+
+  // Offer to merge new commits once each. Waits for our own push or pull to
+  // finish, whose webhook may arrive before its result.
+  useEffect(() => {
+    const latest = pending[pending.length - 1];
+    if (!latest || latest.afterSha === notifiedShaRef.current || loading || syncStatus === "syncing") return;
+    notifiedShaRef.current = latest.afterSha;
+    toast({
+      title: `${describePendingPushes(pending)} — merge?`,
+      description: latest.pusher ? `Pushed to ${latest.repo} by ${latest.pusher}` : `Pushed to ${latest.repo}`,
+      action: (
+        <ToastAction altText="Merge the new commits" onClick={() => pullRef.current()}>
+          Merge
+        </ToastAction>
+      ),
+    });
+  }, [pending, loading, syncStatus, toast]);
+
+  const currentBranch = syncState.branch || defaultBranch;
 
   // Auto-sync effect - detect file changes
   useEffect(() => {
-    if (!autoSyncEnabled || !selectedRepo || !personalToken) return;
+    if (!autoSyncEnabled || !selectedRepo || syncState.autoSyncPaused) return;
 
     const currentFilesHash = JSON.stringify(files);
     
@@ -91,7 +310,7 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
       }
       
       autoSyncTimeoutRef.current = setTimeout(() => {
-        performAutoSync();
+        autoSyncRef.current();
       }, 3000); // 3 second debounce
     }
     
@@ -102,194 +321,126 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
         clearTimeout(autoSyncTimeoutRef.current);
       }
     };
-  }, [files, autoSyncEnabled, selectedRepo, personalToken]);
+  }, [files, autoSyncEnabled, selectedRepo, syncState.autoSyncPaused]);
 
   const performAutoSync = async () => {
-    if (!selectedRepo || !personalToken) return;
+    if (!selectedRepo || syncState.autoSyncPaused) return;
 
     setSyncStatus("syncing");
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-sync`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          action: "push",
-          token: personalToken,
-          repo: selectedRepo,
-          message: `Auto-sync: ${new Date().toLocaleString()}`,
-          files: files,
-        }),
+      const result = await callGitHub<PushResult>({
+        action: "push",
+        repo: selectedRepo,
+        message: `Auto-sync: ${new Date().toLocaleString()}`,
+        files: files,
+        branch: syncState.branch,
+        expectedSha: syncState.syncedSha,
       });
 
-      if (!response.ok) {
-        throw new Error("Auto-sync failed");
-      }
-
+      if (result.complete) await updateSyncState({ ...syncState, syncedSha: result.commitSha });
       setLastSyncTime(new Date());
       setSyncStatus("success");
+      setSyncError(null);
       
       setTimeout(() => setSyncStatus("idle"), 2000);
     } catch (error) {
       console.error("Auto-sync error:", error);
+      // The branch moved on: auto-sync stays paused until the user pulls
+      if (error instanceof EdgeFunctionError && error.status === 409) {
+        await updateSyncState({ ...syncState, autoSyncPaused: true });
+      }
       setSyncStatus("error");
+      setSyncError(error instanceof Error ? error.message : "Auto-sync failed");
       setTimeout(() => setSyncStatus("idle"), 3000);
     }
   };
 
-  const loadGitHubConnection = async () => {
-    try {
-      const { data } = await supabase
-        .from("api_keys")
-        .select("*")
-        .eq("key_name", "github_token")
-        .maybeSingle();
-
-      if (data) {
-        setPersonalToken(data.key_value);
-        await fetchUserInfo(data.key_value);
-      }
-
-      // Load saved repo preference
-      const { data: repoData } = await supabase
-        .from("api_keys")
-        .select("*")
-        .eq("key_name", "github_selected_repo")
-        .maybeSingle();
-
-      if (repoData) {
-        setSelectedRepo(repoData.key_value);
-      }
+  // The debounced auto-sync pushes the files of the latest render
+  autoSyncRef.current = performAutoSync;
 
-      // Load auto-sync preference
-      const { data: autoSyncData } = await supabase
-        .from("api_keys")
-        .select("*")
-        .eq("key_name", "github_auto_sync")
-        .maybeSingle();
+  const saveProjectLink = async (updates: { github_repo?: string | null; github_auto_sync?: boolean }) => {
+    if (!projectId) return;
 
-      if (autoSyncData) {
-        setAutoSyncEnabled(autoSyncData.key_value === "true");
-      }
-    } catch (error) {
-      console.error("Error loading GitHub connection:", error);
-    }
+    const { error } = await supabase.from("projects").update(updates).eq("id", projectId);
+    if (error) console.error("Failed to save GitHub link:", error);
   };
 
-  const fetchUserInfo = async (token: string) => {
+  const updateSyncState = async (next: GitSyncState) => {
+    setSyncState(next);
+    if (!projectId) return;
     try {
-      const response = await fetch("https://api.github.com/user", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          Accept: "application/vnd.github.v3+json",
-        },
-      });
-
-      if (response.ok) {
-        const userData = await response.json();
-        setConnection({
-          connected: true,
-          username: userData.login,
-          avatar_url: userData.avatar_url,
-        });
-        await fetchRepositories(token);
-      } else {
-        setConnection({ connected: false });
-      }
+      await saveSyncState(projectId, next);
     } catch (error) {
-      console.error("Error fetching user info:", error);
-      setConnection({ connected: false });
+      console.error("Failed to save GitHub sync state:", error);
     }
   };
 
-  const fetchRepositories = async (token: string) => {
+  const handleConnected = async () => {
+    setConnectProjectAccount(false);
+    await loadGitHubConnection();
+  };
+
+  const handleDisconnect = async () => {
     try {
-      const response = await fetch("https://api.github.com/user/repos?per_page=100&sort=updated", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          Accept: "application/vnd.github.v3+json",
-        },
+      await callGitHub({ action: "disconnect", scope: "user" });
+      await saveProjectLink({ github_repo: null, github_auto_sync: false });
+      setConnection({ connected: false });
+      setRepositories([]);
+      setSelectedRepo("");
+      setAutoSyncEnabled(false);
+      await updateSyncState(EMPTY_SYNC_STATE);
+      toast({
+        title: "Disconnected",
+        description: "GitHub account has been disconnected",
       });
-
-      if (response.ok) {
-        const repos = await response.json();
-        setRepositories(repos);
-      }
     } catch (error) {
-      console.error("Error fetching repositories:", error);
-    }
-  };
-
-  const handleConnect = async () => {
-    if (!personalToken.trim()) {
       toast({
         title: "Error",
-        description: "Please enter your GitHub Personal Access Token",
+        description: "Failed to disconnect",
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    setLoading(true);
-    try {
-      const response = await fetch("https://api.github.com/user", {
-        headers: {
-          Authorization: `Bearer ${personalToken}`,
-          Accept: "application/vnd.github.v3+json",
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("Invalid token or unauthorized");
-      }
-
-      const userData = await response.json();
-
-      const { error } = await supabase.from("api_keys").upsert({
-        key_name: "github_token",
-        key_value: personalToken,
-      }, { onConflict: "key_name" });
-
-      if (error) throw error;
-
-      setConnection({
-        connected: true,
-        username: userData.login,
-        avatar_url: userData.avatar_url,
-      });
-
-      await fetchRepositories(personalToken);
+  // The project's sync base belongs to the previous repository
+  const handleRemoteConnected = async (next: GitRemoteInfo) => {
+    setShowRemoteConnect(false);
+    setRemote(next);
+    setSelectedRepo(next.repo);
+    await updateSyncState(EMPTY_SYNC_STATE);
+    await loadGitHubConnection();
+  };
 
+  const handleRemoteDisconnect = async () => {
+    if (!remote) return;
+    try {
+      await callGitHub({ action: "remote-disconnect" });
+      setAutoSyncEnabled(false);
+      await saveProjectLink({ github_auto_sync: false });
+      await updateSyncState(EMPTY_SYNC_STATE);
+      await loadProjectLink();
+      await loadGitHubConnection();
       toast({
-        title: "Connected!",
-        description: `Successfully connected as ${userData.login}`,
+        title: "Disconnected",
+        description: `${REMOTE_PROVIDER_LABELS[remote.provider]} has been disconnected from this project`,
       });
     } catch (error) {
       toast({
-        title: "Connection failed",
-        description: error instanceof Error ? error.message : "Failed to connect to GitHub",
+        title: "Error",
+        description: "Failed to disconnect",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const handleDisconnect = async () => {
+  // Go back to the user's own account; the linked repository stays
+  const handleRemoveProjectAccount = async () => {
     try {
-      await supabase.from("api_keys").delete().eq("key_name", "github_token");
-      await supabase.from("api_keys").delete().eq("key_name", "github_selected_repo");
-      await supabase.from("api_keys").delete().eq("key_name", "github_auto_sync");
-      setConnection({ connected: false });
-      setPersonalToken("");
-      setRepositories([]);
-      setSelectedRepo("");
-      setAutoSyncEnabled(false);
+      await callGitHub({ action: "disconnect", scope: "project" });
+      await loadGitHubConnection();
       toast({
         title: "Disconnected",
-        description: "GitHub account has been disconnected",
+        description: "This project now uses your GitHub account",
       });
     } catch (error) {
       toast({
@@ -301,22 +452,57 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
   };
 
   const handleRepoSelect = async (repoFullName: string) => {
+    if (repoFullName === selectedRepo) return;
     setSelectedRepo(repoFullName);
+    setBranches([]);
+    setDefaultBranch("");
     
-    // Save selection
-    await supabase.from("api_keys").upsert({
-      key_name: "github_selected_repo",
-      key_value: repoFullName,
-    }, { onConflict: "key_name" });
+    // Save selection; a different repository starts without a sync base
+    await saveProjectLink({ github_repo: repoFullName });
+    await updateSyncState(EMPTY_SYNC_STATE);
+  };
+
+  // The synced commit is kept: it is still the merge base when the other
+  // branch shares its history, and pushes stay refused until that is pulled
+  const handleBranchSelect = async (branch: string) => {
+    await updateSyncState({ ...syncState, branch: branch === defaultBranch ? null : branch });
+  };
+
+  const handleCreateBranch = async () => {
+    const name = newBranchName.trim();
+    if (!selectedRepo || !name) return;
+
+    setLoading(true);
+    try {
+      const { branch } = await callGitHub<{ branch: GitHubBranch }>({
+        action: "create-branch",
+        repo: selectedRepo,
+        branch: name,
+        from: currentBranch || undefined,
+      });
+      setBranches((prev) => [...prev, branch]);
+      await handleBranchSelect(branch.name);
+      setShowCreateBranch(false);
+      setNewBranchName("");
+      toast({
+        title: "Branch created",
+        description: `${branch.name} was created from ${currentBranch}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create branch",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleAutoSyncToggle = async (enabled: boolean) => {
     setAutoSyncEnabled(enabled);
     
-    await supabase.from("api_keys").upsert({
-      key_name: "github_auto_sync",
-      key_value: enabled.toString(),
-    }, { onConflict: "key_name" });
+    await saveProjectLink({ github_auto_sync: enabled });
 
     toast({
       title: enabled ? "Auto-sync enabled" : "Auto-sync disabled",
@@ -338,30 +524,22 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
 
     setLoading(true);
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-sync`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          action: "push",
-          token: personalToken,
-          repo: selectedRepo,
-          message: commitMessage,
-          files: files,
-        }),
+      const result = await callGitHub<PushResult>({
+        action: "push",
+        repo: selectedRepo,
+        message: commitMessage,
+        files: files,
+        branch: syncState.branch,
+        expectedSha: syncState.syncedSha,
       });
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || "Failed to push to GitHub");
-      }
-
+      if (result.complete) await updateSyncState({ ...syncState, syncedSha: result.commitSha });
+      setSyncError(null);
       toast({
         title: "Push successful!",
-        description: `Changes pushed to ${selectedRepo}`,
+        description: result.complete
+          ? `${describePush(result)}.`
+          : `${describePush(result)}. The branch has files this project does not; pull them in so deletions can be pushed too.`,
       });
       setCommitMessage("");
       setLastSyncTime(new Date());
@@ -388,32 +566,50 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
 
     setLoading(true);
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-sync`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          action: "pull",
-          token: personalToken,
-          repo: selectedRepo,
-        }),
+      const result = await callGitHub<PullResult>({
+        action: "pull",
+        repo: selectedRepo,
+        branch: syncState.branch,
+        baseSha: syncState.syncedSha,
       });
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || "Failed to pull from GitHub");
+      const merge = mergeRemoteChanges(files, result.changes);
+      const markSynced = () => {
+        updateSyncState({ ...syncState, syncedSha: result.commitSha, autoSyncPaused: false });
+        setSyncError(null);
+      };
+      const skipped = merge.skipped.length > 0 ? ` ${merge.skipped.length} large file(s) were skipped.` : "";
+
+      if (merge.changes.length === 0) {
+        markSynced();
+        toast({
+          title: "Already up to date",
+          description: `${result.branch} @ ${result.commitSha.slice(0, 7)} has no changes to merge.${skipped}`,
+        });
+        return;
       }
 
-      if (onImportFiles && result.files) {
-        onImportFiles(result.files);
+      const started = onMerge?.({
+        title: `Merge ${selectedRepo}:${result.branch} @ ${result.commitSha.slice(0, 7)}`,
+        changes: merge.changes,
+        onApplied: markSynced,
+      });
+      if (!started) {
+        toast({
+          title: "Pull not applied",
+          description: "Apply or discard the pending changes first, then pull again",
+          variant: "destructive",
+        });
+        return;
       }
 
+      setOpen(false);
       toast({
-        title: "Pull successful!",
-        description: `Pulled ${result.files?.length || 0} files from ${selectedRepo}`,
+        title: merge.conflicts.length > 0 ? "Merge has conflicts" : "Review the merge",
+        description:
+          merge.conflicts.length > 0
+            ? `${merge.conflicts.length} file(s) changed on both sides. Resolve them in the review before applying.${skipped}`
+            : `${merge.changes.length} file(s) changed on ${result.branch}.${skipped}`,
       });
     } catch (error) {
       toast({
@@ -426,6 +622,54 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
     }
   };
 
+  // The toast's Merge button pulls with the files of the latest render
+  pullRef.current = handlePull;
+
+  const handleOpenPullRequest = async () => {
+    const branch = prBranch.trim();
+    if (!selectedRepo || !branch || !prTitle.trim()) return;
+
+    setLoading(true);
+    try {
+      const result = await callGitHub<PushResult & { pullRequest: { number: number; html_url: string } }>({
+        action: "pull-request",
+        repo: selectedRepo,
+        message: commitMessage.trim() || prTitle.trim(),
+        files: files,
+        branch,
+        base: currentBranch || undefined,
+        // Cut the branch from the commit the project is based on, so the
+        // pull request only shows the project's own changes
+        baseSha: syncState.syncedSha,
+        title: prTitle.trim(),
+        body: prBody,
+      });
+
+      setShowPullRequest(false);
+      setPrBranch("");
+      setPrTitle("");
+      setPrBody("");
+      setCommitMessage("");
+      fetchBranches(selectedRepo);
+      toast({
+        title: `Pull request #${result.pullRequest.number} opened`,
+        description: (
+          <a href={result.pullRequest.html_url} target="_blank" rel="noopener noreferrer" className="underline">
+            {result.pullRequest.html_url}
+          </a>
+        ),
+      });
+    } catch (error) {
+      toast({
+        title: "Pull request failed",
+        description: error instanceof Error ? error.message : "Failed to open pull request",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleCreateRepo = async () => {
     if (!newRepoName.trim()) {
       toast({
@@ -438,28 +682,14 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
 
     setLoading(true);
     try {
-      const response = await fetch("https://api.github.com/user/repos", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${personalToken}`,
-          Accept: "application/vnd.github.v3+json",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          name: newRepoName,
-          private: newRepoPrivate,
-          auto_init: true,
-          description: `Created from QuinYukie AI - ${projectId}`,
-        }),
+      const { repository: newRepo } = await callGitHub<{ repository: Repository }>({
+        action: "create-repo",
+        name: newRepoName,
+        private: newRepoPrivate,
+        description: `Created from QuinYukie AI - ${projectId}`,
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to create repository");
-      }
-
-      const newRepo = await response.json();
-      await fetchRepositories(personalToken);
+      await fetchRepositories();
       handleRepoSelect(newRepo.full_name);
       setShowCreateRepo(false);
       setNewRepoName("");
@@ -474,20 +704,13 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
         if (files.length > 0) {
           setLoading(true);
           try {
-            await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-sync`, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-              },
-              body: JSON.stringify({
-                action: "push",
-                token: personalToken,
-                repo: newRepo.full_name,
-                message: "Initial commit from QuinYukie AI",
-                files: files,
-              }),
+            const result = await callGitHub<PushResult>({
+              action: "push",
+              repo: newRepo.full_name,
+              message: "Initial commit from QuinYukie AI",
+              files: files,
             });
+            await updateSyncState({ ...EMPTY_SYNC_STATE, syncedSha: result.complete ? result.commitSha : null });
             toast({
               title: "Initial push complete!",
               description: "Your code has been pushed to the new repository",
@@ -538,6 +761,15 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
               {getSyncStatusIcon()}
             </Badge>
           )}
+          {pending.length > 0 && (
+            <Badge
+              variant="secondary"
+              className="h-5 px-1.5 text-[10px] bg-blue-500/20 text-blue-400 border-blue-500/30"
+              title={describePendingPushes(pending)}
+            >
+              <GitMerge className="h-3 w-3" />
+            </Badge>
+          )}
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-lg">
@@ -563,53 +795,23 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
               </p>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="github-token">Personal Access Token</Label>
-              <div className="relative">
-                <Input
-                  id="github-token"
-                  type={showToken ? "text" : "password"}
-                  placeholder="ghp_..."
-                  value={personalToken}
-                  onChange={(e) => setPersonalToken(e.target.value)}
-                  className="pr-20"
-                />
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-1 top-1/2 -translate-y-1/2 h-7 text-xs"
-                  onClick={() => setShowToken(!showToken)}
-                >
-                  {showToken ? "Hide" : "Show"}
-                </Button>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Create a token at{" "}
-                <a
-                  href="https://github.com/settings/tokens/new?scopes=repo"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  github.com/settings/tokens
-                </a>
-                {" "}with <code className="bg-muted px-1 rounded">repo</code> scope.
-              </p>
-            </div>
-
-            <Button 
-              onClick={handleConnect} 
-              disabled={loading || !personalToken.trim()}
-              className="w-full"
-            >
-              {loading ? (
-                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-              ) : (
-                <Link className="h-4 w-4 mr-2" />
-              )}
-              Connect to GitHub
-            </Button>
+            <GitHubDeviceLogin projectId={projectId} onConnected={handleConnected} />
+            <p className="text-xs text-muted-foreground text-center">
+              You will be asked to enter a code on github.com. No token needs to be copied.
+            </p>
+
+            {showRemoteConnect ? (
+              <GitRemoteConnect
+                projectId={projectId}
+                onConnected={handleRemoteConnected}
+                onCancel={() => setShowRemoteConnect(false)}
+              />
+            ) : (
+              <Button variant="ghost" size="sm" className="w-full text-xs gap-2" onClick={() => setShowRemoteConnect(true)}>
+                <FolderGit2 className="h-3.5 w-3.5" />
+                Use GitLab, Gitea or another Git server
+              </Button>
+            )}
           </div>
         ) : (
           <Tabs defaultValue="sync" className="w-full">
@@ -631,7 +833,9 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
                 )}
                 <div className="flex-1">
                   <p className="font-medium text-sm">{connection.username}</p>
-                  <p className="text-xs text-muted-foreground">Connected to GitHub</p>
+                  <p className="text-xs text-muted-foreground">
+                    Connected to {remote ? REMOTE_PROVIDER_LABELS[remote.provider] : "GitHub"}
+                  </p>
                 </div>
                 <Badge variant="secondary" className="bg-green-500/10 text-green-500">
                   <Check className="h-3 w-3 mr-1" />
@@ -640,7 +844,15 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
               </div>
 
               {/* Repository Selection or Create */}
-              {showCreateRepo ? (
+              {remote ? (
+                <div className="space-y-2">
+                  <Label>Repository</Label>
+                  <div className="p-3 rounded-lg bg-muted/50 border border-border/50">
+                    <p className="text-sm font-medium">{remote.repo}</p>
+                    <p className="text-xs text-muted-foreground truncate">{remote.url}</p>
+                  </div>
+                </div>
+              ) : showCreateRepo ? (
                 <div className="space-y-3 p-4 rounded-lg border border-primary/30 bg-primary/5">
                   <div className="flex items-center justify-between">
                     <Label className="text-sm font-medium">Create New Repository</Label>
@@ -721,6 +933,83 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
                 </div>
               )}
 
+              {/* Branch */}
+              {selectedRepo && !showCreateRepo && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Branch</Label>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs gap-1"
+                      onClick={() => setShowCreateBranch(!showCreateBranch)}
+                      disabled={loading || !currentBranch}
+                    >
+                      <Plus className="h-3 w-3" />
+                      New Branch
+                    </Button>
+                  </div>
+                  {showCreateBranch ? (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="feature/my-change"
+                        value={newBranchName}
+                        onChange={(e) => setNewBranchName(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleCreateBranch()}
+                      />
+                      <Button onClick={handleCreateBranch} disabled={loading || !newBranchName.trim()}>
+                        Create
+                      </Button>
+                    </div>
+                  ) : (
+                    <Select value={currentBranch} onValueChange={handleBranchSelect}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Loading branches..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <ScrollArea className="max-h-[200px]">
+                          {branches.map((branch) => (
+                            <SelectItem key={branch.name} value={branch.name}>
+                              <div className="flex items-center gap-2">
+                                <GitBranch className="h-3 w-3" />
+                                <span>{branch.name}</span>
+                                {branch.name === defaultBranch && (
+                                  <Badge variant="outline" className="text-[10px] h-4">
+                                    default
+                                  </Badge>
+                                )}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </ScrollArea>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <p className="text-[11px] text-muted-foreground">
+                    {syncState.syncedSha
+                      ? `Synced with ${syncState.syncedSha.slice(0, 7)}. Pull merges newer commits into your files.`
+                      : "Not synced yet. The first pull compares every file with the branch."}
+                  </p>
+                </div>
+              )}
+
+              {syncError && (
+                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                  <p className="text-xs text-yellow-500">{syncError}</p>
+                </div>
+              )}
+
+              {/* New commits reported by the push webhook */}
+              {pending.length > 0 && (
+                <div className="flex items-center gap-3 p-3 rounded-lg border border-blue-500/30 bg-blue-500/5">
+                  <GitMerge className="h-4 w-4 text-blue-400 shrink-0" />
+                  <p className="flex-1 text-xs">{describePendingPushes(pending)}</p>
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handlePull} disabled={loading}>
+                    Merge
+                  </Button>
+                </div>
+              )}
+
               {/* Commit Message */}
               <div className="space-y-2">
                 <Label htmlFor="commit-msg">Commit Message</Label>
@@ -761,15 +1050,73 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
                 </Button>
               </div>
 
-              {selectedRepo && (
+              {/* Push to a new branch and open a pull request */}
+              {selectedRepo && remote?.provider !== "git" && (
+                showPullRequest ? (
+                  <div className="space-y-3 p-4 rounded-lg border border-primary/30 bg-primary/5">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-medium">Open Pull Request into {currentBranch}</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 text-xs"
+                        onClick={() => setShowPullRequest(false)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                    <Input
+                      placeholder="New branch, e.g. quine/landing-page"
+                      value={prBranch}
+                      onChange={(e) => setPrBranch(e.target.value)}
+                    />
+                    <Input
+                      placeholder="Pull request title"
+                      value={prTitle}
+                      onChange={(e) => setPrTitle(e.target.value)}
+                    />
+                    <Textarea
+                      placeholder="Describe the changes (optional)"
+                      value={prBody}
+                      onChange={(e) => setPrBody(e.target.value)}
+                      className="min-h-[80px] text-sm"
+                    />
+                    <Button
+                      onClick={handleOpenPullRequest}
+                      disabled={loading || !prBranch.trim() || !prTitle.trim() || !currentBranch}
+                      className="w-full"
+                    >
+                      {loading ? (
+                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <GitPullRequest className="h-4 w-4 mr-2" />
+                      )}
+                      Push & Open Pull Request
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full text-xs gap-2"
+                    onClick={() => setShowPullRequest(true)}
+                    disabled={loading}
+                  >
+                    <GitPullRequest className="h-3.5 w-3.5" />
+                    Push to a new branch and open a pull request
+                  </Button>
+                )
+              )}
+
+              {selectedRepo && (!remote || remoteWebUrl(remote)) && (
                 <a
-                  href={`https://github.com/${selectedRepo}`}
+                  href={remote ? remoteWebUrl(remote)! : `https://github.com/${selectedRepo}`}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center justify-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
                 >
                   <ExternalLink className="h-3 w-3" />
-                  View on GitHub
+                  View on {remote ? REMOTE_PROVIDER_LABELS[remote.provider] : "GitHub"}
                 </a>
               )}
             </TabsContent>
@@ -822,7 +1169,7 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
                       <span className="text-sm">Status</span>
                     </div>
                     <Badge variant="outline" className="text-xs capitalize">
-                      {syncStatus}
+                      {syncState.autoSyncPaused && syncStatus === "idle" ? "paused" : syncStatus}
                     </Badge>
                   </div>
 
@@ -832,63 +1179,126 @@ export function GitHubIntegration({ projectId, files, onImportFiles }: GitHubInt
                       <span className="text-sm">Repository</span>
                     </div>
                     <span className="text-sm text-muted-foreground truncate max-w-[150px]">
-                      {selectedRepo}
+                      {selectedRepo}{currentBranch && `:${currentBranch}`}
                     </span>
                   </div>
+
+                  {syncState.autoSyncPaused ? (
+                    <p className="text-xs text-yellow-500">
+                      Auto-sync is paused: {currentBranch || "the branch"} has new commits. It resumes after you pull
+                      from the Sync tab.
+                    </p>
+                  ) : (
+                    syncStatus !== "syncing" &&
+                    syncError && <p className="text-xs text-yellow-500">{syncError}</p>
+                  )}
                 </div>
               )}
             </TabsContent>
 
             <TabsContent value="settings" className="space-y-4 mt-4">
-              <div className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-3">
-                <h4 className="font-medium text-sm">Account</h4>
-                <div className="flex items-center gap-3">
-                  {connection.avatar_url && (
-                    <img
-                      src={connection.avatar_url}
-                      alt={connection.username}
-                      className="h-12 w-12 rounded-full"
-                    />
-                  )}
-                  <div>
-                    <p className="font-medium">{connection.username}</p>
+              {remote ? (
+                <>
+                  <div className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-2">
+                    <h4 className="font-medium text-sm">{REMOTE_PROVIDER_LABELS[remote.provider]}</h4>
+                    <p className="text-sm font-medium">{remote.repo}</p>
+                    <p className="text-xs text-muted-foreground break-all">{remote.url}</p>
+                    {remote.username && <p className="text-xs text-muted-foreground">Signed in as {remote.username}</p>}
+                  </div>
+
+                  <Button variant="destructive" onClick={handleRemoteDisconnect} className="w-full">
+                    <Unlink className="h-4 w-4 mr-2" />
+                    Disconnect {REMOTE_PROVIDER_LABELS[remote.provider]}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <div className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-3">
+                    <h4 className="font-medium text-sm">Account</h4>
+                    <div className="flex items-center gap-3">
+                      {connection.avatar_url && (
+                        <img
+                          src={connection.avatar_url}
+                          alt={connection.username}
+                          className="h-12 w-12 rounded-full"
+                        />
+                      )}
+                      <div>
+                        <p className="font-medium">{connection.username}</p>
+                        <a
+                          href={`https://github.com/${connection.username}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-primary hover:underline"
+                        >
+                          View Profile
+                        </a>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-3">
+                    <h4 className="font-medium text-sm">This Project</h4>
+                    {connection.scope === "project" ? (
+                      <>
+                        <p className="text-xs text-muted-foreground">
+                          This project uses its own GitHub connection ({connection.username}).
+                        </p>
+                        <Button variant="outline" size="sm" onClick={handleRemoveProjectAccount} className="w-full">
+                          <Unlink className="h-4 w-4 mr-2" />
+                          Use my account again
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-xs text-muted-foreground">
+                          This project uses your GitHub account. Connect another account for this project only, for example
+                          an organization's.
+                        </p>
+                        {connectProjectAccount ? (
+                          <GitHubDeviceLogin
+                            projectId={projectId}
+                            scope="project"
+                            label="Sign in for this project"
+                            onConnected={handleConnected}
+                            onCancel={() => setConnectProjectAccount(false)}
+                          />
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => setConnectProjectAccount(true)} className="w-full">
+                            <Link className="h-4 w-4 mr-2" />
+                            Use a different account for this project
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </div>
+
+                  <div className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-2">
+                    <h4 className="font-medium text-sm">Access</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Access is granted to the QuinYukie app and can be reviewed or revoked on GitHub.
+                    </p>
                     <a
-                      href={`https://github.com/${connection.username}`}
+                      href="https://github.com/settings/applications"
                       target="_blank"
                       rel="noopener noreferrer"
-                      className="text-xs text-primary hover:underline"
+                      className="text-xs text-primary hover:underline inline-flex items-center gap-1"
                     >
-                      View Profile
+                      Manage Applications
+                      <ExternalLink className="h-3 w-3" />
                     </a>
                   </div>
-                </div>
-              </div>
 
-              <div className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-2">
-                <h4 className="font-medium text-sm">Token Permissions</h4>
-                <p className="text-xs text-muted-foreground">
-                  Your token has access to repositories. To change permissions, 
-                  generate a new token on GitHub.
-                </p>
-                <a
-                  href="https://github.com/settings/tokens"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-xs text-primary hover:underline inline-flex items-center gap-1"
-                >
-                  Manage Tokens
-                  <ExternalLink className="h-3 w-3" />
-                </a>
-              </div>
-
-              <Button
-                variant="destructive"
-                onClick={handleDisconnect}
-                className="w-full"
-              >
-                <Unlink className="h-4 w-4 mr-2" />
-                Disconnect GitHub
-              </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handleDisconnect}
+                    className="w-full"
+                  >
+                    <Unlink className="h-4 w-4 mr-2" />
+                    Disconnect GitHub
+                  </Button>
+                </>
+              )}
             </TabsContent>
           </Tabs>
         )}
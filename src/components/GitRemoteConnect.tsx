@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { FolderGit2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { invokeFunction } from "@/lib/edge-functions";
+import { GitRemoteInfo, GitRemoteProvider, REMOTE_PROVIDER_LABELS } from "@/lib/github-sync";
+
+interface GitRemoteConnectProps {
+  projectId: string;
+  onConnected: (remote: GitRemoteInfo) => void;
+  onCancel: () => void;
+}
+
+const URL_PLACEHOLDERS: Record<GitRemoteProvider, string> = {
+  gitlab: "https://gitlab.example.com",
+  gitea: "https://gitea.example.com",
+  git: "https://git.example.com/team/app.git",
+};
+
+// Connect a project to GitLab, Gitea or a plain git server instead of GitHub.
+// github-sync checks the credentials against the server and stores them
+// encrypted; they never come back to the browser.
+export function GitRemoteConnect({ projectId, onConnected, onCancel }: GitRemoteConnectProps) {
+  const { toast } = useToast();
+  const [provider, setProvider] = useState<GitRemoteProvider>("gitlab");
+  const [url, setUrl] = useState("");
+  const [repo, setRepo] = useState("");
+  const [username, setUsername] = useState("");
+  const [token, setToken] = useState("");
+  const [connecting, setConnecting] = useState(false);
+
+  const isPlainGit = provider === "git";
+  const canConnect = url.trim() && token && (isPlainGit || repo.trim());
+
+  const handleConnect = async () => {
+    setConnecting(true);
+    try {
+      const status = await invokeFunction<{ remote: { url: string; repo: string } }>("github-sync", {
+        action: "remote-connect",
+        projectId,
+        provider,
+        url: url.trim(),
+        repo: repo.trim(),
+        username: isPlainGit ? username.trim() : "",
+        token,
+      });
+      setToken("");
+      toast({
+        title: "Connected!",
+        description: `${status.remote.repo} on ${REMOTE_PROVIDER_LABELS[provider]} is linked to this project`,
+      });
+      onConnected({ provider, url: status.remote.url, repo: status.remote.repo, username: username.trim() || null });
+    } catch (error) {
+      toast({
+        title: "Connection failed",
+        description: error instanceof Error ? error.message : "Failed to connect to the server",
+        variant: "destructive",
+      });
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-primary/30 bg-primary/5">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Other Git Server</Label>
+        <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+
+      <Select value={provider} onValueChange={(value) => setProvider(value as GitRemoteProvider)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(REMOTE_PROVIDER_LABELS) as GitRemoteProvider[]).map((id) => (
+            <SelectItem key={id} value={id}>
+              {REMOTE_PROVIDER_LABELS[id]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input placeholder={URL_PLACEHOLDERS[provider]} value={url} onChange={(e) => setUrl(e.target.value)} />
+      {isPlainGit ? (
+        <Input placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} />
+      ) : (
+        <Input placeholder="group/project" value={repo} onChange={(e) => setRepo(e.target.value)} />
+      )}
+      <Input
+        type="password"
+        placeholder={isPlainGit ? "Password or access token" : "Access token"}
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+      />
+      <p className="text-xs text-muted-foreground">
+        {isPlainGit
+          ? "Any server that serves git over HTTPS. Pull requests are not available."
+          : `A ${REMOTE_PROVIDER_LABELS[provider]} access token with read and write access to the repository.`}
+      </p>
+
+      <Button onClick={handleConnect} disabled={connecting || !canConnect} className="w-full">
+        {connecting ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <FolderGit2 className="h-4 w-4 mr-2" />}
+        Connect
+      </Button>
+    </div>
+  );
+}
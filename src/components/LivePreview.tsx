@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react";
+import { MutableRefObject, useEffect, useMemo, useState } from "react";
 import {
   SandpackProvider,
   SandpackPreview,
@@ -6,12 +6,88 @@ import {
   useSandpack,
 } from "@codesandbox/sandpack-react";
 import { Monitor, Terminal, AlertCircle, CheckCircle2 } from "lucide-react";
-import { FileNode, getAllFiles } from "@/lib/file-system";
+import { FileNode, getAllFiles, isBinaryFile } from "@/lib/file-system";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { CapturePreviewFn, capturePreview, withCaptureBridge } from "@/lib/preview-capture";
+
+export interface PreviewError {
+  message: string;
+  path?: string;
+  line?: number;
+  column?: number;
+}
+
+export type PreviewEvent =
+  | { type: "compiling" }
+  | { type: "ready" }
+  | { type: "error"; error: PreviewError };
 
 interface LivePreviewProps {
   files: FileNode[];
+  onPreviewEvent?: (event: PreviewEvent) => void;
+  // Set while the preview runs; captures it at a device width
+  captureRef?: MutableRefObject<CapturePreviewFn | null>;
+}
+
+const ENTRY = "/src/index.tsx";
+
+const DEPENDENCIES = {
+  "lucide-react": "latest",
+  "framer-motion": "latest",
+  "react": "^18.2.0",
+  "react-dom": "^18.2.0",
+  "clsx": "latest",
+  "tailwind-merge": "latest",
+};
+
+function PreviewCaptureBridge({ captureRef }: { captureRef: MutableRefObject<CapturePreviewFn | null> }) {
+  const { sandpack } = useSandpack();
+  const { clients } = sandpack;
+
+  useEffect(() => {
+    captureRef.current = (device) => {
+      const client = Object.values(clients)[0];
+      if (!client?.iframe) return Promise.reject(new Error("The preview is not running"));
+      return capturePreview(client.iframe, device);
+    };
+    return () => {
+      captureRef.current = null;
+    };
+  }, [captureRef, clients]);
+
+  return null;
+}
+
+// Forward bundler lifecycle, compile/runtime errors and console.error calls
+function PreviewEventReporter({ onPreviewEvent }: { onPreviewEvent: (event: PreviewEvent) => void }) {
+  const { listen } = useSandpack();
+
+  useEffect(() => {
+    return listen((message) => {
+      if (message.type === "start") {
+        onPreviewEvent({ type: "compiling" });
+      } else if (message.type === "done") {
+        onPreviewEvent({ type: "ready" });
+      } else if (message.type === "action" && message.action === "show-error") {
+        onPreviewEvent({
+          type: "error",
+          error: {
+            message: message.title ? `${message.title}: ${message.message}` : message.message,
+            path: message.path?.replace(/^\//, ""),
+            line: message.line,
+            column: message.column,
+          },
+        });
+      } else if (message.type === "console") {
+        message.log
+          .filter((entry) => entry.method === "error")
+          .forEach((entry) => onPreviewEvent({ type: "error", error: { message: entry.data.join(" ") } }));
+      }
+    });
+  }, [listen, onPreviewEvent]);
+
+  return null;
 }
 
 // Status indicator component
@@ -87,9 +163,10 @@ function PreviewContent() {
   );
 }
 
-export function LivePreview({ files }: LivePreviewProps) {
+export function LivePreview({ files, onPreviewEvent, captureRef }: LivePreviewProps) {
   const sandpackFiles = useMemo(() => {
-    const allFiles = getAllFiles(files);
+    // Sandpack files are text, so binary assets stay out of the preview
+    const allFiles = getAllFiles(files).filter((file) => !isBinaryFile(file));
     
     if (allFiles.length === 0) return null;
 
@@ -156,7 +233,14 @@ body {
     return fileMap;
   }, [files]);
 
-  if (!sandpackFiles) {
+  const setup = useMemo(() => {
+    if (!sandpackFiles) return null;
+    if (!captureRef) return { files: sandpackFiles, entry: ENTRY, dependencies: DEPENDENCIES };
+    const bridged = withCaptureBridge(sandpackFiles, ENTRY);
+    return { ...bridged, dependencies: { ...DEPENDENCIES, ...bridged.dependencies } };
+  }, [sandpackFiles, captureRef]);
+
+  if (!setup) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-center p-8 bg-background">
         <div className="h-20 w-20 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center mb-6 border border-primary/20">
@@ -205,17 +289,10 @@ body {
             lineHeight: "1.6",
           },
         }}
-        files={sandpackFiles}
+        files={setup.files}
         customSetup={{
-          entry: "/src/index.tsx",
-          dependencies: {
-            "lucide-react": "latest",
-            "framer-motion": "latest",
-            "react": "^18.2.0",
-            "react-dom": "^18.2.0",
-            "clsx": "latest",
-            "tailwind-merge": "latest",
-          },
+          entry: setup.entry,
+          dependencies: setup.dependencies,
         }}
         options={{
           externalResources: [
@@ -227,6 +304,8 @@ body {
           autoReload: true,
         }}
       >
+        {onPreviewEvent && <PreviewEventReporter onPreviewEvent={onPreviewEvent} />}
+        {captureRef && <PreviewCaptureBridge captureRef={captureRef} />}
         <PreviewContent />
       </SandpackProvider>
     </div>
@@ -9,7 +9,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { AI_MODELS, AIModel, getLovableModels, getCustomModels } from "@/lib/ai-config";
+import { AI_MODELS, AI_PROVIDERS, getLovableModels, getCustomModels } from "@/lib/ai-config";
 import { cn } from "@/lib/utils";
 
 interface ModelSelectorProps {
@@ -23,7 +23,7 @@ const getModelIcon = (modelId: string) => {
   if (modelId.includes("pro") || modelId.includes("gpt-5")) {
     return <Crown className="h-3.5 w-3.5 text-amber-500" />;
   }
-  if (modelId.includes("flash") || modelId.includes("mini")) {
+  if (modelId.includes("flash") || modelId.includes("mini") || modelId.includes("instant")) {
     return <Zap className="h-3.5 w-3.5 text-blue-500" />;
   }
   return <Cpu className="h-3.5 w-3.5 text-muted-foreground" />;
@@ -32,6 +32,11 @@ const getModelIcon = (modelId: string) => {
 export function ModelSelector({ value, onValueChange, disabled, className }: ModelSelectorProps) {
   const lovableModels = getLovableModels();
   const customModels = getCustomModels();
+  // One group per bring-your-own-key provider, in registry order
+  const customGroups = AI_PROVIDERS.map((provider) => ({
+    provider,
+    models: customModels.filter((m) => m.provider === provider.id),
+  })).filter((group) => group.models.length > 0);
   const selectedModel = AI_MODELS.find((m) => m.id === value);
 
   return (
@@ -70,25 +75,27 @@ export function ModelSelector({ value, onValueChange, disabled, className }: Mod
           ))}
         </SelectGroup>
 
-        <SelectGroup>
-          <SelectLabel className="flex items-center gap-2 text-muted-foreground mt-2">
-            <Cpu className="h-3.5 w-3.5" />
-            Custom API Keys
-          </SelectLabel>
-          {customModels.map((model) => (
-            <SelectItem key={model.id} value={model.id} className="py-2">
-              <div className="flex items-center gap-2">
-                {getModelIcon(model.id)}
-                <div className="flex flex-col">
-                  <span className="text-sm font-medium">
-                    {model.name.replace(" (Custom Key)", "")}
-                  </span>
-                  <span className="text-xs text-muted-foreground">{model.description}</span>
+        {customGroups.map(({ provider, models }) => (
+          <SelectGroup key={provider.id}>
+            <SelectLabel className="flex items-center gap-2 text-muted-foreground mt-2">
+              <Cpu className="h-3.5 w-3.5" />
+              {provider.name} (API Key)
+            </SelectLabel>
+            {models.map((model) => (
+              <SelectItem key={model.id} value={model.id} className="py-2">
+                <div className="flex items-center gap-2">
+                  {getModelIcon(model.id)}
+                  <div className="flex flex-col">
+                    <span className="text-sm font-medium">
+                      {model.name.replace(" (Custom Key)", "")}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{model.description}</span>
+                  </div>
                 </div>
-              </div>
-            </SelectItem>
-          ))}
-        </SelectGroup>
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
       </SelectContent>
     </Select>
   );
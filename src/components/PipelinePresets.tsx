@@ -0,0 +1,430 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Workflow, Save, Loader2, Edit, Trash2, Plus, Star, Copy, ArrowUp, ArrowDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ModelSelector } from '@/components/ModelSelector';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_PIPELINE_STAGES,
+  PipelinePreset,
+  PipelinePresetInput,
+  PipelineStage,
+  STAGE_LANGUAGES,
+  createStage,
+  deletePipelinePreset,
+  fetchPipelinePresets,
+  savePipelinePreset,
+  setDefaultPipeline,
+  validatePipeline,
+} from '@/lib/pipelines';
+
+const emptyForm = (): PipelinePresetInput => ({
+  slug: '',
+  name: '',
+  description: '',
+  stages: [createStage()],
+  enabled: true,
+});
+
+// Supabase errors are plain objects with a message
+const errorMessage = (error: unknown) => (error as { message?: string })?.message || 'Unknown error';
+
+export default function PipelinePresets() {
+  const [presets, setPresets] = useState<PipelinePreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editForm, setEditForm] = useState<PipelinePresetInput>(emptyForm);
+
+  const { toast } = useToast();
+
+  const fetchPresets = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPresets(await fetchPipelinePresets());
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to fetch pipelines', variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const handleCreate = () => {
+    setEditForm(emptyForm());
+    setIsEditing(true);
+  };
+
+  const handleEdit = (preset: PipelinePreset) => {
+    setEditForm({
+      id: preset.id,
+      slug: preset.slug,
+      name: preset.name,
+      description: preset.description || '',
+      stages: preset.stages.map((stage) => ({ ...stage })),
+      enabled: preset.enabled,
+    });
+    setIsEditing(true);
+  };
+
+  const handleDuplicate = (preset: PipelinePreset) => {
+    setEditForm({
+      slug: `${preset.slug}-copy`.slice(0, 64),
+      name: `${preset.name} (copy)`,
+      description: preset.description || '',
+      stages: preset.stages.map((stage) => ({ ...stage })),
+      enabled: true,
+    });
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const problem = validatePipeline(editForm);
+    if (problem) {
+      toast({ title: 'Error', description: problem, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await savePipelinePreset(editForm);
+      toast({ title: editForm.id ? 'Pipeline updated' : 'Pipeline created' });
+      setIsEditing(false);
+      fetchPresets();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (preset: PipelinePreset) => {
+    if (preset.isDefault) {
+      toast({ title: 'Error', description: 'Choose another default pipeline first', variant: 'destructive' });
+      return;
+    }
+    if (!confirm(`Are you sure you want to delete the "${preset.name}" pipeline?`)) return;
+
+    try {
+      await deletePipelinePreset(preset.id);
+      toast({ title: 'Pipeline deleted' });
+      fetchPresets();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  const handleSetDefault = async (preset: PipelinePreset) => {
+    try {
+      await setDefaultPipeline(preset.id);
+      toast({ title: `${preset.name} is now the default pipeline` });
+      fetchPresets();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  const handleToggleEnabled = async (preset: PipelinePreset, enabled: boolean) => {
+    if (preset.isDefault && !enabled) {
+      toast({ title: 'Error', description: 'The default pipeline must stay enabled', variant: 'destructive' });
+      return;
+    }
+    try {
+      await savePipelinePreset({ ...preset, enabled });
+      setPresets((prev) => prev.map((p) => (p.id === preset.id ? { ...p, enabled } : p)));
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  const updateStage = (index: number, changes: Partial<PipelineStage>) => {
+    setEditForm((form) => ({
+      ...form,
+      stages: form.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)),
+    }));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setEditForm((form) => {
+      const stages = [...form.stages];
+      const [stage] = stages.splice(index, 1);
+      stages.splice(index + offset, 0, stage);
+      return { ...form, stages };
+    });
+  };
+
+  const removeStage = (index: number) => {
+    setEditForm((form) => ({ ...form, stages: form.stages.filter((_, i) => i !== index) }));
+  };
+
+  const addStage = () => {
+    setEditForm((form) => ({ ...form, stages: [...form.stages, createStage()] }));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5" />
+              AI Pipelines
+            </CardTitle>
+            <CardDescription>
+              Ordered stages offered in the editor's pipeline picker, e.g. planner → coder → reviewer
+            </CardDescription>
+          </div>
+          <Button onClick={handleCreate} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Pipeline
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Stages</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="w-40">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {presets.map((preset) => (
+                <TableRow key={preset.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{preset.name}</span>
+                      {preset.isDefault && <Badge variant="secondary" className="text-xs">Default</Badge>}
+                    </div>
+                    <p className="font-mono text-xs text-muted-foreground">{preset.slug}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-1">
+                      {preset.stages.map((stage, index) => (
+                        <span key={index} className="flex items-center gap-1">
+                          {index > 0 && <span className="text-muted-foreground">→</span>}
+                          <Badge variant={stage.edits ? 'default' : 'outline'} className="text-xs">
+                            {stage.name}
+                          </Badge>
+                        </span>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={preset.enabled}
+                      onCheckedChange={(enabled) => handleToggleEnabled(preset, enabled)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleSetDefault(preset)}
+                        disabled={preset.isDefault}
+                        title="Make default"
+                      >
+                        <Star className={preset.isDefault ? 'h-4 w-4 fill-amber-500 text-amber-500' : 'h-4 w-4'} />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleEdit(preset)} title="Edit">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleDuplicate(preset)} title="Duplicate">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleDelete(preset)} title="Delete">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {presets.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                    No pipelines found. Create your first pipeline.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog open={isEditing} onOpenChange={setIsEditing}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editForm.id ? 'Edit Pipeline' : 'Create Pipeline'}</DialogTitle>
+            <DialogDescription>
+              Stages run in order; each sees the request and the output of the stages before it
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  placeholder="Planner → Coder → Reviewer"
+                  value={editForm.name}
+                  onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Slug (unique identifier)</Label>
+                <Input
+                  placeholder="plan-code-review"
+                  value={editForm.slug}
+                  onChange={(e) => setEditForm({ ...editForm, slug: e.target.value.toLowerCase().replace(/[^a-z0-9-]+/g, '-') })}
+                  disabled={!!editForm.id}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                placeholder="Shown in the editor's pipeline picker"
+                value={editForm.description || ''}
+                onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Stages</Label>
+              {editForm.stages.map((stage, index) => (
+                <Card key={index}>
+                  <CardContent className="pt-4 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{index + 1}</Badge>
+                      <Input
+                        placeholder="Stage name, e.g. Planner"
+                        value={stage.name}
+                        onChange={(e) => updateStage(index, { name: e.target.value })}
+                        className="flex-1"
+                      />
+                      <Button size="icon" variant="ghost" onClick={() => moveStage(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => moveStage(index, 1)}
+                        disabled={index === editForm.stages.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => removeStage(index)}
+                        disabled={editForm.stages.length === 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label className="text-xs">Model</Label>
+                        <ModelSelector
+                          value={stage.model}
+                          onValueChange={(model) => updateStage(index, { model })}
+                          className="w-full"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-xs">Reply language</Label>
+                        <Select value={stage.language} onValueChange={(language) => updateStage(index, { language })}>
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STAGE_LANGUAGES.map((language) => (
+                              <SelectItem key={language.code} value={language.code}>
+                                {language.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-xs">Role prompt</Label>
+                      <Textarea
+                        placeholder="You are a senior software architect..."
+                        value={stage.prompt}
+                        onChange={(e) => updateStage(index, { prompt: e.target.value })}
+                        className="min-h-[120px] font-mono text-sm"
+                      />
+                    </div>
+
+                    <div className="flex items-center gap-6 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Switch checked={stage.stream} onCheckedChange={(stream) => updateStage(index, { stream })} />
+                        <span>Show output to user</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch checked={stage.edits} onCheckedChange={(edits) => updateStage(index, { edits })} />
+                        <span>Can change files</span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+              <Button
+                variant="outline"
+                onClick={addStage}
+                disabled={editForm.stages.length >= MAX_PIPELINE_STAGES}
+                className="w-full gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                Add Stage
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={editForm.enabled}
+                onCheckedChange={(enabled) => setEditForm({ ...editForm, enabled })}
+              />
+              <span className="text-sm">Offer in the editor</span>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="gap-2">
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save Pipeline
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
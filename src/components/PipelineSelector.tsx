@@ -0,0 +1,69 @@
+import { Cpu, Workflow } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { getModelById } from "@/lib/ai-config";
+import { PipelinePreset } from "@/lib/pipelines";
+import { cn } from "@/lib/utils";
+
+const SINGLE_MODEL = "single";
+
+interface PipelineSelectorProps {
+  presets: PipelinePreset[];
+  // null runs a single model through the chat function
+  value: string | null;
+  onValueChange: (value: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const describeStages = (preset: PipelinePreset) =>
+  preset.stages
+    .map((stage) => `${stage.name} (${getModelById(stage.model)?.name.replace(/ \(.*\)$/, "") ?? stage.model})`)
+    .join(" → ");
+
+export function PipelineSelector({ presets, value, onValueChange, disabled, className }: PipelineSelectorProps) {
+  const selected = presets.find((p) => p.id === value);
+
+  return (
+    <Select
+      value={value ?? SINGLE_MODEL}
+      onValueChange={(next) => onValueChange(next === SINGLE_MODEL ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn("w-[180px] h-8 text-xs", className)}>
+        <div className="flex items-center gap-2 truncate">
+          {selected ? (
+            <Workflow className="h-3.5 w-3.5 shrink-0 text-primary" />
+          ) : (
+            <Cpu className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          )}
+          <SelectValue>{selected ? selected.name : "Single model"}</SelectValue>
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={SINGLE_MODEL} className="py-2">
+          <div className="flex flex-col">
+            <span className="text-sm font-medium">Single model</span>
+            <span className="text-xs text-muted-foreground">One model answers directly</span>
+          </div>
+        </SelectItem>
+        {presets.length > 0 && <SelectSeparator />}
+        {presets.map((preset) => (
+          <SelectItem key={preset.id} value={preset.id} className="py-2">
+            <div className="flex items-center gap-2">
+              <div className="flex flex-col">
+                <span className="text-sm font-medium">{preset.name}</span>
+                <span className="text-xs text-muted-foreground max-w-[280px] truncate">{describeStages(preset)}</span>
+              </div>
+              {preset.isDefault && (
+                <Badge variant="secondary" className="ml-auto text-[10px] h-4">
+                  Default
+                </Badge>
+              )}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,24 +1,30 @@
-import { useState, useCallback } from "react";
-import { Monitor, Tablet, Smartphone, RefreshCw, ExternalLink, Expand, Shrink, Copy, Check } from "lucide-react";
+import { useState, useCallback, useRef } from "react";
+import { Monitor, Tablet, Smartphone, RefreshCw, ExternalLink, Expand, Shrink, Copy, Check, ScanEye, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { LivePreview } from "@/components/LivePreview";
+import { LivePreview, PreviewEvent } from "@/components/LivePreview";
 import { FileNode } from "@/lib/file-system";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-
-type DeviceMode = "desktop" | "tablet" | "mobile";
+import { CapturePreviewFn, DEVICE_MODES, DeviceMode, PreviewCapture } from "@/lib/preview-capture";
 
 interface PreviewPanelProps {
   files: FileNode[];
   code?: string;
   projectId?: string;
+  onPreviewEvent?: (event: PreviewEvent) => void;
+  // Screenshots at every device width, for the model to critique
+  onReviewUI?: (captures: PreviewCapture[]) => void | Promise<void>;
+  // Why the review is unavailable, e.g. the model cannot read images
+  reviewDisabledReason?: string | null;
 }
 
-export function PreviewPanel({ files, code, projectId }: PreviewPanelProps) {
+export function PreviewPanel({ files, code, projectId, onPreviewEvent, onReviewUI, reviewDisabledReason }: PreviewPanelProps) {
   const [deviceMode, setDeviceMode] = useState<DeviceMode>("desktop");
   const [refreshKey, setRefreshKey] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const captureRef = useRef<CapturePreviewFn | null>(null);
   const { toast } = useToast();
 
   const deviceWidths: Record<DeviceMode, string> = {
@@ -51,6 +57,27 @@ export function PreviewPanel({ files, code, projectId }: PreviewPanelProps) {
     }
   };
 
+  const handleReviewUI = async () => {
+    if (!onReviewUI) return;
+    setIsCapturing(true);
+    try {
+      const capture = captureRef.current;
+      if (!capture) throw new Error("The preview is not running");
+      // One at a time: each capture re-renders the whole page
+      const captures: PreviewCapture[] = [];
+      for (const device of DEVICE_MODES) captures.push(await capture(device));
+      await onReviewUI(captures);
+    } catch (error) {
+      toast({
+        title: "Capture failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
   return (
     <div className={cn(
       "flex h-full flex-col bg-gradient-to-br from-muted/30 to-muted/10",
@@ -115,6 +142,20 @@ export function PreviewPanel({ files, code, projectId }: PreviewPanelProps) {
             ))}
           </div>
 
+          {onReviewUI && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 gap-1.5 rounded-lg text-xs text-muted-foreground hover:text-foreground"
+              onClick={handleReviewUI}
+              disabled={isCapturing || !!reviewDisabledReason}
+              title={reviewDisabledReason || "Capture desktop, tablet and mobile and ask the AI to review the layout"}
+            >
+              {isCapturing ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanEye className="h-4 w-4" />}
+              <span className="hidden lg:inline">Review UI</span>
+            </Button>
+          )}
+
           <Button 
             variant="ghost" 
             size="icon" 
@@ -154,7 +195,7 @@ export function PreviewPanel({ files, code, projectId }: PreviewPanelProps) {
           deviceWidths[deviceMode],
           deviceMode !== "desktop" && "mx-auto"
         )}>
-          <LivePreview key={refreshKey} files={files} />
+          <LivePreview key={refreshKey} files={files} onPreviewEvent={onPreviewEvent} captureRef={captureRef} />
         </div>
       </div>
     </div>
@@ -0,0 +1,57 @@
+import { AlertTriangle, GitMerge, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ConflictResolution, ProjectConflict } from "@/hooks/useProjectPersistence";
+
+interface ProjectConflictDialogProps {
+  conflict: ProjectConflict | null;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+export function ProjectConflictDialog({ conflict, onResolve }: ProjectConflictDialogProps) {
+  const savedAt = conflict ? new Date(conflict.remoteUpdatedAt).toLocaleString() : "";
+
+  return (
+    <AlertDialog open={!!conflict}>
+      <AlertDialogContent className="sm:max-w-md">
+        <AlertDialogHeader>
+          <div className="flex items-center gap-2">
+            <div className="h-9 w-9 rounded-full bg-yellow-500/10 flex items-center justify-center">
+              <AlertTriangle className="h-5 w-5 text-yellow-500" />
+            </div>
+            <AlertDialogTitle>Project changed elsewhere</AlertDialogTitle>
+          </div>
+          <AlertDialogDescription>
+            A newer version of this project was saved from another tab or device at {savedAt}.
+            Choose how to continue before your changes are saved.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex flex-col gap-2 mt-2">
+          <Button onClick={() => onResolve("merge")} className="justify-start gap-2">
+            <GitMerge className="h-4 w-4" />
+            Merge both versions
+          </Button>
+          <Button variant="outline" onClick={() => onResolve("overwrite")} className="justify-start gap-2">
+            <Upload className="h-4 w-4" />
+            Keep mine and overwrite
+          </Button>
+          <Button variant="outline" onClick={() => onResolve("theirs")} className="justify-start gap-2">
+            <Download className="h-4 w-4" />
+            Discard mine and load theirs
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground mt-2">
+          Merging keeps files changed on only one side. Files edited in both places keep your version.
+        </p>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from "react";
+import { BookOpen, Loader2, Pin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { estimateTokens } from "@/lib/context-manager";
+import { FileNode, getAllFiles } from "@/lib/file-system";
+import { MAX_INSTRUCTIONS_LENGTH, ProjectInstructions } from "@/lib/project-instructions";
+import { cn } from "@/lib/utils";
+
+interface ProjectInstructionsDialogProps {
+  files: FileNode[];
+  value: ProjectInstructions;
+  onSave: (value: ProjectInstructions) => Promise<void>;
+  disabled?: boolean;
+}
+
+export function ProjectInstructionsDialog({ files, value, onSave, disabled }: ProjectInstructionsDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [instructions, setInstructions] = useState(value.instructions);
+  const [knowledgeFiles, setKnowledgeFiles] = useState<string[]>(value.knowledgeFiles);
+  const [filter, setFilter] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved values every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setInstructions(value.instructions);
+    setKnowledgeFiles(value.knowledgeFiles);
+    setFilter("");
+  }, [open, value]);
+
+  const projectFiles = useMemo(() => getAllFiles(files).filter((f) => f.type === "file"), [files]);
+  const visibleFiles = projectFiles.filter((f) => f.id.toLowerCase().includes(filter.toLowerCase()));
+  // Pinned files that were since deleted or renamed
+  const missingFiles = knowledgeFiles.filter((id) => !projectFiles.some((f) => f.id === id));
+  const pinnedTokens = projectFiles
+    .filter((f) => knowledgeFiles.includes(f.id))
+    .reduce((sum, f) => sum + estimateTokens(f.content || ""), 0);
+  const activeCount = value.knowledgeFiles.length + (value.instructions ? 1 : 0);
+
+  const toggleFile = (id: string, checked: boolean) =>
+    setKnowledgeFiles((prev) => (checked ? [...prev, id] : prev.filter((f) => f !== id)));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ instructions, knowledgeFiles });
+      toast({ title: "Instruksi proyek disimpan", description: "Dipakai di setiap prompt berikutnya" });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Gagal menyimpan",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 px-3 rounded-lg text-xs gap-1.5" disabled={disabled}>
+          <BookOpen className="h-3.5 w-3.5" />
+          Instructions
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="h-4 min-w-4 px-1 text-[10px]">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Project Instructions</DialogTitle>
+          <DialogDescription>
+            Aturan dan file pengetahuan ini dikirim ke AI di setiap prompt pada proyek ini.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="project-instructions">Instructions</Label>
+            <Textarea
+              id="project-instructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value.slice(0, MAX_INSTRUCTIONS_LENGTH))}
+              placeholder={"- Use Zustand for state, not React context\n- Colors: primary #6d28d9, accent #f59e0b\n- API responses follow docs/api.md"}
+              className="min-h-[160px] font-mono text-xs"
+            />
+            <p className="text-[10px] text-muted-foreground text-right">
+              {instructions.length} / {MAX_INSTRUCTIONS_LENGTH}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Knowledge files</Label>
+              <span className="text-[10px] text-muted-foreground">
+                {knowledgeFiles.length} file · ~{pinnedTokens} tokens
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Selalu dikirim penuh, sebelum file yang dipilih berdasarkan relevansi.
+            </p>
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter files..."
+              className="h-8 text-xs"
+            />
+            <ScrollArea className="h-48 rounded-md border border-border/50">
+              <div className="p-2 space-y-1 font-mono text-[11px]">
+                {missingFiles.map((id) => (
+                  <label key={id} className="flex items-center gap-2 text-destructive">
+                    <Checkbox checked onCheckedChange={() => toggleFile(id, false)} />
+                    <span className="flex-1 truncate line-through">{id}</span>
+                    <span className="text-[10px]">not found</span>
+                  </label>
+                ))}
+                {visibleFiles.map((file) => {
+                  const pinned = knowledgeFiles.includes(file.id);
+                  return (
+                    <label key={file.id} className="flex items-center gap-2 cursor-pointer">
+                      <Checkbox checked={pinned} onCheckedChange={(checked) => toggleFile(file.id, checked === true)} />
+                      <span className={cn("flex-1 truncate", !pinned && "text-muted-foreground")}>{file.id}</span>
+                      {pinned && <Pin className="h-3 w-3 shrink-0 text-primary" />}
+                    </label>
+                  );
+                })}
+                {visibleFiles.length === 0 && (
+                  <p className="py-4 text-center text-muted-foreground">No files</p>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
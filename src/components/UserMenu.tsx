@@ -1,5 +1,6 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { User, LogOut, Settings, Home } from 'lucide-react';
+import { User, LogOut, Settings, Home, Key } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -9,10 +10,12 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useAuthContext } from '@/contexts/AuthContext';
+import { ApiKeysDialog } from '@/components/ApiKeysDialog';
 
 export function UserMenu() {
   const navigate = useNavigate();
   const { profile, credits, isAdmin, signOut } = useAuthContext();
+  const [showApiKeys, setShowApiKeys] = useState(false);
 
   const handleSignOut = async () => {
     await signOut();
@@ -20,37 +23,44 @@ export function UserMenu() {
   };
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="ghost" size="sm" className="h-8 gap-2 px-2">
-          <div className="h-6 w-6 rounded-full bg-primary/10 flex items-center justify-center">
-            <User className="h-3.5 w-3.5 text-primary" />
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 gap-2 px-2">
+            <div className="h-6 w-6 rounded-full bg-primary/10 flex items-center justify-center">
+              <User className="h-3.5 w-3.5 text-primary" />
+            </div>
+            <span className="text-xs font-medium">${credits.toFixed(2)}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <div className="px-2 py-1.5">
+            <p className="text-sm font-medium truncate">{profile?.email}</p>
+            <p className="text-xs text-muted-foreground">Balance: ${credits.toFixed(2)}</p>
           </div>
-          <span className="text-xs font-medium">${credits.toFixed(2)}</span>
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-48">
-        <div className="px-2 py-1.5">
-          <p className="text-sm font-medium truncate">{profile?.email}</p>
-          <p className="text-xs text-muted-foreground">Balance: ${credits.toFixed(2)}</p>
-        </div>
-        <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={() => navigate('/dashboard')}>
-          <Home className="mr-2 h-4 w-4" />
-          Dashboard
-        </DropdownMenuItem>
-        {isAdmin && (
-          <DropdownMenuItem onClick={() => navigate('/admin')}>
-            <Settings className="mr-2 h-4 w-4" />
-            Admin Panel
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => navigate('/dashboard')}>
+            <Home className="mr-2 h-4 w-4" />
+            Dashboard
           </DropdownMenuItem>
-        )}
-        <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={handleSignOut}>
-          <LogOut className="mr-2 h-4 w-4" />
-          Sign Out
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+          <DropdownMenuItem onClick={() => setShowApiKeys(true)}>
+            <Key className="mr-2 h-4 w-4" />
+            API Keys
+          </DropdownMenuItem>
+          {isAdmin && (
+            <DropdownMenuItem onClick={() => navigate('/admin')}>
+              <Settings className="mr-2 h-4 w-4" />
+              Admin Panel
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleSignOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ApiKeysDialog open={showApiKeys} onOpenChange={setShowApiKeys} />
+    </>
   );
 }
\ No newline at end of file
@@ -1,12 +1,9 @@
-import { Clock, RotateCcw, RotateCw, History, ChevronDown } from "lucide-react";
+import { useState } from "react";
+import { Clock, RotateCcw, RotateCw, History, FileCode, GitCompare, MessageSquare, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from "@/components/ui/dropdown-menu";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import {
   Tooltip,
   TooltipContent,
@@ -19,22 +16,38 @@ import { cn } from "@/lib/utils";
 interface VersionHistoryPanelProps {
   canUndo: boolean;
   canRedo: boolean;
-  history: VersionSnapshot[];
-  currentIndex: number;
+  versions: VersionSnapshot[];
+  total: number;
+  currentVersionId: string | null;
+  hasMore: boolean;
+  isLoading: boolean;
   onUndo: () => void;
   onRedo: () => void;
-  onGoToSnapshot: (snapshotId: string) => void;
+  onRestore: (versionId: string) => void;
+  onLoadMore: () => void;
+  // Called with the older version first
+  onCompare: (fromId: string, toId: string) => void;
+  onOpenMessage?: (messageId: string) => void;
 }
 
 export function VersionHistoryPanel({
   canUndo,
   canRedo,
-  history,
-  currentIndex,
+  versions,
+  total,
+  currentVersionId,
+  hasMore,
+  isLoading,
   onUndo,
   onRedo,
-  onGoToSnapshot,
+  onRestore,
+  onLoadMore,
+  onCompare,
+  onOpenMessage,
 }: VersionHistoryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
   const formatTime = (date: Date) => {
     const now = new Date();
     const diff = now.getTime() - date.getTime();
@@ -46,6 +59,21 @@ export function VersionHistoryPanel({
     return date.toLocaleDateString();
   };
 
+  // Keep at most two selected versions, dropping the oldest selection
+  const toggleSelected = (versionId: string) => {
+    setSelected((prev) =>
+      prev.includes(versionId) ? prev.filter((id) => id !== versionId) : [...prev, versionId].slice(-2)
+    );
+  };
+
+  const handleCompare = () => {
+    const [a, b] = selected
+      .map((id) => versions.find((v) => v.id === id)!)
+      .sort((x, y) => x.createdAt.getTime() - y.createdAt.getTime());
+    onCompare(a.id, b.id);
+    setOpen(false);
+  };
+
   return (
     <TooltipProvider>
       <div className="flex items-center gap-1">
@@ -63,7 +91,7 @@ export function VersionHistoryPanel({
             </Button>
           </TooltipTrigger>
           <TooltipContent>
-            <p>Undo (Ctrl+Z)</p>
+            <p>Previous version</p>
           </TooltipContent>
         </Tooltip>
 
@@ -81,65 +109,126 @@ export function VersionHistoryPanel({
             </Button>
           </TooltipTrigger>
           <TooltipContent>
-            <p>Redo (Ctrl+Y)</p>
+            <p>Next version</p>
           </TooltipContent>
         </Tooltip>
 
-        {/* History Dropdown */}
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" size="sm" className="h-8 px-2 gap-1.5">
-              <History className="h-4 w-4" />
-              <span className="text-xs hidden sm:inline">History</span>
-              <ChevronDown className="h-3 w-3" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-72">
-            <ScrollArea className="h-64">
-              <div className="p-2">
-                <p className="text-xs font-medium text-muted-foreground mb-2 px-2">
-                  Version History ({history.length} snapshots)
-                </p>
-                {history
-                  .slice()
-                  .reverse()
-                  .map((snapshot, idx) => {
-                    const actualIndex = history.length - 1 - idx;
-                    const isCurrent = actualIndex === currentIndex;
+        <Button variant="ghost" size="sm" className="h-8 px-2 gap-1.5" onClick={() => setOpen(true)}>
+          <History className="h-4 w-4" />
+          <span className="text-xs hidden sm:inline">Versions</span>
+        </Button>
+      </div>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="right" className="w-96 p-0 flex flex-col">
+          <SheetHeader className="px-4 pt-4 pb-2 border-b border-border">
+            <SheetTitle>Version History</SheetTitle>
+            <SheetDescription className="text-xs">
+              {total} version{total !== 1 ? "s" : ""}. Select two to compare.
+            </SheetDescription>
+          </SheetHeader>
 
-                    return (
-                      <DropdownMenuItem
-                        key={snapshot.id}
-                        className={cn(
-                          "flex items-start gap-2 p-2 cursor-pointer",
-                          isCurrent && "bg-primary/10"
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-1">
+              {versions.map((version) => {
+                const isCurrent = version.id === currentVersionId;
+                const isSelected = selected.includes(version.id);
+
+                return (
+                  <div
+                    key={version.id}
+                    className={cn(
+                      "group flex items-start gap-2 p-2 rounded-lg hover:bg-muted/50",
+                      isCurrent && "bg-primary/10",
+                      isSelected && "ring-1 ring-primary/50"
+                    )}
+                  >
+                    <Checkbox
+                      checked={isSelected}
+                      onCheckedChange={() => toggleSelected(version.id)}
+                      className="mt-0.5"
+                      aria-label="Select for comparison"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{version.description}</p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Clock className="h-3 w-3" />
+                        <span>{formatTime(version.createdAt)}</span>
+                        <FileCode className="h-3 w-3" />
+                        <span>{version.fileCount}</span>
+                        {isCurrent && (
+                          <span className="text-primary font-medium">Current</span>
                         )}
-                        onClick={() => onGoToSnapshot(snapshot.id)}
-                      >
-                        <div
-                          className={cn(
-                            "h-2 w-2 mt-1.5 rounded-full shrink-0",
-                            isCurrent ? "bg-primary" : "bg-muted-foreground/30"
-                          )}
-                        />
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium truncate">{snapshot.description}</p>
-                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                            <Clock className="h-3 w-3" />
-                            <span>{formatTime(snapshot.timestamp)}</span>
-                            {isCurrent && (
-                              <span className="text-primary font-medium">Current</span>
-                            )}
-                          </div>
-                        </div>
-                      </DropdownMenuItem>
-                    );
-                  })}
-              </div>
-            </ScrollArea>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      </div>
+                      </div>
+                    </div>
+                    {version.messageId && onOpenMessage && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 shrink-0"
+                            onClick={() => {
+                              onOpenMessage(version.messageId!);
+                              setOpen(false);
+                            }}
+                          >
+                            <MessageSquare className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Show chat message</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                    {!isCurrent && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 shrink-0"
+                            onClick={() => onRestore(version.id)}
+                          >
+                            <RotateCcw className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Restore this version</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                  </div>
+                );
+              })}
+
+              {isLoading && (
+                <div className="flex justify-center py-3">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+
+              {hasMore && !isLoading && (
+                <Button variant="ghost" size="sm" className="w-full text-xs" onClick={onLoadMore}>
+                  Load more
+                </Button>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="p-3 border-t border-border">
+            <Button
+              size="sm"
+              className="w-full gap-1.5"
+              disabled={selected.length !== 2}
+              onClick={handleCompare}
+            >
+              <GitCompare className="h-4 w-4" />
+              Compare selected
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
     </TooltipProvider>
   );
 }
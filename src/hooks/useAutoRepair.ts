@@ -0,0 +1,259 @@
+// Auto-repair loop: feed type errors and preview runtime errors back to the
+// model until the project compiles and renders, or the round limit is hit
+
+import { useState, useCallback, useRef } from "react";
+import { PreviewError, PreviewEvent } from "@/components/LivePreview";
+import { validateFileChanges } from "@/lib/code-validator";
+import { describeEditFailure, resolveFileChanges } from "@/lib/edit-protocol";
+import { FileChange, FileNode, applyFileChanges, getAllFiles } from "@/lib/file-system";
+import { useAIGeneration } from "@/hooks/useAIGeneration";
+import { useConsole } from "@/hooks/useConsole";
+
+export interface RepairProblem {
+  source: "typescript" | "preview";
+  message: string;
+  filePath?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface AutoRepairRunOptions {
+  // The latest files; the user may keep editing while a round runs
+  getFiles: () => FileNode[];
+  // The generation's changes, resolved against getFiles(), applied before the first check
+  changes: FileChange[];
+  activeFileId: string | null;
+  request: string;
+  messageId?: string;
+  modelId?: string;
+  // Project instructions message and pinned knowledge files
+  instructions?: string | null;
+  pinnedFiles?: string[];
+}
+
+interface UseAutoRepairOptions {
+  generate: ReturnType<typeof useAIGeneration>["generate"];
+  setFiles: (files: FileNode[]) => void;
+  saveSnapshot: (files: FileNode[], description: string, messageId?: string) => void;
+  logger: ReturnType<typeof useConsole>;
+}
+
+export const DEFAULT_MAX_REPAIR_ROUNDS = 3;
+
+// Time to keep collecting runtime errors after the bundler reports done
+const PREVIEW_SETTLE_MS = 1500;
+// Upper bound when the preview never reports (not mounted, slow install)
+const PREVIEW_TIMEOUT_MS = 20000;
+
+const SCRIPT_EXTENSIONS = /\.(tsx?|jsx?)$/;
+
+const formatLocation = (problem: RepairProblem) => {
+  if (!problem.filePath) return "";
+  return problem.line ? `${problem.filePath}:${problem.line}:${problem.column ?? 1} ` : `${problem.filePath} `;
+};
+
+export const formatRepairProblems = (problems: RepairProblem[]) =>
+  problems.map((p) => `- [${p.source}] ${formatLocation(p)}${p.message}`).join("\n");
+
+const buildRepairPrompt = (problems: RepairProblem[], request: string, round: number, maxRounds: number) => `## Auto-repair (round ${round} of ${maxRounds})
+Your last changes for the request below left the project broken.
+
+Original request:
+${request}
+
+Problems found by the type checker and the live preview:
+${formatRepairProblems(problems)}
+
+Fix these problems with minimal edits. Do not change unrelated code or add new features.`;
+
+const toPreviewProblem = (error: PreviewError): RepairProblem => ({
+  source: "preview",
+  message: error.message,
+  filePath: error.path,
+  line: error.line,
+  column: error.column,
+});
+
+async function getTypeProblems(files: FileNode[]): Promise<RepairProblem[]> {
+  const scripts = getAllFiles(files)
+    .filter((f) => SCRIPT_EXTENSIONS.test(f.id))
+    .map((f) => ({ filePath: f.id, content: f.content || "" }));
+  if (scripts.length === 0) return [];
+
+  const results = await validateFileChanges(scripts, files);
+  return results.flatMap((result, index) =>
+    result.errors
+      .filter((e) => e.severity === "error")
+      .map((e) => ({
+        source: "typescript" as const,
+        message: e.message,
+        filePath: scripts[index].filePath,
+        line: e.line,
+        column: e.column,
+      }))
+  );
+}
+
+export function useAutoRepair({ generate, setFiles, saveSnapshot, logger }: UseAutoRepairOptions) {
+  const [enabled, setEnabled] = useState(false);
+  const [maxRounds, setMaxRounds] = useState(DEFAULT_MAX_REPAIR_ROUNDS);
+  const [activeRound, setActiveRound] = useState<number | null>(null);
+  const previewListenersRef = useRef(new Set<(event: PreviewEvent) => void>());
+
+  // Passed to the preview so the loop can observe compiles and errors
+  const handlePreviewEvent = useCallback((event: PreviewEvent) => {
+    previewListenersRef.current.forEach((listener) => listener(event));
+  }, []);
+
+  // Resolve with the runtime errors of the next preview compile. Must be
+  // called before the files change so the compile start is not missed.
+  const waitForPreview = useCallback(() => {
+    return new Promise<PreviewError[]>((resolve) => {
+      const errors = new Map<string, PreviewError>();
+      let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = () => {
+        clearTimeout(settleTimer);
+        clearTimeout(timeout);
+        previewListenersRef.current.delete(listener);
+        resolve([...errors.values()]);
+      };
+
+      const listener = (event: PreviewEvent) => {
+        if (event.type === "compiling") {
+          clearTimeout(settleTimer);
+          errors.clear();
+        } else if (event.type === "error") {
+          errors.set(event.error.message, event.error);
+        } else {
+          clearTimeout(settleTimer);
+          settleTimer = setTimeout(finish, PREVIEW_SETTLE_MS);
+        }
+      };
+
+      const timeout = setTimeout(finish, PREVIEW_TIMEOUT_MS);
+      previewListenersRef.current.add(listener);
+    });
+  }, []);
+
+  // Apply changes, record them as a version and resolve with the preview's
+  // runtime errors
+  const applyAndWait = useCallback(
+    (files: FileNode[], changes: FileChange[], description: string, messageId?: string) => {
+      const next = applyFileChanges(files, changes);
+      const previewDone = waitForPreview();
+      setFiles(next);
+      saveSnapshot(next, description, messageId);
+      return previewDone;
+    },
+    [saveSnapshot, setFiles, waitForPreview]
+  );
+
+  // Apply the generation's changes, then repair until the project is clean.
+  // Returns the final files.
+  const run = useCallback(
+    async ({ getFiles, changes, activeFileId, request, messageId, modelId, instructions, pinnedFiles }: AutoRepairRunOptions): Promise<FileNode[]> => {
+      let runtimeErrors = await applyAndWait(getFiles(), changes, `AI: ${request.slice(0, 50)}`, messageId);
+
+      try {
+        for (let round = 0; ; round++) {
+          // Includes anything the user typed while the preview compiled
+          const current = getFiles();
+          const problems = [...(await getTypeProblems(current)), ...runtimeErrors.map(toPreviewProblem)];
+
+          if (problems.length === 0) {
+            logger.success(
+              round === 0
+                ? "Project compiles and renders"
+                : `Project compiles and renders after ${round} repair round(s)`,
+              "Auto-repair"
+            );
+            return current;
+          }
+
+          if (round === maxRounds) {
+            logger.error(
+              `${problems.length} problem(s) remain after ${maxRounds} repair round(s)`,
+              "Auto-repair",
+              formatRepairProblems(problems)
+            );
+            return current;
+          }
+
+          setActiveRound(round + 1);
+          logger.warn(
+            `Round ${round + 1}/${maxRounds}: ${problems.length} problem(s), requesting a fix`,
+            "Auto-repair",
+            formatRepairProblems(problems)
+          );
+
+          const result = await generate(
+            buildRepairPrompt(problems, request, round + 1, maxRounds),
+            current,
+            activeFileId,
+            {
+              modelId,
+              instructions,
+              pinnedFiles,
+              validateCode: false,
+              // Files with problems first, then the ones this run changed
+              recentlyModified: [
+                ...new Set([
+                  ...problems.flatMap((p) => (p.filePath ? [p.filePath] : [])),
+                  ...changes.map((c) => c.fileId),
+                ]),
+              ],
+            }
+          );
+
+          if (result.creditsExhausted) {
+            logger.warn("Stopped: credits exhausted", "Auto-repair");
+            return current;
+          }
+          if (!result.success || !result.changes?.length) {
+            logger.error(`Round ${round + 1}: the model returned no fix`, "Auto-repair");
+            return current;
+          }
+
+          // Edits made while the model worked stay: the fix is resolved again against them
+          const latest = getFiles();
+          let fixes = result.changes;
+          if (latest !== current) {
+            const resolved = resolveFileChanges(result.content, latest);
+            resolved.failures.forEach((failure) => {
+              logger.error(`Edit failed: ${failure.filePath}`, "Auto-repair", describeEditFailure(failure));
+            });
+            fixes = resolved.changes;
+            if (fixes.length === 0) {
+              logger.error(`Round ${round + 1}: the fix no longer applies to the edited files`, "Auto-repair");
+              return latest;
+            }
+          }
+
+          const previewDone = applyAndWait(latest, fixes, `Auto-repair round ${round + 1}`, messageId);
+          logger.info(
+            `Round ${round + 1}: applied ${fixes.length} change(s)`,
+            "Auto-repair",
+            fixes.map((c) => `${c.type}: ${c.fileId}`).join("\n")
+          );
+
+          runtimeErrors = await previewDone;
+        }
+      } finally {
+        setActiveRound(null);
+      }
+    },
+    [applyAndWait, generate, logger, maxRounds]
+  );
+
+  return {
+    enabled,
+    setEnabled,
+    maxRounds,
+    setMaxRounds,
+    activeRound,
+    isRepairing: activeRound !== null,
+    handlePreviewEvent,
+    run,
+  };
+}
@@ -0,0 +1,326 @@
+// Chat Sessions Hook: per-project conversation threads stored in Supabase
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { FileChange } from "@/lib/file-system";
+import { ConversationSummary } from "@/lib/conversation-manager";
+import { ChatAttachment } from "@/lib/chat-attachments";
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  fileChanges?: FileChange[];
+  // Images sent with a user message
+  attachments?: ChatAttachment[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MAX_TITLE_LENGTH = 60;
+
+const titleFromMessage = (content: string) => {
+  const firstLine = content.trim().split("\n")[0];
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : firstLine || "New chat";
+};
+
+// Escape LIKE wildcards so the query is matched literally
+const toLikePattern = (query: string) => `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+export function useChatSessions(projectId: string | undefined, userId: string | undefined) {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null);
+
+  const activeSessionRef = useRef<string | null>(null);
+  activeSessionRef.current = activeSessionId;
+
+  const loadMessages = useCallback(async (sessionId: string) => {
+    setIsLoadingMessages(true);
+    const { data, error } = await supabase
+      .from("chat_messages")
+      .select("id, role, content, model, prompt_tokens, completion_tokens, file_changes, attachments, created_at")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: true });
+
+    // Ignore results for a session the user already left
+    if (activeSessionRef.current !== sessionId) return;
+    setIsLoadingMessages(false);
+
+    if (error) {
+      console.error("Failed to load chat messages:", error);
+      return;
+    }
+
+    setMessages(
+      (data || []).map((row) => ({
+        id: row.id,
+        role: row.role as ChatMessage["role"],
+        content: row.content,
+        timestamp: new Date(row.created_at),
+        model: row.model || undefined,
+        promptTokens: row.prompt_tokens,
+        completionTokens: row.completion_tokens,
+        fileChanges: row.file_changes as unknown as FileChange[],
+        attachments: row.attachments as unknown as ChatAttachment[],
+      }))
+    );
+  }, []);
+
+  const loadSummary = useCallback(async (sessionId: string) => {
+    const { data, error } = await supabase
+      .from("chat_sessions")
+      .select("summary, summary_through")
+      .eq("id", sessionId)
+      .maybeSingle();
+
+    if (activeSessionRef.current !== sessionId) return;
+    if (error) {
+      console.error("Failed to load conversation summary:", error);
+      return;
+    }
+
+    setSummary(data?.summary ? { text: data.summary, throughMessageId: data.summary_through } : null);
+  }, []);
+
+  const selectSession = useCallback(
+    (sessionId: string) => {
+      activeSessionRef.current = sessionId;
+      setActiveSessionId(sessionId);
+      setMessages([]);
+      setSummary(null);
+      loadMessages(sessionId);
+      loadSummary(sessionId);
+    },
+    [loadMessages, loadSummary]
+  );
+
+  // Load the project's sessions and resume the most recent one
+  useEffect(() => {
+    if (!projectId || !userId) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      const { data, error } = await supabase
+        .from("chat_sessions")
+        .select("id, title, created_at, updated_at")
+        .eq("project_id", projectId)
+        .order("updated_at", { ascending: false });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Failed to load chat sessions:", error);
+        return;
+      }
+
+      const loaded = (data || []).map((row) => ({
+        id: row.id,
+        title: row.title,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+      }));
+      setSessions(loaded);
+
+      if (loaded.length > 0 && !activeSessionRef.current) {
+        selectSession(loaded[0].id);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, userId, selectSession]);
+
+  const startNewSession = useCallback(() => {
+    activeSessionRef.current = null;
+    setActiveSessionId(null);
+    setMessages([]);
+    setSummary(null);
+    setIsLoadingMessages(false);
+  }, []);
+
+  // Return the active session, creating one titled after the first message
+  const ensureSession = useCallback(
+    async (firstMessage: string): Promise<string | null> => {
+      if (activeSessionRef.current) return activeSessionRef.current;
+      if (!projectId || !userId) return null;
+
+      const { data, error } = await supabase
+        .from("chat_sessions")
+        .insert({ project_id: projectId, user_id: userId, title: titleFromMessage(firstMessage) })
+        .select("id, title, created_at, updated_at")
+        .single();
+
+      if (error || !data) {
+        console.error("Failed to create chat session:", error);
+        return null;
+      }
+
+      const session = {
+        id: data.id,
+        title: data.title,
+        createdAt: new Date(data.created_at),
+        updatedAt: new Date(data.updated_at),
+      };
+      activeSessionRef.current = session.id;
+      setActiveSessionId(session.id);
+      setSessions((prev) => [session, ...prev]);
+      return session.id;
+    },
+    [projectId, userId]
+  );
+
+  const saveMessage = useCallback(async (sessionId: string | null, message: ChatMessage) => {
+    if (!sessionId) return;
+
+    const { error } = await supabase.from("chat_messages").insert({
+      id: message.id,
+      session_id: sessionId,
+      role: message.role,
+      content: message.content,
+      model: message.model ?? null,
+      prompt_tokens: message.promptTokens ?? 0,
+      completion_tokens: message.completionTokens ?? 0,
+      file_changes: (message.fileChanges ?? []) as unknown as Json,
+      attachments: (message.attachments ?? []) as unknown as Json,
+    });
+
+    if (error) {
+      console.error("Failed to save chat message:", error);
+      return;
+    }
+
+    // Mirror the server-side touch so the session moves to the top
+    setSessions((prev) => {
+      const session = prev.find((s) => s.id === sessionId);
+      if (!session) return prev;
+      return [{ ...session, updatedAt: new Date() }, ...prev.filter((s) => s.id !== sessionId)];
+    });
+  }, []);
+
+  const saveSummary = useCallback(async (sessionId: string | null, next: ConversationSummary) => {
+    if (activeSessionRef.current === sessionId) setSummary(next);
+    if (!sessionId) return;
+
+    const { error } = await supabase
+      .from("chat_sessions")
+      .update({ summary: next.text, summary_through: next.throughMessageId })
+      .eq("id", sessionId);
+    if (error) console.error("Failed to save conversation summary:", error);
+  }, []);
+
+  const renameSession = useCallback(async (sessionId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+
+    setSessions((prev) => prev.map((s) => (s.id === sessionId ? { ...s, title: trimmed } : s)));
+    const { error } = await supabase.from("chat_sessions").update({ title: trimmed }).eq("id", sessionId);
+    if (error) console.error("Failed to rename chat session:", error);
+  }, []);
+
+  const deleteSession = useCallback(
+    async (sessionId: string) => {
+      const { error } = await supabase.from("chat_sessions").delete().eq("id", sessionId);
+      if (error) {
+        console.error("Failed to delete chat session:", error);
+        return;
+      }
+
+      setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+      if (activeSessionRef.current === sessionId) startNewSession();
+    },
+    [startNewSession]
+  );
+
+  // Switch to the session containing a message. Resolves false if the
+  // message was never saved.
+  const openMessageSession = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      const { data, error } = await supabase
+        .from("chat_messages")
+        .select("session_id")
+        .eq("id", messageId)
+        .maybeSingle();
+
+      if (error || !data) {
+        if (error) console.error("Failed to find chat message:", error);
+        return false;
+      }
+
+      if (data.session_id !== activeSessionRef.current) selectSession(data.session_id);
+      return true;
+    },
+    [selectSession]
+  );
+
+  // Search titles locally and message contents on the server
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setMatchingIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const lowerQuery = query.toLowerCase();
+      const ids = new Set(sessions.filter((s) => s.title.toLowerCase().includes(lowerQuery)).map((s) => s.id));
+
+      if (sessions.length > 0) {
+        const { data, error } = await supabase
+          .from("chat_messages")
+          .select("session_id")
+          .in("session_id", sessions.map((s) => s.id))
+          .ilike("content", toLikePattern(query))
+          .limit(500);
+
+        if (error) console.error("Failed to search chat messages:", error);
+        data?.forEach((row) => ids.add(row.session_id));
+      }
+
+      if (!cancelled) setMatchingIds(ids);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, sessions]);
+
+  return {
+    sessions: matchingIds ? sessions.filter((s) => matchingIds.has(s.id)) : sessions,
+    activeSessionId,
+    messages,
+    setMessages,
+    summary,
+    isLoadingMessages,
+    searchQuery,
+    setSearchQuery,
+    selectSession,
+    startNewSession,
+    ensureSession,
+    saveMessage,
+    saveSummary,
+    renameSession,
+    deleteSession,
+    openMessageSession,
+  };
+}
@@ -27,8 +27,8 @@ export function useConsole() {
     return addLog("log", message, source);
   }, [addLog]);
 
-  const info = useCallback((message: string, source?: string) => {
-    return addLog("info", message, source);
+  const info = useCallback((message: string, source?: string, details?: string) => {
+    return addLog("info", message, source, details);
   }, [addLog]);
 
   const warn = useCallback((message: string, source?: string, details?: string) => {
@@ -39,8 +39,8 @@ export function useConsole() {
     return addLog("error", message, source, details);
   }, [addLog]);
 
-  const success = useCallback((message: string, source?: string) => {
-    return addLog("success", message, source);
+  const success = useCallback((message: string, source?: string, details?: string) => {
+    return addLog("success", message, source, details);
   }, [addLog]);
 
   const clear = useCallback(() => {
@@ -0,0 +1,77 @@
+// Live context usage for the chat input: re-budgets the prompt as the draft,
+// the files or the model change
+
+import { useEffect, useRef, useState } from "react";
+import { getDefaultModel, getModelById } from "@/lib/ai-config";
+import { FileNode } from "@/lib/file-system";
+import { buildBudgetedContext, ContextUsage } from "@/lib/prompt-budget";
+import { ConversationMessage, ConversationSummary, planConversation } from "@/lib/conversation-manager";
+
+interface UseContextUsageOptions {
+  files: FileNode[];
+  activeFileId: string | null;
+  modelId: string;
+  draft: string;
+  // Images attached to the draft
+  imageCount?: number;
+  recentlyModified?: string[];
+  // Project instructions message and pinned knowledge files
+  instructions?: string | null;
+  pinnedFiles?: string[];
+  // Earlier turns of the conversation that would be sent along
+  messages?: ConversationMessage[];
+  summary?: ConversationSummary | null;
+  // Only a file list and the active file are sent; see buildBudgetedContext
+  toolMode?: boolean;
+}
+
+const DEBOUNCE_MS = 400;
+const NO_MESSAGES: ConversationMessage[] = [];
+
+export function useContextUsage({
+  files,
+  activeFileId,
+  modelId,
+  draft,
+  imageCount = 0,
+  recentlyModified,
+  instructions = null,
+  pinnedFiles,
+  messages = NO_MESSAGES,
+  summary = null,
+  toolMode = false,
+}: UseContextUsageOptions): ContextUsage | null {
+  const [usage, setUsage] = useState<ContextUsage | null>(null);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const requestId = ++requestRef.current;
+    const timeout = setTimeout(async () => {
+      try {
+        const model = getModelById(modelId) ?? getDefaultModel();
+        const { history } = await planConversation({ messages, summary, model });
+        const { usage: next } = await buildBudgetedContext({
+          files,
+          activeFileId,
+          request: draft,
+          imageCount,
+          model,
+          systemPrompt: null,
+          instructions,
+          history,
+          recentlyModified,
+          pinnedFiles,
+          toolMode,
+        });
+        // Drop results superseded by a newer edit
+        if (requestId === requestRef.current) setUsage(next);
+      } catch (error) {
+        console.error("Failed to measure context usage:", error);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [files, activeFileId, modelId, draft, imageCount, recentlyModified, instructions, pinnedFiles, messages, summary, toolMode]);
+
+  return usage;
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import {
   FileNode,
   FileChange,
@@ -6,19 +6,40 @@ import {
   findFileById,
   updateFileContent,
   addFile,
+  upsertFile,
   deleteFile,
   toggleFolder,
   getLanguageFromFileName,
 } from "@/lib/file-system";
 
+// Number of recently modified files tracked for AI context
+const MAX_RECENT_FILES = 20;
+
 export function useFileSystem() {
   const [files, setFiles] = useState<FileNode[]>(createDefaultProject());
   const [activeFileId, setActiveFileId] = useState<string | null>("src/App.tsx");
   const [openTabs, setOpenTabs] = useState<string[]>(["src/App.tsx"]);
   const [pendingChanges, setPendingChanges] = useState<FileChange[]>([]);
+  // File ids, most recently modified first
+  const [recentlyModified, setRecentlyModified] = useState<string[]>([]);
+
+  // The latest files, for async work that outlives the render it started in
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const getFiles = useCallback(() => filesRef.current, []);
 
   const activeFile = activeFileId ? findFileById(files, activeFileId) : null;
 
+  const markModified = useCallback((fileId: string) => {
+    setRecentlyModified((prev) =>
+      prev[0] === fileId ? prev : [fileId, ...prev.filter((id) => id !== fileId)].slice(0, MAX_RECENT_FILES)
+    );
+  }, []);
+
+  const forgetModified = useCallback((fileId: string) => {
+    setRecentlyModified((prev) => (prev.includes(fileId) ? prev.filter((id) => id !== fileId) : prev));
+  }, []);
+
   const openFile = useCallback((fileId: string) => {
     setActiveFileId(fileId);
     setOpenTabs((prev) => (prev.includes(fileId) ? prev : [...prev, fileId]));
@@ -38,7 +59,8 @@ export function useFileSystem() {
 
   const updateFile = useCallback((fileId: string, content: string) => {
     setFiles((prev) => updateFileContent(prev, fileId, content));
-  }, []);
+    markModified(fileId);
+  }, [markModified]);
 
   const createFile = useCallback((parentId: string | null, name: string, content: string = "") => {
     const newFile: FileNode = {
@@ -50,8 +72,9 @@ export function useFileSystem() {
     };
     setFiles((prev) => addFile(prev, parentId, newFile));
     openFile(newFile.id);
+    markModified(newFile.id);
     return newFile;
-  }, [openFile]);
+  }, [openFile, markModified]);
 
   const createFolder = useCallback((parentId: string | null, name: string) => {
     const newFolder: FileNode = {
@@ -68,7 +91,8 @@ export function useFileSystem() {
   const removeFile = useCallback((fileId: string) => {
     setFiles((prev) => deleteFile(prev, fileId));
     closeTab(fileId);
-  }, [closeTab]);
+    forgetModified(fileId);
+  }, [closeTab, forgetModified]);
 
   const toggle = useCallback((folderId: string) => {
     setFiles((prev) => toggleFolder(prev, folderId));
@@ -86,32 +110,49 @@ export function useFileSystem() {
     });
   }, []);
 
-  const applyChanges = useCallback(() => {
-    pendingChanges.forEach((change) => {
+  // Apply the pending changes, or the subset accepted during review
+  const applyChanges = useCallback((changes: FileChange[] = pendingChanges) => {
+    changes.forEach((change) => {
       if (change.type === "create") {
-        const parts = change.fileId.split("/");
-        const fileName = parts.pop()!;
-        const parentId = parts.length > 0 ? parts.join("/") : null;
-        createFile(parentId, fileName, change.newContent);
+        setFiles((prev) => upsertFile(prev, change.fileId, change.newContent, change.attributes));
+        openFile(change.fileId);
+        markModified(change.fileId);
       } else if (change.type === "modify") {
-        updateFile(change.fileId, change.newContent);
+        if (change.attributes) {
+          setFiles((prev) => updateFileContent(prev, change.fileId, change.newContent, change.attributes));
+          markModified(change.fileId);
+        } else {
+          updateFile(change.fileId, change.newContent);
+        }
       } else if (change.type === "delete") {
         removeFile(change.fileId);
+      } else if (change.type === "rename" && change.previousFileId) {
+        const previousId = change.previousFileId;
+        setFiles((prev) => upsertFile(deleteFile(prev, previousId), change.fileId, change.newContent, change.attributes));
+        closeTab(previousId);
+        forgetModified(previousId);
+        openFile(change.fileId);
+        markModified(change.fileId);
       }
     });
     setPendingChanges([]);
-  }, [pendingChanges, createFile, updateFile, removeFile]);
+  }, [pendingChanges, openFile, closeTab, updateFile, removeFile, markModified, forgetModified]);
 
   const discardChanges = useCallback(() => {
     setPendingChanges([]);
   }, []);
 
+  const removePendingChanges = useCallback((fileIds: string[]) => {
+    setPendingChanges((prev) => prev.filter((c) => !fileIds.includes(c.fileId)));
+  }, []);
+
   return {
     files,
     activeFile,
     activeFileId,
     openTabs,
     pendingChanges,
+    recentlyModified,
     openFile,
     closeTab,
     updateFile,
@@ -122,6 +163,8 @@ export function useFileSystem() {
     addPendingChange,
     applyChanges,
     discardChanges,
+    removePendingChanges,
     setFiles,
+    getFiles,
   };
 }
@@ -0,0 +1,33 @@
+// Pipeline presets offered in the editor's pipeline picker
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchPipelinePresets, PipelinePreset } from "@/lib/pipelines";
+
+export function usePipelinePresets(userId: string | undefined) {
+  const [presets, setPresets] = useState<PipelinePreset[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refetch = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Admins can read disabled presets too; the picker only offers enabled ones
+      const all = await fetchPipelinePresets();
+      setPresets(all.filter((p) => p.enabled));
+    } catch (error) {
+      console.error("Failed to load pipelines:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (userId) refetch();
+  }, [userId, refetch]);
+
+  return {
+    presets,
+    defaultPreset: presets.find((p) => p.isDefault) ?? null,
+    isLoading,
+    refetch,
+  };
+}
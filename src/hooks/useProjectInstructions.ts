@@ -0,0 +1,42 @@
+// Instructions and knowledge files of the open project
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  EMPTY_PROJECT_INSTRUCTIONS,
+  fetchProjectInstructions,
+  ProjectInstructions,
+  saveProjectInstructions,
+} from "@/lib/project-instructions";
+
+export function useProjectInstructions(projectId: string | undefined) {
+  const [value, setValue] = useState<ProjectInstructions>(EMPTY_PROJECT_INSTRUCTIONS);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    fetchProjectInstructions(projectId)
+      .then((next) => {
+        if (!cancelled) setValue(next);
+      })
+      .catch((error) => console.error("Failed to load project instructions:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const save = useCallback(
+    async (next: ProjectInstructions) => {
+      if (!projectId) return;
+      await saveProjectInstructions(projectId, next);
+      setValue({ ...next, instructions: next.instructions.trim() });
+    },
+    [projectId]
+  );
+
+  return { ...value, isLoading, save };
+}
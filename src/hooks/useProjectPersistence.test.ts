@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { useState } from "react";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { FileNode } from "@/lib/file-system";
+import { useProjectPersistence } from "./useProjectPersistence";
+
+// The projects table behind the query shapes the hook uses: reads answer
+// from `reads` in order, updates are recorded and answered from `updates`
+const db = vi.hoisted(() => {
+  type Reply = { data: unknown; error: unknown };
+  const state = {
+    reads: [] as Reply[],
+    updates: [] as Reply[],
+    written: [] as { files: unknown; filters: [string, unknown][] }[],
+  };
+
+  const query = (update?: { files: unknown }) => {
+    const filters: [string, unknown][] = [];
+    const builder = {
+      select: () => builder,
+      update: (values: { files: unknown }) => query(values),
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      maybeSingle: () => {
+        if (!update) return Promise.resolve(state.reads.shift() ?? { data: null, error: new Error("no reply") });
+        state.written.push({ files: update.files, filters });
+        return Promise.resolve(state.updates.shift() ?? { data: null, error: null });
+      },
+    };
+    return builder;
+  };
+
+  return { state, supabase: { from: () => query() } };
+});
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: db.supabase }));
+
+const file = (content: string): FileNode[] => [{ id: "1", name: "App.tsx", type: "file", content }];
+
+const STORED = file("stored");
+const REVISION = "2026-10-01T10:00:00.000Z";
+
+// The hook with the files in component state, as the editor keeps them
+function renderPersistence() {
+  return renderHook(() => {
+    const [files, setFiles] = useState(file("template"));
+    return { ...useProjectPersistence("project-1", files, setFiles, { debounceMs: 10 }), files, setFiles };
+  });
+}
+
+// Long enough for the autosave debounce to have fired
+const settle = () => act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  db.state.reads = [];
+  db.state.updates = [];
+  db.state.written = [];
+});
+
+describe("useProjectPersistence", () => {
+  it("saves edits against the loaded revision", async () => {
+    db.state.reads.push({ data: { name: "App", files: STORED, updated_at: REVISION }, error: null });
+    db.state.updates.push({ data: { updated_at: "2026-10-01T10:05:00.000Z" }, error: null });
+    const { result } = renderPersistence();
+
+    await waitFor(() => expect(result.current.status).toBe("idle"));
+    expect(result.current.files).toEqual(STORED);
+    await settle();
+    expect(db.state.written).toEqual([]);
+
+    act(() => result.current.setFiles(file("edited")));
+    await waitFor(() => expect(result.current.status).toBe("saved"));
+    expect(db.state.written).toEqual([
+      {
+        files: file("edited"),
+        filters: [
+          ["id", "project-1"],
+          ["updated_at", REVISION],
+        ],
+      },
+    ]);
+  });
+
+  it("never saves after a failed load, and saves once a retry succeeds", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    db.state.reads.push({ data: null, error: new Error("network down") });
+    const { result } = renderPersistence();
+
+    await waitFor(() => expect(result.current.status).toBe("load-failed"));
+    expect(result.current.isLoaded).toBe(false);
+
+    // Edits and explicit saves leave the stored project alone
+    act(() => result.current.setFiles(file("edited")));
+    await settle();
+    await act(() => result.current.saveNow());
+    expect(db.state.written).toEqual([]);
+    expect(result.current.status).toBe("load-failed");
+
+    db.state.reads.push({ data: { name: "App", files: STORED, updated_at: REVISION }, error: null });
+    act(() => result.current.retryLoad());
+    await waitFor(() => expect(result.current.status).toBe("idle"));
+    expect(result.current.isLoaded).toBe(true);
+    expect(result.current.files).toEqual(STORED);
+
+    db.state.updates.push({ data: { updated_at: "2026-10-01T10:05:00.000Z" }, error: null });
+    act(() => result.current.setFiles(file("edited again")));
+    await waitFor(() => expect(result.current.status).toBe("saved"));
+    expect(db.state.written).toHaveLength(1);
+    expect(db.state.written[0].filters).toContainEqual(["updated_at", REVISION]);
+  });
+});
@@ -0,0 +1,280 @@
+// Project Persistence Hook: load, debounced autosave and conflict detection
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { FileNode, mergeFileTrees } from "@/lib/file-system";
+
+// "load-failed": the stored project could not be read, so nothing is saved
+// until a retry succeeds
+export type SaveStatus = "loading" | "load-failed" | "idle" | "saving" | "saved" | "error" | "conflict";
+
+export type ConflictResolution = "overwrite" | "theirs" | "merge";
+
+export interface ProjectConflict {
+  remoteFiles: FileNode[];
+  remoteUpdatedAt: string;
+}
+
+export interface ProjectPersistenceOptions {
+  debounceMs?: number;
+  onLoad?: (files: FileNode[]) => void;
+  onMerge?: (conflicts: string[]) => void;
+}
+
+const AUTOSAVE_DEBOUNCE_MS = 1500;
+
+const parseStoredFiles = (value: Json | null): FileNode[] | null => {
+  return Array.isArray(value) && value.length > 0 ? (value as unknown as FileNode[]) : null;
+};
+
+export function useProjectPersistence(
+  projectId: string | undefined,
+  files: FileNode[],
+  setFiles: (files: FileNode[]) => void,
+  options: ProjectPersistenceOptions = {}
+) {
+  const { debounceMs = AUTOSAVE_DEBOUNCE_MS, onLoad, onMerge } = options;
+
+  const [status, setStatus] = useState<SaveStatus>(projectId ? "loading" : "idle");
+  const [projectName, setProjectName] = useState("Untitled");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [conflict, setConflict] = useState<ProjectConflict | null>(null);
+  // Bumped to load the project again after a failed load
+  const [loadAttempt, setLoadAttempt] = useState(0);
+
+  // updated_at of the revision our local state is based on; null until a
+  // load succeeds
+  const revisionRef = useRef<string | null>(null);
+  // Files as of that revision, used as the merge base
+  const baseFilesRef = useRef<FileNode[]>([]);
+  const savedHashRef = useRef<string | null>(null);
+  const filesRef = useRef(files);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savingRef = useRef(false);
+  // The caller's callbacks may change every render; loading reads the latest
+  const setFilesRef = useRef(setFiles);
+  const onLoadRef = useRef(onLoad);
+
+  filesRef.current = files;
+  setFilesRef.current = setFiles;
+  onLoadRef.current = onLoad;
+
+  const markSynced = useCallback((syncedFiles: FileNode[], updatedAt: string) => {
+    revisionRef.current = updatedAt;
+    baseFilesRef.current = syncedFiles;
+    savedHashRef.current = JSON.stringify(syncedFiles);
+    setLastSavedAt(new Date(updatedAt));
+  }, []);
+
+  // Load stored files when the project opens
+  useEffect(() => {
+    if (!projectId) return;
+
+    let cancelled = false;
+    revisionRef.current = null;
+    setStatus("loading");
+
+    const load = async () => {
+      const { data, error } = await supabase
+        .from("projects")
+        .select("name, files, updated_at")
+        .eq("id", projectId)
+        .maybeSingle();
+
+      if (cancelled) return;
+
+      if (error || !data) {
+        console.error("Failed to load project:", error);
+        setStatus("load-failed");
+        return;
+      }
+
+      setProjectName(data.name);
+
+      const storedFiles = parseStoredFiles(data.files);
+      if (storedFiles) {
+        setFilesRef.current(storedFiles);
+        onLoadRef.current?.(storedFiles);
+        markSynced(storedFiles, data.updated_at);
+      } else {
+        // New project: keep the default template and persist it on first save
+        revisionRef.current = data.updated_at;
+        baseFilesRef.current = [];
+        savedHashRef.current = null;
+        onLoadRef.current?.(filesRef.current);
+      }
+
+      setStatus("idle");
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, markSynced, loadAttempt]);
+
+  const retryLoad = useCallback(() => setLoadAttempt((attempt) => attempt + 1), []);
+
+  const fetchRemote = useCallback(async (): Promise<ProjectConflict | null> => {
+    const { data, error } = await supabase
+      .from("projects")
+      .select("files, updated_at")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+
+    return {
+      remoteFiles: parseStoredFiles(data.files) || [],
+      remoteUpdatedAt: data.updated_at,
+    };
+  }, [projectId]);
+
+  // Write files only if the row is still at the revision we last saw. Without
+  // a revision the stored files were never read, so nothing is written.
+  const writeFiles = useCallback(
+    async (filesToSave: FileNode[], expectedRevision: string | null): Promise<boolean> => {
+      if (!expectedRevision) {
+        throw new Error("The project has not been loaded; refusing to overwrite it");
+      }
+
+      const { data, error } = await supabase
+        .from("projects")
+        .update({ files: filesToSave as unknown as Json })
+        .eq("id", projectId)
+        .eq("updated_at", expectedRevision)
+        .select("updated_at")
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return false;
+
+      markSynced(filesToSave, data.updated_at);
+      return true;
+    },
+    [projectId, markSynced]
+  );
+
+  const saveNow = useCallback(async () => {
+    if (!projectId || !revisionRef.current || savingRef.current || conflict) return;
+
+    const snapshot = filesRef.current;
+    if (JSON.stringify(snapshot) === savedHashRef.current) return;
+
+    savingRef.current = true;
+    setStatus("saving");
+
+    try {
+      const saved = await writeFiles(snapshot, revisionRef.current);
+
+      if (saved) {
+        setStatus("saved");
+        return;
+      }
+
+      // Someone else saved a newer revision since we loaded
+      const remote = await fetchRemote();
+      if (remote) {
+        setConflict(remote);
+        setStatus("conflict");
+      } else {
+        setStatus("error");
+      }
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      setStatus("error");
+    } finally {
+      savingRef.current = false;
+    }
+  }, [projectId, conflict, writeFiles, fetchRemote]);
+
+  // Debounced autosave on every edit or applied change
+  useEffect(() => {
+    if (status === "loading" || status === "load-failed" || conflict || !projectId) return;
+    if (JSON.stringify(files) === savedHashRef.current) return;
+
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+
+    saveTimeoutRef.current = setTimeout(() => {
+      saveNow();
+    }, debounceMs);
+
+    return () => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+      }
+    };
+  }, [files, status, conflict, projectId, debounceMs, saveNow]);
+
+  // Warn before leaving with unsaved edits
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (savedHashRef.current !== null && JSON.stringify(filesRef.current) !== savedHashRef.current) {
+        e.preventDefault();
+        e.returnValue = "";
+      }
+    };
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, []);
+
+  const resolveConflict = useCallback(
+    async (resolution: ConflictResolution) => {
+      if (!conflict) return;
+
+      const { remoteFiles, remoteUpdatedAt } = conflict;
+
+      if (resolution === "theirs") {
+        setFiles(remoteFiles);
+        markSynced(remoteFiles, remoteUpdatedAt);
+        setConflict(null);
+        setStatus("saved");
+        return;
+      }
+
+      let resolved = filesRef.current;
+      if (resolution === "merge") {
+        const result = mergeFileTrees(baseFilesRef.current, filesRef.current, remoteFiles);
+        resolved = result.files;
+        setFiles(resolved);
+        onMerge?.(result.conflicts);
+      }
+
+      setStatus("saving");
+      try {
+        const saved = await writeFiles(resolved, remoteUpdatedAt);
+        if (saved) {
+          setConflict(null);
+          setStatus("saved");
+          return;
+        }
+
+        // Another save landed while we were resolving: prompt again
+        const remote = await fetchRemote();
+        setConflict(remote);
+        setStatus(remote ? "conflict" : "error");
+      } catch (error) {
+        console.error("Failed to resolve conflict:", error);
+        setStatus("error");
+      }
+    },
+    [conflict, setFiles, markSynced, writeFiles, fetchRemote, onMerge]
+  );
+
+  return {
+    status,
+    projectName,
+    setProjectName,
+    lastSavedAt,
+    conflict,
+    isLoaded: status !== "loading" && status !== "load-failed",
+    saveNow,
+    retryLoad,
+    resolveConflict,
+  };
+}
@@ -1,119 +1,227 @@
-// Version History Hook for Undo/Redo functionality
+// Version History Hook: durable, paged project versions with undo/redo
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { FileChange, FileNode } from "@/lib/file-system";
+import {
+  ProjectVersion,
+  buildManifest,
+  diffVersions,
+  listProjectVersions,
+  loadVersionFiles,
+  manifestsEqual,
+  saveProjectVersion,
+} from "@/lib/version-store";
+
+export type VersionSnapshot = ProjectVersion;
+
+const PAGE_SIZE = 30;
+
+export function useVersionHistory(projectId: string | undefined, userId: string | undefined) {
+  const [versions, setVersions] = useState<VersionSnapshot[]>([]);
+  const [total, setTotal] = useState(0);
+  const [currentVersionId, setCurrentVersionIdState] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Files the project opened with, recorded as a version if they are new
+  const [baselineFiles, setBaselineFiles] = useState<FileNode[] | null>(null);
+
+  // Mirrors of the state above so several snapshots can be saved from one
+  // async flow (e.g. auto-repair rounds) without reading a stale parent
+  const versionsRef = useRef<VersionSnapshot[]>([]);
+  const currentVersionIdRef = useRef<string | null>(null);
+  // Saves run one at a time so each version's parent is the previous one
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const setCurrentVersionId = useCallback((id: string | null) => {
+    currentVersionIdRef.current = id;
+    setCurrentVersionIdState(id);
+  }, []);
 
-import { useState, useCallback } from "react";
-import { FileNode } from "@/lib/file-system";
+  const replaceVersions = useCallback((next: VersionSnapshot[]) => {
+    versionsRef.current = next;
+    setVersions(next);
+  }, []);
 
-export interface VersionSnapshot {
-  id: string;
-  timestamp: Date;
-  files: FileNode[];
-  description: string;
-  messageId?: string;
-}
+  const hasMore = versions.length < total;
+  const currentIndex = versions.findIndex((v) => v.id === currentVersionId);
+  const canUndo = currentIndex !== -1 && (currentIndex < versions.length - 1 || hasMore) && !isRestoring;
+  const canRedo = currentIndex > 0 && !isRestoring;
 
-const MAX_HISTORY_SIZE = 50;
+  // Load the newest page and record the opened files if they differ from it
+  useEffect(() => {
+    if (!projectId || !userId || !baselineFiles) return;
 
-export function useVersionHistory(initialFiles: FileNode[]) {
-  const [history, setHistory] = useState<VersionSnapshot[]>([
-    {
-      id: "initial",
-      timestamp: new Date(),
-      files: JSON.parse(JSON.stringify(initialFiles)),
-      description: "Initial state",
-    },
-  ]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+    let cancelled = false;
 
-  const canUndo = currentIndex > 0;
-  const canRedo = currentIndex < history.length - 1;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const page = await listProjectVersions(projectId, 0, PAGE_SIZE);
+        if (cancelled) return;
 
-  const saveSnapshot = useCallback(
-    (files: FileNode[], description: string, messageId?: string) => {
-      const newSnapshot: VersionSnapshot = {
-        id: Date.now().toString(),
-        timestamp: new Date(),
-        files: JSON.parse(JSON.stringify(files)),
-        description,
-        messageId,
-      };
+        replaceVersions(page.versions);
+        setTotal(page.total);
+
+        const latest = page.versions[0];
+        const { manifest } = await buildManifest(baselineFiles);
+        if (cancelled) return;
+
+        if (latest && manifestsEqual(latest.manifest, manifest)) {
+          setCurrentVersionId(latest.id);
+          return;
+        }
+
+        const baseline = await saveProjectVersion({
+          projectId,
+          userId,
+          parentId: latest?.id ?? null,
+          files: baselineFiles,
+          description: latest ? "Opened with unversioned changes" : "Initial state",
+        });
+        if (cancelled) return;
+
+        replaceVersions([baseline, ...versionsRef.current]);
+        setTotal((prev) => prev + 1);
+        setCurrentVersionId(baseline.id);
+      } catch (error) {
+        console.error("Failed to load version history:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, userId, baselineFiles, replaceVersions, setCurrentVersionId]);
+
+  // Called once the project's stored files are loaded
+  const initialize = useCallback((files: FileNode[]) => {
+    setBaselineFiles(files);
+  }, []);
 
-      setHistory((prev) => {
-        // Remove any future history if we're not at the end
-        const newHistory = prev.slice(0, currentIndex + 1);
-        newHistory.push(newSnapshot);
+  const loadMore = useCallback(async () => {
+    if (!projectId) return;
+
+    setIsLoading(true);
+    try {
+      const page = await listProjectVersions(projectId, versionsRef.current.length, PAGE_SIZE);
+      const known = new Set(versionsRef.current.map((v) => v.id));
+      replaceVersions([...versionsRef.current, ...page.versions.filter((v) => !known.has(v.id))]);
+      setTotal(page.total);
+    } catch (error) {
+      console.error("Failed to load more versions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, replaceVersions]);
 
-        // Limit history size
-        if (newHistory.length > MAX_HISTORY_SIZE) {
-          newHistory.shift();
-          return newHistory;
+  const saveSnapshot = useCallback(
+    (files: FileNode[], description: string, messageId?: string): Promise<VersionSnapshot | null> => {
+      const save = async () => {
+        if (!projectId || !userId) return null;
+
+        try {
+          // Nothing changed since the current version
+          const current = versionsRef.current.find((v) => v.id === currentVersionIdRef.current);
+          if (current) {
+            const { manifest } = await buildManifest(files);
+            if (manifestsEqual(current.manifest, manifest)) return current;
+          }
+
+          const version = await saveProjectVersion({
+            projectId,
+            userId,
+            parentId: currentVersionIdRef.current,
+            files,
+            description,
+            messageId,
+          });
+          replaceVersions([version, ...versionsRef.current]);
+          setTotal((prev) => prev + 1);
+          setCurrentVersionId(version.id);
+          return version;
+        } catch (error) {
+          console.error("Failed to save version:", error);
+          return null;
         }
+      };
 
-        return newHistory;
-      });
+      const result = saveQueueRef.current.then(save);
+      saveQueueRef.current = result;
+      return result;
+    },
+    [projectId, userId, replaceVersions, setCurrentVersionId]
+  );
 
-      setCurrentIndex((prev) => Math.min(prev + 1, MAX_HISTORY_SIZE - 1));
+  // Load a version's files and make it the current version
+  const restoreVersion = useCallback(
+    async (versionId: string): Promise<FileNode[] | null> => {
+      const version = versionsRef.current.find((v) => v.id === versionId);
+      if (!projectId || !version) return null;
+
+      setIsRestoring(true);
+      try {
+        const files = await loadVersionFiles(projectId, version);
+        setCurrentVersionId(version.id);
+        return files;
+      } catch (error) {
+        console.error("Failed to restore version:", error);
+        return null;
+      } finally {
+        setIsRestoring(false);
+      }
     },
-    [currentIndex]
+    [projectId, setCurrentVersionId]
   );
 
-  const undo = useCallback((): FileNode[] | null => {
+  const undo = useCallback(async (): Promise<FileNode[] | null> => {
     if (!canUndo) return null;
 
-    const newIndex = currentIndex - 1;
-    setCurrentIndex(newIndex);
-    return JSON.parse(JSON.stringify(history[newIndex].files));
-  }, [canUndo, currentIndex, history]);
+    if (currentIndex === versionsRef.current.length - 1) await loadMore();
+    const previous = versionsRef.current[currentIndex + 1];
+    return previous ? restoreVersion(previous.id) : null;
+  }, [canUndo, currentIndex, loadMore, restoreVersion]);
 
-  const redo = useCallback((): FileNode[] | null => {
+  const redo = useCallback(async (): Promise<FileNode[] | null> => {
     if (!canRedo) return null;
-
-    const newIndex = currentIndex + 1;
-    setCurrentIndex(newIndex);
-    return JSON.parse(JSON.stringify(history[newIndex].files));
-  }, [canRedo, currentIndex, history]);
-
-  const getCurrentSnapshot = useCallback((): VersionSnapshot | null => {
-    return history[currentIndex] || null;
-  }, [history, currentIndex]);
-
-  const getHistory = useCallback((): VersionSnapshot[] => {
-    return history;
-  }, [history]);
-
-  const goToSnapshot = useCallback(
-    (snapshotId: string): FileNode[] | null => {
-      const index = history.findIndex((s) => s.id === snapshotId);
-      if (index === -1) return null;
-
-      setCurrentIndex(index);
-      return JSON.parse(JSON.stringify(history[index].files));
+    return restoreVersion(versionsRef.current[currentIndex - 1].id);
+  }, [canRedo, currentIndex, restoreVersion]);
+
+  // Changes that turn one version into another, for display in a diff
+  const getVersionChanges = useCallback(
+    async (fromId: string, toId: string): Promise<FileChange[] | null> => {
+      const from = versionsRef.current.find((v) => v.id === fromId);
+      const to = versionsRef.current.find((v) => v.id === toId);
+      if (!projectId || !from || !to) return null;
+
+      try {
+        return await diffVersions(projectId, from, to);
+      } catch (error) {
+        console.error("Failed to compare versions:", error);
+        return null;
+      }
     },
-    [history]
+    [projectId]
   );
 
-  const clearHistory = useCallback((currentFiles: FileNode[]) => {
-    setHistory([
-      {
-        id: "initial",
-        timestamp: new Date(),
-        files: JSON.parse(JSON.stringify(currentFiles)),
-        description: "Initial state",
-      },
-    ]);
-    setCurrentIndex(0);
-  }, []);
-
   return {
+    versions,
+    total,
+    hasMore,
+    isLoading,
+    isRestoring,
+    currentVersionId,
     canUndo,
     canRedo,
-    currentIndex,
-    historyLength: history.length,
+    initialize,
+    loadMore,
     saveSnapshot,
+    restoreVersion,
     undo,
     redo,
-    getCurrentSnapshot,
-    getHistory,
-    goToSnapshot,
-    clearHistory,
+    getVersionChanges,
   };
 }
@@ -38,6 +38,163 @@ export type Database = {
         }
         Relationships: []
       }
+      app_settings: {
+        Row: {
+          created_at: string
+          is_public: boolean
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      chat_messages: {
+        Row: {
+          attachments: Json
+          completion_tokens: number
+          content: string
+          created_at: string
+          file_changes: Json
+          id: string
+          model: string | null
+          prompt_tokens: number
+          role: string
+          session_id: string
+        }
+        Insert: {
+          attachments?: Json
+          completion_tokens?: number
+          content?: string
+          created_at?: string
+          file_changes?: Json
+          id?: string
+          model?: string | null
+          prompt_tokens?: number
+          role: string
+          session_id: string
+        }
+        Update: {
+          attachments?: Json
+          completion_tokens?: number
+          content?: string
+          created_at?: string
+          file_changes?: Json
+          id?: string
+          model?: string | null
+          prompt_tokens?: number
+          role?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          summary: string | null
+          summary_through: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          summary?: string | null
+          summary_through?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_sessions_summary_through_fkey"
+            columns: ["summary_through"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_sessions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_transactions: {
+        Row: {
+          amount: number
+          balance_after: number
+          completion_tokens: number
+          created_at: string
+          id: string
+          kind: string
+          model: string | null
+          prompt_tokens: number
+          source: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          completion_tokens?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          model?: string | null
+          prompt_tokens?: number
+          source?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          completion_tokens?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          model?: string | null
+          prompt_tokens?: number
+          source?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       email_templates: {
         Row: {
           created_at: string
@@ -74,6 +231,101 @@ export type Database = {
         }
         Relationships: []
       }
+      github_push_events: {
+        Row: {
+          after_sha: string
+          before_sha: string
+          branch: string
+          commit_count: number
+          commits: Json
+          created_at: string
+          default_branch: string
+          delivery_id: string
+          forced: boolean
+          id: string
+          project_id: string
+          pusher: string | null
+          repo: string
+        }
+        Insert: {
+          after_sha: string
+          before_sha: string
+          branch: string
+          commit_count?: number
+          commits?: Json
+          created_at?: string
+          default_branch: string
+          delivery_id: string
+          forced?: boolean
+          id?: string
+          project_id: string
+          pusher?: string | null
+          repo: string
+        }
+        Update: {
+          after_sha?: string
+          before_sha?: string
+          branch?: string
+          commit_count?: number
+          commits?: Json
+          created_at?: string
+          default_branch?: string
+          delivery_id?: string
+          forced?: boolean
+          id?: string
+          project_id?: string
+          pusher?: string | null
+          repo?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "github_push_events_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_presets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          enabled: boolean
+          id: string
+          is_default: boolean
+          name: string
+          slug: string
+          stages: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          is_default?: boolean
+          name: string
+          slug: string
+          stages: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          is_default?: boolean
+          name?: string
+          slug?: string
+          stages?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -101,11 +353,236 @@ export type Database = {
         }
         Relationships: []
       }
+      project_blobs: {
+        Row: {
+          content: string
+          created_at: string
+          hash: string
+          project_id: string
+          size: number
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          hash: string
+          project_id: string
+          size: number
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          hash?: string
+          project_id?: string
+          size?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_blobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_git_remotes: {
+        Row: {
+          created_at: string
+          project_id: string
+          provider: string
+          repo: string
+          updated_at: string
+          url: string
+          username: string | null
+        }
+        Insert: {
+          created_at?: string
+          project_id: string
+          provider: string
+          repo: string
+          updated_at?: string
+          url: string
+          username?: string | null
+        }
+        Update: {
+          created_at?: string
+          project_id?: string
+          provider?: string
+          repo?: string
+          updated_at?: string
+          url?: string
+          username?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_git_remotes_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_git_sync: {
+        Row: {
+          auto_sync_paused: boolean
+          branch: string | null
+          created_at: string
+          project_id: string
+          synced_at: string | null
+          synced_sha: string | null
+          updated_at: string
+        }
+        Insert: {
+          auto_sync_paused?: boolean
+          branch?: string | null
+          created_at?: string
+          project_id: string
+          synced_at?: string | null
+          synced_sha?: string | null
+          updated_at?: string
+        }
+        Update: {
+          auto_sync_paused?: boolean
+          branch?: string | null
+          created_at?: string
+          project_id?: string
+          synced_at?: string | null
+          synced_sha?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_git_sync_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_github_watches: {
+        Row: {
+          created_at: string
+          project_id: string
+          repo: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          project_id: string
+          repo: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          project_id?: string
+          repo?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_github_watches_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_instructions: {
+        Row: {
+          created_at: string
+          instructions: string
+          knowledge_files: string[]
+          project_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          instructions?: string
+          knowledge_files?: string[]
+          project_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          instructions?: string
+          knowledge_files?: string[]
+          project_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_instructions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_versions: {
+        Row: {
+          created_at: string
+          description: string
+          file_count: number
+          id: string
+          manifest: Json
+          message_id: string | null
+          parent_id: string | null
+          project_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          file_count?: number
+          id?: string
+          manifest?: Json
+          message_id?: string | null
+          parent_id?: string | null
+          project_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          file_count?: number
+          id?: string
+          manifest?: Json
+          message_id?: string | null
+          parent_id?: string | null
+          project_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_versions_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "project_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           created_at: string
           description: string | null
           files: Json
+          github_auto_sync: boolean
+          github_repo: string | null
           id: string
           name: string
           updated_at: string
@@ -115,6 +592,8 @@ export type Database = {
           created_at?: string
           description?: string | null
           files?: Json
+          github_auto_sync?: boolean
+          github_repo?: string | null
           id?: string
           name: string
           updated_at?: string
@@ -124,6 +603,8 @@ export type Database = {
           created_at?: string
           description?: string | null
           files?: Json
+          github_auto_sync?: boolean
+          github_repo?: string | null
           id?: string
           name?: string
           updated_at?: string
@@ -149,11 +630,61 @@ export type Database = {
         }
         Relationships: []
       }
+      user_secrets: {
+        Row: {
+          ciphertext: string
+          created_at: string
+          hint: string | null
+          id: string
+          key_version: number
+          name: string
+          updated_at: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          ciphertext: string
+          created_at?: string
+          hint?: string | null
+          id?: string
+          key_version?: number
+          name: string
+          updated_at?: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          ciphertext?: string
+          created_at?: string
+          hint?: string | null
+          id?: string
+          key_version?: number
+          name?: string
+          updated_at?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      debit_credits: {
+        Args: {
+          _amount: number
+          _completion_tokens: number
+          _model: string
+          _prompt_tokens: number
+          _source: string
+          _user_id: string
+        }
+        Returns: {
+          balance: number
+          charged: number
+        }[]
+      }
       get_user_credits: { Args: { _user_id: string }; Returns: number }
       has_role: {
         Args: {
@@ -1,6 +1,25 @@
 // AI Configuration and Model Definitions
 
-export type AIProvider = "openai" | "gemini" | "lovable";
+export type AIProvider = "openai" | "gemini" | "lovable" | "deepseek" | "groq" | "custom";
+
+export interface AIProviderInfo {
+  id: AIProvider;
+  name: string;
+  // Key configured by an admin; lovable needs none
+  requiresKey: boolean;
+  // Users may bring their own key instead of using the admin's
+  userKey: boolean;
+}
+
+// Mirrors the server-side adapter registry in supabase/functions/_shared/providers.ts
+export const AI_PROVIDERS: AIProviderInfo[] = [
+  { id: "lovable", name: "Lovable AI", requiresKey: false, userKey: false },
+  { id: "openai", name: "OpenAI", requiresKey: true, userKey: true },
+  { id: "gemini", name: "Google Gemini", requiresKey: true, userKey: true },
+  { id: "deepseek", name: "DeepSeek", requiresKey: true, userKey: true },
+  { id: "groq", name: "Groq", requiresKey: true, userKey: true },
+  { id: "custom", name: "Custom Endpoint", requiresKey: true, userKey: false },
+];
 
 export interface AIModel {
   id: string;
@@ -9,6 +28,11 @@ export interface AIModel {
   description: string;
   maxTokens: number;
   contextWindow: number;
+  // Function calling: the server reads and edits files through tools instead
+  // of the whole project being sent in the prompt
+  supportsTools?: boolean;
+  // Reads images attached to the request (screenshots, mockups)
+  supportsVision?: boolean;
   isDefault?: boolean;
 }
 
@@ -21,6 +45,8 @@ export const AI_MODELS: AIModel[] = [
     description: "Fast & balanced - recommended for most use cases",
     maxTokens: 8192,
     contextWindow: 128000,
+    supportsTools: true,
+    supportsVision: true,
     isDefault: true,
   },
   {
@@ -30,6 +56,8 @@ export const AI_MODELS: AIModel[] = [
     description: "Most capable for complex reasoning",
     maxTokens: 8192,
     contextWindow: 200000,
+    supportsTools: true,
+    supportsVision: true,
   },
   {
     id: "lovable/gpt-5",
@@ -38,6 +66,8 @@ export const AI_MODELS: AIModel[] = [
     description: "Powerful all-rounder with excellent reasoning",
     maxTokens: 16384,
     contextWindow: 200000,
+    supportsTools: true,
+    supportsVision: true,
   },
   {
     id: "lovable/gpt-5-mini",
@@ -46,6 +76,8 @@ export const AI_MODELS: AIModel[] = [
     description: "Good balance of cost and performance",
     maxTokens: 16384,
     contextWindow: 128000,
+    supportsTools: true,
+    supportsVision: true,
   },
   // Custom API Keys
   {
@@ -55,6 +87,8 @@ export const AI_MODELS: AIModel[] = [
     description: "OpenAI's latest model - requires API key",
     maxTokens: 16384,
     contextWindow: 128000,
+    supportsTools: true,
+    supportsVision: true,
   },
   {
     id: "gemini/gemini-1.5-pro",
@@ -63,6 +97,51 @@ export const AI_MODELS: AIModel[] = [
     description: "Google's Gemini - requires API key",
     maxTokens: 8192,
     contextWindow: 128000,
+    supportsTools: true,
+    supportsVision: true,
+  },
+  {
+    id: "deepseek/deepseek-chat",
+    name: "DeepSeek V3 (Custom Key)",
+    provider: "deepseek",
+    description: "Strong coding model at a low price - requires API key",
+    maxTokens: 8192,
+    contextWindow: 64000,
+    supportsTools: true,
+  },
+  {
+    id: "deepseek/deepseek-reasoner",
+    name: "DeepSeek R1 (Custom Key)",
+    provider: "deepseek",
+    description: "Reasoning model for hard logic bugs - requires API key",
+    maxTokens: 8192,
+    contextWindow: 64000,
+  },
+  {
+    id: "groq/llama-3.3-70b-versatile",
+    name: "Llama 3.3 70B (Custom Key)",
+    provider: "groq",
+    description: "Very fast inference on Groq - requires API key",
+    maxTokens: 8192,
+    contextWindow: 128000,
+    supportsTools: true,
+  },
+  {
+    id: "groq/llama-3.1-8b-instant",
+    name: "Llama 3.1 8B Instant (Custom Key)",
+    provider: "groq",
+    description: "Fastest option for small edits - requires API key",
+    maxTokens: 8192,
+    contextWindow: 128000,
+    supportsTools: true,
+  },
+  {
+    id: "custom/default",
+    name: "Custom Endpoint (Custom Key)",
+    provider: "custom",
+    description: "OpenAI-compatible server configured by your admin (Ollama, LM Studio, ...)",
+    maxTokens: 4096,
+    contextWindow: 32000,
   },
 ];
 
@@ -81,3 +160,7 @@ export const getLovableModels = (): AIModel[] => {
 export const getCustomModels = (): AIModel[] => {
   return AI_MODELS.filter((m) => m.provider !== "lovable");
 };
+
+export const getProviderInfo = (provider: AIProvider): AIProviderInfo | undefined => {
+  return AI_PROVIDERS.find((p) => p.id === provider);
+};
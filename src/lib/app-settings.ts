@@ -0,0 +1,56 @@
+// Typed access to the app_settings table. The edge functions read the same
+// keys through supabase/functions/_shared/settings.ts.
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+export interface SmtpConfig {
+  host: string;
+  port: string;
+  username: string;
+  password: string;
+  from_email: string;
+  from_name: string;
+  encryption: "none" | "ssl" | "tls";
+  enabled: boolean;
+}
+
+export interface AppSettings {
+  // Public: readable before sign-in
+  setup_completed: boolean;
+  site_domain: string;
+  app_name: string;
+  // Admin only
+  smtp_config: SmtpConfig;
+  custom_openai_base_url: string;
+  custom_openai_models: string[];
+}
+
+export type AppSettingKey = keyof AppSettings;
+
+// Returns null when the setting is missing or not visible to the caller
+export async function getAppSetting<K extends AppSettingKey>(key: K): Promise<AppSettings[K] | null> {
+  const { data, error } = await supabase.from("app_settings").select("value").eq("key", key).maybeSingle();
+  if (error) console.error(`Failed to read ${key} setting:`, error);
+  return (data?.value as unknown as AppSettings[K]) ?? null;
+}
+
+export async function getAppSettings<K extends AppSettingKey>(keys: K[]): Promise<Partial<Pick<AppSettings, K>>> {
+  const { data, error } = await supabase.from("app_settings").select("key, value").in("key", keys);
+  if (error) console.error("Failed to read app settings:", error);
+
+  const settings: Partial<Pick<AppSettings, K>> = {};
+  for (const row of data || []) {
+    settings[row.key as K] = row.value as unknown as AppSettings[K];
+  }
+  return settings;
+}
+
+export async function saveAppSetting<K extends AppSettingKey>(key: K, value: AppSettings[K]): Promise<void> {
+  const { data: auth } = await supabase.auth.getSession();
+  const { error } = await supabase.from("app_settings").upsert({
+    key,
+    value: value as unknown as Json,
+    updated_by: auth.session?.user.id ?? null,
+  });
+  if (error) throw error;
+}
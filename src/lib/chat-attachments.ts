@@ -0,0 +1,75 @@
+// Images attached to chat messages: uploaded to the private chat-attachments
+// bucket under the project and sent to vision models as image parts
+import { supabase } from "@/integrations/supabase/client";
+import { GenerationContentPart } from "@/lib/generation-client";
+
+export interface ChatAttachment {
+  // <project id>/<file name> in the bucket
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export const ATTACHMENT_BUCKET = "chat-attachments";
+export const ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+// Signed URLs for display; images are read again when a chat is reopened
+const SIGNED_URL_SECONDS = 60 * 60;
+const signedUrls = new Map<string, { url: Promise<string | null>; expiresAt: number }>();
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+// Returns an error message, or null when the file can be attached
+export function validateAttachment(file: File): string | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) return `${file.name || "File"} is not a PNG, JPEG, WebP or GIF image`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name || "Image"} is larger than 5 MB`;
+  return null;
+}
+
+export async function uploadChatAttachment(projectId: string, file: File): Promise<ChatAttachment> {
+  const path = `${projectId}/${crypto.randomUUID()}.${EXTENSIONS[file.type] ?? "png"}`;
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+  // Pasted screenshots have no useful name
+  const name = file.name && file.name !== "image.png" ? file.name : `screenshot.${EXTENSIONS[file.type] ?? "png"}`;
+  return { path, name, mimeType: file.type, size: file.size };
+}
+
+export function getAttachmentUrl(path: string): Promise<string | null> {
+  const cached = signedUrls.get(path);
+  // Re-sign a minute before the URL expires
+  if (cached && cached.expiresAt > Date.now() + 60_000) return cached.url;
+
+  const url = supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_SECONDS)
+    .then(({ data, error }) => {
+      if (error) {
+        console.error("Failed to sign attachment URL:", error);
+        signedUrls.delete(path);
+        return null;
+      }
+      return data.signedUrl;
+    });
+  signedUrls.set(path, { url, expiresAt: Date.now() + SIGNED_URL_SECONDS * 1000 });
+  return url;
+}
+
+// A user message with its images as content parts
+export const toContentParts = (text: string, attachments: ChatAttachment[]): string | GenerationContentPart[] =>
+  attachments.length === 0
+    ? text
+    : [
+        { type: "text", text },
+        ...attachments.map((a): GenerationContentPart => ({ type: "image", path: a.path, mimeType: a.mimeType, name: a.name })),
+      ];
@@ -1,4 +1,6 @@
 // Code Validation Utilities
+import { FileNode, flattenTextFiles } from "@/lib/file-system";
+import type { DiagnosticsRequest, DiagnosticsResponse } from "@/lib/typescript.worker";
 
 export interface ValidationResult {
   isValid: boolean;
@@ -11,6 +13,8 @@ export interface ValidationError {
   column: number;
   message: string;
   severity: "error" | "warning";
+  // TypeScript diagnostic code, when reported by the compiler
+  code?: number;
 }
 
 export interface ValidationWarning {
@@ -231,9 +235,82 @@ function validateHTMLSyntax(code: string, errors: ValidationError[], warnings: V
   });
 }
 
-// Validate file changes before applying
-export function validateFileChanges(changes: { filePath: string; content: string }[]): ValidationResult[] {
-  return changes.map((change) => {
+const TS_EXTENSIONS = /\.(tsx?|jsx?)$/;
+const DIAGNOSTICS_TIMEOUT_MS = 20000;
+
+type DiagnosticsMap = Extract<DiagnosticsResponse, { diagnostics: unknown }>["diagnostics"];
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (d: DiagnosticsMap) => void; reject: (e: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === "undefined") {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL("./typescript.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<DiagnosticsResponse>) => {
+      const pending = pendingRequests.get(event.data.id);
+      if (!pending) return;
+      pendingRequests.delete(event.data.id);
+      if ("error" in event.data) pending.reject(new Error(event.data.error));
+      else pending.resolve(event.data.diagnostics);
+    };
+    worker.onerror = () => {
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pendingRequests.forEach((pending) => pending.reject(new Error("TypeScript worker crashed")));
+      pendingRequests.clear();
+    };
+  } catch {
+    workerFailed = true;
+  }
+
+  return worker;
+};
+
+// Run the TypeScript compiler over the whole virtual project and return
+// diagnostics for the target files
+export function getTypeScriptDiagnostics(files: Record<string, string>, targets: string[]): Promise<DiagnosticsMap> {
+  const tsWorker = getWorker();
+  if (!tsWorker) return Promise.reject(new Error("TypeScript worker unavailable"));
+
+  const id = ++nextRequestId;
+  return new Promise<DiagnosticsMap>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingRequests.delete(id);
+      reject(new Error("TypeScript diagnostics timed out"));
+    }, DIAGNOSTICS_TIMEOUT_MS);
+
+    pendingRequests.set(id, {
+      resolve: (diagnostics) => {
+        clearTimeout(timeout);
+        resolve(diagnostics);
+      },
+      reject: (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      },
+    });
+    tsWorker.postMessage({ id, files, targets } satisfies DiagnosticsRequest);
+  });
+}
+
+// Validate file changes before applying. Changes are overlaid on the current
+// project so imports across files resolve; TS/JS files get real compiler
+// diagnostics, with the heuristic checks as a fallback.
+export async function validateFileChanges(
+  changes: { filePath: string; content: string }[],
+  files: FileNode[] = [],
+  deletedPaths: string[] = []
+): Promise<ValidationResult[]> {
+  const heuristicResults = changes.map((change) => {
     const ext = change.filePath.split(".").pop()?.toLowerCase() || "";
     const languageMap: Record<string, string> = {
       ts: "typescript",
@@ -247,4 +324,32 @@ export function validateFileChanges(changes: { filePath: string; content: string
     const language = languageMap[ext] || "text";
     return validateCode(change.content, language);
   });
+
+  const targets = changes.map((c) => c.filePath).filter((path) => TS_EXTENSIONS.test(path));
+  if (targets.length === 0) return heuristicResults;
+
+  const project = flattenTextFiles(files);
+  deletedPaths.forEach((path) => delete project[path]);
+  changes.forEach((change) => {
+    project[change.filePath] = change.content;
+  });
+
+  let diagnostics: DiagnosticsMap;
+  try {
+    diagnostics = await getTypeScriptDiagnostics(project, targets);
+  } catch (error) {
+    console.warn("Falling back to heuristic validation:", error);
+    return heuristicResults;
+  }
+
+  return changes.map((change, index) => {
+    const tsErrors = diagnostics[change.filePath];
+    if (!tsErrors) return heuristicResults[index];
+
+    return {
+      isValid: tsErrors.every((e) => e.severity !== "error"),
+      errors: tsErrors,
+      warnings: heuristicResults[index].warnings,
+    };
+  });
 }
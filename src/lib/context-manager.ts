@@ -1,12 +1,19 @@
 // Smart Context Management for AI
 
-import { FileNode, getAllFiles } from "@/lib/file-system";
+import { FileNode, getAllFiles, isBinaryFile } from "@/lib/file-system";
+import { buildImportGraph, extractExportSignatures, getRelatedFiles } from "@/lib/import-graph";
 
 export interface ContextOptions {
   maxTokens: number;
   includeImports: boolean;
   prioritizeActiveFile: boolean;
   includeRecentChanges: boolean;
+  // File ids, most recent first
+  recentlyModified?: string[];
+  // Project knowledge files: always included in full, ahead of the ranked files
+  pinnedFiles?: string[];
+  // Exact counter for the target model; defaults to estimateTokens
+  countTokens?: (text: string) => number;
 }
 
 export interface FileContext {
@@ -14,8 +21,22 @@ export interface FileContext {
   content: string;
   relevanceScore: number;
   tokenCount: number;
+  // Only the exported signatures are included
+  summarized?: boolean;
+  // A pinned knowledge file
+  pinned?: boolean;
 }
 
+export interface ContextSelection {
+  // Most relevant first
+  included: FileContext[];
+  omitted: string[];
+  totalTokens: number;
+}
+
+// How far the active file's imports and importers are followed
+const IMPORT_GRAPH_DEPTH = 3;
+
 // Approximate token count (rough estimate: 1 token ≈ 4 characters)
 export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
@@ -26,18 +47,20 @@ function calculateRelevanceScore(
   file: FileNode,
   activeFileId: string | null,
   userMessage: string,
-  recentlyModified: string[]
+  recentlyModified: string[],
+  graphBoost: number
 ): number {
-  let score = 0;
+  let score = graphBoost;
 
   // Higher score for active file
   if (file.id === activeFileId) {
     score += 100;
   }
 
-  // Higher score for recently modified files
-  if (recentlyModified.includes(file.id)) {
-    score += 50;
+  // Higher score for recently modified files, most recent first
+  const recentRank = recentlyModified.indexOf(file.id);
+  if (recentRank >= 0) {
+    score += Math.max(10, 50 - recentRank * 5);
   }
 
   // Higher score if file is mentioned in user message
@@ -82,71 +105,122 @@ function calculateRelevanceScore(
   return Math.max(0, score);
 }
 
-// Build optimized context for AI
-export function buildSmartContext(
+// Boost for files the active file depends on (directly or transitively) and
+// for files that depend on it, decaying with distance
+function calculateGraphBoosts(files: FileNode[], activeFileId: string | null): Map<string, number> {
+  const boosts = new Map<string, number>();
+  if (!activeFileId) return boosts;
+
+  const graph = buildImportGraph(files);
+  getRelatedFiles(graph, activeFileId, "imports", IMPORT_GRAPH_DEPTH).forEach((distance, id) => {
+    boosts.set(id, Math.round(60 / distance));
+  });
+  getRelatedFiles(graph, activeFileId, "importers", IMPORT_GRAPH_DEPTH).forEach((distance, id) => {
+    boosts.set(id, Math.max(boosts.get(id) || 0, Math.round(40 / distance)));
+  });
+  return boosts;
+}
+
+const DEFAULT_CONTEXT_OPTIONS: ContextOptions = {
+  maxTokens: 32000,
+  includeImports: true,
+  prioritizeActiveFile: true,
+  includeRecentChanges: true,
+};
+
+// Pick files by relevance within the token budget. Files that do not fit are
+// summarized to their exported signatures when those still fit.
+export function selectContextFiles(
   files: FileNode[],
   activeFileId: string | null,
   userMessage: string,
-  options: ContextOptions = {
-    maxTokens: 32000,
-    includeImports: true,
-    prioritizeActiveFile: true,
-    includeRecentChanges: true,
-  }
-): string {
+  options: ContextOptions = DEFAULT_CONTEXT_OPTIONS
+): ContextSelection {
+  const countTokens = options.countTokens || estimateTokens;
   const allFiles = getAllFiles(files);
-  const recentlyModified: string[] = []; // Could be tracked in state
+  const recentlyModified = options.includeRecentChanges ? options.recentlyModified || [] : [];
+  const graphBoosts = options.includeImports ? calculateGraphBoosts(files, activeFileId) : new Map<string, number>();
+  const pinnedFiles = options.pinnedFiles || [];
 
   // Calculate relevance scores
   const fileContexts: FileContext[] = allFiles
-    .filter((f) => f.type === "file" && f.content)
+    .filter((f) => f.type === "file" && f.content && !isBinaryFile(f))
     .map((file) => ({
       path: file.id,
       content: file.content || "",
-      relevanceScore: calculateRelevanceScore(file, activeFileId, userMessage, recentlyModified),
-      tokenCount: estimateTokens(file.content || ""),
+      relevanceScore: calculateRelevanceScore(
+        file,
+        activeFileId,
+        userMessage,
+        recentlyModified,
+        graphBoosts.get(file.id) || 0
+      ),
+      tokenCount: countTokens(file.content || ""),
+      pinned: pinnedFiles.includes(file.id) || undefined,
     }))
     .sort((a, b) => b.relevanceScore - a.relevanceScore);
 
+  // Knowledge files go first, in the order they were pinned
+  const pinned = pinnedFiles.flatMap((id) => fileContexts.filter((f) => f.path === id));
+  const ranked = [...pinned, ...fileContexts.filter((f) => !f.pinned)];
+
   // Build context within token limit
   let totalTokens = 0;
-  const includedFiles: FileContext[] = [];
-  const fileList: string[] = [];
-
-  for (const file of fileContexts) {
-    if (totalTokens + file.tokenCount > options.maxTokens) {
-      // Skip if adding this file would exceed limit
-      // But always include active file
-      if (file.path === activeFileId && options.prioritizeActiveFile) {
-        includedFiles.push(file);
-        totalTokens += file.tokenCount;
-      }
+  const included: FileContext[] = [];
+
+  for (const file of ranked) {
+    // Always include knowledge files and the active file in full
+    const isPinned = file.pinned || (file.path === activeFileId && options.prioritizeActiveFile);
+    if (totalTokens + file.tokenCount <= options.maxTokens || isPinned) {
+      included.push(file);
+      totalTokens += file.tokenCount;
       continue;
     }
 
-    includedFiles.push(file);
-    totalTokens += file.tokenCount;
+    const signatures = extractExportSignatures(file.content);
+    if (signatures.length === 0) continue;
+
+    const summary = signatures.join("\n");
+    const summaryTokens = countTokens(summary);
+    if (totalTokens + summaryTokens > options.maxTokens) continue;
+
+    included.push({ ...file, content: summary, tokenCount: summaryTokens, summarized: true });
+    totalTokens += summaryTokens;
   }
 
+  const omitted = allFiles
+    .filter((f) => f.type === "file" && !included.some((inc) => inc.path === f.id))
+    .map((f) => f.id);
+
+  return { included, omitted, totalTokens };
+}
+
+export function formatContext(files: FileNode[], selection: ContextSelection): string {
+  const allFiles = getAllFiles(files).filter((f) => f.type === "file");
+  const { included, totalTokens } = selection;
+
   // Build all file list (for reference)
-  allFiles.forEach((f) => {
-    if (f.type === "file") {
-      const included = includedFiles.some((inc) => inc.path === f.id);
-      fileList.push(`${included ? "✓" : "○"} ${f.id}`);
-    }
+  const fileList = allFiles.map((f) => {
+    const file = included.find((inc) => inc.path === f.id);
+    const marker = !file ? "○" : file.summarized ? "◐" : "✓";
+    return `${marker} ${f.id}${file?.pinned ? " (knowledge)" : ""}${isBinaryFile(f) ? " (binary)" : ""}`;
   });
 
+  const summarizedCount = included.filter((f) => f.summarized).length;
+
   // Build context string
   const contextParts: string[] = [
-    `## Project Structure (${allFiles.filter((f) => f.type === "file").length} files)`,
+    `## Project Structure (${allFiles.length} files)`,
+    "✓ full content, ◐ exported signatures only, ○ not included",
     fileList.join("\n"),
     "",
-    `## File Contents (${includedFiles.length} files, ~${totalTokens} tokens)`,
+    `## File Contents (${included.length - summarizedCount} full, ${summarizedCount} summarized, ~${totalTokens} tokens)`,
   ];
 
-  includedFiles.forEach((file) => {
+  included.forEach((file) => {
     const ext = file.path.split(".").pop() || "txt";
-    contextParts.push(`\n### ${file.path}`);
+    const note = file.pinned ? " (project knowledge)" : file.summarized ? " (exported signatures only)" : "";
+    contextParts.push(`\n### ${file.path}${note}`);
     contextParts.push("```" + ext);
     contextParts.push(file.content);
     contextParts.push("```");
@@ -155,6 +229,16 @@ export function buildSmartContext(
   return contextParts.join("\n");
 }
 
+// Build optimized context for AI
+export function buildSmartContext(
+  files: FileNode[],
+  activeFileId: string | null,
+  userMessage: string,
+  options: ContextOptions = DEFAULT_CONTEXT_OPTIONS
+): string {
+  return formatContext(files, selectContextFiles(files, activeFileId, userMessage, options));
+}
+
 // Extract mentioned file paths from user message
 export function extractMentionedFiles(message: string, files: FileNode[]): string[] {
   const allFiles = getAllFiles(files);
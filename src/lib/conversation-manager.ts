@@ -0,0 +1,137 @@
+// Multi-turn conversation memory: the latest turns go to the model verbatim
+// within a token budget, older ones are folded into a running summary written
+// by a cheap model. File bodies in past replies are collapsed, since the
+// latest version of every file travels in the project context.
+
+import { AIModel } from "@/lib/ai-config";
+import { invokeFunction } from "@/lib/edge-functions";
+import { countTokens } from "@/lib/token-counter";
+import { getTokenizerId, MESSAGE_OVERHEAD_TOKENS } from "@/lib/tokenizers";
+
+export interface ConversationMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ConversationSummary {
+  text: string;
+  // Last message folded into the summary
+  throughMessageId: string | null;
+}
+
+export interface HistoryMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ConversationPlan {
+  // Summary first, then the most recent turns in order
+  history: HistoryMessage[];
+  historyTokens: number;
+  // Turns older than the kept ones that the summary does not cover yet
+  unsummarized: ConversationMessage[];
+}
+
+export interface ConversationInput {
+  // Earlier turns, oldest first, without the message being sent
+  messages: ConversationMessage[];
+  summary: ConversationSummary | null;
+  model: AIModel;
+}
+
+interface SummarizeResponse {
+  summary: string;
+}
+
+// Share of the window left after the reserved output that history may use;
+// the rest goes to the project files
+const HISTORY_SHARE = 0.25;
+const MAX_HISTORY_TOKENS = 24000;
+
+const FILE_BLOCK_REGEX = /===(FILE|PATCH):\s*(.+?)===[\s\S]*?===END_(?:FILE|PATCH)===/g;
+
+// Replace file bodies and patches with a one-line note
+export function collapseFileBlocks(content: string): string {
+  return content.replace(FILE_BLOCK_REGEX, (_, directive: string, path: string) => {
+    const action = directive === "FILE" ? "Wrote" : "Edited";
+    return `[${action} ${path.trim()}; its current contents are in the project context]`;
+  });
+}
+
+const formatSummary = (summary: ConversationSummary): HistoryMessage => ({
+  role: "system",
+  content: `## Earlier in this conversation\n${summary.text}`,
+});
+
+// Messages after the last one the summary covers
+const pendingMessages = (messages: ConversationMessage[], summary: ConversationSummary | null) => {
+  const throughIndex = summary?.throughMessageId
+    ? messages.findIndex((m) => m.id === summary.throughMessageId)
+    : -1;
+  return messages.slice(throughIndex + 1).filter((m) => m.content.trim());
+};
+
+export async function planConversation({ messages, summary, model }: ConversationInput): Promise<ConversationPlan> {
+  const pending = pendingMessages(messages, summary);
+  const collapsed = pending.map((m) => collapseFileBlocks(m.content));
+  const summaryMessage = summary?.text ? formatSummary(summary) : null;
+
+  const [summaryTokens, ...counts] = await countTokens(getTokenizerId(model), [
+    summaryMessage?.content || "",
+    ...collapsed,
+  ]);
+
+  const budget = Math.min(MAX_HISTORY_TOKENS, (model.contextWindow - model.maxTokens) * HISTORY_SHARE);
+  let historyTokens = summaryMessage ? summaryTokens + MESSAGE_OVERHEAD_TOKENS : 0;
+
+  // Keep the newest turns that fit; everything before the first miss is older
+  let firstKept = pending.length;
+  while (firstKept > 0) {
+    const tokens = counts[firstKept - 1] + MESSAGE_OVERHEAD_TOKENS;
+    if (historyTokens + tokens > budget) break;
+    historyTokens += tokens;
+    firstKept--;
+  }
+
+  const kept: HistoryMessage[] = pending
+    .slice(firstKept)
+    .map((m, index) => ({ role: m.role, content: collapsed[firstKept + index] }));
+
+  return {
+    history: summaryMessage ? [summaryMessage, ...kept] : kept,
+    historyTokens,
+    unsummarized: pending.slice(0, firstKept),
+  };
+}
+
+export async function summarizeConversation(
+  summary: ConversationSummary | null,
+  messages: ConversationMessage[]
+): Promise<ConversationSummary> {
+  const data = await invokeFunction<SummarizeResponse>("summarize-conversation", {
+    summary: summary?.text ?? null,
+    messages: messages.map((m) => ({ role: m.role, content: collapseFileBlocks(m.content) })),
+  });
+
+  return { text: data.summary, throughMessageId: messages[messages.length - 1].id };
+}
+
+// Plan the history for the next request, first folding turns that no longer
+// fit into the summary. If summarizing fails those turns are left out.
+export async function prepareConversation(
+  input: ConversationInput,
+  onSummarized?: (summary: ConversationSummary, messageCount: number) => void
+): Promise<ConversationPlan> {
+  const plan = await planConversation(input);
+  if (plan.unsummarized.length === 0) return plan;
+
+  try {
+    const summary = await summarizeConversation(input.summary, plan.unsummarized);
+    onSummarized?.(summary, plan.unsummarized.length);
+    return await planConversation({ ...input, summary });
+  } catch (error) {
+    console.error("Failed to summarize conversation:", error);
+    return plan;
+  }
+}
@@ -0,0 +1,77 @@
+// Split a line diff into independently reviewable hunks and rebuild file
+// contents from a subset of accepted hunks
+
+import { diffLines } from "diff";
+
+export interface DiffContextSegment {
+  type: "context";
+  value: string;
+  oldStart: number;
+  newStart: number;
+}
+
+export interface DiffHunkSegment {
+  type: "hunk";
+  // Index of the hunk within the file, stable for a given old/new pair
+  index: number;
+  oldValue: string;
+  newValue: string;
+  oldStart: number;
+  newStart: number;
+}
+
+export type DiffSegment = DiffContextSegment | DiffHunkSegment;
+
+// Lines of a diff value, without the empty entry after a trailing newline
+export const splitLines = (value: string): string[] => {
+  if (!value) return [];
+  const lines = value.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+};
+
+// Adjacent removals and additions form one hunk. Line numbers are 1-based.
+export function computeDiffSegments(oldContent: string, newContent: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let hunkCount = 0;
+
+  for (const part of diffLines(oldContent, newContent)) {
+    const lineCount = splitLines(part.value).length;
+
+    if (!part.added && !part.removed) {
+      segments.push({ type: "context", value: part.value, oldStart: oldLine, newStart: newLine });
+      oldLine += lineCount;
+      newLine += lineCount;
+      continue;
+    }
+
+    let hunk = segments[segments.length - 1];
+    if (hunk?.type !== "hunk") {
+      hunk = { type: "hunk", index: hunkCount++, oldValue: "", newValue: "", oldStart: oldLine, newStart: newLine };
+      segments.push(hunk);
+    }
+
+    if (part.removed) {
+      hunk.oldValue += part.value;
+      oldLine += lineCount;
+    } else {
+      hunk.newValue += part.value;
+      newLine += lineCount;
+    }
+  }
+
+  return segments;
+}
+
+export const countHunks = (segments: DiffSegment[]) => segments.filter((s) => s.type === "hunk").length;
+
+// Rebuild the file keeping the old text of every rejected hunk
+export const applyHunkSelection = (segments: DiffSegment[], rejected: ReadonlySet<number>): string =>
+  segments
+    .map((segment) => {
+      if (segment.type === "context") return segment.value;
+      return rejected.has(segment.index) ? segment.oldValue : segment.newValue;
+    })
+    .join("");
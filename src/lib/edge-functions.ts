@@ -0,0 +1,25 @@
+// Calls an edge function with the signed-in user's session and surfaces the
+// function's own error message instead of the generic non-2xx error
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// The function's error message with its HTTP status and any other fields it sent
+export class EdgeFunctionError extends Error {
+  constructor(message: string, public status: number, public details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+export async function invokeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) throw new EdgeFunctionError(details.error, error.context.status, details);
+    }
+    throw error;
+  }
+
+  return data as T;
+}
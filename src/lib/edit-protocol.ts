@@ -0,0 +1,435 @@
+// AI Edit Protocol: parses ===FILE===, ===PATCH===, ===DELETE=== and ===RENAME===
+// directives from model output and resolves them into FileChanges.
+
+import { FileChange, FileNode, flattenFileTree } from "@/lib/file-system";
+
+export type EditOperation =
+  | { kind: "write"; filePath: string; content: string }
+  | { kind: "patch"; filePath: string; hunks: PatchHunk[] }
+  | { kind: "delete"; filePath: string }
+  | { kind: "rename"; fromPath: string; toPath: string };
+
+export interface PatchHunk {
+  search: string;
+  replace: string;
+  // 1-based line where the hunk is expected to start (unified diffs only)
+  lineHint?: number;
+}
+
+export type HunkStatus = "applied" | "fuzzy" | "failed";
+
+export interface HunkResult {
+  index: number;
+  status: HunkStatus;
+  message?: string;
+}
+
+export interface PatchResult {
+  content: string;
+  hunks: HunkResult[];
+}
+
+export interface EditFailure {
+  filePath: string;
+  message: string;
+  hunks?: HunkResult[];
+}
+
+export interface ResolvedEdits {
+  changes: FileChange[];
+  failures: EditFailure[];
+}
+
+export const DIRECTIVE_REGEX = /===(FILE|PATCH|DELETE|RENAME):\s*(.+?)===/g;
+const FENCE_REGEX = /^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/;
+const SEARCH_REPLACE_REGEX = /<{5,}\s*SEARCH\s*\n([\s\S]*?)\n?={5,}\s*\n([\s\S]*?)\n?>{5,}\s*REPLACE/g;
+const FUZZY_THRESHOLD = 0.8;
+
+const unfence = (body: string): string => {
+  const match = body.match(FENCE_REGEX);
+  return match ? match[1] : body;
+};
+
+// Turn one directive and its body into an operation. Returns null for a
+// rename without both paths.
+export function toEditOperation(directive: string, argument: string, body = ""): EditOperation | null {
+  if (directive === "DELETE") return { kind: "delete", filePath: argument.trim() };
+
+  if (directive === "RENAME") {
+    const [fromPath, toPath] = argument.split("->").map((p) => p.trim());
+    return fromPath && toPath ? { kind: "rename", fromPath, toPath } : null;
+  }
+
+  if (directive === "FILE") return { kind: "write", filePath: argument.trim(), content: unfence(body).trim() };
+  return { kind: "patch", filePath: argument.trim(), hunks: parsePatchBody(unfence(body)) };
+}
+
+// Parse every edit directive in document order. Blocks without a closing
+// marker (e.g. a truncated stream) are skipped.
+export function parseEditOperations(response: string): EditOperation[] {
+  const operations: EditOperation[] = [];
+  const regex = new RegExp(DIRECTIVE_REGEX.source, "g");
+
+  let match;
+  while ((match = regex.exec(response)) !== null) {
+    const [, directive, argument] = match;
+    const bodyStart = match.index + match[0].length;
+    let body = "";
+
+    if (directive === "FILE" || directive === "PATCH") {
+      const endMarker = directive === "FILE" ? "===END_FILE===" : "===END_PATCH===";
+      const endIndex = response.indexOf(endMarker, bodyStart);
+      if (endIndex === -1) continue;
+
+      body = response.slice(bodyStart, endIndex);
+      regex.lastIndex = endIndex + endMarker.length;
+    }
+
+    const operation = toEditOperation(directive, argument, body);
+    if (operation) operations.push(operation);
+  }
+
+  return operations;
+}
+
+// A patch body holds either SEARCH/REPLACE blocks or a unified diff
+export function parsePatchBody(body: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  const regex = new RegExp(SEARCH_REPLACE_REGEX.source, "g");
+
+  let match;
+  while ((match = regex.exec(body)) !== null) {
+    hunks.push({ search: match[1], replace: match[2] });
+  }
+
+  return hunks.length > 0 ? hunks : parseUnifiedDiff(body);
+}
+
+export function parseUnifiedDiff(diff: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: { search: string[]; replace: string[]; lineHint?: number } | null = null;
+
+  const flush = () => {
+    if (current && (current.search.length > 0 || current.replace.length > 0)) {
+      hunks.push({
+        search: current.search.join("\n"),
+        replace: current.replace.join("\n"),
+        lineHint: current.lineHint,
+      });
+    }
+    current = null;
+  };
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("---") || line.startsWith("+++")) continue;
+
+    if (line.startsWith("@@")) {
+      flush();
+      const header = line.match(/^@@\s+-(\d+)/);
+      current = { search: [], replace: [], lineHint: header ? parseInt(header[1], 10) : undefined };
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (line.startsWith("-")) {
+      current.search.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      current.replace.push(line.slice(1));
+    } else if (line.startsWith("\\")) {
+      // "\ No newline at end of file"
+      continue;
+    } else {
+      const context = line.startsWith(" ") ? line.slice(1) : line;
+      current.search.push(context);
+      current.replace.push(context);
+    }
+  }
+
+  flush();
+  return hunks;
+}
+
+const leadingWhitespace = (line: string): string => line.match(/^\s*/)?.[0] || "";
+
+const lineSimilarity = (a: string, b: string): number => {
+  const x = a.trim();
+  const y = b.trim();
+  if (x === y) return 1;
+  if (!x || !y) return 0;
+
+  // Common prefix + suffix length relative to the longer line
+  let prefix = 0;
+  while (prefix < x.length && prefix < y.length && x[prefix] === y[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < x.length - prefix &&
+    suffix < y.length - prefix &&
+    x[x.length - 1 - suffix] === y[y.length - 1 - suffix]
+  ) suffix++;
+
+  return (prefix + suffix) / Math.max(x.length, y.length);
+};
+
+interface WindowMatch {
+  start: number;
+  score: number;
+}
+
+// Find the line window that best matches the search lines
+const findBestWindow = (lines: string[], searchLines: string[], lineHint?: number): WindowMatch | null => {
+  let best: WindowMatch | null = null;
+
+  for (let start = 0; start + searchLines.length <= lines.length; start++) {
+    let total = 0;
+    for (let i = 0; i < searchLines.length; i++) {
+      total += lineSimilarity(lines[start + i], searchLines[i]);
+    }
+    const score = total / searchLines.length;
+
+    const closer =
+      best && score === best.score && lineHint !== undefined &&
+      Math.abs(start + 1 - lineHint) < Math.abs(best.start + 1 - lineHint);
+
+    if (!best || score > best.score || closer) {
+      best = { start, score };
+    }
+  }
+
+  return best;
+};
+
+// Shift the indentation of replacement lines by the difference between the
+// search text and the code it actually matched.
+const reindent = (replaceLines: string[], searchLines: string[], matchedLines: string[]): string[] => {
+  const searchIndex = searchLines.findIndex((l) => l.trim());
+  if (searchIndex === -1) return replaceLines;
+
+  const from = leadingWhitespace(searchLines[searchIndex]);
+  const to = leadingWhitespace(matchedLines[searchIndex]);
+  if (from === to) return replaceLines;
+
+  return replaceLines.map((line) => {
+    if (!line.trim()) return line;
+    if (line.startsWith(from)) return to + line.slice(from.length);
+    return line;
+  });
+};
+
+// Exact matches must start at a line boundary so partial-indent matches fall
+// through to line matching, which re-indents the replacement
+const indexOfAtLineStart = (content: string, search: string): number => {
+  let index = content.indexOf(search);
+  while (index > 0 && content[index - 1] !== "\n") {
+    index = content.indexOf(search, index + 1);
+  }
+  return index;
+};
+
+export function applyPatch(content: string, hunks: PatchHunk[]): PatchResult {
+  let result = content;
+  const hunkResults: HunkResult[] = [];
+
+  hunks.forEach((hunk, index) => {
+    // Empty search text appends (or creates) content
+    if (!hunk.search.trim()) {
+      result = result ? `${result.replace(/\n*$/, "")}\n${hunk.replace}` : hunk.replace;
+      hunkResults.push({ index, status: "applied" });
+      return;
+    }
+
+    const exactIndex = indexOfAtLineStart(result, hunk.search);
+    if (exactIndex !== -1) {
+      result = result.slice(0, exactIndex) + hunk.replace + result.slice(exactIndex + hunk.search.length);
+      hunkResults.push({ index, status: "applied" });
+      return;
+    }
+
+    const lines = result.split("\n");
+    const searchLines = hunk.search.replace(/\n+$/, "").split("\n");
+    const match = findBestWindow(lines, searchLines, hunk.lineHint);
+
+    if (!match || match.score < FUZZY_THRESHOLD) {
+      hunkResults.push({
+        index,
+        status: "failed",
+        message: `Could not locate search text (best match ${Math.round((match?.score || 0) * 100)}%)`,
+      });
+      return;
+    }
+
+    const matched = lines.slice(match.start, match.start + searchLines.length);
+    const replaceLines = reindent(hunk.replace.replace(/\n+$/, "").split("\n"), searchLines, matched);
+    lines.splice(match.start, searchLines.length, ...replaceLines);
+    result = lines.join("\n");
+
+    hunkResults.push({
+      index,
+      status: match.score === 1 ? "applied" : "fuzzy",
+      message: match.score === 1 ? undefined : `Matched at line ${match.start + 1} (${Math.round(match.score * 100)}% similar)`,
+    });
+  });
+
+  return { content: result, hunks: hunkResults };
+}
+
+const fileNameOf = (path: string): string => path.split("/").pop() || path;
+
+// Resolve parsed operations against the current tree, in order, so later
+// directives see the effect of earlier ones (e.g. rename then patch).
+export function resolveEditOperations(operations: EditOperation[], files: FileNode[]): ResolvedEdits {
+  const original = flattenFileTree(files);
+  const working: Record<string, string> = { ...original };
+  const changes = new Map<string, FileChange>();
+  const failures: EditFailure[] = [];
+
+  const write = (path: string, content: string) => {
+    const previous = changes.get(path);
+    if (previous) {
+      changes.set(path, { ...previous, newContent: content, type: previous.type === "delete" ? "modify" : previous.type });
+    } else {
+      changes.set(path, {
+        fileId: path,
+        fileName: fileNameOf(path),
+        oldContent: original[path] ?? "",
+        newContent: content,
+        type: path in original ? "modify" : "create",
+      });
+    }
+    working[path] = content;
+  };
+
+  for (const op of operations) {
+    if (op.kind === "write") {
+      write(op.filePath, op.content);
+      continue;
+    }
+
+    if (op.kind === "patch") {
+      if (!(op.filePath in working)) {
+        failures.push({ filePath: op.filePath, message: "Cannot patch a file that does not exist" });
+        continue;
+      }
+
+      const patched = applyPatch(working[op.filePath], op.hunks);
+      const failed = patched.hunks.filter((h) => h.status === "failed");
+
+      if (op.hunks.length === 0 || failed.length === op.hunks.length) {
+        failures.push({ filePath: op.filePath, message: "No hunks could be applied", hunks: patched.hunks });
+        continue;
+      }
+      if (failed.length > 0) {
+        failures.push({
+          filePath: op.filePath,
+          message: `${failed.length} of ${op.hunks.length} hunk(s) failed`,
+          hunks: patched.hunks,
+        });
+      }
+
+      write(op.filePath, patched.content);
+      continue;
+    }
+
+    if (op.kind === "delete") {
+      if (!(op.filePath in working)) {
+        failures.push({ filePath: op.filePath, message: "Cannot delete a file that does not exist" });
+        continue;
+      }
+
+      const previous = changes.get(op.filePath);
+      // Deleting a renamed file deletes the file it was renamed from
+      const targetPath = previous?.type === "rename" ? previous.previousFileId! : op.filePath;
+      changes.delete(op.filePath);
+
+      if (previous?.type !== "create") {
+        changes.set(targetPath, {
+          fileId: targetPath,
+          fileName: fileNameOf(targetPath),
+          oldContent: original[targetPath] ?? "",
+          newContent: "",
+          type: "delete",
+        });
+      }
+      delete working[op.filePath];
+      continue;
+    }
+
+    // rename
+    if (!(op.fromPath in working)) {
+      failures.push({ filePath: op.fromPath, message: "Cannot rename a file that does not exist" });
+      continue;
+    }
+    if (op.toPath in working) {
+      failures.push({ filePath: op.toPath, message: `Cannot rename ${op.fromPath}: target already exists` });
+      continue;
+    }
+
+    const content = working[op.fromPath];
+    const previous = changes.get(op.fromPath);
+    changes.delete(op.fromPath);
+    delete working[op.fromPath];
+    working[op.toPath] = content;
+
+    if (previous?.type === "create") {
+      changes.set(op.toPath, { ...previous, fileId: op.toPath, fileName: fileNameOf(op.toPath) });
+    } else {
+      const sourcePath = previous?.previousFileId || op.fromPath;
+      changes.set(op.toPath, {
+        fileId: op.toPath,
+        fileName: fileNameOf(op.toPath),
+        oldContent: original[sourcePath] ?? "",
+        newContent: content,
+        type: "rename",
+        previousFileId: sourcePath,
+      });
+    }
+  }
+
+  return { changes: [...changes.values()], failures };
+}
+
+export function resolveFileChanges(response: string, files: FileNode[]): ResolvedEdits {
+  return resolveEditOperations(parseEditOperations(response), files);
+}
+
+// Whole-file writes only, for callers that validate raw generated content
+export function parseFileChanges(response: string): { filePath: string; content: string }[] {
+  return parseEditOperations(response)
+    .filter((op): op is Extract<EditOperation, { kind: "write" }> => op.kind === "write")
+    .map((op) => ({ filePath: op.filePath, content: op.content }));
+}
+
+export function describeEditFailure(failure: EditFailure): string {
+  const details = failure.hunks
+    ?.filter((h) => h.status === "failed")
+    .map((h) => `hunk ${h.index + 1}: ${h.message}`)
+    .join("; ");
+  return details ? `${failure.filePath}: ${failure.message} (${details})` : `${failure.filePath}: ${failure.message}`;
+}
+
+// Prompt section describing the edit protocol to the model
+export const EDIT_PROTOCOL_INSTRUCTIONS = `## Response Format:
+To create a file or rewrite most of one, output the COMPLETE file:
+
+===FILE: path/to/file.tsx===
+\`\`\`tsx
+// Complete file content here
+\`\`\`
+===END_FILE===
+
+To make targeted edits to an existing file, output SEARCH/REPLACE hunks. SEARCH must match the current file exactly (including indentation) and include enough lines to be unique:
+
+===PATCH: path/to/file.tsx===
+<<<<<<< SEARCH
+const [count, setCount] = useState(0);
+=======
+const [count, setCount] = useState(10);
+>>>>>>> REPLACE
+===END_PATCH===
+
+A unified diff (\`@@ -12,3 +12,4 @@\` hunks) is also accepted inside ===PATCH===.
+
+To delete or rename a file:
+
+===DELETE: path/to/old-file.tsx===
+===RENAME: src/old-name.tsx -> src/new-name.tsx===`;
@@ -6,16 +6,50 @@ export interface FileNode {
   children?: FileNode[];
   language?: string;
   isOpen?: boolean;
+  // Binary files (images, fonts) keep their bytes base64-encoded in content
+  encoding?: FileEncoding;
+  // Git file mode 100755
+  executable?: boolean;
 }
 
+export type FileEncoding = "base64";
+
+export type FileAttributes = Pick<FileNode, "encoding" | "executable">;
+
 export interface FileChange {
   fileId: string;
   fileName: string;
   oldContent: string;
   newContent: string;
-  type: "create" | "modify" | "delete";
+  type: "create" | "modify" | "delete" | "rename";
+  // Original path of a renamed file
+  previousFileId?: string;
+  // Both sides of a merge changed the file; newContent may hold conflict
+  // markers the user has to resolve
+  conflict?: boolean;
+  // Attributes of the resulting file (of the removed one for deletions).
+  // Absent leaves the attributes of an existing file unchanged.
+  attributes?: FileAttributes;
 }
 
+const BINARY_EXTENSIONS = new Set([
+  "png", "jpg", "jpeg", "gif", "webp", "ico", "bmp", "avif",
+  "woff", "woff2", "ttf", "otf", "eot",
+  "mp3", "mp4", "wav", "ogg", "webm",
+  "pdf", "zip",
+]);
+
+// Binary by extension, for trees rebuilt from bare path -> content maps
+export const isBinaryPath = (path: string) => BINARY_EXTENSIONS.has(path.split(".").pop()?.toLowerCase() ?? "");
+
+export const isBinaryFile = (file: Pick<FileNode, "encoding">) => file.encoding === "base64";
+
+// Approximate decoded size of a file's content in bytes
+export const getFileSize = (file: Pick<FileNode, "content" | "encoding">) => {
+  const content = file.content || "";
+  return isBinaryFile(file) ? Math.floor((content.length * 3) / 4) : new TextEncoder().encode(content).length;
+};
+
 export const getLanguageFromFileName = (fileName: string): string => {
   const ext = fileName.split(".").pop()?.toLowerCase();
   const langMap: Record<string, string> = {
@@ -125,14 +159,15 @@ export const findFileById = (nodes: FileNode[], id: string): FileNode | null =>
 export const updateFileContent = (
   nodes: FileNode[],
   fileId: string,
-  newContent: string
+  newContent: string,
+  attributes?: FileAttributes
 ): FileNode[] => {
   return nodes.map((node) => {
     if (node.id === fileId) {
-      return { ...node, content: newContent };
+      return { ...node, ...attributes, content: newContent };
     }
     if (node.children) {
-      return { ...node, children: updateFileContent(node.children, fileId, newContent) };
+      return { ...node, children: updateFileContent(node.children, fileId, newContent, attributes) };
     }
     return node;
   });
@@ -157,6 +192,45 @@ export const addFile = (
   });
 };
 
+// Create or overwrite a file by path, creating missing parent folders
+export const upsertFile = (
+  nodes: FileNode[],
+  path: string,
+  content: string,
+  attributes?: FileAttributes
+): FileNode[] => {
+  if (findFileById(nodes, path)) {
+    return updateFileContent(nodes, path, content, attributes);
+  }
+
+  const parts = path.split("/");
+  let result = nodes;
+  for (let i = 1; i < parts.length; i++) {
+    const folderId = parts.slice(0, i).join("/");
+    if (!findFileById(result, folderId)) {
+      const parentId = i > 1 ? parts.slice(0, i - 1).join("/") : null;
+      result = addFile(result, parentId, {
+        id: folderId,
+        name: parts[i - 1],
+        type: "folder",
+        children: [],
+        isOpen: true,
+      });
+    }
+  }
+
+  const name = parts[parts.length - 1];
+  const parentId = parts.length > 1 ? parts.slice(0, -1).join("/") : null;
+  return addFile(result, parentId, {
+    id: path,
+    name,
+    type: "file",
+    content,
+    language: getLanguageFromFileName(name),
+    ...attributes,
+  });
+};
+
 export const deleteFile = (nodes: FileNode[], fileId: string): FileNode[] => {
   return nodes
     .filter((node) => node.id !== fileId)
@@ -168,6 +242,17 @@ export const deleteFile = (nodes: FileNode[], fileId: string): FileNode[] => {
     });
 };
 
+// Apply a batch of AI file changes to a tree
+export const applyFileChanges = (nodes: FileNode[], changes: FileChange[]): FileNode[] => {
+  return changes.reduce((result, change) => {
+    if (change.type === "delete") return deleteFile(result, change.fileId);
+    if (change.type === "rename" && change.previousFileId) {
+      return upsertFile(deleteFile(result, change.previousFileId), change.fileId, change.newContent, change.attributes);
+    }
+    return upsertFile(result, change.fileId, change.newContent, change.attributes);
+  }, nodes);
+};
+
 export const toggleFolder = (nodes: FileNode[], folderId: string): FileNode[] => {
   return nodes.map((node) => {
     if (node.id === folderId && node.type === "folder") {
@@ -191,3 +276,129 @@ export const getAllFiles = (nodes: FileNode[]): FileNode[] => {
   traverse(nodes);
   return files;
 };
+
+// Flatten a tree into a path -> content map (files only)
+export const flattenFileTree = (nodes: FileNode[]): Record<string, string> => {
+  const flat: Record<string, string> = {};
+  getAllFiles(nodes).forEach((file) => {
+    flat[file.id] = file.content || "";
+  });
+  return flat;
+};
+
+// Like flattenFileTree, without binary files
+export const flattenTextFiles = (nodes: FileNode[]): Record<string, string> => {
+  const flat: Record<string, string> = {};
+  getAllFiles(nodes)
+    .filter((file) => !isBinaryFile(file))
+    .forEach((file) => {
+      flat[file.id] = file.content || "";
+    });
+  return flat;
+};
+
+// The attributes a file has set, without undefined keys
+export const pickFileAttributes = (file: FileNode): FileAttributes => ({
+  ...(file.encoding && { encoding: file.encoding }),
+  ...(file.executable && { executable: true }),
+});
+
+// Rebuild a folder tree from a path -> content map. Files without an entry in
+// `attributes` are taken as binary by extension.
+export const buildFileTree = (
+  flat: Record<string, string>,
+  attributes?: Record<string, FileAttributes>
+): FileNode[] => {
+  const root: FileNode[] = [];
+
+  Object.keys(flat)
+    .sort()
+    .forEach((path) => {
+      const parts = path.split("/");
+      let level = root;
+
+      parts.forEach((part, index) => {
+        const id = parts.slice(0, index + 1).join("/");
+        const isFile = index === parts.length - 1;
+        let node = level.find((n) => n.id === id);
+
+        if (!node) {
+          node = isFile
+            ? {
+                id,
+                name: part,
+                type: "file",
+                content: flat[path],
+                language: getLanguageFromFileName(part),
+                ...(attributes?.[path] ?? (isBinaryPath(path) && { encoding: "base64" as const })),
+              }
+            : { id, name: part, type: "folder", children: [], isOpen: true };
+          level.push(node);
+        }
+
+        if (!isFile) level = node.children!;
+      });
+    });
+
+  return root;
+};
+
+export interface FileTreeMergeResult {
+  files: FileNode[];
+  conflicts: string[];
+}
+
+// Three-way merge at file granularity; a file differs when its content or
+// attributes do. Files changed on both sides keep the local version and are
+// reported as conflicts.
+export const mergeFileTrees = (
+  base: FileNode[],
+  local: FileNode[],
+  remote: FileNode[]
+): FileTreeMergeResult => {
+  const byPath = (nodes: FileNode[]) => new Map(getAllFiles(nodes).map((file) => [file.id, file]));
+  const baseFiles = byPath(base);
+  const localFiles = byPath(local);
+  const remoteFiles = byPath(remote);
+  const merged = new Map<string, FileNode>();
+  const conflicts: string[] = [];
+
+  const same = (a?: FileNode, b?: FileNode) =>
+    a === b ||
+    (!!a &&
+      !!b &&
+      (a.content || "") === (b.content || "") &&
+      a.encoding === b.encoding &&
+      !!a.executable === !!b.executable);
+
+  const paths = new Set([...baseFiles.keys(), ...localFiles.keys(), ...remoteFiles.keys()]);
+
+  paths.forEach((path) => {
+    const b = baseFiles.get(path);
+    const l = localFiles.get(path);
+    const r = remoteFiles.get(path);
+
+    if (same(l, r)) {
+      if (l) merged.set(path, l);
+      return;
+    }
+    if (same(l, b)) {
+      // Only the remote side changed (or deleted) this file
+      if (r) merged.set(path, r);
+      return;
+    }
+    if (same(r, b)) {
+      // Only the local side changed (or deleted) this file
+      if (l) merged.set(path, l);
+      return;
+    }
+
+    conflicts.push(path);
+    merged.set(path, (l ?? r)!);
+  });
+
+  const mergedFiles = [...merged.values()];
+  const flat = Object.fromEntries(mergedFiles.map((file) => [file.id, file.content || ""]));
+  const attributes = Object.fromEntries(mergedFiles.map((file) => [file.id, pickFileAttributes(file)]));
+  return { files: buildFileTree(flat, attributes), conflicts };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+import { readEventStream } from "./generation-client";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const encoder = new TextEncoder();
+
+// An SSE body that sends `chunks` and then stays open until cancelled
+function openStream(chunks: string[]) {
+  const cancel = vi.fn();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+    },
+    cancel,
+  });
+  return { body, cancel };
+}
+
+describe("readEventStream", () => {
+  it("passes on each data payload, including those after [DONE]", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('data: {"a":1}\r\n\ndata: [DO'));
+        controller.enqueue(encoder.encode('NE]\n: comment\ndata: {"credits":{}}'));
+        controller.close();
+      },
+    });
+    const payloads: string[] = [];
+    await readEventStream(body, (data) => payloads.push(data));
+    expect(payloads).toEqual(['{"a":1}', '{"credits":{}}']);
+  });
+
+  it("cancels the body when a payload handler throws", async () => {
+    const { body, cancel } = openStream(['data: {"error":"tool failed"}\n']);
+    await expect(
+      readEventStream(body, () => {
+        throw new Error("tool failed");
+      })
+    ).rejects.toThrow("tool failed");
+
+    expect(cancel).toHaveBeenCalled();
+  });
+});
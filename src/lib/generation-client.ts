@@ -0,0 +1,309 @@
+// Generation client: the one way the app talks to the AI edge functions.
+// Streams typed events, retries and falls back across models per
+// FALLBACK_ORDER, and can be cancelled with an AbortSignal.
+
+import { AIModel, getDefaultModel, getModelById } from "@/lib/ai-config";
+import { EditOperation } from "@/lib/edit-protocol";
+import { createEditStreamParser, EditDirective, StreamDraft } from "@/lib/stream-parser";
+import { supabase } from "@/integrations/supabase/client";
+
+export type GenerationEndpoint = "chat" | "dual-ai-generate";
+
+// Images travel as references to the chat-attachments bucket; see
+// supabase/functions/_shared/attachments.ts
+export type GenerationContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; path: string; mimeType: string; name?: string };
+
+export interface GenerationMessage {
+  role: "system" | "user" | "assistant";
+  content: string | GenerationContentPart[];
+}
+
+// A credit event from the server, or the sum of several
+export interface GenerationUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  balance?: number;
+}
+
+export type GenerationEvent =
+  // content is everything the current attempt has produced so far
+  | { type: "text-delta"; delta: string; content: string }
+  | { type: "file-change-started"; directive: EditDirective; filePath: string }
+  | { type: "file-change-progress"; directive: EditDirective; filePath: string; lineCount: number }
+  // operation is null when the block could not be parsed
+  | { type: "file-change-complete"; directive: EditDirective; filePath: string; operation: EditOperation | null }
+  | { type: "usage"; usage: GenerationUsage; total: GenerationUsage }
+  // retrying is false when the generation gives up
+  | { type: "error"; error: string; model: AIModel; retrying: boolean }
+  | { type: "done"; outcome: GenerationOutcome };
+
+export type GenerationStatus = "success" | "credits-exhausted" | "aborted" | "failed";
+
+export interface GenerationOutcome {
+  status: GenerationStatus;
+  // Partial when aborted, empty for other failures
+  content: string;
+  // File block left unfinished by an aborted or truncated stream
+  draft: StreamDraft | null;
+  model: AIModel;
+  usage: GenerationUsage;
+  retryCount: number;
+  error?: string;
+}
+
+export interface GenerationRequest {
+  endpoint?: GenerationEndpoint;
+  messages: GenerationMessage[];
+  modelId?: string;
+  // Text the response continues, e.g. a draft being resumed. It is parsed
+  // and included in the content as if the model had written it.
+  prefix?: string;
+  // Extra fields for the edge function, e.g. the dual-AI mode
+  body?: Record<string, unknown>;
+  enableFallback?: boolean;
+  maxRetries?: number;
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationEvent) => void;
+}
+
+export const FALLBACK_ORDER = [
+  "lovable/gemini-2.5-flash",
+  "lovable/gpt-5-mini",
+  "lovable/gemini-2.5-pro",
+];
+
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Failures that another attempt cannot fix
+class FatalGenerationError extends Error {
+  constructor(message: string, public status: GenerationStatus) {
+    super(message);
+  }
+}
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Read an SSE body to the end, passing each data payload on. Reading does
+// not stop at [DONE]: metered streams send their credit event after it.
+export async function readEventStream(body: ReadableStream<Uint8Array>, onData: (data: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+    if (!line.startsWith("data:")) return;
+    const data = line.slice(5).trim();
+    if (data && data !== "[DONE]") onData(data);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        handleLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) handleLine(buffer);
+  } finally {
+    // When onData throws, this closes the connection before a retry starts
+    reader.cancel().catch(() => {});
+  }
+}
+
+const addUsage = (total: GenerationUsage, next: GenerationUsage): GenerationUsage => ({
+  model: next.model || total.model,
+  promptTokens: total.promptTokens + next.promptTokens,
+  completionTokens: total.completionTokens + next.completionTokens,
+  cost: total.cost + next.cost,
+  balance: next.balance ?? total.balance,
+});
+
+async function runAttempt(
+  endpoint: GenerationEndpoint,
+  model: AIModel,
+  request: GenerationRequest,
+  accessToken: string | undefined,
+  state: { total: GenerationUsage; content: string; draft: StreamDraft | null }
+): Promise<void> {
+  const emit = request.onEvent ?? (() => {});
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      ...request.body,
+      messages: request.messages,
+      provider: model.provider,
+      model: model.id,
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+    const message = errorData.error || `HTTP ${response.status}`;
+    // The server is the source of truth for credit balance
+    if (response.status === 402) throw new FatalGenerationError(message, "credits-exhausted");
+    if (response.status === 401) throw new FatalGenerationError(message, "failed");
+    throw new Error(message);
+  }
+  if (!response.body) throw new Error("No response body");
+
+  // Restart from the prefix on every attempt
+  const prefix = request.prefix ?? "";
+  state.content = prefix;
+  state.draft = null;
+  const parser = createEditStreamParser((event) => {
+    const { directive, filePath, lineCount } = event.block;
+    if (event.type === "block-started") emit({ type: "file-change-started", directive, filePath });
+    else if (event.type === "block-progress") emit({ type: "file-change-progress", directive, filePath, lineCount });
+    else emit({ type: "file-change-complete", directive, filePath, operation: event.operation });
+  });
+  parser.push(prefix);
+  state.draft = parser.draft();
+
+  await readEventStream(response.body, (data) => {
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return; // Skip invalid JSON
+    }
+
+    // Tool-calling runs report failures mid-stream, after the 200
+    if (parsed.error) throw new Error(parsed.error);
+
+    if (parsed.credits) {
+      const charge: GenerationUsage = {
+        model: parsed.credits.model ?? model.id,
+        promptTokens: parsed.credits.promptTokens ?? 0,
+        completionTokens: parsed.credits.completionTokens ?? 0,
+        cost: parsed.credits.cost ?? 0,
+        balance: parsed.credits.balance,
+      };
+      state.total = addUsage(state.total, charge);
+      emit({ type: "usage", usage: charge, total: state.total });
+      return;
+    }
+
+    const delta = parsed.choices?.[0]?.delta?.content;
+    if (delta) {
+      state.content += delta;
+      emit({ type: "text-delta", delta, content: state.content });
+      parser.push(delta);
+      state.draft = parser.draft();
+    }
+  });
+}
+
+// Run a generation to completion. Never throws; the outcome says how it ended.
+export async function runGeneration(request: GenerationRequest): Promise<GenerationOutcome> {
+  const {
+    endpoint = "chat",
+    modelId,
+    enableFallback = endpoint === "chat",
+    maxRetries = DEFAULT_MAX_RETRIES,
+    signal,
+  } = request;
+  const emit = request.onEvent ?? (() => {});
+
+  const model = (modelId && getModelById(modelId)) || getDefaultModel();
+  const modelsToTry = (enableFallback ? [model.id, ...FALLBACK_ORDER.filter((id) => id !== model.id)] : [model.id])
+    .map((id) => getModelById(id))
+    .filter((m): m is AIModel => !!m);
+
+  const state = {
+    total: { model: endpoint === "dual-ai-generate" ? "dual-ai" : model.id, promptTokens: 0, completionTokens: 0, cost: 0 },
+    content: "",
+    draft: null as StreamDraft | null,
+  };
+  let retryCount = 0;
+  let lastModel = model;
+  let lastError: string | undefined;
+
+  const finish = (
+    outcome: Omit<GenerationOutcome, "usage" | "retryCount" | "content" | "draft">,
+    keepContent = false
+  ): GenerationOutcome => {
+    const result = {
+      ...outcome,
+      content: keepContent ? state.content : "",
+      draft: keepContent ? state.draft : null,
+      usage: state.total,
+      retryCount,
+    };
+    emit({ type: "done", outcome: result });
+    return result;
+  };
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  for (const [modelIndex, tryModel] of modelsToTry.entries()) {
+    lastModel = tryModel;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        await runAttempt(endpoint, tryModel, request, session?.access_token, state);
+        return finish({ status: "success", model: tryModel }, true);
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) {
+          return finish({ status: "aborted", model: tryModel, error: "Generation cancelled" }, true);
+        }
+
+        lastError = error instanceof Error ? error.message : "Unknown error";
+        if (error instanceof FatalGenerationError) {
+          emit({ type: "error", error: lastError, model: tryModel, retrying: false });
+          return finish({ status: error.status, model: tryModel, error: lastError });
+        }
+
+        const retrying = attempt < maxRetries || modelIndex < modelsToTry.length - 1;
+        console.error(`Generation attempt ${attempt + 1} with ${tryModel.id} failed:`, lastError);
+        emit({ type: "error", error: lastError, model: tryModel, retrying });
+        retryCount++;
+
+        if (attempt < maxRetries) {
+          try {
+            // Exponential backoff before retrying the same model
+            await wait(RETRY_BASE_DELAY_MS * Math.pow(2, attempt), signal);
+          } catch {
+            return finish({ status: "aborted", model: tryModel, error: "Generation cancelled" });
+          }
+        }
+      }
+    }
+  }
+
+  return finish({ status: "failed", model: lastModel, error: lastError });
+}
@@ -0,0 +1,258 @@
+// Branch-aware GitHub sync. Each project remembers the branch it tracks and
+// the last commit it pushed or merged (project_git_sync); pulls merge what
+// changed on the branch since that commit into the local files. Pushes made
+// on GitHub are recorded by the github-webhook function and offered for
+// merging as they arrive.
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { FileAttributes, FileChange, FileEncoding, FileNode, findFileById } from "@/lib/file-system";
+import { mergeText } from "@/lib/three-way-merge";
+
+export interface GitHubBranch {
+  name: string;
+  sha: string;
+  protected: boolean;
+}
+
+export interface GitSyncState {
+  // null tracks the repository's default branch
+  branch: string | null;
+  syncedSha: string | null;
+  // Auto-sync was refused because the branch moved on; cleared by a pull
+  autoSyncPaused: boolean;
+}
+
+export const EMPTY_SYNC_STATE: GitSyncState = { branch: null, syncedSha: null, autoSyncPaused: false };
+
+export type GitRemoteProvider = "gitlab" | "gitea" | "git";
+
+// A project's remote when it is not on GitHub (project_git_remotes). Sync
+// works the same; repository listing, creation and push notices are GitHub's.
+export interface GitRemoteInfo {
+  provider: GitRemoteProvider;
+  // Instance URL for GitLab and Gitea, clone URL for plain git
+  url: string;
+  repo: string;
+  username: string | null;
+}
+
+export const REMOTE_PROVIDER_LABELS: Record<GitRemoteProvider, string> = {
+  gitlab: "GitLab",
+  gitea: "Gitea",
+  git: "Git server",
+};
+
+// The repository's web page; plain git servers may not have one
+export const remoteWebUrl = (remote: GitRemoteInfo) =>
+  remote.provider === "git" ? null : `${remote.url}/${remote.repo}`;
+
+// A file that changed on the branch since the synced commit, as returned by
+// the github-sync pull action
+export interface RemoteChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  content?: string;
+  baseContent?: string;
+  // Of the file at the branch head
+  encoding?: FileEncoding;
+  executable?: boolean;
+  // Files too large to pull; the local copy is kept
+  skipped?: boolean;
+}
+
+export interface PullResult {
+  branch: string;
+  commitSha: string;
+  // null when the project had no synced commit or it no longer exists
+  baseSha: string | null;
+  changes: RemoteChange[];
+}
+
+export interface MergeResult {
+  changes: FileChange[];
+  // Paths changed on both sides that did not merge cleanly
+  conflicts: string[];
+  skipped: string[];
+}
+
+// A push to the linked repository, recorded by the github-webhook function
+export interface GitHubPush {
+  id: string;
+  repo: string;
+  branch: string;
+  defaultBranch: string;
+  afterSha: string;
+  commitCount: number;
+  forced: boolean;
+  pusher: string | null;
+  createdAt: string;
+}
+
+type PushRow = Tables<"github_push_events">;
+
+const toPush = (row: PushRow): GitHubPush => ({
+  id: row.id,
+  repo: row.repo,
+  branch: row.branch,
+  defaultBranch: row.default_branch,
+  afterSha: row.after_sha,
+  commitCount: row.commit_count,
+  forced: row.forced,
+  pusher: row.pusher,
+  createdAt: row.created_at,
+});
+
+// Enough to reach back to the last sync in all but long-abandoned projects
+const RECENT_PUSH_LIMIT = 50;
+
+export async function fetchSyncState(projectId: string): Promise<GitSyncState> {
+  const { data, error } = await supabase
+    .from("project_git_sync")
+    .select("branch, synced_sha, auto_sync_paused")
+    .eq("project_id", projectId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return EMPTY_SYNC_STATE;
+  return { branch: data.branch, syncedSha: data.synced_sha, autoSyncPaused: data.auto_sync_paused };
+}
+
+export async function fetchRemoteConfig(projectId: string): Promise<GitRemoteInfo | null> {
+  const { data, error } = await supabase
+    .from("project_git_remotes")
+    .select("provider, url, repo, username")
+    .eq("project_id", projectId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { ...data, provider: data.provider as GitRemoteProvider } : null;
+}
+
+export async function saveSyncState(projectId: string, state: GitSyncState): Promise<void> {
+  const { error } = await supabase.from("project_git_sync").upsert(
+    {
+      project_id: projectId,
+      branch: state.branch,
+      synced_sha: state.syncedSha,
+      synced_at: state.syncedSha ? new Date().toISOString() : null,
+      auto_sync_paused: state.autoSyncPaused,
+    },
+    { onConflict: "project_id" }
+  );
+  if (error) throw error;
+}
+
+// Oldest first
+export async function fetchRecentPushes(projectId: string): Promise<GitHubPush[]> {
+  const { data, error } = await supabase
+    .from("github_push_events")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(RECENT_PUSH_LIMIT);
+  if (error) throw error;
+  return (data ?? []).map(toPush).reverse();
+}
+
+// Calls onPush for each push recorded from now on; returns the unsubscribe
+export function subscribeToPushes(projectId: string, onPush: (push: GitHubPush) => void): () => void {
+  const channel = supabase
+    .channel(`github-pushes:${projectId}`)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "github_push_events", filter: `project_id=eq.${projectId}` },
+      (payload) => onPush(toPush(payload.new as PushRow))
+    )
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Pushes to the tracked branch of the linked repository since the project
+// last synced. Our own pushes and pulls end at the synced commit, so
+// anything after the last push that did is new.
+export function pendingPushes(pushes: GitHubPush[], repo: string, state: GitSyncState): GitHubPush[] {
+  const tracked = pushes.filter((push) => push.repo === repo && push.branch === (state.branch ?? push.defaultBranch));
+  let synced = -1;
+  tracked.forEach((push, index) => {
+    if (push.afterSha === state.syncedSha) synced = index;
+  });
+  return tracked.slice(synced + 1);
+}
+
+// "3 new commits on main"
+export function describePendingPushes(pending: GitHubPush[]): string {
+  const branch = pending[pending.length - 1].branch;
+  const commits = pending.reduce((total, push) => total + push.commitCount, 0);
+  if (commits === 0 || pending.some((push) => push.forced)) return `${branch} was updated`;
+  return `${commits} new commit${commits === 1 ? "" : "s"} on ${branch}`;
+}
+
+const fileName = (path: string) => path.split("/").pop() || path;
+
+const sameAttributes = (file: FileNode, attributes: FileAttributes) =>
+  file.encoding === attributes.encoding && !!file.executable === !!attributes.executable;
+
+// Three-way merge of the pulled changes into the local files. Files only
+// changed remotely are taken as they are, text files changed on both sides
+// are merged line by line, and the rest are left to the user as conflicts.
+export function mergeRemoteChanges(files: FileNode[], remote: RemoteChange[]): MergeResult {
+  const changes: FileChange[] = [];
+  const conflicts: string[] = [];
+  const skipped: string[] = [];
+
+  for (const change of remote) {
+    if (change.skipped) {
+      skipped.push(change.path);
+      continue;
+    }
+
+    const found = findFileById(files, change.path);
+    const localFile = found?.type === "file" ? found : null;
+    const local = localFile ? localFile.content ?? "" : undefined;
+    const { content: theirs, baseContent: base } = change;
+    const attributes: FileAttributes = { encoding: change.encoding, executable: change.executable };
+    if (local === theirs && (!localFile || sameAttributes(localFile, attributes))) continue;
+
+    const fileChange = { fileId: change.path, fileName: fileName(change.path) };
+
+    if (theirs === undefined) {
+      // Deleted on the branch; a local edit makes it a conflict to confirm
+      const conflict = local !== base;
+      if (conflict) conflicts.push(change.path);
+      changes.push({
+        ...fileChange,
+        type: "delete",
+        oldContent: local ?? "",
+        newContent: "",
+        conflict,
+        attributes: { encoding: localFile?.encoding, executable: localFile?.executable },
+      });
+    } else if (local === undefined) {
+      // Missing locally: new on the branch, or deleted here but edited there
+      const conflict = base !== undefined;
+      if (conflict) conflicts.push(change.path);
+      changes.push({ ...fileChange, type: "create", oldContent: "", newContent: theirs, conflict, attributes });
+    } else if (local === base || local === theirs) {
+      // Unchanged here, or only the mode changed there
+      changes.push({ ...fileChange, type: "modify", oldContent: local, newContent: theirs, attributes });
+    } else if (change.encoding || localFile?.encoding) {
+      // Binary files cannot be merged; applying takes the branch's version
+      conflicts.push(change.path);
+      changes.push({ ...fileChange, type: "modify", oldContent: local, newContent: theirs, conflict: true, attributes });
+    } else {
+      const merged = mergeText(base ?? "", local, theirs);
+      if (merged.content === local && sameAttributes(localFile!, attributes)) continue;
+      if (merged.conflicts > 0) conflicts.push(change.path);
+      changes.push({
+        ...fileChange,
+        type: "modify",
+        oldContent: local,
+        newContent: merged.content,
+        conflict: merged.conflicts > 0,
+        attributes,
+      });
+    }
+  }
+
+  return { changes, conflicts, skipped };
+}
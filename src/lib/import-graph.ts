@@ -0,0 +1,192 @@
+// Dependency graph of the project's modules, built from import/export
+// statements, plus export-signature summaries for files that do not fit
+// the AI context budget
+
+import { FileNode, getAllFiles } from "@/lib/file-system";
+
+export interface ImportGraph {
+  // File id -> project files it imports
+  imports: Map<string, string[]>;
+  // File id -> project files that import it
+  importers: Map<string, string[]>;
+}
+
+const RESOLVE_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js", ".css", ".json"];
+const SCRIPT_FILE = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+const IMPORT_PATTERNS = [
+  // import x from "y", import { a } from "y", import "y"
+  /import\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?["']([^"']+)["']/g,
+  // export * from "y", export { a } from "y"
+  /export\s+(?:type\s+)?(?:\*(?:\s+as\s+\w+)?|\{[^}]*\})\s+from\s+["']([^"']+)["']/g,
+  // import("y"), require("y")
+  /(?:import|require)\s*\(\s*["']([^"']+)["']\s*\)/g,
+];
+
+// Module specifiers referenced by a file, in source order
+export function parseImportSpecifiers(content: string): string[] {
+  const specifiers = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      specifiers.add(match[1]);
+    }
+  }
+  return [...specifiers];
+}
+
+const normalizePath = (path: string): string => {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return parts.join("/");
+};
+
+// Resolve a specifier to a project file id. Packages resolve to null.
+// Supports relative paths and the "@/" alias for src/.
+export function resolveImport(fromId: string, specifier: string, fileIds: ReadonlySet<string>): string | null {
+  let base: string;
+  if (specifier.startsWith(".")) {
+    const dir = fromId.includes("/") ? fromId.slice(0, fromId.lastIndexOf("/")) : "";
+    base = normalizePath(`${dir}/${specifier}`);
+  } else if (specifier.startsWith("@/")) {
+    base = normalizePath(`src/${specifier.slice(2)}`);
+  } else if (specifier.startsWith("/")) {
+    base = normalizePath(specifier);
+  } else {
+    return null;
+  }
+
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((ext) => base + ext),
+    ...RESOLVE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+  return candidates.find((candidate) => fileIds.has(candidate)) ?? null;
+}
+
+export function buildImportGraph(files: FileNode[]): ImportGraph {
+  const sources = getAllFiles(files).filter((f) => f.type === "file");
+  const fileIds = new Set(sources.map((f) => f.id));
+  const imports = new Map<string, string[]>();
+  const importers = new Map<string, string[]>();
+
+  for (const file of sources) {
+    if (!SCRIPT_FILE.test(file.id) || !file.content) continue;
+
+    const targets = new Set<string>();
+    for (const specifier of parseImportSpecifiers(file.content)) {
+      const target = resolveImport(file.id, specifier, fileIds);
+      if (target && target !== file.id) targets.add(target);
+    }
+
+    imports.set(file.id, [...targets]);
+    targets.forEach((target) => {
+      importers.set(target, [...(importers.get(target) || []), file.id]);
+    });
+  }
+
+  return { imports, importers };
+}
+
+// Breadth-first distances from a file along one direction of the graph.
+// The start file itself is not included.
+export function getRelatedFiles(
+  graph: ImportGraph,
+  startId: string,
+  direction: "imports" | "importers",
+  maxDepth = 3
+): Map<string, number> {
+  const edges = graph[direction];
+  const distances = new Map<string, number>();
+  let frontier = [startId];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of edges.get(id) || []) {
+        if (neighbour === startId || distances.has(neighbour)) continue;
+        distances.set(neighbour, depth);
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+
+  return distances;
+}
+
+const MAX_HEADER_LINES = 6;
+const MAX_TYPE_LINES = 20;
+
+// Cut a declaration where its body starts: at "=>", at a "{" outside the
+// parameter list, or at the terminating ";"
+const trimToSignature = (header: string): string => {
+  let depth = 0;
+  for (let i = "export ".length; i < header.length; i++) {
+    const char = header[i];
+    if (char === "(" || char === "<") depth++;
+    else if (char === ")" || (char === ">" && header[i - 1] !== "=")) depth = Math.max(0, depth - 1);
+    else if (depth === 0 && char === "=" && header[i + 1] === ">") return `${header.slice(0, i + 2)} …`;
+    else if (depth === 0 && char === ";") return header.slice(0, i + 1);
+    else if (depth === 0 && char === "{" && !/^export\s+(?:type\s+)?$/.test(header.slice(0, i))) {
+      return `${header.slice(0, i).trimEnd()} { … }`;
+    }
+  }
+  return header;
+};
+
+const isOpenHeader = (header: string): boolean =>
+  (header.match(/\(/g) || []).length > (header.match(/\)/g) || []).length ||
+  (!/[{;]|=>/.test(header) && /[(,=:<]$/.test(header));
+
+// Take a type declaration up to its closing brace or semicolon
+const takeTypeBlock = (lines: string[], start: number): { text: string; end: number } => {
+  let depth = 0;
+  const taken: string[] = [];
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    for (const char of line) {
+      if (char === "{") depth++;
+      else if (char === "}") depth--;
+    }
+    if (taken.length < MAX_TYPE_LINES) taken.push(line);
+    else if (taken.length === MAX_TYPE_LINES) taken.push("  …");
+
+    // Unions and intersections can continue on the next line
+    const continues = /[{=|&,(<]$/.test(line.trimEnd()) || /^\s*[|&]/.test(lines[i + 1] ?? "");
+    if (depth <= 0 && !continues) {
+      return { text: taken.join("\n"), end: i };
+    }
+  }
+  return { text: taken.join("\n"), end: lines.length - 1 };
+};
+
+// Top-level exported declarations without their bodies. Interfaces, types
+// and enums are kept whole since they are the module's contract.
+export function extractExportSignatures(content: string): string[] {
+  const lines = content.split("\n");
+  const signatures: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith("export ")) continue;
+
+    if (/^export\s+(?:declare\s+)?(?:interface|type\s+\w+|enum|const\s+enum)\b/.test(lines[i])) {
+      const block = takeTypeBlock(lines, i);
+      signatures.push(block.text);
+      i = block.end;
+      continue;
+    }
+
+    // Join parameter lists that span several lines
+    let header = lines[i].trim();
+    for (let end = i + 1; end < lines.length && end < i + MAX_HEADER_LINES && isOpenHeader(header); end++) {
+      header += ` ${lines[end].trim()}`;
+    }
+    signatures.push(trimToSignature(header));
+  }
+
+  return signatures;
+}
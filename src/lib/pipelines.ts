@@ -0,0 +1,152 @@
+// Multi-stage AI pipelines stored in pipeline_presets and run by the
+// dual-ai-generate function. Keep the stage format in sync with
+// supabase/functions/_shared/pipelines.ts.
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { AIModel, getDefaultModel, getModelById } from "@/lib/ai-config";
+
+export interface PipelineStage {
+  name: string;
+  // Model id from AI_MODELS, e.g. "lovable/gpt-5"
+  model: string;
+  // Role prompt; the server adds the reply language and file instructions
+  prompt: string;
+  // Language code of the stage's reply
+  language: string;
+  // The stage's prose is shown to the user; file changes always are
+  stream: boolean;
+  // The stage may change files
+  edits: boolean;
+}
+
+export interface PipelinePreset {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  stages: PipelineStage[];
+  enabled: boolean;
+  isDefault: boolean;
+}
+
+export type PipelinePresetInput = Omit<PipelinePreset, "id" | "isDefault"> & { id?: string };
+
+export const MAX_PIPELINE_STAGES = 6;
+
+export const STAGE_LANGUAGES = [
+  { code: "en", name: "English" },
+  { code: "id", name: "Bahasa Indonesia" },
+  { code: "es", name: "Español" },
+  { code: "pt", name: "Português" },
+  { code: "fr", name: "Français" },
+  { code: "de", name: "Deutsch" },
+  { code: "ja", name: "日本語" },
+  { code: "zh", name: "中文" },
+];
+
+export const createStage = (): PipelineStage => ({
+  name: "",
+  model: getDefaultModel().id,
+  prompt: "",
+  language: "en",
+  stream: true,
+  edits: false,
+});
+
+const toPreset = (row: {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  stages: Json;
+  enabled: boolean;
+  is_default: boolean;
+}): PipelinePreset => ({
+  id: row.id,
+  slug: row.slug,
+  name: row.name,
+  description: row.description,
+  stages: Array.isArray(row.stages) ? (row.stages as unknown as PipelineStage[]) : [],
+  enabled: row.enabled,
+  isDefault: row.is_default,
+});
+
+// Enabled presets for everyone; admins also get disabled ones
+export async function fetchPipelinePresets(): Promise<PipelinePreset[]> {
+  const { data, error } = await supabase
+    .from("pipeline_presets")
+    .select("id, slug, name, description, stages, enabled, is_default")
+    .order("created_at");
+  if (error) throw error;
+  return (data || []).map(toPreset);
+}
+
+// Returns an error message, or null when the preset can be saved
+export function validatePipeline(preset: PipelinePresetInput): string | null {
+  if (!preset.name.trim()) return "Name is required";
+  if (!/^[a-z0-9-]{1,64}$/.test(preset.slug)) return "Slug may only contain lowercase letters, digits and dashes";
+  if (preset.stages.length === 0) return "Add at least one stage";
+  if (preset.stages.length > MAX_PIPELINE_STAGES) return `A pipeline has at most ${MAX_PIPELINE_STAGES} stages`;
+
+  for (const [index, stage] of preset.stages.entries()) {
+    const label = stage.name.trim() || `Stage ${index + 1}`;
+    if (!stage.name.trim()) return `Stage ${index + 1} needs a name`;
+    if (!getModelById(stage.model)) return `${label} uses an unknown model`;
+    if (!stage.prompt.trim()) return `${label} needs a role prompt`;
+  }
+  return null;
+}
+
+export async function savePipelinePreset(preset: PipelinePresetInput): Promise<void> {
+  const values = {
+    slug: preset.slug,
+    name: preset.name.trim(),
+    description: preset.description?.trim() || null,
+    stages: preset.stages as unknown as Json,
+    enabled: preset.enabled,
+  };
+
+  if (preset.id) {
+    const { error } = await supabase.from("pipeline_presets").update(values).eq("id", preset.id);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: auth } = await supabase.auth.getSession();
+  const { error } = await supabase
+    .from("pipeline_presets")
+    .insert({ ...values, created_by: auth.session?.user.id ?? null });
+  if (error) throw error;
+}
+
+export async function deletePipelinePreset(id: string): Promise<void> {
+  const { error } = await supabase.from("pipeline_presets").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Only one preset can be the default, so the old one is cleared first
+export async function setDefaultPipeline(id: string): Promise<void> {
+  const { error: clearError } = await supabase
+    .from("pipeline_presets")
+    .update({ is_default: false })
+    .eq("is_default", true);
+  if (clearError) throw clearError;
+
+  const { error } = await supabase.from("pipeline_presets").update({ is_default: true, enabled: true }).eq("id", id);
+  if (error) throw error;
+}
+
+// Tool-calling mode needs every stage's model to support tools
+export const pipelineSupportsTools = (preset: PipelinePreset): boolean =>
+  preset.stages.every((stage) => !!getModelById(stage.model)?.supportsTools);
+
+// Attached images are worth sending when at least one stage can see them
+export const pipelineSupportsVision = (preset: PipelinePreset): boolean =>
+  preset.stages.some((stage) => !!getModelById(stage.model)?.supportsVision);
+
+// The prompt has to fit every stage, so it is budgeted for the smallest window
+export function getBudgetModel(preset: PipelinePreset): AIModel {
+  const models = preset.stages.map((stage) => getModelById(stage.model)).filter((m): m is AIModel => !!m);
+  if (models.length === 0) return getDefaultModel();
+  return models.reduce((smallest, m) => (m.contextWindow < smallest.contextWindow ? m : smallest));
+}
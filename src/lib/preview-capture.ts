@@ -0,0 +1,117 @@
+// Screenshots of the live preview for visual review. The Sandpack iframe is
+// cross-origin, so a small bridge runs inside it: it renders the page with
+// html2canvas at a device width and posts the image back.
+
+export type DeviceMode = "desktop" | "tablet" | "mobile";
+
+export interface DeviceViewport {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const DEVICE_VIEWPORTS: Record<DeviceMode, DeviceViewport> = {
+  desktop: { label: "Desktop", width: 1280, height: 800 },
+  tablet: { label: "Tablet", width: 768, height: 1024 },
+  mobile: { label: "Mobile", width: 375, height: 812 },
+};
+
+export const DEVICE_MODES = Object.keys(DEVICE_VIEWPORTS) as DeviceMode[];
+
+export interface PreviewCapture {
+  device: DeviceMode;
+  file: File;
+}
+
+export type CapturePreviewFn = (device: DeviceMode) => Promise<PreviewCapture>;
+
+const CAPTURE_REQUEST = "quine:capture";
+const CAPTURE_RESULT = "quine:capture-result";
+const CAPTURE_TIMEOUT_MS = 15000;
+
+const BRIDGE_PATH = "/quine-capture.ts";
+const ENTRY_PATH = "/quine-preview-entry.ts";
+
+// Runs inside the preview. html2canvas re-renders the page in a hidden frame
+// of the requested width, so media queries apply as on that device.
+const BRIDGE_SOURCE = `import html2canvas from "html2canvas";
+
+window.addEventListener("message", async (event) => {
+  const data = event.data;
+  if (!data || data.type !== "${CAPTURE_REQUEST}") return;
+  const reply = (payload: Record<string, unknown>) =>
+    (event.source as Window | null)?.postMessage({ type: "${CAPTURE_RESULT}", id: data.id, ...payload }, "*");
+
+  try {
+    const canvas = await html2canvas(document.body, {
+      windowWidth: data.width,
+      windowHeight: data.height,
+      scale: 1,
+      useCORS: true,
+      logging: false,
+    });
+    reply({ dataUrl: canvas.toDataURL("image/jpeg", 0.85) });
+  } catch (error) {
+    reply({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+`;
+
+// Sandpack files with the bridge loaded ahead of the app's own entry
+export function withCaptureBridge(files: Record<string, string>, entry: string) {
+  return {
+    files: {
+      ...files,
+      [BRIDGE_PATH]: BRIDGE_SOURCE,
+      [ENTRY_PATH]: `import ".${BRIDGE_PATH.replace(/\.ts$/, "")}";\nimport ".${entry.replace(/\.tsx?$/, "")}";\n`,
+    },
+    entry: ENTRY_PATH,
+    dependencies: { html2canvas: "^1.4.1" },
+  };
+}
+
+const dataUrlToFile = async (dataUrl: string, name: string) => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], name, { type: blob.type || "image/jpeg" });
+};
+
+export function capturePreview(iframe: HTMLIFrameElement, device: DeviceMode): Promise<PreviewCapture> {
+  const target = iframe.contentWindow;
+  if (!target) return Promise.reject(new Error("The preview is not running"));
+
+  const id = crypto.randomUUID();
+  const { width, height } = DEVICE_VIEWPORTS[device];
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timeout);
+      window.removeEventListener("message", onMessage);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== target || event.data?.type !== CAPTURE_RESULT || event.data.id !== id) return;
+      cleanup();
+      if (event.data.error || !event.data.dataUrl) {
+        reject(new Error(event.data.error || "Capture failed"));
+        return;
+      }
+      dataUrlToFile(event.data.dataUrl, `preview-${device}.jpg`).then((file) => resolve({ device, file }), reject);
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error("The preview did not respond; wait until it has loaded"));
+    }, CAPTURE_TIMEOUT_MS);
+
+    window.addEventListener("message", onMessage);
+    target.postMessage({ type: CAPTURE_REQUEST, id, width, height }, "*");
+  });
+}
+
+export const buildVisualReviewPrompt = (devices: DeviceMode[]) => `
+## Visual Review
+Screenshots of the live preview are attached, in this order: ${devices
+  .map((d) => `${DEVICE_VIEWPORTS[d].label} (${DEVICE_VIEWPORTS[d].width}px wide)`)
+  .join(", ")}.
+
+Critique the layout and responsiveness as a designer would: alignment, spacing, overflow and horizontal scrolling, text that is cut off or too small, elements that overlap, contrast, and anything that does not adapt to the narrower widths.
+List the problems you see, most important first, then fix them with file changes. Do not change behaviour or content that is not part of a problem you listed.
+`;
@@ -0,0 +1,49 @@
+// Per-project instructions and pinned knowledge files, stored in
+// project_instructions and sent with every generation in the project
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ProjectInstructions {
+  instructions: string;
+  // File ids, always included in full ahead of the ranked files
+  knowledgeFiles: string[];
+}
+
+export const EMPTY_PROJECT_INSTRUCTIONS: ProjectInstructions = { instructions: "", knowledgeFiles: [] };
+
+export const MAX_INSTRUCTIONS_LENGTH = 8000;
+
+export async function fetchProjectInstructions(projectId: string): Promise<ProjectInstructions> {
+  const { data, error } = await supabase
+    .from("project_instructions")
+    .select("instructions, knowledge_files")
+    .eq("project_id", projectId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return EMPTY_PROJECT_INSTRUCTIONS;
+  return { instructions: data.instructions, knowledgeFiles: data.knowledge_files };
+}
+
+export async function saveProjectInstructions(projectId: string, value: ProjectInstructions): Promise<void> {
+  const { data: auth } = await supabase.auth.getSession();
+  const { error } = await supabase.from("project_instructions").upsert(
+    {
+      project_id: projectId,
+      instructions: value.instructions.trim(),
+      knowledge_files: value.knowledgeFiles,
+      updated_by: auth.session?.user.id ?? null,
+    },
+    { onConflict: "project_id" }
+  );
+  if (error) throw error;
+}
+
+// System message sent ahead of the conversation; null when there is nothing
+// to say. The server prompts keep the general coding rules.
+export function formatProjectInstructions(value: ProjectInstructions): string | null {
+  const instructions = value.instructions.trim();
+  if (!instructions) return null;
+  return `## Project Instructions
+The project's owner set these rules. Follow them; they take precedence over the general guidelines.
+
+${instructions}`;
+}
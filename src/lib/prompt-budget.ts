@@ -0,0 +1,220 @@
+// Exact prompt budgeting per model: the project files get what is left of the
+// context window after the reserved output, the system prompt, the project
+// instructions, the history and the request, all counted with the model's own
+// tokenizer. In tool-calling mode only a file list, the pinned knowledge files
+// and the active file are sent; the model reads the rest on demand.
+
+import { AIModel } from "@/lib/ai-config";
+import { estimateTokens, formatContext, selectContextFiles, ContextSelection } from "@/lib/context-manager";
+import { FileNode, getAllFiles, getFileSize, isBinaryFile } from "@/lib/file-system";
+import { extractExportSignatures } from "@/lib/import-graph";
+import { countTokens } from "@/lib/token-counter";
+import { getTokenizerId, MESSAGE_OVERHEAD_TOKENS, TokenizerId } from "@/lib/tokenizers";
+
+export type ContextFileStatus = "full" | "summary" | "omitted" | "on-demand";
+
+export interface ContextFileUsage {
+  path: string;
+  // Tokens sent for the file; the full size when omitted or on demand
+  tokens: number;
+  status: ContextFileStatus;
+  // A project knowledge file, always sent in full
+  pinned?: boolean;
+}
+
+export interface ContextUsage {
+  modelId: string;
+  tokenizer: TokenizerId;
+  contextWindow: number;
+  reservedOutput: number;
+  systemTokens: number;
+  instructionTokens: number;
+  historyTokens: number;
+  requestTokens: number;
+  contextTokens: number;
+  // Everything sent plus the reserved output
+  totalTokens: number;
+  // Most relevant first, omitted files last
+  files: ContextFileUsage[];
+}
+
+export interface PromptBudgetInput {
+  files: FileNode[];
+  activeFileId: string | null;
+  request: string;
+  // Images attached to the request
+  imageCount?: number;
+  model: AIModel;
+  // null when the edge function supplies its own system prompt
+  systemPrompt: string | null;
+  // Project instructions message sent ahead of the history
+  instructions?: string | null;
+  history?: { role: string; content: string }[];
+  recentlyModified?: string[];
+  // Project knowledge files, see selectContextFiles
+  pinnedFiles?: string[];
+  // The server runs the tool-calling agent loop over the submitted project
+  toolMode?: boolean;
+}
+
+export interface BudgetedContext {
+  context: string;
+  usage: ContextUsage;
+}
+
+// Size of the system prompts the chat and dual-ai-generate functions add
+export const SERVER_PROMPT_RESERVE_TOKENS = 1024;
+
+// Providers scale images down before tiling; a screenshot costs about this
+export const IMAGE_PROMPT_TOKENS = 1100;
+
+// Formatting adds a file list and headers, so a selection can overshoot;
+// each retry shrinks the file budget by the overshoot
+const MAX_FIT_ATTEMPTS = 3;
+
+const describeFiles = (files: FileNode[], selection: ContextSelection, count: (text: string) => number) => {
+  const included: ContextFileUsage[] = selection.included.map((file) => ({
+    path: file.path,
+    tokens: file.tokenCount,
+    status: file.summarized ? "summary" : "full",
+    pinned: file.pinned,
+  }));
+  const omitted: ContextFileUsage[] = getAllFiles(files)
+    .filter((f) => f.type === "file" && selection.omitted.includes(f.id))
+    .map((f) => ({ path: f.id, tokens: isBinaryFile(f) ? 0 : count(f.content || ""), status: "omitted" }));
+  return [...included, ...omitted];
+};
+
+const formatFileBlock = (title: string, file: FileNode) =>
+  `\n\n## ${title}: ${file.id}\n\`\`\`${file.language || ""}\n${file.content}\n\`\`\``;
+
+// File list with line counts, then the knowledge files, plus the active file
+// in full when it fits
+const formatToolContext = (files: FileNode[], pinned: FileNode[], activeFile: FileNode | null) => {
+  const listing = getAllFiles(files)
+    .filter((f) => f.type === "file")
+    .map((f) =>
+      isBinaryFile(f)
+        ? `- ${f.id} (binary, ${Math.ceil(getFileSize(f) / 1024)} KB)`
+        : `- ${f.id} (${(f.content || "").split("\n").length} lines)`
+    )
+    .join("\n");
+  const knowledge = pinned.map((f) => formatFileBlock("Project Knowledge", f)).join("");
+  const active = activeFile ? formatFileBlock("Active File", activeFile) : "";
+  return `## Project Files\nRead any file with read_file before changing it.\n${listing}${knowledge}${active}`;
+};
+
+async function buildToolContext(
+  files: FileNode[],
+  activeFileId: string | null,
+  pinnedFiles: string[],
+  tokenizer: TokenizerId,
+  available: number,
+  count: (text: string) => number
+): Promise<{ context: string; contextTokens: number; files: ContextFileUsage[] }> {
+  // Binary files are listed but never read
+  const sources = getAllFiles(files).filter((f) => f.type === "file" && !isBinaryFile(f));
+  const pinned = pinnedFiles.flatMap((id) => sources.filter((f) => f.id === id && f.content));
+  const candidate = sources.find((f) => f.id === activeFileId && f.content && !pinned.includes(f)) ?? null;
+
+  let context = formatToolContext(files, pinned, candidate);
+  let [contextTokens] = await countTokens(tokenizer, [context]);
+  const activeFile = contextTokens <= available ? candidate : null;
+  if (candidate && !activeFile) {
+    context = formatToolContext(files, pinned, null);
+    [contextTokens] = await countTokens(tokenizer, [context]);
+  }
+
+  const usage = sources.map((f): ContextFileUsage => ({
+    path: f.id,
+    tokens: count(f.content || ""),
+    status: pinned.includes(f) || f === activeFile ? "full" : "on-demand",
+    pinned: pinned.includes(f) || undefined,
+  }));
+  // Knowledge files, then the active file, like the budgeted selection
+  const rank = (f: ContextFileUsage) => (f.pinned ? 2 : f.status === "full" ? 1 : 0);
+  return { context, contextTokens, files: usage.sort((a, b) => rank(b) - rank(a)) };
+}
+
+export async function buildBudgetedContext({
+  files,
+  activeFileId,
+  request,
+  imageCount = 0,
+  model,
+  systemPrompt,
+  instructions = null,
+  history = [],
+  recentlyModified,
+  pinnedFiles = [],
+  toolMode = false,
+}: PromptBudgetInput): Promise<BudgetedContext> {
+  const tokenizer = getTokenizerId(model);
+  const sources = getAllFiles(files).filter((f) => f.type === "file" && f.content && !isBinaryFile(f));
+  const summaries = sources.map((f) => extractExportSignatures(f.content || "").join("\n")).filter(Boolean);
+
+  // Count every piece in one worker round trip
+  const texts = [
+    systemPrompt || "",
+    instructions || "",
+    request,
+    ...history.map((m) => m.content),
+    ...sources.map((f) => f.content || ""),
+    ...summaries,
+  ];
+  const counts = await countTokens(tokenizer, texts);
+  const known = new Map<string, number>();
+  texts.forEach((text, index) => known.set(text, counts[index]));
+  const count = (text: string) => known.get(text) ?? estimateTokens(text);
+
+  const systemTokens =
+    (systemPrompt === null ? SERVER_PROMPT_RESERVE_TOKENS : count(systemPrompt)) + MESSAGE_OVERHEAD_TOKENS;
+  const instructionTokens = instructions ? count(instructions) + MESSAGE_OVERHEAD_TOKENS : 0;
+  const historyTokens = history.reduce((sum, m) => sum + count(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+  const requestTokens = count(request) + imageCount * IMAGE_PROMPT_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+  const reservedOutput = model.maxTokens;
+  const available = Math.max(0, model.contextWindow - reservedOutput - systemTokens - instructionTokens - historyTokens - requestTokens);
+
+  const describeUsage = (contextTokens: number, fileUsage: ContextFileUsage[]): ContextUsage => ({
+    modelId: model.id,
+    tokenizer,
+    contextWindow: model.contextWindow,
+    reservedOutput,
+    systemTokens,
+    instructionTokens,
+    historyTokens,
+    requestTokens,
+    contextTokens,
+    totalTokens: systemTokens + instructionTokens + historyTokens + requestTokens + contextTokens + reservedOutput,
+    files: fileUsage,
+  });
+
+  if (toolMode) {
+    const tool = await buildToolContext(files, activeFileId, pinnedFiles, tokenizer, available, count);
+    return { context: tool.context, usage: describeUsage(tool.contextTokens, tool.files) };
+  }
+
+  let budget = available;
+  let selection: ContextSelection;
+  let context: string;
+  let contextTokens: number;
+
+  for (let attempt = 1; ; attempt++) {
+    selection = selectContextFiles(files, activeFileId, request, {
+      maxTokens: budget,
+      includeImports: true,
+      prioritizeActiveFile: true,
+      includeRecentChanges: true,
+      recentlyModified,
+      pinnedFiles,
+      countTokens: count,
+    });
+    context = formatContext(files, selection);
+    [contextTokens] = await countTokens(tokenizer, [context]);
+
+    if (contextTokens <= available || attempt === MAX_FIT_ATTEMPTS || selection.included.length === 0) break;
+    budget = Math.max(0, budget - (contextTokens - available));
+  }
+
+  return { context, usage: describeUsage(contextTokens, describeFiles(files, selection, count)) };
+}
@@ -0,0 +1,162 @@
+// Incremental edit-protocol parser, fed chunk by chunk while a response
+// streams. Each ===FILE=== / ===PATCH=== block becomes an operation the moment
+// its end marker arrives; a block still open when the stream stops is kept
+// as a draft that generation can resume from.
+
+import { DIRECTIVE_REGEX, EditOperation, toEditOperation } from "@/lib/edit-protocol";
+
+export type EditDirective = "FILE" | "PATCH" | "DELETE" | "RENAME";
+
+export type StreamBlockStatus = "writing" | "done" | "draft";
+
+export interface StreamBlock {
+  directive: EditDirective;
+  // Target path; for renames the new path
+  filePath: string;
+  lineCount: number;
+  status: StreamBlockStatus;
+}
+
+export interface StreamDraft {
+  directive: "FILE" | "PATCH";
+  filePath: string;
+  // Raw response text from the directive line to where the stream stopped
+  text: string;
+  lineCount: number;
+}
+
+export type StreamParserEvent =
+  | { type: "block-started"; block: StreamBlock }
+  | { type: "block-progress"; block: StreamBlock }
+  | { type: "block-complete"; block: StreamBlock; operation: EditOperation | null };
+
+interface OpenBlock {
+  block: StreamBlock;
+  argument: string;
+  // Offsets of the directive and of the body in the response
+  start: number;
+  bodyStart: number;
+}
+
+const END_MARKERS = { FILE: "===END_FILE===", PATCH: "===END_PATCH===" };
+
+const countLines = (text: string) => (text.match(/\n/g) || []).length;
+
+export function createEditStreamParser(onEvent: (event: StreamParserEvent) => void = () => {}) {
+  let content = "";
+  // Directives are single-line, so everything before the last scanned
+  // newline outside a block never needs scanning again
+  let cursor = 0;
+  let open: OpenBlock | null = null;
+  const blocks: StreamBlock[] = [];
+
+  const scan = () => {
+    while (true) {
+      if (open) {
+        const marker = END_MARKERS[open.block.directive as keyof typeof END_MARKERS];
+        const endIndex = content.indexOf(marker, Math.max(open.bodyStart, cursor - marker.length));
+
+        if (endIndex === -1) {
+          cursor = content.length;
+          const lineCount = countLines(content.slice(open.bodyStart));
+          if (lineCount > open.block.lineCount) {
+            open.block.lineCount = lineCount;
+            onEvent({ type: "block-progress", block: { ...open.block } });
+          }
+          return;
+        }
+
+        const body = content.slice(open.bodyStart, endIndex);
+        open.block.lineCount = countLines(body.trim()) + 1;
+        open.block.status = "done";
+        onEvent({
+          type: "block-complete",
+          block: { ...open.block },
+          operation: toEditOperation(open.block.directive, open.argument, body),
+        });
+        cursor = endIndex + marker.length;
+        open = null;
+        continue;
+      }
+
+      const regex = new RegExp(DIRECTIVE_REGEX.source, "g");
+      regex.lastIndex = cursor;
+      const match = regex.exec(content);
+      if (!match) {
+        cursor = Math.max(cursor, content.lastIndexOf("\n") + 1);
+        return;
+      }
+
+      const [, directive, argument] = match as unknown as [string, EditDirective, string];
+      const filePath = directive === "RENAME" ? argument.split("->").pop()!.trim() : argument.trim();
+      const block: StreamBlock = { directive, filePath, lineCount: 0, status: "writing" };
+      blocks.push(block);
+      onEvent({ type: "block-started", block: { ...block } });
+      cursor = match.index + match[0].length;
+
+      if (directive === "FILE" || directive === "PATCH") {
+        open = { block, argument, start: match.index, bodyStart: cursor };
+      } else {
+        block.status = "done";
+        onEvent({ type: "block-complete", block: { ...block }, operation: toEditOperation(directive, argument) });
+      }
+    }
+  };
+
+  return {
+    push(delta: string) {
+      content += delta;
+      scan();
+    },
+
+    // The block left open when the stream stopped, if any
+    draft(): StreamDraft | null {
+      if (!open) return null;
+      return {
+        directive: open.block.directive as StreamDraft["directive"],
+        filePath: open.block.filePath,
+        text: content.slice(open.start),
+        lineCount: open.block.lineCount,
+      };
+    },
+
+    blocks(): StreamBlock[] {
+      return blocks.map((b) => ({ ...b }));
+    },
+  };
+}
+
+// Blocks of a finished or in-progress response. When the stream is over, an
+// unterminated block is reported as a draft.
+export function scanStreamBlocks(response: string, streaming = false): { blocks: StreamBlock[]; draft: StreamDraft | null } {
+  const parser = createEditStreamParser();
+  parser.push(response);
+  const draft = parser.draft();
+  const blocks = parser.blocks();
+
+  if (!streaming && draft) {
+    blocks[blocks.length - 1].status = "draft";
+  }
+  return { blocks, draft: streaming ? null : draft };
+}
+
+const BLOCK_TEXT_REGEX = /===(?:FILE|PATCH):[^\n]*?===[\s\S]*?(?:===END_(?:FILE|PATCH)===|$)|===(?:DELETE|RENAME):[^\n]*?===/g;
+
+// The prose of a response, without file blocks (finished or still streaming)
+export function stripEditBlocks(response: string): string {
+  return response.replace(BLOCK_TEXT_REGEX, "").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// Prompt asking the model to finish a draft. Its reply continues the draft's
+// text directly, so the two are joined before parsing.
+export function buildResumePrompt(draft: StreamDraft): string {
+  const tail = draft.text.split("\n").slice(-30).join("\n");
+  const endMarker = END_MARKERS[draft.directive];
+
+  return `## Resume generation
+Your previous response was cut off while writing ${draft.filePath}. It stopped here:
+
+${tail}
+
+Continue exactly where it stopped: output only the remaining lines of ${draft.filePath}, then ${endMarker}, then any remaining changes from your plan. Do not repeat lines already written, do not restate the ===${draft.directive}=== header, and do not add any explanation before the continuation.`;
+}
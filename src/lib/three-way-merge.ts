@@ -0,0 +1,119 @@
+// Line-level three-way merge (diff3) of one file. Changes from each side that
+// touch different lines are combined; overlapping changes that differ are
+// written out between git-style conflict markers.
+
+import { diffArrays } from "diff";
+
+export const CONFLICT_MARKERS = {
+  local: "<<<<<<< local",
+  separator: "=======",
+  remote: ">>>>>>> remote",
+};
+
+export interface TextMergeResult {
+  content: string;
+  conflicts: number;
+}
+
+// Replace base lines [start, end) with `lines`
+interface Edit {
+  start: number;
+  end: number;
+  lines: string[];
+  side: "local" | "remote";
+}
+
+function editsBetween(base: string[], other: string[], side: Edit["side"]): Edit[] {
+  const edits: Edit[] = [];
+  let position = 0;
+  let current: Edit | null = null;
+
+  for (const part of diffArrays(base, other)) {
+    if (!part.added && !part.removed) {
+      current = null;
+      position += part.value.length;
+      continue;
+    }
+    if (!current) {
+      current = { start: position, end: position, lines: [], side };
+      edits.push(current);
+    }
+    if (part.removed) {
+      position += part.value.length;
+      current.end = position;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+
+  return edits;
+}
+
+// One side's version of base lines [start, end) with its edits applied
+function applyEdits(base: string[], start: number, end: number, edits: Edit[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const edit of edits) {
+    lines.push(...base.slice(position, edit.start), ...edit.lines);
+    position = edit.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+export function mergeText(base: string, local: string, remote: string): TextMergeResult {
+  if (local === remote || remote === base) return { content: local, conflicts: 0 };
+  if (local === base) return { content: remote, conflicts: 0 };
+
+  const baseLines = base.split("\n");
+  const edits = [
+    ...editsBetween(baseLines, local.split("\n"), "local"),
+    ...editsBetween(baseLines, remote.split("\n"), "remote"),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+
+  for (let i = 0; i < edits.length; ) {
+    // Group edits that overlap or touch; edits of one side never do
+    const group = [edits[i]];
+    let end = edits[i].end;
+    for (i++; i < edits.length && edits[i].start <= end; i++) {
+      group.push(edits[i]);
+      end = Math.max(end, edits[i].end);
+    }
+    const start = group[0].start;
+    merged.push(...baseLines.slice(position, start));
+    position = end;
+
+    const localEdits = group.filter((e) => e.side === "local");
+    const remoteEdits = group.filter((e) => e.side === "remote");
+    const localLines = applyEdits(baseLines, start, end, localEdits);
+    const remoteLines = applyEdits(baseLines, start, end, remoteEdits);
+
+    if (remoteEdits.length === 0 || sameLines(localLines, remoteLines)) {
+      merged.push(...localLines);
+    } else if (localEdits.length === 0) {
+      merged.push(...remoteLines);
+    } else {
+      conflicts++;
+      merged.push(
+        CONFLICT_MARKERS.local,
+        ...localLines,
+        CONFLICT_MARKERS.separator,
+        ...remoteLines,
+        CONFLICT_MARKERS.remote
+      );
+    }
+  }
+  merged.push(...baseLines.slice(position));
+
+  return { content: merged.join("\n"), conflicts };
+}
+
+// Whether unresolved conflict markers are left in a file
+export const hasConflictMarkers = (content: string) =>
+  content.split("\n").some((line) => line.startsWith(CONFLICT_MARKERS.local) || line.startsWith(CONFLICT_MARKERS.remote));
@@ -0,0 +1,83 @@
+// Main-thread client for the tokenizer worker. Falls back to counting on the
+// main thread (approximation only) when workers are unavailable.
+
+import { estimateTokens } from "@/lib/context-manager";
+import { approximateGeminiTokens, TokenizerId } from "@/lib/tokenizers";
+import type { TokenCountRequest, TokenCountResponse } from "@/lib/tokenizer.worker";
+
+const COUNT_TIMEOUT_MS = 15000;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (counts: number[]) => void; reject: (e: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === "undefined") {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL("./tokenizer.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<TokenCountResponse>) => {
+      const pending = pendingRequests.get(event.data.id);
+      if (!pending) return;
+      pendingRequests.delete(event.data.id);
+      if ("error" in event.data) pending.reject(new Error(event.data.error));
+      else pending.resolve(event.data.counts);
+    };
+    worker.onerror = () => {
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pendingRequests.forEach((pending) => pending.reject(new Error("Tokenizer worker crashed")));
+      pendingRequests.clear();
+    };
+  } catch {
+    workerFailed = true;
+  }
+
+  return worker;
+};
+
+const countApproximately = (tokenizer: TokenizerId, texts: string[]) =>
+  texts.map((text) => (tokenizer === "gemini-approx" ? approximateGeminiTokens(text) : estimateTokens(text)));
+
+const countInWorker = (tokenizerWorker: Worker, tokenizer: TokenizerId, texts: string[]): Promise<number[]> => {
+  const id = ++nextRequestId;
+  return new Promise<number[]>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingRequests.delete(id);
+      reject(new Error("Token counting timed out"));
+    }, COUNT_TIMEOUT_MS);
+
+    pendingRequests.set(id, {
+      resolve: (counts) => {
+        clearTimeout(timeout);
+        resolve(counts);
+      },
+      reject: (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      },
+    });
+    tokenizerWorker.postMessage({ id, tokenizer, texts } satisfies TokenCountRequest);
+  });
+};
+
+// Token counts for each text, in order
+export async function countTokens(tokenizer: TokenizerId, texts: string[]): Promise<number[]> {
+  if (texts.length === 0) return [];
+
+  const tokenizerWorker = getWorker();
+  if (!tokenizerWorker) return countApproximately(tokenizer, texts);
+
+  try {
+    return await countInWorker(tokenizerWorker, tokenizer, texts);
+  } catch (error) {
+    console.error("Failed to count tokens:", error);
+    return countApproximately(tokenizer, texts);
+  }
+}
@@ -0,0 +1,35 @@
+// Web worker counting tokens for prompt budgeting. BPE encoding of a whole
+// project takes long enough to stall typing, so it runs off the main thread.
+
+import { loadTokenCounter, TokenCounter, TokenizerId } from "@/lib/tokenizers";
+
+export interface TokenCountRequest {
+  id: number;
+  tokenizer: TokenizerId;
+  texts: string[];
+}
+
+export type TokenCountResponse = { id: number; counts: number[] } | { id: number; error: string };
+
+const counters = new Map<TokenizerId, Promise<TokenCounter>>();
+
+const getCounter = (tokenizer: TokenizerId) => {
+  if (!counters.has(tokenizer)) {
+    counters.set(tokenizer, loadTokenCounter(tokenizer));
+  }
+  return counters.get(tokenizer)!;
+};
+
+self.onmessage = async (event: MessageEvent<TokenCountRequest>) => {
+  const { id, tokenizer, texts } = event.data;
+
+  try {
+    const count = await getCounter(tokenizer);
+    self.postMessage({ id, counts: texts.map(count) } satisfies TokenCountResponse);
+  } catch (error) {
+    self.postMessage({
+      id,
+      error: error instanceof Error ? error.message : "Token counting failed",
+    } satisfies TokenCountResponse);
+  }
+};
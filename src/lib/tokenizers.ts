@@ -0,0 +1,80 @@
+// Per-provider token counting. OpenAI-style models use real BPE encodings;
+// Gemini's SentencePiece vocabulary is not public, so it is approximated
+// from a per-character-class table. Runs inside the tokenizer worker; kept
+// free of worker APIs so it can be reused on the main thread.
+
+import { AIModel, AIProvider } from "@/lib/ai-config";
+
+export type TokenizerId = "o200k_base" | "cl100k_base" | "gemini-approx";
+
+export type TokenCounter = (text: string) => number;
+
+export const TOKENIZER_NAMES: Record<TokenizerId, string> = {
+  o200k_base: "OpenAI o200k (BPE)",
+  cl100k_base: "cl100k (BPE)",
+  "gemini-approx": "Gemini (approximate)",
+};
+
+// Chat formats add a few tokens per message for role markers
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Providers serving OpenAI-compatible models without a public encoding
+// (DeepSeek, Llama on Groq, custom endpoints) are closest to cl100k
+const PROVIDER_TOKENIZERS: Record<AIProvider, TokenizerId | ((model: AIModel) => TokenizerId)> = {
+  // The gateway serves both families
+  lovable: (model) => (model.id.includes("gemini") ? "gemini-approx" : "o200k_base"),
+  openai: "o200k_base",
+  gemini: "gemini-approx",
+  deepseek: "cl100k_base",
+  groq: "cl100k_base",
+  custom: "cl100k_base",
+};
+
+export function getTokenizerId(model: AIModel): TokenizerId {
+  const tokenizer = PROVIDER_TOKENIZERS[model.provider];
+  return typeof tokenizer === "function" ? tokenizer(model) : tokenizer;
+}
+
+// Characters per token for each character class
+const GEMINI_CHARS_PER_TOKEN = {
+  word: 4,
+  digit: 1,
+  space: 4,
+  punctuation: 1.5,
+  cjk: 1,
+  other: 2,
+};
+
+const GEMINI_RUNS =
+  /([A-Za-z]+)|(\d+)|(\s+)|([\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+)|([!-/:-@[-`{-~]+)|([^\sA-Za-z\d]+)/g;
+
+const RUN_CLASSES = ["word", "digit", "space", "cjk", "punctuation", "other"] as const;
+
+export const approximateGeminiTokens: TokenCounter = (text) => {
+  let tokens = 0;
+  for (const match of text.matchAll(GEMINI_RUNS)) {
+    const groupIndex = match.slice(1).findIndex((group) => group !== undefined);
+    const charClass = RUN_CLASSES[groupIndex] ?? "other";
+    tokens += Math.ceil(match[0].length / GEMINI_CHARS_PER_TOKEN[charClass]);
+  }
+  return tokens;
+};
+
+// BPE tables are a few MB each, so they load on first use
+export async function loadTokenCounter(id: TokenizerId): Promise<TokenCounter> {
+  // Text that looks like a special token is counted as plain text
+  const options = { disallowedSpecial: new Set<string>() };
+
+  switch (id) {
+    case "o200k_base": {
+      const { countTokens } = await import("gpt-tokenizer/encoding/o200k_base");
+      return (text) => countTokens(text, options);
+    }
+    case "cl100k_base": {
+      const { countTokens } = await import("gpt-tokenizer/encoding/cl100k_base");
+      return (text) => countTokens(text, options);
+    }
+    case "gemini-approx":
+      return approximateGeminiTokens;
+  }
+}
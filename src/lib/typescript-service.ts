@@ -0,0 +1,200 @@
+// TypeScript Language Service over the virtual FileNode project. Runs inside
+// the validation worker; kept free of worker APIs so it can be reused.
+
+import ts from "typescript";
+import type { ValidationError } from "@/lib/code-validator";
+
+export const LIB_DIR = "/__lib__/";
+const SHIMS_PATH = "/__shims__/modules.d.ts";
+
+export const ROOT_LIBS = ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"];
+
+const ASSET_PATTERNS = ["*.css", "*.scss", "*.sass", "*.less", "*.svg", "*.png", "*.jpg", "*.jpeg", "*.gif", "*.webp", "*.ico"];
+const ALWAYS_IMPORTED = ["react", "react/jsx-runtime", "react-dom"];
+
+const CHECKED_EXTENSIONS = /\.(tsx?|jsx?|json)$/;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ROOT_LIBS,
+  strict: false,
+  noImplicitAny: false,
+  allowJs: true,
+  checkJs: false,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  allowImportingTsExtensions: true,
+  resolveJsonModule: true,
+  isolatedModules: true,
+  skipLibCheck: true,
+  noEmit: true,
+  baseUrl: "/",
+  paths: { "@/*": ["src/*"] },
+  types: [],
+};
+
+// Names of the lib files a lib file pulls in via /// <reference lib="..." />
+export function getReferencedLibs(libSource: string): string[] {
+  const refs: string[] = [];
+  const regex = /\/\/\/\s*<reference\s+lib="([^"]+)"\s*\/>/g;
+  let match;
+  while ((match = regex.exec(libSource)) !== null) {
+    refs.push(`lib.${match[1].toLowerCase()}.d.ts`);
+  }
+  return refs;
+}
+
+const toVirtualPath = (fileId: string) => `/${fileId}`;
+const toFileId = (path: string) => path.replace(/^\//, "");
+
+const isBareSpecifier = (specifier: string) =>
+  !specifier.startsWith(".") && !specifier.startsWith("/") && !specifier.startsWith("@/");
+
+// "@scope/pkg/sub" -> "@scope/pkg", "pkg/sub" -> "pkg"
+const getPackageName = (specifier: string) =>
+  specifier.split("/").slice(0, specifier.startsWith("@") ? 2 : 1).join("/");
+
+// Package names with declarations under /node_modules, e.g. "@types/react" -> "react"
+const getTypedPackages = (typeFiles: Record<string, string>) =>
+  new Set(
+    Object.keys(typeFiles).map((path) => {
+      const name = getPackageName(path.replace(/^\/node_modules\//, ""));
+      return name.startsWith("@types/") ? name.slice("@types/".length) : name;
+    })
+  );
+
+// Most npm packages are not available in the virtual project: declare every
+// bare import without bundled types as an untyped module so only project
+// files are type-checked
+function buildShims(files: Map<string, string>, typedPackages: Set<string>): string {
+  const specifiers = new Set(ALWAYS_IMPORTED);
+  const importRegex = /(?:import|export)\s+(?:[^'"]*?\s+from\s+)?["']([^"']+)["']|import\(\s*["']([^"']+)["']\s*\)/g;
+
+  files.forEach((content) => {
+    let match;
+    while ((match = importRegex.exec(content)) !== null) {
+      const specifier = match[1] || match[2];
+      if (isBareSpecifier(specifier)) specifiers.add(specifier);
+    }
+  });
+
+  return [
+    ...[...specifiers]
+      .filter((s) => !typedPackages.has(getPackageName(s)))
+      .map((s) => `declare module "${s}";`),
+    ...ASSET_PATTERNS.map((p) => `declare module "${p}";`),
+  ].join("\n");
+}
+
+const toValidationError = (diagnostic: ts.Diagnostic): ValidationError => {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+  let line = 1;
+  let column = 1;
+
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const pos = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    line = pos.line + 1;
+    column = pos.character + 1;
+  }
+
+  return {
+    line,
+    column,
+    message: `TS${diagnostic.code}: ${message}`,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+    code: diagnostic.code,
+  };
+};
+
+// libFiles are keyed by file name ("lib.dom.d.ts"); typeFiles by their
+// /node_modules path ("/node_modules/@types/react/index.d.ts")
+export function createProjectLanguageService(libFiles: Record<string, string>, typeFiles: Record<string, string> = {}) {
+  const typedPackages = getTypedPackages(typeFiles);
+  const files = new Map<string, string>();
+  const versions = new Map<string, number>();
+  let shims = "";
+  let shimsVersion = 0;
+
+  const readFile = (path: string): string | undefined => {
+    if (path === SHIMS_PATH) return shims;
+    if (path.startsWith(LIB_DIR)) return libFiles[path.slice(LIB_DIR.length)];
+    if (path.startsWith("/node_modules/")) return typeFiles[path];
+    return files.get(path);
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => COMPILER_OPTIONS,
+    getScriptFileNames: () => [...files.keys()].filter((p) => CHECKED_EXTENSIONS.test(p)).concat(SHIMS_PATH),
+    getScriptVersion: (path) => String(path === SHIMS_PATH ? shimsVersion : versions.get(path) ?? 0),
+    getScriptSnapshot: (path) => {
+      const text = readFile(path);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => "/",
+    getDefaultLibFileName: () => `${LIB_DIR}lib.d.ts`,
+    fileExists: (path) => readFile(path) !== undefined,
+    readFile,
+    directoryExists: (dir) => {
+      const prefix = dir.endsWith("/") ? dir : `${dir}/`;
+      return (
+        prefix === "/" ||
+        prefix === LIB_DIR ||
+        [...files.keys(), ...Object.keys(typeFiles)].some((p) => p.startsWith(prefix))
+      );
+    },
+    getDirectories: () => [],
+  };
+
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+  // Sync the virtual project, bumping versions only for files that changed
+  const update = (projectFiles: Record<string, string>) => {
+    const next = new Map(Object.entries(projectFiles).map(([id, content]) => [toVirtualPath(id), content]));
+
+    [...files.keys()].forEach((path) => {
+      if (!next.has(path)) {
+        files.delete(path);
+        versions.delete(path);
+      }
+    });
+
+    next.forEach((content, path) => {
+      if (files.get(path) !== content) {
+        files.set(path, content);
+        versions.set(path, (versions.get(path) ?? 0) + 1);
+      }
+    });
+
+    const nextShims = buildShims(files, typedPackages);
+    if (nextShims !== shims) {
+      shims = nextShims;
+      shimsVersion++;
+    }
+  };
+
+  const getDiagnostics = (
+    projectFiles: Record<string, string>,
+    targets: string[]
+  ): Record<string, ValidationError[]> => {
+    update(projectFiles);
+
+    const result: Record<string, ValidationError[]> = {};
+    targets.forEach((fileId) => {
+      const path = toVirtualPath(fileId);
+      if (!files.has(path) || !/\.(tsx?|jsx?)$/.test(path)) return;
+
+      const diagnostics = [
+        ...service.getSyntacticDiagnostics(path),
+        ...service.getSemanticDiagnostics(path),
+      ];
+      result[toFileId(path)] = diagnostics.map(toValidationError);
+    });
+
+    return result;
+  };
+
+  return { getDiagnostics };
+}
@@ -0,0 +1,90 @@
+// Web worker hosting the TypeScript language service used by code-validator.
+// The compiler and its lib files are large, so they load off the main thread
+// and only once per session.
+
+import { createProjectLanguageService, getReferencedLibs, ROOT_LIBS } from "@/lib/typescript-service";
+
+export interface DiagnosticsRequest {
+  id: number;
+  files: Record<string, string>;
+  targets: string[];
+}
+
+export type DiagnosticsResponse =
+  | { id: number; diagnostics: ReturnType<ReturnType<typeof createProjectLanguageService>["getDiagnostics"]> }
+  | { id: number; error: string };
+
+const libLoaders = import.meta.glob<string>("/node_modules/typescript/lib/lib.*.d.ts", {
+  query: "?raw",
+  import: "default",
+});
+
+// Declarations for the packages generated projects always use. Other npm
+// imports are shimmed as untyped modules.
+const typeLoaders = import.meta.glob<string>(
+  [
+    "/node_modules/@types/react/{index,global,jsx-runtime,jsx-dev-runtime}.d.ts",
+    "/node_modules/@types/react-dom/{index,client}.d.ts",
+    "/node_modules/@types/prop-types/index.d.ts",
+    "/node_modules/csstype/index.d.ts",
+  ],
+  { query: "?raw", import: "default" }
+);
+
+async function loadTypeFiles(): Promise<Record<string, string>> {
+  const entries = await Promise.all(
+    Object.entries(typeLoaders).map(async ([path, loader]) => [path, await loader()] as const)
+  );
+  return Object.fromEntries(entries);
+}
+
+// Load the root libs and everything they reference
+async function loadLibFiles(): Promise<Record<string, string>> {
+  const libFiles: Record<string, string> = {};
+  const queue = [...ROOT_LIBS];
+
+  while (queue.length > 0) {
+    const batch = [...new Set(queue.splice(0))].filter((name) => !(name in libFiles));
+    const sources = await Promise.all(
+      batch.map(async (name) => {
+        const loader = libLoaders[`/node_modules/typescript/lib/${name}`];
+        return loader ? loader() : "";
+      })
+    );
+
+    batch.forEach((name, index) => {
+      libFiles[name] = sources[index];
+      getReferencedLibs(sources[index]).forEach((ref) => {
+        if (!(ref in libFiles)) queue.push(ref);
+      });
+    });
+  }
+
+  return libFiles;
+}
+
+let servicePromise: Promise<ReturnType<typeof createProjectLanguageService>> | null = null;
+
+const getService = () => {
+  if (!servicePromise) {
+    servicePromise = Promise.all([loadLibFiles(), loadTypeFiles()]).then(([libFiles, typeFiles]) =>
+      createProjectLanguageService(libFiles, typeFiles)
+    );
+  }
+  return servicePromise;
+};
+
+self.onmessage = async (event: MessageEvent<DiagnosticsRequest>) => {
+  const { id, files, targets } = event.data;
+
+  try {
+    const service = await getService();
+    const diagnostics = service.getDiagnostics(files, targets);
+    self.postMessage({ id, diagnostics } satisfies DiagnosticsResponse);
+  } catch (error) {
+    self.postMessage({
+      id,
+      error: error instanceof Error ? error.message : "TypeScript diagnostics failed",
+    } satisfies DiagnosticsResponse);
+  }
+};
@@ -0,0 +1,23 @@
+// The signed-in user's own provider keys. Values are encrypted by the
+// user-secrets edge function and can be replaced or removed, never read back.
+import { invokeFunction } from "@/lib/edge-functions";
+
+export interface UserSecretInfo {
+  name: string;
+  // Last characters of the stored value
+  hint: string | null;
+  updatedAt: string;
+}
+
+export async function listUserSecrets(): Promise<UserSecretInfo[]> {
+  const { secrets } = await invokeFunction<{ secrets: UserSecretInfo[] }>("user-secrets", { action: "list" });
+  return secrets;
+}
+
+export async function saveUserSecret(name: string, value: string): Promise<void> {
+  await invokeFunction("user-secrets", { action: "set", name, value });
+}
+
+export async function deleteUserSecret(name: string): Promise<void> {
+  await invokeFunction("user-secrets", { action: "delete", name });
+}
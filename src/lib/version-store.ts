@@ -0,0 +1,257 @@
+// Durable project versions: file contents are stored once per project as
+// content-addressed blobs, and each version is a path -> hash manifest
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import {
+  FileAttributes,
+  FileChange,
+  FileNode,
+  buildFileTree,
+  getAllFiles,
+  isBinaryPath,
+  pickFileAttributes,
+} from "@/lib/file-system";
+
+// A bare hash is a text file, or binary when its extension says so (as in
+// versions saved before attributes were recorded). Other files keep their
+// attributes next to the hash.
+export type ManifestEntry = string | ({ hash: string } & FileAttributes);
+
+export type VersionManifest = Record<string, ManifestEntry>;
+
+export const entryHash = (entry: ManifestEntry) => (typeof entry === "string" ? entry : entry.hash);
+
+const entryAttributes = (path: string, entry: ManifestEntry): FileAttributes => {
+  if (typeof entry !== "string") return pickFileAttributes({ ...entry, id: path, name: path, type: "file" });
+  return isBinaryPath(path) ? { encoding: "base64" } : {};
+};
+
+export interface ProjectVersion {
+  id: string;
+  parentId: string | null;
+  description: string;
+  messageId: string | null;
+  manifest: VersionManifest;
+  fileCount: number;
+  createdAt: Date;
+}
+
+export interface ProjectVersionPage {
+  versions: ProjectVersion[];
+  total: number;
+}
+
+export interface SaveProjectVersionOptions {
+  projectId: string;
+  userId: string;
+  parentId: string | null;
+  files: FileNode[];
+  description: string;
+  messageId?: string;
+}
+
+// Keeps `in (...)` filters well below URL length limits
+const HASH_BATCH_SIZE = 100;
+
+const VERSION_COLUMNS = "id, parent_id, description, message_id, manifest, file_count, created_at";
+
+type VersionRow = {
+  id: string;
+  parent_id: string | null;
+  description: string;
+  message_id: string | null;
+  manifest: Json;
+  file_count: number;
+  created_at: string;
+};
+
+const toProjectVersion = (row: VersionRow): ProjectVersion => ({
+  id: row.id,
+  parentId: row.parent_id,
+  description: row.description,
+  messageId: row.message_id,
+  manifest: (row.manifest ?? {}) as VersionManifest,
+  fileCount: row.file_count,
+  createdAt: new Date(row.created_at),
+});
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size));
+  return batches;
+};
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Hash every file of a tree. Returns the manifest and the contents by hash.
+export async function buildManifest(files: FileNode[]) {
+  const manifest: VersionManifest = {};
+  const contents = new Map<string, string>();
+
+  await Promise.all(
+    getAllFiles(files).map(async (file) => {
+      const content = file.content || "";
+      const hash = await hashContent(content);
+      const attributes = pickFileAttributes(file);
+      const plain = Object.keys(attributes).length === 0 && !isBinaryPath(file.id);
+      manifest[file.id] = plain ? hash : { hash, ...attributes };
+      contents.set(hash, content);
+    })
+  );
+
+  return { manifest, contents };
+}
+
+const sameEntry = (path: string, a: ManifestEntry | undefined, b: ManifestEntry | undefined) => {
+  if (!a || !b) return a === b;
+  const attributesA = entryAttributes(path, a);
+  const attributesB = entryAttributes(path, b);
+  return (
+    entryHash(a) === entryHash(b) &&
+    attributesA.encoding === attributesB.encoding &&
+    !!attributesA.executable === !!attributesB.executable
+  );
+};
+
+export const manifestsEqual = (a: VersionManifest, b: VersionManifest) => {
+  const paths = Object.keys(a);
+  return paths.length === Object.keys(b).length && paths.every((path) => sameEntry(path, a[path], b[path]));
+};
+
+async function findExistingBlobs(projectId: string, hashes: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+
+  for (const batch of chunk(hashes, HASH_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("project_blobs")
+      .select("hash")
+      .eq("project_id", projectId)
+      .in("hash", batch);
+
+    if (error) throw error;
+    data?.forEach((row) => existing.add(row.hash));
+  }
+
+  return existing;
+}
+
+export async function loadBlobs(projectId: string, hashes: string[]): Promise<Map<string, string>> {
+  const contents = new Map<string, string>();
+
+  for (const batch of chunk([...new Set(hashes)], HASH_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("project_blobs")
+      .select("hash, content")
+      .eq("project_id", projectId)
+      .in("hash", batch);
+
+    if (error) throw error;
+    data?.forEach((row) => contents.set(row.hash, row.content));
+  }
+
+  const missing = hashes.filter((hash) => !contents.has(hash));
+  if (missing.length > 0) {
+    throw new Error(`Missing ${missing.length} file blob(s) for this version`);
+  }
+
+  return contents;
+}
+
+// Upload the blobs the project does not have yet, then record the version
+export async function saveProjectVersion({
+  projectId,
+  userId,
+  parentId,
+  files,
+  description,
+  messageId,
+}: SaveProjectVersionOptions): Promise<ProjectVersion> {
+  const { manifest, contents } = await buildManifest(files);
+
+  const existing = await findExistingBlobs(projectId, [...contents.keys()]);
+  const newBlobs = [...contents.entries()]
+    .filter(([hash]) => !existing.has(hash))
+    .map(([hash, content]) => ({ project_id: projectId, hash, content, size: content.length }));
+
+  for (const batch of chunk(newBlobs, HASH_BATCH_SIZE)) {
+    // Another tab may have uploaded the same blob in the meantime
+    const { error } = await supabase
+      .from("project_blobs")
+      .upsert(batch, { onConflict: "project_id,hash", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  const { data, error } = await supabase
+    .from("project_versions")
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      parent_id: parentId,
+      description,
+      message_id: messageId ?? null,
+      manifest,
+      file_count: Object.keys(manifest).length,
+    })
+    .select(VERSION_COLUMNS)
+    .single();
+
+  if (error || !data) throw error ?? new Error("Version was not saved");
+  return toProjectVersion(data);
+}
+
+// Newest first
+export async function listProjectVersions(projectId: string, offset: number, limit: number): Promise<ProjectVersionPage> {
+  const { data, error, count } = await supabase
+    .from("project_versions")
+    .select(VERSION_COLUMNS, { count: "exact" })
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+  return { versions: (data || []).map(toProjectVersion), total: count ?? 0 };
+}
+
+export async function loadVersionFiles(projectId: string, version: ProjectVersion): Promise<FileNode[]> {
+  const entries = Object.entries(version.manifest);
+  const contents = await loadBlobs(projectId, entries.map(([, entry]) => entryHash(entry)));
+  const flat: Record<string, string> = {};
+  const attributes: Record<string, FileAttributes> = {};
+  entries.forEach(([path, entry]) => {
+    flat[path] = contents.get(entryHash(entry))!;
+    attributes[path] = entryAttributes(path, entry);
+  });
+  return buildFileTree(flat, attributes);
+}
+
+// File changes that turn `from` into `to`. Only changed blobs are fetched.
+export async function diffVersions(projectId: string, from: ProjectVersion, to: ProjectVersion): Promise<FileChange[]> {
+  const paths = [...new Set([...Object.keys(from.manifest), ...Object.keys(to.manifest)])].sort();
+  const changed = paths.filter((path) => !sameEntry(path, from.manifest[path], to.manifest[path]));
+
+  const hashes = changed.flatMap((path) =>
+    [from.manifest[path], to.manifest[path]].filter(Boolean).map((entry) => entryHash(entry))
+  );
+  const contents = await loadBlobs(projectId, hashes);
+
+  return changed.map((path) => {
+    const oldEntry = from.manifest[path];
+    const newEntry = to.manifest[path];
+    // Both keys, so applying the change also clears an attribute
+    const { encoding, executable } = entryAttributes(path, (newEntry ?? oldEntry)!);
+    return {
+      fileId: path,
+      fileName: path.split("/").pop() || path,
+      oldContent: oldEntry ? contents.get(entryHash(oldEntry))! : "",
+      newContent: newEntry ? contents.get(entryHash(newEntry))! : "",
+      type: !oldEntry ? "create" : !newEntry ? "delete" : "modify",
+      attributes: { encoding, executable },
+    };
+  });
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Users, Key, Save, Eye, EyeOff, Loader2, Mail, Send, CheckCircle, AlertCircle, FileText, Zap } from 'lucide-react';
+import { ArrowLeft, Users, Key, Save, Eye, EyeOff, Loader2, Mail, Send, CheckCircle, AlertCircle, FileText, Zap, Workflow } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -14,6 +14,8 @@ import { useAuthContext } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import EmailTemplates from '@/components/EmailTemplates';
+import PipelinePresets from '@/components/PipelinePresets';
+import { getAppSettings, saveAppSetting, SmtpConfig } from '@/lib/app-settings';
 
 interface UserProfile {
   id: string;
@@ -30,17 +32,6 @@ interface ApiKey {
   created_at: string;
 }
 
-interface SmtpConfig {
-  host: string;
-  port: string;
-  username: string;
-  password: string;
-  from_email: string;
-  from_name: string;
-  encryption: 'none' | 'ssl' | 'tls';
-  enabled: boolean;
-}
-
 export default function Admin() {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
@@ -62,6 +53,14 @@ export default function Admin() {
   const [deepseekStatus, setDeepseekStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [groqStatus, setGroqStatus] = useState<'idle' | 'success' | 'error'>('idle');
 
+  // Custom OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [customKey, setCustomKey] = useState('');
+  const [customModels, setCustomModels] = useState('');
+  const [showCustomKey, setShowCustomKey] = useState(false);
+  const [testingCustom, setTestingCustom] = useState(false);
+  const [customStatus, setCustomStatus] = useState<'idle' | 'success' | 'error'>('idle');
+
   // SMTP State
   const [smtp, setSmtp] = useState<SmtpConfig>({
     host: '',
@@ -117,7 +116,7 @@ export default function Admin() {
       setEditingCredits(creditsMap);
     }
 
-    // Fetch API keys including SMTP config
+    // Fetch admin provider keys
     const { data: keysData } = await supabase
       .from('api_keys')
       .select('*');
@@ -128,17 +127,16 @@ export default function Admin() {
         if (k.key_name === 'gemini') setGeminiKey(k.key_value);
         if (k.key_name === 'deepseek') setDeepseekKey(k.key_value);
         if (k.key_name === 'groq') setGroqKey(k.key_value);
-        if (k.key_name === 'smtp_config') {
-          try {
-            const config = JSON.parse(k.key_value);
-            setSmtp(config);
-          } catch (e) {
-            console.error('Failed to parse SMTP config');
-          }
-        }
+        if (k.key_name === 'custom_openai') setCustomKey(k.key_value);
       });
     }
 
+    // Fetch instance settings including SMTP config
+    const settings = await getAppSettings(['custom_openai_base_url', 'custom_openai_models', 'smtp_config']);
+    if (settings.custom_openai_base_url) setCustomBaseUrl(settings.custom_openai_base_url);
+    if (settings.custom_openai_models) setCustomModels(settings.custom_openai_models.join(', '));
+    if (settings.smtp_config) setSmtp(settings.smtp_config);
+
     setLoading(false);
   };
 
@@ -173,6 +171,7 @@ export default function Admin() {
       { key_name: 'gemini', key_value: geminiKey },
       { key_name: 'deepseek', key_value: deepseekKey },
       { key_name: 'groq', key_value: groqKey },
+      { key_name: 'custom_openai', key_value: customKey },
     ];
 
     for (const key of keys) {
@@ -192,6 +191,21 @@ export default function Admin() {
       }
     }
 
+    try {
+      if (customBaseUrl.trim()) {
+        await saveAppSetting('custom_openai_base_url', customBaseUrl.trim());
+      }
+      if (customModels.trim()) {
+        await saveAppSetting(
+          'custom_openai_models',
+          customModels.split(',').map((m) => m.trim()).filter(Boolean)
+        );
+      }
+    } catch (error) {
+      console.error('Failed to save custom endpoint settings:', error);
+      toast({ title: 'Error', description: 'Failed to save custom endpoint settings', variant: 'destructive' });
+    }
+
     toast({ title: 'API Keys saved' });
     setSavingKeys(false);
     fetchData();
@@ -269,21 +283,57 @@ export default function Admin() {
     }
   };
 
+  const handleTestCustomEndpoint = async () => {
+    if (!customBaseUrl.trim()) {
+      toast({ title: 'Base URL Required', description: 'Please enter the endpoint base URL first', variant: 'destructive' });
+      return;
+    }
+
+    setTestingCustom(true);
+    setCustomStatus('idle');
+
+    try {
+      const { data, error } = await supabase.functions.invoke('test-api-key', {
+        body: {
+          provider: 'custom',
+          apiKey: customKey,
+          baseUrl: customBaseUrl.trim(),
+          model: customModels.split(',')[0]?.trim() || undefined,
+        }
+      });
+
+      if (error) throw error;
+
+      if (data.success) {
+        setCustomStatus('success');
+        toast({ title: 'Connection Successful!', description: data.message });
+      } else {
+        setCustomStatus('error');
+        toast({ title: 'Connection Failed', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Test custom endpoint error:', error);
+      setCustomStatus('error');
+      toast({
+        title: 'Test Failed',
+        description: error instanceof Error ? error.message : 'Failed to reach the endpoint',
+        variant: 'destructive',
+      });
+    } finally {
+      setTestingCustom(false);
+    }
+  };
+
   const handleSaveSmtp = async () => {
     setSavingSmtp(true);
 
-    const smtpConfigValue = JSON.stringify(smtp);
-    const existing = apiKeys.find((k) => k.key_name === 'smtp_config');
-
-    if (existing) {
-      await supabase
-        .from('api_keys')
-        .update({ key_value: smtpConfigValue })
-        .eq('key_name', 'smtp_config');
-    } else {
-      await supabase
-        .from('api_keys')
-        .insert({ key_name: 'smtp_config', key_value: smtpConfigValue });
+    try {
+      await saveAppSetting('smtp_config', smtp);
+    } catch (error) {
+      console.error('Failed to save SMTP config:', error);
+      toast({ title: 'Error', description: 'Failed to save SMTP configuration', variant: 'destructive' });
+      setSavingSmtp(false);
+      return;
     }
 
     toast({ title: 'SMTP Configuration saved' });
@@ -358,7 +408,7 @@ export default function Admin() {
           </Button>
           <div>
             <h1 className="font-semibold text-foreground">Admin Dashboard</h1>
-            <p className="text-xs text-muted-foreground">Manage users, API keys, and email settings</p>
+            <p className="text-xs text-muted-foreground">Manage users, API keys, email settings and AI pipelines</p>
           </div>
         </div>
       </header>
@@ -383,6 +433,10 @@ export default function Admin() {
               <FileText className="h-4 w-4" />
               Templates
             </TabsTrigger>
+            <TabsTrigger value="pipelines" className="gap-2">
+              <Workflow className="h-4 w-4" />
+              AI Pipelines
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="users">
@@ -629,6 +683,78 @@ export default function Admin() {
                     </p>
                   </div>
 
+                  {/* Custom OpenAI-compatible Endpoint */}
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label>Custom OpenAI-compatible Endpoint</Label>
+                      {customStatus === 'success' && (
+                        <div className="flex items-center gap-1 text-green-500 text-xs">
+                          <CheckCircle className="h-3 w-3" />
+                          <span>Connected</span>
+                        </div>
+                      )}
+                      {customStatus === 'error' && (
+                        <div className="flex items-center gap-1 text-red-500 text-xs">
+                          <AlertCircle className="h-3 w-3" />
+                          <span>Failed</span>
+                        </div>
+                      )}
+                    </div>
+                    <Input
+                      placeholder="http://localhost:11434/v1"
+                      value={customBaseUrl}
+                      onChange={(e) => {
+                        setCustomBaseUrl(e.target.value);
+                        setCustomStatus('idle');
+                      }}
+                    />
+                    <Input
+                      placeholder="Models, comma separated (e.g. qwen2.5-coder:14b, llama3.1)"
+                      value={customModels}
+                      onChange={(e) => setCustomModels(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <div className="relative flex-1">
+                        <Input
+                          type={showCustomKey ? 'text' : 'password'}
+                          placeholder="API key (optional)"
+                          value={customKey}
+                          onChange={(e) => {
+                            setCustomKey(e.target.value);
+                            setCustomStatus('idle');
+                          }}
+                          className="pr-10"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="absolute right-0 top-0 h-full w-10"
+                          onClick={() => setShowCustomKey(!showCustomKey)}
+                        >
+                          {showCustomKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="default"
+                        onClick={handleTestCustomEndpoint}
+                        disabled={testingCustom || !customBaseUrl.trim()}
+                        className="gap-2 shrink-0"
+                      >
+                        {testingCustom ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Zap className="h-4 w-4" />
+                        )}
+                        Test
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Any server exposing <code>/chat/completions</code>. The first model is used by "Custom Endpoint" in the model selector.
+                    </p>
+                  </div>
+
                   <div className="pt-4 border-t border-border">
                     <Button onClick={handleSaveApiKeys} disabled={savingKeys} className="gap-2">
                       {savingKeys ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
@@ -868,6 +994,10 @@ export default function Admin() {
           <TabsContent value="templates">
             <EmailTemplates />
           </TabsContent>
+
+          <TabsContent value="pipelines">
+            <PipelinePresets />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -1,69 +1,157 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { AnimatePresence, motion } from "framer-motion";
-import { ArrowLeft, Sparkles, Menu, Share2, Eye, FolderTree, Code2, Terminal, Zap } from "lucide-react";
+import { ArrowLeft, Sparkles, Menu, Share2, Eye, FolderTree, Code2, Terminal, Cloud, CloudOff, Loader2, Wrench, History } from "lucide-react";
 import { ChatPanel } from "@/components/ChatPanel";
 import { PreviewPanel } from "@/components/PreviewPanel";
 import { DiffView } from "@/components/DiffView";
 import { UserMenu } from "@/components/UserMenu";
 import { CreditBlockModal } from "@/components/CreditBlockModal";
-import { GitHubIntegration } from "@/components/GitHubIntegration";
+import { GitHubIntegration, GitHubMerge } from "@/components/GitHubIntegration";
 import { FileExplorerPanel } from "@/components/FileExplorerPanel";
 import { CodeEditorPanel } from "@/components/CodeEditorPanel";
 import { ModelSelector } from "@/components/ModelSelector";
+import { PipelineSelector } from "@/components/PipelineSelector";
 import { VersionHistoryPanel } from "@/components/VersionHistoryPanel";
 import { ConsolePanel } from "@/components/ConsolePanel";
+import { ChatHistory } from "@/components/ChatHistory";
+import { ProjectConflictDialog } from "@/components/ProjectConflictDialog";
+import { ProjectInstructionsDialog } from "@/components/ProjectInstructionsDialog";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useFileSystem } from "@/hooks/useFileSystem";
 import { useVersionHistory } from "@/hooks/useVersionHistory";
 import { useConsole } from "@/hooks/useConsole";
+import { useProjectPersistence } from "@/hooks/useProjectPersistence";
+import { useAIGeneration } from "@/hooks/useAIGeneration";
+import { useAutoRepair } from "@/hooks/useAutoRepair";
+import { useContextUsage } from "@/hooks/useContextUsage";
+import { usePipelinePresets } from "@/hooks/usePipelinePresets";
+import { useProjectInstructions } from "@/hooks/useProjectInstructions";
+import { ChatMessage, useChatSessions } from "@/hooks/useChatSessions";
 import { useAuthContext } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { findFileById, FileChange, getAllFiles } from "@/lib/file-system";
+import { FileChange, FileNode, applyFileChanges, flattenTextFiles } from "@/lib/file-system";
+import {
+  EDIT_PROTOCOL_INSTRUCTIONS,
+  EditOperation,
+  describeEditFailure,
+  resolveEditOperations,
+  resolveFileChanges,
+} from "@/lib/edit-protocol";
+import { buildResumePrompt, scanStreamBlocks } from "@/lib/stream-parser";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
-import { getDefaultModel } from "@/lib/ai-config";
-import { buildSmartContext } from "@/lib/context-manager";
-
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-}
+import { getDefaultModel, getModelById } from "@/lib/ai-config";
+import { getBudgetModel, pipelineSupportsTools, pipelineSupportsVision } from "@/lib/pipelines";
+import { buildBudgetedContext } from "@/lib/prompt-budget";
+import { formatProjectInstructions } from "@/lib/project-instructions";
+import { ChatAttachment, toContentParts, uploadChatAttachment } from "@/lib/chat-attachments";
+import { buildVisualReviewPrompt, PreviewCapture } from "@/lib/preview-capture";
+import { HistoryMessage, prepareConversation } from "@/lib/conversation-manager";
+import { runGeneration } from "@/lib/generation-client";
 
 export default function Editor() {
   const { projectId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { user, credits, loading: authLoading } = useAuthContext();
+  const { user, credits, refetchProfile, loading: authLoading } = useAuthContext();
   const fileSystem = useFileSystem();
   const isMobile = useIsMobile();
   const console = useConsole();
 
-  const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showCreditBlock, setShowCreditBlock] = useState(false);
-  const [projectName, setProjectName] = useState("Untitled");
+  const [creditBlockMessage, setCreditBlockMessage] = useState<string | undefined>();
   const [mobileView, setMobileView] = useState<"chat" | "preview">("chat");
   const [selectedModel, setSelectedModel] = useState(getDefaultModel().id);
+  const generationAbortRef = useRef<AbortController | null>(null);
   
-  // Dual AI Mode
-  const [dualAIEnabled, setDualAIEnabled] = useState(true);
+  // Multi-stage pipeline; undefined follows the admin's default, null runs
+  // the selected model alone
+  const pipelines = usePipelinePresets(user?.id);
+  const [pipelineId, setPipelineId] = useState<string | null | undefined>(undefined);
+  const pipeline =
+    pipelineId === undefined ? pipelines.defaultPreset : pipelines.presets.find((p) => p.id === pipelineId) ?? null;
+  // A pipeline's prompt is budgeted for its smallest context window
+  const generationModel = pipeline ? getBudgetModel(pipeline) : getModelById(selectedModel) ?? getDefaultModel();
+  // The server reads files on demand through tools when every model involved
+  // supports it; otherwise the prompt carries them
+  const toolMode = pipeline ? pipelineSupportsTools(pipeline) : !!generationModel.supportsTools;
+  const supportsVision = pipeline ? pipelineSupportsVision(pipeline) : !!generationModel.supportsVision;
   
+  // Owner's rules and pinned knowledge files, sent with every prompt
+  const projectInstructions = useProjectInstructions(projectId);
+  const { knowledgeFiles } = projectInstructions;
+  const instructionsMessage = formatProjectInstructions(projectInstructions);
+
   // Panel visibility states
   const [showFileExplorer, setShowFileExplorer] = useState(false);
   const [showCodeEditor, setShowCodeEditor] = useState(false);
   const [showConsole, setShowConsole] = useState(false);
   const [consoleExpanded, setConsoleExpanded] = useState(false);
-
-  // Version history
-  const versionHistory = useVersionHistory(fileSystem.files);
+  const [showChatHistory, setShowChatHistory] = useState(false);
+
+  // Persistent chat sessions for this project
+  const chat = useChatSessions(projectId, user?.id);
+  const { messages, setMessages } = chat;
+
+  // Live context usage for the message being typed
+  const [chatDraft, setChatDraft] = useState("");
+  const [chatImageCount, setChatImageCount] = useState(0);
+  const contextUsage = useContextUsage({
+    files: fileSystem.files,
+    activeFileId: fileSystem.activeFileId,
+    modelId: generationModel.id,
+    draft: chatDraft,
+    imageCount: supportsVision ? chatImageCount : 0,
+    recentlyModified: fileSystem.recentlyModified,
+    instructions: instructionsMessage,
+    pinnedFiles: knowledgeFiles,
+    messages,
+    summary: chat.summary,
+    toolMode,
+  });
+
+  // Durable version history
+  const versionHistory = useVersionHistory(projectId, user?.id);
+  // Where the pending changes came from, recorded with the version they create
+  const [pendingSource, setPendingSource] = useState<{
+    description: string;
+    messageId?: string;
+    // Review title and a callback once the changes are applied, for merges
+    title?: string;
+    onApplied?: () => void;
+  } | null>(null);
+  const [versionDiff, setVersionDiff] = useState<FileChange[] | null>(null);
+  const [messageToReveal, setMessageToReveal] = useState<string | null>(null);
+
+  // Auto-repair: apply generations directly and fix errors in follow-up rounds
+  const aiGeneration = useAIGeneration();
+  const autoRepair = useAutoRepair({
+    generate: aiGeneration.generate,
+    setFiles: fileSystem.setFiles,
+    saveSnapshot: versionHistory.saveSnapshot,
+    logger: console,
+  });
+
+  // Load and autosave the project's files
+  const persistence = useProjectPersistence(projectId, fileSystem.files, fileSystem.setFiles, {
+    onLoad: (loadedFiles) => versionHistory.initialize(loadedFiles),
+    onMerge: (conflicts) => {
+      if (conflicts.length > 0) {
+        console.warn(`Merged with ${conflicts.length} conflict(s), kept local version`, "Sync", conflicts.join("\n"));
+      } else {
+        console.success("Merged remote changes", "Sync");
+      }
+    },
+  });
+  const projectName = persistence.projectName;
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -71,60 +159,58 @@ export default function Editor() {
     }
   }, [user, authLoading, navigate]);
 
-  useEffect(() => {
-    if (projectId) {
-      fetchProject();
-    }
-  }, [projectId]);
-
-  const fetchProject = async () => {
-    const { data } = await supabase
-      .from("projects")
-      .select("name")
-      .eq("id", projectId)
-      .maybeSingle();
-    
-    if (data) {
-      setProjectName(data.name);
-    }
-  };
-
-  const parseFileChanges = (response: string) => {
-    const changes: { filePath: string; content: string }[] = [];
-    const fileRegex = /===FILE:\s*(.+?)===\s*```\w*\n([\s\S]*?)```\s*===END_FILE===/g;
-    
-    let match;
-    while ((match = fileRegex.exec(response)) !== null) {
-      changes.push({
-        filePath: match[1].trim(),
-        content: match[2].trim(),
-      });
-    }
-    
-    return changes;
-  };
-
-  const buildFileContext = () => {
-    const allFiles = getAllFiles(fileSystem.files);
-    const fileList = allFiles.map(f => `- ${f.id}`).join("\n");
-    const fileContents = allFiles
-      .map(f => `### ${f.id}\n\`\`\`${f.language || "text"}\n${f.content}\n\`\`\``)
-      .join("\n\n");
-    
-    return `## Current Project Files:\n${fileList}\n\n## File Contents:\n${fileContents}`;
+  // Related and recently edited files in full, the rest summarized to fit
+  // what the model's context window has left after the conversation
+  const buildFileContext = async (request: string, history: HistoryMessage[], imageCount: number) => {
+    const { context } = await buildBudgetedContext({
+      files: fileSystem.files,
+      activeFileId: fileSystem.activeFileId,
+      request,
+      imageCount,
+      model: generationModel,
+      systemPrompt: null,
+      instructions: instructionsMessage,
+      history,
+      recentlyModified: fileSystem.recentlyModified,
+      pinnedFiles: knowledgeFiles,
+      toolMode,
+    });
+    return context;
   };
 
-  const handleSendMessage = async (content: string) => {
-    if (credits <= 0) {
-      setShowCreditBlock(true);
-      return;
-    }
+  // Earlier turns within budget, folding older ones into the session summary
+  const buildHistory = (sessionId: string | null) =>
+    prepareConversation(
+      { messages, summary: chat.summary, model: generationModel },
+      (summary, messageCount) => {
+        console.info(`Summarized ${messageCount} earlier message(s)`, "Chat");
+        chat.saveSummary(sessionId, summary);
+        refetchProfile();
+      }
+    );
 
-    const userMessage: Message = { id: Date.now().toString(), role: "user", content, timestamp: new Date() };
+  // prefix: text the response continues, when resuming a draft. review
+  // offers the changes in the diff even when auto-fix is on.
+  const handleSendMessage = async (
+    content: string,
+    options: { prefix?: string; attachments?: ChatAttachment[]; review?: boolean } = {}
+  ) => {
+    const attachments = options.attachments ?? [];
+    const autoApply = autoRepair.enabled && !options.review;
+    const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
+      role: "user",
+      content,
+      timestamp: new Date(),
+      ...(attachments.length > 0 && { attachments }),
+    };
     setMessages((prev) => [...prev, userMessage]);
     setIsLoading(true);
     setShowConsole(true);
 
+    const sessionId = await chat.ensureSession(content);
+    chat.saveMessage(sessionId, userMessage);
+
     // Log to console
     console.info(`User request: "${content.slice(0, 50)}..."`, "Chat");
 
@@ -133,143 +219,282 @@ export default function Editor() {
       setMobileView("preview");
     }
 
-    const assistantId = (Date.now() + 1).toString();
+    const assistantId = crypto.randomUUID();
     setMessages((prev) => [...prev, { id: assistantId, role: "assistant", content: "", timestamp: new Date() }]);
 
-    let fullResponse = "";
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
 
     try {
-      const fileContext = buildFileContext();
+      const { history } = await buildHistory(sessionId);
+      const fileContext = await buildFileContext(content, history, supportsVision ? attachments.length : 0);
       const fullPrompt = `${fileContext}\n\n## User Request:\n${content}`;
 
-      // Choose endpoint based on dual AI mode
-      const endpoint = dualAIEnabled 
-        ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/dual-ai-generate`
-        : `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
-
       console.info(
-        dualAIEnabled 
-          ? "Dual AI Pipeline: GPT-5 (Architect) → Gemini 2.5 Pro (Reviewer)"
+        pipeline
+          ? `Pipeline ${pipeline.name}: ${pipeline.stages.map((stage) => stage.name).join(" → ")}`
           : `Single AI Mode: ${selectedModel}`,
         "AI"
       );
 
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      // Blocks that closed so far; each is offered for review right away
+      const streamedOperations: EditOperation[] = [];
+      // Files this attempt has queued, withdrawn if the attempt is retried
+      const queuedFileIds = new Set<string>();
+      const reviewStreamedChange = (filePath: string, operation: EditOperation) => {
+        streamedOperations.push(operation);
+        if (autoApply) return;
+
+        // Resolve in order so later blocks see earlier ones (rename, then patch)
+        const change = resolveEditOperations(streamedOperations, fileSystem.files).changes.find(
+          (c) => c.fileId === filePath
+        );
+        if (!change) return;
+        setPendingSource({ description: `AI: ${content.slice(0, 50)}`, messageId: assistantId });
+        fileSystem.addPendingChange(change);
+        queuedFileIds.add(change.fileId);
+      };
+
+      const outcome = await runGeneration({
+        endpoint: pipeline ? "dual-ai-generate" : "chat",
+        messages: [
+          ...(instructionsMessage ? [{ role: "system" as const, content: instructionsMessage }] : []),
+          ...history,
+          { role: "user", content: toContentParts(fullPrompt, attachments) },
+        ],
+        modelId: selectedModel,
+        prefix: options.prefix,
+        body: {
+          ...(pipeline && { pipeline: pipeline.id }),
+          ...(toolMode && { files: flattenTextFiles(fileSystem.files) }),
+        },
+        signal: abortController.signal,
+        onEvent: (event) => {
+          if (event.type === "text-delta") {
+            setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, content: event.content } : m)));
+          } else if (event.type === "file-change-complete") {
+            if (event.operation) reviewStreamedChange(event.filePath, event.operation);
+          } else if (event.type === "usage") {
+            const { cost, balance } = event.usage;
+            console.info(`Charged $${cost.toFixed(4)}${balance !== undefined ? `, balance $${balance.toFixed(2)}` : ""}`, "Credits");
+            refetchProfile();
+          } else if (event.type === "error") {
+            console.error(`API Error: ${event.error}`, "AI");
+            if (event.retrying) {
+              console.warn(`Retrying after ${event.model.name} failed`, "AI");
+              // The next attempt streams its blocks from the start
+              streamedOperations.length = 0;
+              fileSystem.removePendingChanges([...queuedFileIds]);
+              queuedFileIds.clear();
+            }
+          }
         },
-        body: JSON.stringify({
-          messages: [{ role: "user", content: fullPrompt }],
-          mode: dualAIEnabled ? "dual" : "architect-only",
-          provider: "lovable",
-        }),
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error(`API Error: ${errorData.error}`, "AI");
-        throw new Error(errorData.error || "Failed to generate code");
+      if (outcome.status === "credits-exhausted") {
+        console.warn("Generation blocked: credits exhausted", "Credits");
+        setMessages((prev) => prev.filter((m) => m.id !== assistantId));
+        setCreditBlockMessage(outcome.error);
+        setShowCreditBlock(true);
+        refetchProfile();
+        return;
+      }
+      if (outcome.status === "aborted" && !outcome.content) {
+        console.warn("Generation cancelled", "AI");
+        setMessages((prev) => prev.filter((m) => m.id !== assistantId));
+        return;
+      }
+      if (outcome.status === "failed") {
+        throw new Error(outcome.error || "Failed to generate code");
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) throw new Error("No response body");
-
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
-          let line = buffer.slice(0, newlineIndex);
-          buffer = buffer.slice(newlineIndex + 1);
-
-          if (line.endsWith("\r")) line = line.slice(0, -1);
-          if (line.startsWith(":") || line.trim() === "") continue;
-          if (!line.startsWith("data: ")) continue;
+      const fullResponse = outcome.content;
+      // Partial responses keep their finished files for review, never auto-apply
+      const aborted = outcome.status === "aborted";
+      const reviewChanges = !autoApply || aborted;
 
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === "[DONE]") break;
+      // Parse file changes from the final response (from reviewer in dual mode),
+      // against the files as they are now: the user may have edited meanwhile
+      const { changes, failures } = resolveFileChanges(fullResponse, fileSystem.getFiles());
 
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const text = parsed.choices?.[0]?.delta?.content;
-            if (text) {
-              fullResponse += text;
-              setMessages((prev) => prev.map((m) => m.id === assistantId ? { ...m, content: fullResponse } : m));
-            }
-          } catch {
-            // Skip invalid JSON
-          }
-        }
-      }
+      failures.forEach((failure) => {
+        console.error(`Edit failed: ${failure.filePath}`, "Parser", describeEditFailure(failure));
+      });
 
-      // Parse file changes from the final response (from reviewer in dual mode)
-      const changes = parseFileChanges(fullResponse);
-      
       if (changes.length > 0) {
         console.success(`Detected ${changes.length} file change(s)`, "Parser");
+        if (reviewChanges) setPendingSource({ description: `AI: ${content.slice(0, 50)}`, messageId: assistantId });
         changes.forEach((change) => {
-          const existingFile = findFileById(fileSystem.files, change.filePath);
-          const fileChange: FileChange = {
-            fileId: change.filePath,
-            fileName: change.filePath.split("/").pop() || change.filePath,
-            oldContent: existingFile?.content || "",
-            newContent: change.content,
-            type: existingFile ? "modify" : "create",
-          };
-          fileSystem.addPendingChange(fileChange);
-          console.log(`${existingFile ? "Modified" : "Created"}: ${change.filePath}`, "Files");
+          if (reviewChanges) fileSystem.addPendingChange(change);
+          const label = {
+            create: "Created",
+            modify: "Modified",
+            delete: "Deleted",
+            rename: `Renamed ${change.previousFileId} →`,
+          }[change.type];
+          console.log(`${label}: ${change.fileId}`, "Files");
         });
-      } else {
+      } else if (failures.length === 0 && !outcome.draft) {
         console.warn("No file changes detected in response", "Parser");
       }
 
+      if (outcome.draft) {
+        console.warn(`${outcome.draft.filePath} was cut off after ${outcome.draft.lineCount} line(s); kept as a draft`, "Parser");
+      }
+
+      const assistantMessage: ChatMessage = {
+        id: assistantId,
+        role: "assistant",
+        content: fullResponse,
+        timestamp: new Date(),
+        model: outcome.usage.model,
+        promptTokens: outcome.usage.promptTokens,
+        completionTokens: outcome.usage.completionTokens,
+        fileChanges: changes,
+      };
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? assistantMessage : m)));
+      chat.saveMessage(sessionId, assistantMessage);
+
+      if (aborted) {
+        console.warn("Generation cancelled", "AI");
+        return;
+      }
+
+      if (autoApply && changes.length > 0) {
+        await autoRepair.run({
+          getFiles: fileSystem.getFiles,
+          changes,
+          activeFileId: fileSystem.activeFileId,
+          request: content,
+          messageId: assistantId,
+          modelId: selectedModel,
+          instructions: instructionsMessage,
+          pinnedFiles: knowledgeFiles,
+        });
+      }
+
       console.success("AI generation complete", "AI");
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : "Failed to generate";
       console.error(errorMsg, "AI");
       toast({ title: "Error", description: errorMsg, variant: "destructive" });
     } finally {
+      generationAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  // Iterative Refinement Handler
+  const handleCancelGeneration = () => generationAbortRef.current?.abort();
+
+  const handleUploadAttachment = (file: File) => uploadChatAttachment(projectId!, file);
+
+  // Screenshots of the preview go to the model as a refinement request; its
+  // fixes land in the pending-changes diff
+  const handleReviewUI = async (captures: PreviewCapture[]) => {
+    console.info(`Visual review: ${captures.map((c) => c.device).join(", ")}`, "AI");
+    const attachments = await Promise.all(captures.map((c) => handleUploadAttachment(c.file)));
+    await handleSendMessage(buildVisualReviewPrompt(captures.map((c) => c.device)), { attachments, review: true });
+  };
+
+  // Continue a file the last response left unfinished
+  const handleResumeGeneration = (messageId: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    const draft = message && scanStreamBlocks(message.content).draft;
+    if (!draft) return;
+
+    console.info(`Resuming ${draft.filePath} after line ${draft.lineCount}`, "AI");
+    handleSendMessage(buildResumePrompt(draft), { prefix: draft.text });
+  };
+
+  // Iterative Refinement Handler. The previous response reaches the model
+  // through the conversation history.
   const handleRefine = useCallback((feedback: string, type: "fix" | "improve" | "custom") => {
-    const lastAssistantMessage = messages.filter(m => m.role === "assistant").pop();
-    
-    if (!lastAssistantMessage) return;
+    if (!messages.some((m) => m.role === "assistant")) return;
 
-    // Build context with the previous response
     const refinementPrompt = `
-## Previous AI Response:
-${lastAssistantMessage.content}
-
 ## Refinement Request (${type}):
 ${feedback}
 
 ## Instructions:
-Based on the code you generated previously, please apply the refinement request above. 
-Make sure to output the corrected/improved code in the same format:
-===FILE: path/to/file.tsx===
-\`\`\`tsx
-// Complete file content here
-\`\`\`
-===END_FILE===
+Based on your previous response and the current project files, please apply the refinement request above. 
+Make sure to output the corrected/improved code in the same format.
+
+${EDIT_PROTOCOL_INSTRUCTIONS}
 `;
 
     console.info(`Iterative refinement: ${type}`, "AI");
     handleSendMessage(refinementPrompt);
   }, [messages, handleSendMessage]);
 
+  // Only the accepted subset of the reviewed changes becomes a version
+  const handleApplyChanges = (accepted: FileChange[]) => {
+    const next = applyFileChanges(fileSystem.files, accepted);
+    fileSystem.applyChanges(accepted);
+    versionHistory.saveSnapshot(next, pendingSource?.description ?? "Applied changes", pendingSource?.messageId);
+    pendingSource?.onApplied?.();
+    setPendingSource(null);
+
+    const rejected = fileSystem.pendingChanges.length - accepted.length;
+    console.success(
+      rejected > 0 ? `Applied ${accepted.length} change(s), rejected ${rejected}` : `Applied ${accepted.length} change(s)`,
+      "Files"
+    );
+  };
+
+  // Pulled GitHub changes go through the same review as AI edits
+  const handleGitHubMerge = (merge: GitHubMerge) => {
+    if (fileSystem.pendingChanges.length > 0) return false;
+    merge.changes.forEach((change) => fileSystem.addPendingChange(change));
+    setPendingSource({ description: merge.title, title: merge.title, onApplied: merge.onApplied });
+    return true;
+  };
+
+  const handleDiscardChanges = () => {
+    fileSystem.discardChanges();
+    setPendingSource(null);
+  };
+
+  const showVersion = async (load: Promise<FileNode[] | null>) => {
+    const files = await load;
+    if (!files) {
+      toast({ title: "Error", description: "Failed to load version", variant: "destructive" });
+      return;
+    }
+    fileSystem.setFiles(files);
+    console.info("Restored version", "History");
+  };
+
+  const handleCompareVersions = async (fromId: string, toId: string) => {
+    const changes = await versionHistory.getVersionChanges(fromId, toId);
+    if (!changes) {
+      toast({ title: "Error", description: "Failed to compare versions", variant: "destructive" });
+    } else if (changes.length === 0) {
+      toast({ title: "No differences", description: "Both versions contain the same files" });
+    } else {
+      setVersionDiff(changes);
+    }
+  };
+
+  // Scroll the chat to the message that produced a version, switching
+  // sessions first if needed
+  const handleOpenMessage = async (messageId: string) => {
+    if (isMobile) setMobileView("chat");
+    if (messages.some((m) => m.id === messageId) || (await chat.openMessageSession(messageId))) {
+      setMessageToReveal(messageId);
+    } else {
+      toast({ title: "Message not found", description: "The chat message for this version was not saved" });
+    }
+  };
+
+  useEffect(() => {
+    if (!messageToReveal) return;
+    const element = document.getElementById(`message-${messageToReveal}`);
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+      setMessageToReveal(null);
+    }
+  }, [messageToReveal, messages]);
+
   const handleFileSelect = (fileId: string) => {
     fileSystem.openFile(fileId);
     setShowCodeEditor(true);
@@ -283,7 +508,29 @@ Make sure to output the corrected/improved code in the same format:
     }
   };
 
-  if (authLoading) {
+  if (persistence.status === "load-failed") {
+    return (
+      <div className="h-screen w-full flex items-center justify-center bg-background dark">
+        <div className="flex flex-col items-center gap-4 text-center max-w-sm px-4">
+          <CloudOff className="h-8 w-8 text-destructive" />
+          <div className="space-y-1">
+            <p className="font-semibold text-foreground">This project could not be loaded</p>
+            <p className="text-sm text-muted-foreground">
+              Nothing has been saved. Check your connection and try again.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/dashboard")}>
+              Back to dashboard
+            </Button>
+            <Button onClick={persistence.retryLoad}>Try again</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (authLoading || !persistence.isLoaded) {
     return (
       <div className="h-screen w-full flex items-center justify-center bg-background dark">
         <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
@@ -291,6 +538,11 @@ Make sure to output the corrected/improved code in the same format:
     );
   }
 
+  const reviewDisabledReason = isLoading
+    ? "Wait for the current generation to finish"
+    : !supportsVision
+      ? "The selected model cannot read images"
+      : null;
   const errorCount = console.logs.filter(l => l.level === "error").length;
   const warnCount = console.logs.filter(l => l.level === "warn").length;
 
@@ -314,7 +566,26 @@ Make sure to output the corrected/improved code in the same format:
             </div>
             <div className="flex flex-col">
               <span className="font-semibold text-sm text-foreground">{projectName}</span>
-              <span className="text-xs text-muted-foreground hidden sm:block">QuinYukie AI</span>
+              <span className="text-xs text-muted-foreground hidden sm:flex items-center gap-1">
+                {persistence.status === "saving" || persistence.status === "loading" ? (
+                  <>
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {persistence.status === "saving" ? "Saving..." : "Loading..."}
+                  </>
+                ) : persistence.status === "error" || persistence.status === "conflict" ? (
+                  <>
+                    <CloudOff className="h-3 w-3 text-destructive" />
+                    {persistence.status === "conflict" ? "Save conflict" : "Not saved"}
+                  </>
+                ) : persistence.lastSavedAt ? (
+                  <>
+                    <Cloud className="h-3 w-3" />
+                    Saved {persistence.lastSavedAt.toLocaleTimeString()}
+                  </>
+                ) : (
+                  "QuinYukie AI"
+                )}
+              </span>
             </div>
           </div>
         </div>
@@ -359,25 +630,85 @@ Make sure to output the corrected/improved code in the same format:
               </Badge>
             )}
           </Button>
+          <Button
+            variant={showChatHistory ? "secondary" : "ghost"}
+            size="sm"
+            className="h-8 px-3 rounded-lg text-xs gap-1.5"
+            onClick={() => setShowChatHistory(true)}
+            disabled={isLoading}
+          >
+            <History className="h-3.5 w-3.5" />
+            History
+          </Button>
+          <ProjectInstructionsDialog
+            files={fileSystem.files}
+            value={projectInstructions}
+            onSave={projectInstructions.save}
+            disabled={isLoading}
+          />
           
-          {/* Dual AI Toggle */}
+          {/* Pipeline Picker */}
+          <div className="flex items-center gap-2 ml-2 pl-2 border-l border-border/50">
+            <PipelineSelector
+              presets={pipelines.presets}
+              value={pipeline?.id ?? null}
+              onValueChange={setPipelineId}
+              disabled={isLoading}
+              className="h-7 border-border/50"
+            />
+            {!pipeline && (
+              <ModelSelector
+                value={selectedModel}
+                onValueChange={setSelectedModel}
+                disabled={isLoading}
+                className="h-7 w-[180px] border-border/50"
+              />
+            )}
+          </div>
+
+          {/* Auto-repair Toggle */}
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
                 <div className="flex items-center gap-1.5 ml-2 pl-2 border-l border-border/50">
-                  <Zap className={cn("h-3.5 w-3.5", dualAIEnabled ? "text-primary" : "text-muted-foreground")} />
+                  {autoRepair.isRepairing ? (
+                    <Loader2 className="h-3.5 w-3.5 text-primary animate-spin" />
+                  ) : (
+                    <Wrench className={cn("h-3.5 w-3.5", autoRepair.enabled ? "text-primary" : "text-muted-foreground")} />
+                  )}
                   <Switch
-                    checked={dualAIEnabled}
-                    onCheckedChange={setDualAIEnabled}
+                    checked={autoRepair.enabled}
+                    onCheckedChange={autoRepair.setEnabled}
+                    disabled={isLoading}
                     className="scale-75"
                   />
-                  <span className="text-xs text-muted-foreground">Dual AI</span>
+                  <span className="text-xs text-muted-foreground">
+                    {autoRepair.isRepairing ? `Fixing ${autoRepair.activeRound}/${autoRepair.maxRounds}` : "Auto-fix"}
+                  </span>
+                  {autoRepair.enabled && !autoRepair.isRepairing && (
+                    <Select
+                      value={String(autoRepair.maxRounds)}
+                      onValueChange={(value) => autoRepair.setMaxRounds(Number(value))}
+                    >
+                      <SelectTrigger className="h-6 w-14 px-2 text-xs border-border/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 3, 4, 5].map((rounds) => (
+                          <SelectItem key={rounds} value={String(rounds)} className="text-xs">
+                            {rounds}×
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
               </TooltipTrigger>
               <TooltipContent side="bottom" className="max-w-xs">
                 <p className="text-xs">
-                  <strong>Dual AI Pipeline:</strong><br />
-                  GPT-5 generates code → Gemini 2.5 Pro reviews & improves
+                  <strong>Auto-fix:</strong><br />
+                  Applies changes directly, then sends type errors and preview errors back to the AI
+                  until the app compiles and renders. Every round is saved in version history.
                 </p>
               </TooltipContent>
             </Tooltip>
@@ -409,9 +740,25 @@ Make sure to output the corrected/improved code in the same format:
         )}
 
         <div className="flex items-center gap-2">
+          <VersionHistoryPanel
+            canUndo={versionHistory.canUndo}
+            canRedo={versionHistory.canRedo}
+            versions={versionHistory.versions}
+            total={versionHistory.total}
+            currentVersionId={versionHistory.currentVersionId}
+            hasMore={versionHistory.hasMore}
+            isLoading={versionHistory.isLoading}
+            onUndo={() => showVersion(versionHistory.undo())}
+            onRedo={() => showVersion(versionHistory.redo())}
+            onRestore={(id) => showVersion(versionHistory.restoreVersion(id))}
+            onLoadMore={versionHistory.loadMore}
+            onCompare={handleCompareVersions}
+            onOpenMessage={handleOpenMessage}
+          />
           <GitHubIntegration 
             projectId={projectId || ""} 
             files={fileSystem.files} 
+            onMerge={handleGitHubMerge}
           />
           <Button
             variant="outline"
@@ -434,13 +781,27 @@ Make sure to output the corrected/improved code in the same format:
               {mobileView === "chat" ? (
                 <ChatPanel 
                   messages={messages} 
-                  onSendMessage={handleSendMessage}
+                  onSendMessage={(content, attachments) => handleSendMessage(content, { attachments })}
                   onRefine={handleRefine}
                   isLoading={isLoading}
                   hasFileChanges={fileSystem.pendingChanges.length > 0}
+                  contextUsage={contextUsage}
+                  onInputChange={setChatDraft}
+                  onCancel={handleCancelGeneration}
+                  onResume={handleResumeGeneration}
+                  onUploadAttachment={handleUploadAttachment}
+                  supportsVision={supportsVision}
+                  onAttachmentsChange={setChatImageCount}
                 />
               ) : (
-                <PreviewPanel files={fileSystem.files} code={fileSystem.activeFile?.content} projectId={projectId} />
+                <PreviewPanel
+                  files={fileSystem.files}
+                  code={fileSystem.activeFile?.content}
+                  projectId={projectId}
+                  onPreviewEvent={autoRepair.handlePreviewEvent}
+                  onReviewUI={handleReviewUI}
+                  reviewDisabledReason={reviewDisabledReason}
+                />
               )}
             </div>
           ) : (
@@ -498,10 +859,17 @@ Make sure to output the corrected/improved code in the same format:
                 <ResizablePanel defaultSize={35} minSize={25} maxSize={50}>
                   <ChatPanel 
                     messages={messages} 
-                    onSendMessage={handleSendMessage}
+                    onSendMessage={(content, attachments) => handleSendMessage(content, { attachments })}
                     onRefine={handleRefine}
                     isLoading={isLoading}
                     hasFileChanges={fileSystem.pendingChanges.length > 0}
+                    contextUsage={contextUsage}
+                    onInputChange={setChatDraft}
+                    onCancel={handleCancelGeneration}
+                    onResume={handleResumeGeneration}
+                    onUploadAttachment={handleUploadAttachment}
+                    supportsVision={supportsVision}
+                    onAttachmentsChange={setChatImageCount}
                   />
                 </ResizablePanel>
 
@@ -509,7 +877,14 @@ Make sure to output the corrected/improved code in the same format:
 
                 {/* Preview Panel - Right side (larger, main focus) */}
                 <ResizablePanel defaultSize={65} minSize={40}>
-                  <PreviewPanel files={fileSystem.files} code={fileSystem.activeFile?.content} projectId={projectId} />
+                  <PreviewPanel
+                    files={fileSystem.files}
+                    code={fileSystem.activeFile?.content}
+                    projectId={projectId}
+                    onPreviewEvent={autoRepair.handlePreviewEvent}
+                    onReviewUI={handleReviewUI}
+                    reviewDisabledReason={reviewDisabledReason}
+                  />
                 </ResizablePanel>
               </ResizablePanelGroup>
             </div>
@@ -530,18 +905,61 @@ Make sure to output the corrected/improved code in the same format:
         </AnimatePresence>
       </div>
 
-      {/* Diff View for pending changes */}
+      {/* Diff View for pending changes, or a read-only version comparison */}
       <AnimatePresence>
-        {fileSystem.pendingChanges.length > 0 && (
+        {fileSystem.pendingChanges.length > 0 ? (
           <DiffView
             changes={fileSystem.pendingChanges}
-            onApply={fileSystem.applyChanges}
-            onDiscard={fileSystem.discardChanges}
+            onApply={handleApplyChanges}
+            onDiscard={handleDiscardChanges}
+            title={pendingSource?.title}
           />
-        )}
+        ) : versionDiff ? (
+          <DiffView
+            changes={versionDiff}
+            onDiscard={() => setVersionDiff(null)}
+            title="Compare Versions"
+          />
+        ) : null}
       </AnimatePresence>
 
-      <CreditBlockModal open={showCreditBlock} onOpenChange={setShowCreditBlock} />
+      {/* Chat sessions for this project */}
+      <Sheet open={showChatHistory} onOpenChange={setShowChatHistory}>
+        <SheetContent side="left" className="w-80 p-0 pt-10 flex flex-col">
+          <SheetHeader className="sr-only">
+            <SheetTitle>Chat history</SheetTitle>
+          </SheetHeader>
+          <ChatHistory
+            sessions={chat.sessions.map((session) => ({
+              id: session.id,
+              title: session.title,
+              timestamp: session.updatedAt,
+              isActive: session.id === chat.activeSessionId,
+            }))}
+            onNewChat={() => {
+              chat.startNewSession();
+              setShowChatHistory(false);
+            }}
+            onSelectChat={(id) => {
+              chat.selectSession(id);
+              setShowChatHistory(false);
+            }}
+            onDeleteChat={chat.deleteSession}
+            onRenameChat={chat.renameSession}
+            searchQuery={chat.searchQuery}
+            onSearchChange={chat.setSearchQuery}
+          />
+        </SheetContent>
+      </Sheet>
+
+      <ProjectConflictDialog conflict={persistence.conflict} onResolve={persistence.resolveConflict} />
+
+      <CreditBlockModal
+        open={showCreditBlock}
+        onOpenChange={setShowCreditBlock}
+        balance={credits}
+        message={creditBlockMessage}
+      />
     </div>
   );
 }
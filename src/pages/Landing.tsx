@@ -8,6 +8,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { getAppSetting } from '@/lib/app-settings';
 
 const templates = [
   {
@@ -56,13 +57,9 @@ export default function Landing() {
   // Check if initial setup is needed
   useEffect(() => {
     const checkSetup = async () => {
-      const { data } = await supabase
-        .from('api_keys')
-        .select('key_name')
-        .eq('key_name', 'setup_completed')
-        .maybeSingle();
+      const setupCompleted = await getAppSetting('setup_completed');
 
-      if (!data) {
+      if (!setupCompleted) {
         // No setup completed, redirect to setup
         navigate('/setup');
         return;
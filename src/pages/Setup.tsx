@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
+import { getAppSetting, saveAppSetting } from '@/lib/app-settings';
 import { useToast } from '@/hooks/use-toast';
 
 const SETUP_KEY = 'app_setup_completed';
@@ -55,17 +56,9 @@ export default function Setup() {
   const checkSetupStatus = async () => {
     try {
       // Check if setup is already completed
-      const { data: existingKeys, error: existingKeysError } = await supabase
-        .from('api_keys')
-        .select('key_name')
-        .eq('key_name', 'setup_completed')
-        .maybeSingle();
-
-      if (existingKeysError) {
-        console.error('Setup status error (api_keys):', existingKeysError);
-      }
+      const setupCompleted = await getAppSetting('setup_completed');
 
-      if (existingKeys) {
+      if (setupCompleted) {
         // Setup already completed, redirect to auth
         navigate('/auth');
         return;
@@ -84,12 +77,9 @@ export default function Setup() {
 
       if (adminRoles && adminRoles.length > 0) {
         // Admin exists, mark setup as complete and redirect
-        const { error: markError } = await supabase.from('api_keys').insert({
-          key_name: 'setup_completed',
-          key_value: 'true',
-        });
-
-        if (markError) {
+        try {
+          await saveAppSetting('setup_completed', true);
+        } catch (markError) {
           console.error('Setup mark complete error:', markError);
         }
 
@@ -177,11 +167,16 @@ export default function Setup() {
         // Continue anyway, can be fixed later
       }
 
-      // 3. Save API keys if provided
-      const keysToInsert = [
-        { key_name: 'setup_completed', key_value: 'true' },
-        { key_name: 'site_domain', key_value: data.siteDomain || window.location.hostname },
-      ];
+      // 3. Save instance settings and API keys if provided
+      try {
+        await saveAppSetting('site_domain', data.siteDomain || window.location.hostname);
+        await saveAppSetting('setup_completed', true);
+      } catch (settingsError) {
+        console.error('Settings save error:', settingsError);
+        // Continue anyway
+      }
+
+      const keysToInsert: { key_name: string; key_value: string }[] = [];
 
       if (data.geminiKey.trim()) {
         keysToInsert.push({ key_name: 'gemini', key_value: data.geminiKey });
@@ -193,11 +188,13 @@ export default function Setup() {
         keysToInsert.push({ key_name: 'groq', key_value: data.groqKey });
       }
 
-      const { error: keysError } = await supabase.from('api_keys').insert(keysToInsert);
-      
-      if (keysError) {
-        console.error('Keys insert error:', keysError);
-        // Continue anyway
+      if (keysToInsert.length > 0) {
+        const { error: keysError } = await supabase.from('api_keys').insert(keysToInsert);
+
+        if (keysError) {
+          console.error('Keys insert error:', keysError);
+          // Continue anyway
+        }
       }
 
       toast({ 
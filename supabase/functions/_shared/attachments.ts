@@ -0,0 +1,108 @@
+// Chat messages may carry images as content parts that reference files in the
+// chat-attachments bucket. They are downloaded here, after checking that the
+// caller owns the project, and handed to the provider adapters as
+// ProviderMessage.images.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encodeBase64 } from "./base64.ts";
+import { ImageInput, ProviderMessage } from "./providers.ts";
+
+export const ATTACHMENT_BUCKET = "chat-attachments";
+
+const MAX_IMAGES_PER_REQUEST = 8;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/webp", "image/gif"]);
+// <project id>/<file name>
+const ATTACHMENT_PATH = /^([0-9a-f-]{36})\/[\w.-]+$/i;
+
+export type MessageContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; path: string; mimeType: string; name?: string };
+
+export interface IncomingMessage {
+  role: string;
+  content: string | MessageContentPart[];
+}
+
+export class AttachmentError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const imageParts = (message: IncomingMessage) =>
+  typeof message.content === "string"
+    ? []
+    : message.content.filter((p): p is Extract<MessageContentPart, { type: "image" }> => p.type === "image");
+
+const textOf = (message: IncomingMessage) =>
+  typeof message.content === "string"
+    ? message.content
+    : message.content.flatMap((p) => (p.type === "text" ? [p.text] : [])).join("\n\n");
+
+const imageName = (part: { path: string; name?: string }) => part.name || part.path.split("/").pop() || part.path;
+
+// Stands in for images the model cannot see
+const describeImages = (names: string[]) =>
+  names.map((name) => `[Image attached: ${name}. This model cannot read images; ask for a description if it matters.]`).join("\n");
+
+async function assertOwnsProjects(supabase: SupabaseClient, userId: string, projectIds: string[]) {
+  const { data, error } = await supabase.from("projects").select("id").eq("user_id", userId).in("id", projectIds);
+  if (error) throw error;
+  const owned = new Set((data || []).map((row: { id: string }) => row.id));
+  if (projectIds.some((id) => !owned.has(id))) {
+    throw new AttachmentError("Attachment does not belong to one of your projects", 403);
+  }
+}
+
+async function downloadImage(
+  supabase: SupabaseClient,
+  part: { path: string; mimeType: string; name?: string }
+): Promise<ImageInput> {
+  const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).download(part.path);
+  if (error || !data) throw new AttachmentError(`Attachment not found: ${imageName(part)}`, 404);
+  if (data.size > MAX_IMAGE_BYTES) throw new AttachmentError(`Attachment too large: ${imageName(part)}`, 413);
+  return { name: imageName(part), mimeType: part.mimeType, data: encodeBase64(new Uint8Array(await data.arrayBuffer())) };
+}
+
+// Turn content parts into provider messages. Without `download` (the model
+// cannot see images) each image becomes a short note in the text instead.
+export async function resolveMessageImages(
+  supabase: SupabaseClient,
+  userId: string,
+  messages: IncomingMessage[],
+  download: boolean
+): Promise<ProviderMessage[]> {
+  const parts = messages.flatMap(imageParts);
+  if (parts.length === 0) return messages.map((m) => ({ role: m.role, content: textOf(m) }));
+
+  if (parts.length > MAX_IMAGES_PER_REQUEST) {
+    throw new AttachmentError(`At most ${MAX_IMAGES_PER_REQUEST} images per request`, 400);
+  }
+  const projectIds = new Set<string>();
+  for (const part of parts) {
+    const match = ATTACHMENT_PATH.exec(part.path || "");
+    if (!match || !IMAGE_TYPES.has(part.mimeType)) {
+      throw new AttachmentError(`Unsupported attachment: ${imageName(part)}`, 400);
+    }
+    projectIds.add(match[1]);
+  }
+  await assertOwnsProjects(supabase, userId, [...projectIds]);
+
+  return Promise.all(
+    messages.map(async (message): Promise<ProviderMessage> => {
+      const images = imageParts(message);
+      const content = textOf(message);
+      if (images.length === 0) return { role: message.role, content };
+      if (!download) {
+        return { role: message.role, content: `${content}\n\n${describeImages(images.map(imageName))}` };
+      }
+      return { role: message.role, content, images: await Promise.all(images.map((p) => downloadImage(supabase, p))) };
+    })
+  );
+}
+
+// The same messages for a model without vision
+export const withoutImages = (messages: ProviderMessage[]): ProviderMessage[] =>
+  messages.map(({ images, ...message }) =>
+    images?.length ? { ...message, content: `${message.content}\n\n${describeImages(images.map((i) => i.name))}` } : message
+  );
@@ -0,0 +1,216 @@
+// Shared authentication and credit metering for AI edge functions
+import { createClient, SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CreditCharge {
+  cost: number;
+  balance: number;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// USD per 1M tokens [input, output]. Unknown models fall back to DEFAULT_PRICING.
+const MODEL_PRICING: Record<string, [number, number]> = {
+  "google/gemini-2.5-flash": [0.3, 2.5],
+  "google/gemini-2.5-flash-lite": [0.1, 0.4],
+  "google/gemini-2.5-pro": [1.25, 10],
+  "openai/gpt-5": [1.25, 10],
+  "openai/gpt-5-mini": [0.25, 2],
+  "gpt-4o": [2.5, 10],
+  "gpt-4o-mini": [0.15, 0.6],
+  "gemini-1.5-pro": [1.25, 5],
+  "gemini-1.5-flash": [0.075, 0.3],
+  "deepseek-chat": [0.27, 1.1],
+  "deepseek-reasoner": [0.55, 2.19],
+  "llama-3.3-70b-versatile": [0.59, 0.79],
+  "llama-3.1-8b-instant": [0.05, 0.08],
+};
+
+const DEFAULT_PRICING: [number, number] = [1, 4];
+const MINIMUM_CHARGE = 0.0001;
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+// Resolve the calling user from the request's bearer token
+export async function authenticateRequest(req: Request, supabase: SupabaseClient): Promise<User | null> {
+  const authHeader = req.headers.get("Authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+export async function getCreditBalance(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase.rpc("get_user_credits", { _user_id: userId });
+  if (error) throw new Error(`Failed to read credits: ${error.message}`);
+  return Number(data ?? 0);
+}
+
+export function calculateCost(model: string, usage: TokenUsage): number {
+  const [inputPrice, outputPrice] = MODEL_PRICING[model] || DEFAULT_PRICING;
+  const cost = (usage.promptTokens * inputPrice + usage.completionTokens * outputPrice) / 1_000_000;
+  return Math.max(cost, MINIMUM_CHARGE);
+}
+
+// Rough fallback when a provider does not report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export async function debitCredits(
+  supabase: SupabaseClient,
+  userId: string,
+  source: string,
+  model: string,
+  usage: TokenUsage
+): Promise<CreditCharge> {
+  const { data, error } = await supabase
+    .rpc("debit_credits", {
+      _user_id: userId,
+      _amount: calculateCost(model, usage),
+      _source: source,
+      _model: model,
+      _prompt_tokens: usage.promptTokens,
+      _completion_tokens: usage.completionTokens,
+    })
+    .single();
+
+  if (error) throw new Error(`Failed to debit credits: ${error.message}`);
+  // The charge is capped at the balance, so report what was actually taken
+  const debit = data as { charged: number; balance: number } | null;
+  return { cost: Number(debit?.charged ?? 0), balance: Number(debit?.balance ?? 0), model, ...usage };
+}
+
+// Merge the charges of a multi-stage pipeline into one credit event
+export function combineCharges(first: CreditCharge, next: CreditCharge): CreditCharge {
+  return {
+    cost: first.cost + next.cost,
+    balance: next.balance,
+    model: first.model === next.model ? first.model : `${first.model} → ${next.model}`,
+    promptTokens: first.promptTokens + next.promptTokens,
+    completionTokens: first.completionTokens + next.completionTokens,
+  };
+}
+
+export function unauthorizedResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ error: "Authentication required. Please sign in again." }),
+    { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+export function insufficientCreditsResponse(corsHeaders: Record<string, string>, balance: number): Response {
+  return new Response(
+    JSON.stringify({ error: "Credits exhausted. Please add credits to continue.", code: "insufficient_credits", balance }),
+    { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// Encode the credit event appended to metered SSE streams
+export function encodeCreditEvent(charge: CreditCharge): string {
+  return `data: ${JSON.stringify({ credits: charge })}\n\n`;
+}
+
+interface MeterOptions {
+  supabase: SupabaseClient;
+  userId: string;
+  source: string;
+  model: string;
+  promptText: string;
+}
+
+// Pass an OpenAI-compatible SSE stream through while collecting usage, then
+// debit credits and emit a credit event before the stream closes. A stream
+// the client cancels is still charged for the tokens generated so far.
+export function meterStream(body: ReadableStream<Uint8Array>, options: MeterOptions): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const reader = body.getReader();
+  let buffer = "";
+  let completionText = "";
+  let usage: TokenUsage | null = null;
+  let debited = false;
+
+  const inspectLine = (line: string) => {
+    if (!line.startsWith("data: ")) return;
+    const jsonStr = line.slice(6).trim();
+    if (jsonStr === "[DONE]") return;
+
+    try {
+      const parsed = JSON.parse(jsonStr);
+      const text = parsed.choices?.[0]?.delta?.content;
+      if (text) completionText += text;
+      if (parsed.usage) {
+        usage = {
+          promptTokens: parsed.usage.prompt_tokens ?? 0,
+          completionTokens: parsed.usage.completion_tokens ?? 0,
+        };
+      }
+    } catch {
+      // Partial or non-JSON line
+    }
+  };
+
+  // Runs once, whether the stream ends or is cancelled
+  const debit = async (): Promise<CreditCharge | null> => {
+    if (debited) return null;
+    debited = true;
+    if (buffer) inspectLine(buffer);
+
+    const finalUsage = usage || {
+      promptTokens: estimateTokens(options.promptText),
+      completionTokens: estimateTokens(completionText),
+    };
+
+    try {
+      return await debitCredits(options.supabase, options.userId, options.source, options.model, finalUsage);
+    } catch (error) {
+      console.error("Credit debit failed:", error);
+      return null;
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        // The provider dropped the connection: charge what arrived
+        await debit();
+        controller.error(error);
+        return;
+      }
+
+      const { done, value } = result;
+      if (done) {
+        const charge = await debit();
+        if (charge) controller.enqueue(encoder.encode(encodeCreditEvent(charge)));
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(value);
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        inspectLine(buffer.slice(0, newlineIndex).replace(/\r$/, ""));
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason).catch(() => {});
+      await debit();
+    },
+  });
+}
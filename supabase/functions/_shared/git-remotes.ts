@@ -0,0 +1,600 @@
+// Git hosting behind one interface, so github-sync pushes, pulls and branches
+// the same way against GitHub, GitLab, Gitea or any git server that speaks
+// smart HTTP. The REST adapters use the host's API; "git" speaks the git
+// protocol itself (git-smart-http.ts). A project uses GitHub unless it has a
+// row in project_git_remotes, whose token is kept in user_secrets.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decodeBase64, encodeBase64 } from "./base64.ts";
+import { githubApiUrl } from "./github-auth.ts";
+import { assertPublicHost, PublicUrlError } from "./public-url.ts";
+
+export type GitProviderId = "github" | "gitlab" | "gitea" | "git";
+export type RemoteProviderId = Exclude<GitProviderId, "github">;
+
+export const REMOTE_PROVIDERS: RemoteProviderId[] = ["gitlab", "gitea", "git"];
+
+export type FileMode = "100644" | "100755";
+
+export interface RemoteBranch {
+  name: string;
+  sha: string;
+  protected: boolean;
+}
+
+export interface TreeEntry {
+  path: string;
+  sha: string;
+  mode: FileMode;
+  // null when the host does not list sizes; see GitRemote.blobSize
+  size: number | null;
+}
+
+export interface FileWrite {
+  path: string;
+  mode: FileMode;
+  // New content; null deletes the file
+  bytes: Uint8Array | null;
+  // The file this replaces, when it exists on the branch
+  previous?: TreeEntry;
+  // The content is unchanged and only the mode differs
+  modeOnly?: boolean;
+}
+
+export interface PullRequestInput {
+  head: string;
+  base: string;
+  title: string;
+  body?: string;
+}
+
+export interface PullRequestResult {
+  number: number;
+  html_url: string;
+}
+
+export interface GitRemote {
+  provider: GitProviderId;
+  // How the repository is named in messages, e.g. "owner/repo"
+  name: string;
+  // Whether the executable bit can be written; Gitea's API cannot
+  fileModes: boolean;
+  getDefaultBranch(): Promise<string>;
+  listBranches(): Promise<RemoteBranch[]>;
+  // Head commit of a branch; a GitRemoteError with status 404 when the
+  // branch does not exist
+  getBranchHead(branch: string): Promise<string>;
+  createBranch(branch: string, fromSha: string): Promise<void>;
+  // Regular and executable files of a commit by path; symlinks and
+  // submodules are left out. 404 when the commit is unknown.
+  getTree(commitSha: string): Promise<Map<string, TreeEntry>>;
+  blobSize(commitSha: string, entry: TreeEntry): Promise<number>;
+  readBlob(entry: TreeEntry): Promise<Uint8Array>;
+  // One commit of `writes` on top of `parentSha`. Fast-forward only: 409
+  // when the branch has moved past `parentSha`.
+  commit(branch: string, parentSha: string, message: string, writes: FileWrite[]): Promise<string>;
+  // Absent for plain git servers, which have no pull requests
+  createPullRequest?: (pr: PullRequestInput) => Promise<PullRequestResult>;
+}
+
+// A project's non-GitHub remote (project_git_remotes)
+export interface GitRemoteConfig {
+  provider: RemoteProviderId;
+  // Instance URL for GitLab and Gitea, clone URL for plain git
+  url: string;
+  // Repository path on the instance, e.g. "group/project"
+  repo: string;
+  // HTTP user for plain git; tokens alone work for GitLab and Gitea
+  username: string | null;
+}
+
+// A failure of the remote with the HTTP status to report to the client
+export class GitRemoteError extends Error {
+  constructor(message: string, public status = 502, public details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+export const branchMovedError = (branch: string, remoteSha?: string) =>
+  new GitRemoteError(
+    `${branch} has new commits; pull and merge them before pushing`,
+    409,
+    remoteSha ? { remoteSha } : {}
+  );
+
+const isFileMode = (mode: string): mode is FileMode => mode === "100644" || mode === "100755";
+
+// Branch names go into URL paths one segment at a time
+const branchPath = (branch: string) => branch.split("/").map(encodeURIComponent).join("/");
+
+interface RequestInit {
+  method?: string;
+  body?: unknown;
+}
+
+// JSON REST calls with the host's auth header. Errors carry the host's own
+// message; 401 means the stored token no longer works. Hosts the user chose
+// (`checkHost`) are checked before every call and may not redirect elsewhere.
+function restClient(baseUrl: string, auth: Record<string, string>, hostName: string, checkHost = false) {
+  const request = async (path: string, init: RequestInit = {}) => {
+    if (checkHost) await assertRemoteHost(baseUrl);
+    return await fetch(`${baseUrl}${path}`, {
+      method: init.method || "GET",
+      headers: {
+        ...auth,
+        Accept: "application/json",
+        ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      redirect: checkHost ? "manual" : "follow",
+    });
+  };
+
+  const fail = async (response: Response, failure: string): Promise<never> => {
+    if (response.status === 401) {
+      await response.body?.cancel();
+      throw new GitRemoteError(`${hostName} no longer accepts the stored sign-in; connect again`, 401);
+    }
+    const data = await response.json().catch(() => null);
+    const detail = data?.message ?? data?.error;
+    const message = typeof detail === "string" ? detail : detail ? JSON.stringify(detail) : "";
+    throw new GitRemoteError(message ? `${failure}: ${message}` : failure, response.status === 404 ? 404 : 502);
+  };
+
+  const json = async (path: string, init: RequestInit, failure: string) => {
+    const response = await request(path, init);
+    if (!response.ok) await fail(response, failure);
+    return await response.json();
+  };
+
+  return { request, json, fail };
+}
+
+export function githubApi(token: string) {
+  return restClient(githubApiUrl(), { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" }, "GitHub");
+}
+
+export function githubRemote(token: string, repo: string): GitRemote {
+  const api = githubApi(token);
+  const base = `/repos/${repo}`;
+
+  return {
+    provider: "github",
+    name: repo,
+    fileModes: true,
+
+    async getDefaultBranch() {
+      const data = await api.json(base, {}, "Failed to get repository info");
+      return data.default_branch || "main";
+    },
+
+    async listBranches() {
+      const branches: RemoteBranch[] = [];
+      for (let page = 1; page <= MAX_BRANCH_PAGES; page++) {
+        const data = await api.json(`${base}/branches?per_page=100&page=${page}`, {}, "Failed to list branches");
+        for (const branch of data) {
+          branches.push({ name: branch.name, sha: branch.commit.sha, protected: branch.protected });
+        }
+        if (data.length < 100) break;
+      }
+      return branches;
+    },
+
+    async getBranchHead(branch) {
+      const response = await api.request(`${base}/git/ref/heads/${encodeURIComponent(branch)}`);
+      if (response.status === 404) {
+        await response.body?.cancel();
+        throw new GitRemoteError(`Branch "${branch}" does not exist in ${repo}`, 404);
+      }
+      if (!response.ok) await api.fail(response, "Failed to get latest commit");
+      const data = await response.json();
+      return data.object.sha;
+    },
+
+    async createBranch(branch, fromSha) {
+      const response = await api.request(`${base}/git/refs`, {
+        method: "POST",
+        body: { ref: `refs/heads/${branch}`, sha: fromSha },
+      });
+      if (response.status === 422) {
+        throw new GitRemoteError(`Branch "${branch}" already exists in ${repo}`, 409);
+      }
+      if (!response.ok) await api.fail(response, "Failed to create branch");
+    },
+
+    async getTree(commitSha) {
+      const data = await api.json(`${base}/git/trees/${commitSha}?recursive=1`, {}, "Failed to get repository tree");
+      if (data.truncated) {
+        throw new GitRemoteError("The repository is too large to pull", 413);
+      }
+      const entries = new Map<string, TreeEntry>();
+      for (const item of data.tree) {
+        if (item.type !== "blob" || !isFileMode(item.mode)) continue;
+        entries.set(item.path, { path: item.path, sha: item.sha, size: item.size, mode: item.mode });
+      }
+      return entries;
+    },
+
+    async blobSize(_commitSha, entry) {
+      return entry.size ?? 0;
+    },
+
+    async readBlob(entry) {
+      const data = await api.json(`${base}/git/blobs/${entry.sha}`, {}, `Failed to fetch ${entry.path}`);
+      return decodeBase64(data.content);
+    },
+
+    async commit(branch, parentSha, message, writes) {
+      const parent = await api.json(`${base}/git/commits/${parentSha}`, {}, "Failed to get commit info");
+      const tree = await Promise.all(
+        writes.map(async (write) => {
+          let sha: string | null = null;
+          if (write.modeOnly && write.previous) {
+            sha = write.previous.sha;
+          } else if (write.bytes) {
+            const blob = await api.json(
+              `${base}/git/blobs`,
+              { method: "POST", body: { content: encodeBase64(write.bytes), encoding: "base64" } },
+              "Failed to create blob"
+            );
+            sha = blob.sha;
+          }
+          // A null sha deletes the path from the base tree
+          return { path: write.path, mode: write.mode, type: "blob", sha };
+        })
+      );
+
+      const newTree = await api.json(
+        `${base}/git/trees`,
+        { method: "POST", body: { base_tree: parent.tree.sha, tree } },
+        "Failed to create tree"
+      );
+      const commit = await api.json(
+        `${base}/git/commits`,
+        { method: "POST", body: { message, tree: newTree.sha, parents: [parentSha] } },
+        "Failed to create commit"
+      );
+
+      // Fast-forward only; GitHub rejects the update if the branch moved meanwhile
+      const response = await api.request(`${base}/git/refs/heads/${encodeURIComponent(branch)}`, {
+        method: "PATCH",
+        body: { sha: commit.sha, force: false },
+      });
+      if (response.status === 422) throw branchMovedError(branch);
+      if (!response.ok) await api.fail(response, "Failed to update reference");
+      return commit.sha;
+    },
+
+    async createPullRequest(pr) {
+      const data = await api.json(
+        `${base}/pulls`,
+        { method: "POST", body: { head: pr.head, base: pr.base, title: pr.title, body: pr.body || "" } },
+        "Failed to open pull request"
+      );
+      return { number: data.number, html_url: data.html_url };
+    },
+  };
+}
+
+// Trees of very large repositories are refused rather than listed page by page forever
+const MAX_TREE_PAGES = 50;
+// Branch lists stop after this many pages (2,500 or more branches)
+const MAX_BRANCH_PAGES = 50;
+
+// GitLab REST API v4. The commits API has no parent check, so the branch
+// head is compared right before committing.
+export function gitlabRemote(instanceUrl: string, token: string, repo: string): GitRemote {
+  const api = restClient(`${instanceUrl}/api/v4`, { Authorization: `Bearer ${token}` }, "GitLab", true);
+  const base = `/projects/${encodeURIComponent(repo)}`;
+
+  const remote: GitRemote = {
+    provider: "gitlab",
+    name: repo,
+    fileModes: true,
+
+    async getDefaultBranch() {
+      const data = await api.json(base, {}, "Failed to get project info");
+      return data.default_branch || "main";
+    },
+
+    async listBranches() {
+      const branches: RemoteBranch[] = [];
+      let page = "1";
+      for (let count = 0; page && count < MAX_BRANCH_PAGES; count++) {
+        const response = await api.request(`${base}/repository/branches?per_page=100&page=${page}`);
+        if (!response.ok) await api.fail(response, "Failed to list branches");
+        for (const branch of await response.json()) {
+          branches.push({ name: branch.name, sha: branch.commit.id, protected: branch.protected });
+        }
+        page = response.headers.get("x-next-page") || "";
+      }
+      return branches;
+    },
+
+    async getBranchHead(branch) {
+      const response = await api.request(`${base}/repository/branches/${encodeURIComponent(branch)}`);
+      if (response.status === 404) {
+        await response.body?.cancel();
+        throw new GitRemoteError(`Branch "${branch}" does not exist in ${repo}`, 404);
+      }
+      if (!response.ok) await api.fail(response, "Failed to get latest commit");
+      const data = await response.json();
+      return data.commit.id;
+    },
+
+    async createBranch(branch, fromSha) {
+      const response = await api.request(
+        `${base}/repository/branches?branch=${encodeURIComponent(branch)}&ref=${encodeURIComponent(fromSha)}`,
+        { method: "POST" }
+      );
+      if (response.ok) return;
+      const data = await response.clone().json().catch(() => null);
+      if (response.status === 400 && String(data?.message).includes("already exists")) {
+        throw new GitRemoteError(`Branch "${branch}" already exists in ${repo}`, 409);
+      }
+      await api.fail(response, "Failed to create branch");
+    },
+
+    async getTree(commitSha) {
+      const entries = new Map<string, TreeEntry>();
+      let page = "1";
+      for (let count = 0; page; count++) {
+        if (count === MAX_TREE_PAGES) {
+          throw new GitRemoteError("The repository is too large to pull", 413);
+        }
+        const response = await api.request(
+          `${base}/repository/tree?ref=${commitSha}&recursive=true&per_page=100&page=${page}`
+        );
+        if (!response.ok) await api.fail(response, "Failed to get repository tree");
+        for (const item of await response.json()) {
+          if (item.type !== "blob" || !isFileMode(item.mode)) continue;
+          entries.set(item.path, { path: item.path, sha: item.id, mode: item.mode, size: null });
+        }
+        page = response.headers.get("x-next-page") || "";
+      }
+      return entries;
+    },
+
+    // The tree listing has no sizes; the files API reports one without the content
+    async blobSize(commitSha, entry) {
+      const response = await api.request(
+        `${base}/repository/files/${encodeURIComponent(entry.path)}?ref=${commitSha}`,
+        { method: "HEAD" }
+      );
+      const size = Number(response.headers.get("x-gitlab-size"));
+      if (response.ok && Number.isFinite(size)) return size;
+      return (await remote.readBlob(entry)).length;
+    },
+
+    async readBlob(entry) {
+      const response = await api.request(`${base}/repository/blobs/${entry.sha}/raw`);
+      if (!response.ok) await api.fail(response, `Failed to fetch ${entry.path}`);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+
+    async commit(branch, parentSha, message, writes) {
+      const head = await remote.getBranchHead(branch);
+      if (head !== parentSha) throw branchMovedError(branch, head);
+
+      const actions = writes.flatMap((write) => {
+        const chmod = { action: "chmod", file_path: write.path, execute_filemode: write.mode === "100755" };
+        if (!write.bytes) return [{ action: "delete", file_path: write.path }];
+        if (write.modeOnly) return [chmod];
+        const content = {
+          action: write.previous ? "update" : "create",
+          file_path: write.path,
+          content: encodeBase64(write.bytes),
+          encoding: "base64",
+        };
+        return (write.previous?.mode ?? "100644") === write.mode ? [content] : [content, chmod];
+      });
+
+      const data = await api.json(
+        `${base}/repository/commits`,
+        { method: "POST", body: { branch, commit_message: message, actions } },
+        "Failed to create commit"
+      );
+      return data.id;
+    },
+
+    async createPullRequest(pr) {
+      const data = await api.json(
+        `${base}/merge_requests`,
+        {
+          method: "POST",
+          body: { source_branch: pr.head, target_branch: pr.base, title: pr.title, description: pr.body || "" },
+        },
+        "Failed to open merge request"
+      );
+      return { number: data.iid, html_url: data.web_url };
+    },
+  };
+  return remote;
+}
+
+// Gitea (and Forgejo) REST API v1. Files are written with the batch contents
+// API, which checks each replaced file's blob but cannot set modes.
+export function giteaRemote(instanceUrl: string, token: string, repo: string): GitRemote {
+  const api = restClient(`${instanceUrl}/api/v1`, { Authorization: `token ${token}` }, "Gitea", true);
+  const base = `/repos/${repo}`;
+
+  const remote: GitRemote = {
+    provider: "gitea",
+    name: repo,
+    fileModes: false,
+
+    async getDefaultBranch() {
+      const data = await api.json(base, {}, "Failed to get repository info");
+      return data.default_branch || "main";
+    },
+
+    // Gitea caps pages at 50 items by default; a shorter page is the last
+    async listBranches() {
+      const branches: RemoteBranch[] = [];
+      for (let page = 1; page <= MAX_BRANCH_PAGES; page++) {
+        const data = await api.json(`${base}/branches?limit=50&page=${page}`, {}, "Failed to list branches");
+        for (const branch of data) {
+          branches.push({ name: branch.name, sha: branch.commit.id, protected: branch.protected });
+        }
+        if (data.length < 50) break;
+      }
+      return branches;
+    },
+
+    async getBranchHead(branch) {
+      const response = await api.request(`${base}/branches/${branchPath(branch)}`);
+      if (response.status === 404) {
+        await response.body?.cancel();
+        throw new GitRemoteError(`Branch "${branch}" does not exist in ${repo}`, 404);
+      }
+      if (!response.ok) await api.fail(response, "Failed to get latest commit");
+      const data = await response.json();
+      return data.commit.id;
+    },
+
+    async createBranch(branch, fromSha) {
+      const response = await api.request(`${base}/branches`, {
+        method: "POST",
+        body: { new_branch_name: branch, old_ref_name: fromSha },
+      });
+      if (response.status === 409) {
+        await response.body?.cancel();
+        throw new GitRemoteError(`Branch "${branch}" already exists in ${repo}`, 409);
+      }
+      if (!response.ok) await api.fail(response, "Failed to create branch");
+    },
+
+    async getTree(commitSha) {
+      const entries = new Map<string, TreeEntry>();
+      let listed = 0;
+      for (let page = 1; ; page++) {
+        if (page > MAX_TREE_PAGES) {
+          throw new GitRemoteError("The repository is too large to pull", 413);
+        }
+        const data = await api.json(
+          `${base}/git/trees/${commitSha}?recursive=true&per_page=1000&page=${page}`,
+          {},
+          "Failed to get repository tree"
+        );
+        const items = data.tree ?? [];
+        for (const item of items) {
+          if (item.type !== "blob" || !isFileMode(item.mode)) continue;
+          entries.set(item.path, { path: item.path, sha: item.sha, mode: item.mode, size: item.size });
+        }
+        listed += items.length;
+        if (!data.truncated || items.length === 0 || listed >= data.total_count) break;
+      }
+      return entries;
+    },
+
+    async blobSize(_commitSha, entry) {
+      return entry.size ?? (await remote.readBlob(entry)).length;
+    },
+
+    async readBlob(entry) {
+      const data = await api.json(`${base}/git/blobs/${entry.sha}`, {}, `Failed to fetch ${entry.path}`);
+      return decodeBase64(data.content);
+    },
+
+    async commit(branch, parentSha, message, writes) {
+      const head = await remote.getBranchHead(branch);
+      if (head !== parentSha) throw branchMovedError(branch, head);
+
+      const files = writes
+        .filter((write) => !write.modeOnly)
+        .map((write) =>
+          write.bytes
+            ? {
+                operation: write.previous ? "update" : "create",
+                path: write.path,
+                content: encodeBase64(write.bytes),
+                sha: write.previous?.sha,
+              }
+            : { operation: "delete", path: write.path, sha: write.previous?.sha }
+        );
+
+      const response = await api.request(`${base}/contents`, { method: "POST", body: { branch, message, files } });
+      // A replaced file's blob no longer matches: someone pushed meanwhile
+      if (response.status === 409 || response.status === 422) {
+        await response.body?.cancel();
+        throw branchMovedError(branch);
+      }
+      if (!response.ok) await api.fail(response, "Failed to create commit");
+      const data = await response.json();
+      return data.commit.sha;
+    },
+
+    async createPullRequest(pr) {
+      const data = await api.json(
+        `${base}/pulls`,
+        { method: "POST", body: { head: pr.head, base: pr.base, title: pr.title, body: pr.body || "" } },
+        "Failed to open pull request"
+      );
+      return { number: data.number, html_url: data.html_url };
+    },
+  };
+  return remote;
+}
+
+// Credentials of a project's remote; user_secrets names allow [a-z0-9_] only
+export const remoteSecretName = (projectId: string) => `git_remote_${projectId.replace(/-/g, "").toLowerCase()}`;
+
+// Plain HTTP is only for git servers on a local network or in tests
+export function normalizeRemoteUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new GitRemoteError("The remote URL is not valid", 400);
+  }
+  const allowHttp = Deno.env.get("GIT_REMOTE_ALLOW_HTTP") === "true";
+  if (url.protocol !== "https:" && !(allowHttp && url.protocol === "http:")) {
+    throw new GitRemoteError("The remote URL must use https", 400);
+  }
+  if (url.username || url.password) {
+    throw new GitRemoteError("Enter the credentials separately, not in the URL", 400);
+  }
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+// Remotes are entered by users and fetched by the server, so they must not
+// point into its own network (loopback, private or link-local addresses).
+// Checked when a remote is connected and again before each request, since
+// DNS can change. GIT_REMOTE_ALLOW_PRIVATE_HOSTS=true lifts this for
+// self-hosted installs that sync with a server on their LAN, and for tests.
+export async function assertRemoteHost(url: string): Promise<void> {
+  if (Deno.env.get("GIT_REMOTE_ALLOW_PRIVATE_HOSTS") === "true") return;
+  try {
+    await assertPublicHost(new URL(url).hostname);
+  } catch (error) {
+    if (error instanceof PublicUrlError) throw new GitRemoteError(error.message, 400);
+    throw error;
+  }
+}
+
+// Repository name of a clone URL: https://host/team/app.git -> team/app
+export const repoNameFromUrl = (url: string) =>
+  new URL(url).pathname.replace(/^\/+/, "").replace(/\.git$/, "") || new URL(url).host;
+
+export async function loadRemoteConfig(supabase: SupabaseClient, projectId: string): Promise<GitRemoteConfig | null> {
+  const { data, error } = await supabase
+    .from("project_git_remotes")
+    .select("provider, url, repo, username")
+    .eq("project_id", projectId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function createRemote(config: GitRemoteConfig, secret: string): Promise<GitRemote> {
+  switch (config.provider) {
+    case "gitlab":
+      return gitlabRemote(config.url, secret, config.repo);
+    case "gitea":
+      return giteaRemote(config.url, secret, config.repo);
+    case "git": {
+      // Loaded on demand; the REST hosts do not need a git implementation
+      const { smartHttpRemote } = await import("./git-smart-http.ts");
+      return smartHttpRemote(config.url, config.repo, config.username, secret);
+    }
+  }
+}
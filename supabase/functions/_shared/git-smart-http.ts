@@ -0,0 +1,280 @@
+// Plain git over smart HTTP with isomorphic-git, for servers without a REST
+// API we know (cgit, gitolite, `git http-backend`, Bitbucket Server...).
+// Every request works in a fresh in-memory repository: branches are fetched
+// shallowly on first use and commits are pushed from there.
+import { Buffer } from "node:buffer";
+import git from "https://esm.sh/isomorphic-git@1.27.1";
+import http from "https://esm.sh/isomorphic-git@1.27.1/http/web";
+import { createFsFromVolume, Volume } from "https://esm.sh/memfs@4.11.1";
+import { encodeBase64 } from "./base64.ts";
+import { assertRemoteHost, branchMovedError, FileMode, GitRemote, GitRemoteError, TreeEntry } from "./git-remotes.ts";
+
+// isomorphic-git expects Node's Buffer as a global
+(globalThis as { Buffer?: typeof Buffer }).Buffer ??= Buffer;
+
+// Commits fetched per branch. A sync base older than this is treated like
+// one that was rewritten away: the pull reports every difference.
+const HISTORY_DEPTH = 50;
+
+const DIR = "/repo";
+
+const AUTHOR = {
+  name: Deno.env.get("GIT_AUTHOR_NAME") || "QuinYukie AI",
+  email: Deno.env.get("GIT_AUTHOR_EMAIL") || "noreply@quinyukie.invalid",
+};
+
+interface ServerRef {
+  ref: string;
+  oid: string;
+  target?: string;
+}
+
+// A tree entry of any kind, kept so commits preserve symlinks and submodules
+interface RawEntry {
+  mode: string;
+  oid: string;
+  type: "blob" | "tree" | "commit";
+}
+
+type TreeNode = Map<string, RawEntry | TreeNode>;
+
+// isomorphic-git errors carry a code; map the ones the client can act on
+function toRemoteError(error: unknown, name: string): unknown {
+  const code = (error as { code?: string })?.code;
+  const status = (error as { data?: { statusCode?: number } })?.data?.statusCode;
+  if (code === "HttpError" && (status === 401 || status === 403)) {
+    return new GitRemoteError(`${name} no longer accepts the stored credentials; connect again`, 401);
+  }
+  if (code === "HttpError" && status === 404) {
+    return new GitRemoteError(`${name} was not found on the server`, 404);
+  }
+  if (code === "NotFoundError") {
+    return new GitRemoteError(`A commit is missing from the fetched history of ${name}`, 404);
+  }
+  if (code === "PushRejectedError") {
+    return new GitRemoteError(`${name} refused the push: ${(error as Error).message}`, 409);
+  }
+  return error;
+}
+
+// isomorphic-git's fetch client, with the host checked before every request
+const checkedHttp = {
+  async request(request: Parameters<typeof http.request>[0]) {
+    await assertRemoteHost(request.url);
+    return await http.request(request);
+  },
+};
+
+export function smartHttpRemote(url: string, name: string, username: string | null, password: string): GitRemote {
+  const fs = createFsFromVolume(new Volume());
+  // Credentials go with the first request; isomorphic-git would otherwise ask
+  // without them and retry after the 401. A new object per call, since it
+  // adds its own headers to the one it is given.
+  const credentials = encodeBase64(new TextEncoder().encode(`${username || "git"}:${password}`));
+  const headers = () => ({ Authorization: `Basic ${credentials}` });
+  const common = { fs, http: checkedHttp, dir: DIR, url };
+
+  let ready: Promise<void> | null = null;
+  let refs: ServerRef[] | null = null;
+  const fetched = new Map<string, string>();
+
+  // Fetches record what they got under refs/remotes/origin, which needs the remote configured
+  const init = () =>
+    (ready ??= (async () => {
+      await git.init({ fs, dir: DIR });
+      await git.addRemote({ fs, dir: DIR, remote: "origin", url });
+    })());
+
+  const listRefs = async (): Promise<ServerRef[]> => {
+    refs ??= await git.listServerRefs({ http: checkedHttp, url, headers: headers(), symrefs: true });
+    return refs;
+  };
+
+  // Errors of isomorphic-git become GitRemoteErrors where they mean something
+  const guard = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error) {
+      throw toRemoteError(error, name);
+    }
+  };
+
+  const fetchBranch = async (branch: string): Promise<string> => {
+    const known = fetched.get(branch);
+    if (known) return known;
+
+    const head = (await listRefs()).find((ref) => ref.ref === `refs/heads/${branch}`);
+    if (!head) throw new GitRemoteError(`Branch "${branch}" does not exist in ${name}`, 404);
+
+    await init();
+    await git.fetch({
+      ...common,
+      headers: headers(),
+      ref: branch,
+      singleBranch: true,
+      depth: HISTORY_DEPTH,
+      tags: false,
+    });
+    fetched.set(branch, head.oid);
+    return head.oid;
+  };
+
+  // A commit may belong to a branch not fetched yet; look on the default one
+  const ensureCommit = async (oid: string) => {
+    try {
+      await git.readCommit({ fs, dir: DIR, oid });
+    } catch {
+      await fetchBranch(await remote.getDefaultBranch());
+      await git.readCommit({ fs, dir: DIR, oid });
+    }
+  };
+
+  const readRawTree = async (oid: string, prefix = "", entries = new Map<string, RawEntry>()) => {
+    const { tree } = await git.readTree({ fs, dir: DIR, oid });
+    for (const entry of tree) {
+      const path = `${prefix}${entry.path}`;
+      if (entry.type === "tree") {
+        await readRawTree(entry.oid, `${path}/`, entries);
+      } else {
+        entries.set(path, { mode: entry.mode, oid: entry.oid, type: entry.type });
+      }
+    }
+    return entries;
+  };
+
+  // Nested trees from paths, written bottom-up
+  const writeTrees = async (entries: Map<string, RawEntry>): Promise<string> => {
+    const root: TreeNode = new Map();
+    for (const [path, entry] of entries) {
+      const parts = path.split("/");
+      let node = root;
+      for (const part of parts.slice(0, -1)) {
+        let child = node.get(part);
+        if (!(child instanceof Map)) {
+          child = new Map();
+          node.set(part, child);
+        }
+        node = child;
+      }
+      node.set(parts[parts.length - 1], entry);
+    }
+
+    const write = async (node: TreeNode): Promise<string> => {
+      const tree = [];
+      for (const [path, child] of node) {
+        tree.push(
+          child instanceof Map
+            ? { mode: "040000", path, oid: await write(child), type: "tree" as const }
+            : { mode: child.mode, path, oid: child.oid, type: child.type }
+        );
+      }
+      return await git.writeTree({ fs, dir: DIR, tree });
+    };
+    return await write(root);
+  };
+
+  const remote: GitRemote = {
+    provider: "git",
+    name,
+    fileModes: true,
+
+    getDefaultBranch: () =>
+      guard(async () => {
+        const all = await listRefs();
+        const head = all.find((ref) => ref.ref === "HEAD");
+        if (head?.target?.startsWith("refs/heads/")) return head.target.slice("refs/heads/".length);
+        const branches = all.filter((ref) => ref.ref.startsWith("refs/heads/"));
+        const fallback = branches.find((ref) => ref.ref === "refs/heads/main") ?? branches[0];
+        if (!fallback) throw new GitRemoteError(`${name} has no branches yet`, 404);
+        return fallback.ref.slice("refs/heads/".length);
+      }),
+
+    listBranches: () =>
+      guard(async () =>
+        (await listRefs())
+          .filter((ref) => ref.ref.startsWith("refs/heads/"))
+          .map((ref) => ({ name: ref.ref.slice("refs/heads/".length), sha: ref.oid, protected: false }))
+      ),
+
+    getBranchHead: (branch) => guard(() => fetchBranch(branch)),
+
+    createBranch: (branch, fromSha) =>
+      guard(async () => {
+        if ((await listRefs()).some((ref) => ref.ref === `refs/heads/${branch}`)) {
+          throw new GitRemoteError(`Branch "${branch}" already exists in ${name}`, 409);
+        }
+        await init();
+        await ensureCommit(fromSha);
+        await git.writeRef({ fs, dir: DIR, ref: `refs/heads/${branch}`, value: fromSha, force: true });
+        const result = await git.push({ ...common, headers: headers(), ref: branch, remoteRef: branch });
+        if (!result.ok) throw new GitRemoteError(`Failed to create branch: ${result.error}`);
+        refs = null;
+      }),
+
+    getTree: (commitSha) =>
+      guard(async () => {
+        await init();
+        await ensureCommit(commitSha);
+        const { commit } = await git.readCommit({ fs, dir: DIR, oid: commitSha });
+        const entries = new Map<string, TreeEntry>();
+        for (const [path, entry] of await readRawTree(commit.tree)) {
+          if (entry.type !== "blob" || (entry.mode !== "100644" && entry.mode !== "100755")) continue;
+          entries.set(path, { path, sha: entry.oid, mode: entry.mode as FileMode, size: null });
+        }
+        return entries;
+      }),
+
+    // Blobs are local once the branch is fetched
+    blobSize: async (_commitSha, entry) => (await remote.readBlob(entry)).length,
+
+    readBlob: (entry) =>
+      guard(async () => {
+        const { blob } = await git.readBlob({ fs, dir: DIR, oid: entry.sha });
+        return blob;
+      }),
+
+    commit: (branch, parentSha, message, writes) =>
+      guard(async () => {
+        if ((await fetchBranch(branch)) !== parentSha) throw branchMovedError(branch);
+
+        const { commit: parent } = await git.readCommit({ fs, dir: DIR, oid: parentSha });
+        const entries = await readRawTree(parent.tree);
+        for (const write of writes) {
+          if (!write.bytes) {
+            entries.delete(write.path);
+            continue;
+          }
+          const oid =
+            write.modeOnly && write.previous
+              ? write.previous.sha
+              : await git.writeBlob({ fs, dir: DIR, blob: write.bytes });
+          entries.set(write.path, { mode: write.mode, oid, type: "blob" });
+        }
+
+        const timestamp = Math.floor(Date.now() / 1000);
+        const signature = { ...AUTHOR, timestamp, timezoneOffset: 0 };
+        const oid = await git.writeCommit({
+          fs,
+          dir: DIR,
+          commit: {
+            message: message.endsWith("\n") ? message : `${message}\n`,
+            tree: await writeTrees(entries),
+            parent: [parentSha],
+            author: signature,
+            committer: signature,
+          },
+        });
+
+        // The server checks the branch still points at parentSha
+        await git.writeRef({ fs, dir: DIR, ref: `refs/heads/${branch}`, value: oid, force: true });
+        const result = await git.push({ ...common, headers: headers(), ref: branch, remoteRef: branch });
+        const update = result.refs?.[`refs/heads/${branch}`];
+        if (!result.ok || (update && !update.ok)) throw branchMovedError(branch);
+
+        fetched.set(branch, oid);
+        refs = null;
+        return oid;
+      }),
+  };
+  return remote;
+}
@@ -0,0 +1,231 @@
+// The sync itself, independent of the host: a project's files pushed as a
+// delta onto a branch, and a branch's changes since the last sync pulled back.
+import { decodeBase64, encodeBase64 } from "./base64.ts";
+import { branchMovedError, FileMode, FileWrite, GitRemote, GitRemoteError, TreeEntry } from "./git-remotes.ts";
+
+export interface FileNode {
+  id: string;
+  name: string;
+  type: "file" | "folder";
+  content?: string;
+  children?: FileNode[];
+  // Binary files carry base64 content
+  encoding?: "base64";
+  executable?: boolean;
+}
+
+interface LocalFile {
+  path: string;
+  bytes: Uint8Array;
+  mode: FileMode;
+}
+
+function flattenFiles(files: FileNode[], basePath = ""): LocalFile[] {
+  const result: LocalFile[] = [];
+  
+  for (const file of files) {
+    const currentPath = basePath ? `${basePath}/${file.name}` : file.name;
+    
+    if (file.type === "file" && file.content !== undefined) {
+      result.push({
+        path: currentPath,
+        bytes: file.encoding === "base64" ? decodeBase64(file.content) : new TextEncoder().encode(file.content),
+        mode: file.executable ? "100755" : "100644",
+      });
+    } else if (file.type === "folder" && file.children) {
+      result.push(...flattenFiles(file.children, currentPath));
+    }
+  }
+  
+  return result;
+}
+
+// The object id git gives a blob, so unchanged files need no upload
+async function gitBlobSha(bytes: Uint8Array): Promise<string> {
+  const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+  const object = new Uint8Array(header.length + bytes.length);
+  object.set(header);
+  object.set(bytes, header.length);
+  const digest = await crypto.subtle.digest("SHA-1", object);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Dependencies and git internals are never synced in either direction:
+// anything in a node_modules folder or the repository's own .git folder.
+// Dotfiles such as .gitignore and .github/ are ordinary project files.
+export const isSyncedPath = (path: string) => {
+  const segments = path.split("/");
+  return segments[0] !== ".git" && !segments.includes("node_modules");
+};
+
+// Files larger than this are left out of pulls
+const MAX_PULL_FILE_BYTES = 100000;
+// A pull that would change more files than this is refused rather than
+// merged partially
+const MAX_PULL_CHANGES = 200;
+
+// Push onto `branch` (the default branch when omitted) as a delta against
+// the branch's tree: only new or changed files are written. With
+// `expectedSha`, the last commit the project synced with, the push is refused
+// if the branch has commits the project has not merged yet, and files the
+// project no longer has are deleted (renames are a deletion plus an
+// addition). Without it nothing is deleted, since the project may never have
+// seen the branch's files; `complete` then tells whether the branch holds
+// exactly the project's files, so the commit can serve as the sync base.
+export async function pushToRemote(
+  remote: GitRemote,
+  message: string,
+  files: FileNode[],
+  options: { branch?: string; expectedSha?: string } = {}
+): Promise<{ success: boolean; commitSha: string; branch: string; changed: number; deleted: number; complete: boolean }> {
+  const branch = options.branch || (await remote.getDefaultBranch());
+  const latestCommitSha = await remote.getBranchHead(branch);
+
+  if (options.expectedSha && options.expectedSha !== latestCommitSha) {
+    throw branchMovedError(branch, latestCommitSha);
+  }
+
+  const tree = await getSyncedTree(remote, latestCommitSha);
+  const local = flattenFiles(files).filter((file) => isSyncedPath(file.path));
+
+  const updates = (
+    await Promise.all(
+      local.map(async (file): Promise<FileWrite | null> => {
+        const sha = await gitBlobSha(file.bytes);
+        const previous = tree.get(file.path);
+        // Hosts that cannot store modes keep whatever mode the file has
+        const mode = remote.fileModes ? file.mode : previous?.mode ?? "100644";
+        if (previous?.sha === sha && previous.mode === mode) return null;
+        return { path: file.path, mode, bytes: file.bytes, previous, modeOnly: previous?.sha === sha };
+      })
+    )
+  ).filter((write): write is FileWrite => write !== null);
+
+  // Files too large to pull were never in the project and are kept
+  const localPaths = new Set(local.map((file) => file.path));
+  const remoteOnly: TreeEntry[] = [];
+  for (const entry of tree.values()) {
+    if (!localPaths.has(entry.path) && (await remote.blobSize(latestCommitSha, entry)) < MAX_PULL_FILE_BYTES) {
+      remoteOnly.push(entry);
+    }
+  }
+  const deletions: FileWrite[] = options.expectedSha
+    ? remoteOnly.map((entry) => ({ path: entry.path, mode: entry.mode, bytes: null, previous: entry }))
+    : [];
+  const complete = !!options.expectedSha || remoteOnly.length === 0;
+
+  if (updates.length === 0 && deletions.length === 0) {
+    return { success: true, commitSha: latestCommitSha, branch, changed: 0, deleted: 0, complete };
+  }
+
+  const commitSha = await remote.commit(branch, latestCommitSha, message, [...updates, ...deletions]);
+
+  return {
+    success: true,
+    commitSha,
+    branch,
+    changed: updates.length,
+    deleted: deletions.length,
+    complete,
+  };
+}
+
+// Files of a commit that are synced, by path
+async function getSyncedTree(remote: GitRemote, commitSha: string): Promise<Map<string, TreeEntry>> {
+  const entries = await remote.getTree(commitSha);
+  for (const path of entries.keys()) {
+    if (!isSyncedPath(path)) entries.delete(path);
+  }
+  return entries;
+}
+
+interface BlobContent {
+  content: string;
+  encoding?: "base64";
+}
+
+// Content of a blob: UTF-8 text as is, anything else base64-encoded. Null
+// when the file is too large to pull.
+async function getBlobContent(remote: GitRemote, commitSha: string, entry: TreeEntry): Promise<BlobContent | null> {
+  if ((await remote.blobSize(commitSha, entry)) >= MAX_PULL_FILE_BYTES) return null;
+  const bytes = await remote.readBlob(entry);
+  if (!bytes.includes(0)) {
+    try {
+      return { content: new TextDecoder("utf-8", { fatal: true }).decode(bytes) };
+    } catch {
+      // Not UTF-8; treated as binary
+    }
+  }
+  return { content: encodeBase64(bytes), encoding: "base64" };
+}
+
+export interface RemoteChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  // Content at the branch head; absent for deletions
+  content?: string;
+  // Content at the base commit; absent for additions
+  baseContent?: string;
+  // Of the file at the head; binary content is base64
+  encoding?: "base64";
+  executable?: boolean;
+  // Files too large to pull are reported but not transferred
+  skipped?: boolean;
+}
+
+// What changed on `branch` since `baseSha`, the commit the project last
+// synced with. Without a base every file of the branch is reported as added.
+export async function pullFromRemote(
+  remote: GitRemote,
+  options: { branch?: string; baseSha?: string } = {}
+): Promise<{ branch: string; commitSha: string; baseSha: string | null; changes: RemoteChange[] }> {
+  const branch = options.branch || (await remote.getDefaultBranch());
+  const commitSha = await remote.getBranchHead(branch);
+
+  if (options.baseSha === commitSha) {
+    return { branch, commitSha, baseSha: commitSha, changes: [] };
+  }
+
+  const head = await getSyncedTree(remote, commitSha);
+  let base = new Map<string, TreeEntry>();
+  let baseSha: string | null = null;
+  if (options.baseSha) {
+    try {
+      base = await getSyncedTree(remote, options.baseSha);
+      baseSha = options.baseSha;
+    } catch (error) {
+      // The base was rewritten away (force push); every difference becomes a conflict
+      if (!(error instanceof GitRemoteError && error.status === 404)) throw error;
+    }
+  }
+
+  const paths = [...new Set([...head.keys(), ...base.keys()])].filter(
+    (path) => head.get(path)?.sha !== base.get(path)?.sha || head.get(path)?.mode !== base.get(path)?.mode
+  );
+  if (paths.length > MAX_PULL_CHANGES) {
+    throw new GitRemoteError(`${paths.length} files changed on ${branch}; at most ${MAX_PULL_CHANGES} can be merged at once`, 413);
+  }
+
+  const changes = await Promise.all(
+    paths.map(async (path): Promise<RemoteChange> => {
+      const headEntry = head.get(path);
+      const baseEntry = base.get(path);
+      const status = !baseEntry ? "added" : !headEntry ? "deleted" : "modified";
+      const headBlob = headEntry ? await getBlobContent(remote, commitSha, headEntry) : undefined;
+      const baseBlob = baseEntry ? await getBlobContent(remote, baseSha!, baseEntry) : undefined;
+      if (headBlob === null || baseBlob === null) return { path, status, skipped: true };
+      return {
+        path,
+        status,
+        content: headBlob?.content,
+        baseContent: baseBlob?.content,
+        encoding: headBlob?.encoding,
+        executable: headEntry?.mode === "100755" || undefined,
+      };
+    })
+  );
+
+  return { branch, commitSha, baseSha, changes };
+}
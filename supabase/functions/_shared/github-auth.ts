@@ -0,0 +1,261 @@
+// GitHub sign-in with the OAuth device flow (works for OAuth Apps and GitHub
+// Apps with user-to-server tokens). Tokens are stored encrypted in
+// user_secrets: one for the user, and optionally one per project that uses a
+// different account. Expiring GitHub App tokens are refreshed on use. The
+// endpoints come from GITHUB_API_URL and GITHUB_WEB_URL so a local mock
+// GitHub can stand in for the real one.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deleteUserSecret, getUserSecret, GITHUB_TOKEN_SECRET, setUserSecret } from "./secrets.ts";
+
+// Read on every call, so tests can point them at a mock server
+export const githubApiUrl = () => (Deno.env.get("GITHUB_API_URL") || "https://api.github.com").replace(/\/$/, "");
+const githubWebUrl = () => (Deno.env.get("GITHUB_WEB_URL") || "https://github.com").replace(/\/$/, "");
+
+// Pending device authorization of a user, kept server-side until it completes
+const DEVICE_FLOW_SECRET = "github_device_flow";
+const DEVICE_GRANT = "urn:ietf:params:oauth:grant-type:device_code";
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export type GitHubTokenScope = "user" | "project";
+
+interface GitHubCredential {
+  accessToken: string;
+  // GitHub App tokens expire; OAuth App tokens and old pasted tokens do not
+  refreshToken?: string;
+  expiresAt?: number;
+  refreshTokenExpiresAt?: number;
+  login?: string;
+}
+
+interface PendingDeviceFlow {
+  deviceCode: string;
+  projectId: string | null;
+  interval: number;
+  expiresAt: number;
+}
+
+export interface GitHubUser {
+  login: string;
+  avatar_url: string;
+}
+
+export interface GitHubToken {
+  token: string;
+  // Whether the project's own connection is used
+  scope: GitHubTokenScope;
+}
+
+export type DevicePollResult =
+  | { status: "pending" | "slow_down"; interval: number }
+  | { status: "expired" | "denied" }
+  | { status: "connected"; user: GitHubUser; scope: GitHubTokenScope };
+
+// A sign-in problem with the HTTP status to report to the client
+export class GitHubAuthError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// user_secrets names allow [a-z0-9_] only
+export const githubTokenSecretName = (projectId: string | null) =>
+  projectId ? `${GITHUB_TOKEN_SECRET}_${projectId.replace(/-/g, "").toLowerCase()}` : GITHUB_TOKEN_SECRET;
+
+function getClientId(): string {
+  const clientId = Deno.env.get("GITHUB_CLIENT_ID");
+  if (!clientId) throw new GitHubAuthError("GitHub sign-in is not configured (GITHUB_CLIENT_ID)", 503);
+  return clientId;
+}
+
+// Form-encoded POST to github.com that answers in JSON, errors included
+async function postOAuth(path: string, params: Record<string, string>) {
+  const response = await fetch(`${githubWebUrl()}${path}`, {
+    method: "POST",
+    headers: { Accept: "application/json", "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data) {
+    throw new GitHubAuthError(data?.error_description || `GitHub sign-in failed (${response.status})`, 502);
+  }
+  return data;
+}
+
+// Returns null when GitHub rejects the token
+export async function getGitHubUser(token: string): Promise<GitHubUser | null> {
+  const response = await fetch(`${githubApiUrl()}/user`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  return { login: data.login, avatar_url: data.avatar_url };
+}
+
+const toCredential = (data: Record<string, unknown>, login?: string): GitHubCredential => {
+  const now = Date.now();
+  return {
+    accessToken: data.access_token as string,
+    refreshToken: (data.refresh_token as string) || undefined,
+    expiresAt: data.expires_in ? now + Number(data.expires_in) * 1000 : undefined,
+    refreshTokenExpiresAt: data.refresh_token_expires_in ? now + Number(data.refresh_token_expires_in) * 1000 : undefined,
+    login,
+  };
+};
+
+// Tokens stored before the device flow are bare strings
+const parseCredential = (value: string): GitHubCredential => {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed.accessToken === "string") return parsed;
+  } catch {
+    // Not JSON
+  }
+  return { accessToken: value };
+};
+
+const saveCredential = (supabase: SupabaseClient, userId: string, name: string, credential: GitHubCredential) =>
+  setUserSecret(supabase, userId, name, JSON.stringify(credential), credential.login ?? null);
+
+export async function startDeviceFlow(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string | null
+): Promise<{ userCode: string; verificationUri: string; expiresIn: number; interval: number }> {
+  const data = await postOAuth("/login/device/code", { client_id: getClientId(), scope: "repo" });
+  if (!data.device_code) throw new GitHubAuthError(data.error_description || "GitHub did not start the sign-in", 502);
+
+  const pending: PendingDeviceFlow = {
+    deviceCode: data.device_code,
+    projectId,
+    interval: data.interval || 5,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+  await setUserSecret(supabase, userId, DEVICE_FLOW_SECRET, JSON.stringify(pending), null);
+
+  return {
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    expiresIn: data.expires_in,
+    interval: pending.interval,
+  };
+}
+
+// One poll of the pending authorization. The client waits `interval`
+// seconds between polls, as GitHub requires.
+export async function pollDeviceFlow(supabase: SupabaseClient, userId: string): Promise<DevicePollResult> {
+  const stored = await getUserSecret(supabase, userId, DEVICE_FLOW_SECRET);
+  const pending: PendingDeviceFlow | null = stored ? JSON.parse(stored) : null;
+  if (!pending || pending.expiresAt < Date.now()) {
+    if (pending) await deleteUserSecret(supabase, userId, DEVICE_FLOW_SECRET);
+    return { status: "expired" };
+  }
+
+  const data = await postOAuth("/login/oauth/access_token", {
+    client_id: getClientId(),
+    device_code: pending.deviceCode,
+    grant_type: DEVICE_GRANT,
+  });
+
+  if (data.error === "authorization_pending") {
+    return { status: "pending", interval: pending.interval };
+  }
+  if (data.error === "slow_down") {
+    pending.interval = data.interval || pending.interval + 5;
+    await setUserSecret(supabase, userId, DEVICE_FLOW_SECRET, JSON.stringify(pending), null);
+    return { status: "slow_down", interval: pending.interval };
+  }
+  if (data.error) {
+    await deleteUserSecret(supabase, userId, DEVICE_FLOW_SECRET);
+    return { status: data.error === "access_denied" ? "denied" : "expired" };
+  }
+
+  const user = await getGitHubUser(data.access_token);
+  if (!user) throw new GitHubAuthError("GitHub returned a token that does not work", 502);
+
+  await saveCredential(supabase, userId, githubTokenSecretName(pending.projectId), toCredential(data, user.login));
+  await deleteUserSecret(supabase, userId, DEVICE_FLOW_SECRET);
+  return { status: "connected", user, scope: pending.projectId ? "project" : "user" };
+}
+
+// Exchange the refresh token; null when the user has to sign in again
+async function refreshCredential(credential: GitHubCredential): Promise<GitHubCredential | null> {
+  const clientSecret = Deno.env.get("GITHUB_CLIENT_SECRET");
+  const refreshable =
+    credential.refreshToken && (!credential.refreshTokenExpiresAt || credential.refreshTokenExpiresAt > Date.now());
+  if (!refreshable || !clientSecret) return null;
+
+  const data = await postOAuth("/login/oauth/access_token", {
+    client_id: getClientId(),
+    client_secret: clientSecret,
+    grant_type: "refresh_token",
+    refresh_token: credential.refreshToken!,
+  });
+  if (data.error || !data.access_token) {
+    console.error("GitHub token refresh failed:", data.error);
+    return null;
+  }
+  return toCredential(data, credential.login);
+}
+
+// The token for GitHub calls in a project: the project's own connection if it
+// has one, else the user's. Expired tokens are refreshed and stored again;
+// null means nothing usable is connected.
+export async function getGitHubToken(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string | null
+): Promise<GitHubToken | null> {
+  const candidates: [string, GitHubTokenScope][] = projectId
+    ? [[githubTokenSecretName(projectId), "project"], [GITHUB_TOKEN_SECRET, "user"]]
+    : [[GITHUB_TOKEN_SECRET, "user"]];
+
+  for (const [name, scope] of candidates) {
+    const stored = await getUserSecret(supabase, userId, name);
+    if (!stored) continue;
+
+    let credential = parseCredential(stored);
+    if (credential.expiresAt && credential.expiresAt - REFRESH_MARGIN_MS < Date.now()) {
+      const refreshed = await refreshCredential(credential);
+      if (!refreshed) {
+        await deleteUserSecret(supabase, userId, name);
+        continue;
+      }
+      await saveCredential(supabase, userId, name, refreshed);
+      credential = refreshed;
+    }
+    return { token: credential.accessToken, scope };
+  }
+
+  return null;
+}
+
+// Forget the stored token and, when the app's secret is configured, revoke
+// it on GitHub as well. Only this token: the same account may still be
+// connected elsewhere.
+export async function disconnectGitHub(supabase: SupabaseClient, userId: string, projectId: string | null) {
+  const name = githubTokenSecretName(projectId);
+  const stored = await getUserSecret(supabase, userId, name);
+  await deleteUserSecret(supabase, userId, name);
+
+  const clientId = Deno.env.get("GITHUB_CLIENT_ID");
+  const clientSecret = Deno.env.get("GITHUB_CLIENT_SECRET");
+  if (!stored || !clientId || !clientSecret) return;
+
+  const response = await fetch(`${githubApiUrl()}/applications/${clientId}/token`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      Accept: "application/vnd.github.v3+json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ access_token: parseCredential(stored).accessToken }),
+  }).catch((error) => {
+    console.error("Failed to revoke GitHub token:", error);
+    return null;
+  });
+  // 404: a pasted token, or one that is already revoked
+  if (response && !response.ok && response.status !== 404) {
+    console.error("Failed to revoke GitHub token:", response.status);
+  }
+}
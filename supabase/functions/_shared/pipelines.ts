@@ -0,0 +1,129 @@
+// Multi-stage pipelines run by dual-ai-generate, stored in pipeline_presets.
+// Keep the stage format in sync with src/lib/pipelines.ts.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface PipelineStage {
+  name: string;
+  // Client model id, e.g. "lovable/gpt-5"
+  model: string;
+  // Role prompt; the output language and file-change instructions are added
+  prompt: string;
+  // Language code of the stage's reply, e.g. "en" or "id"
+  language: string;
+  // The stage's prose reaches the user; file changes always do
+  stream: boolean;
+  // The stage may change files
+  edits: boolean;
+}
+
+export interface Pipeline {
+  id: string;
+  slug: string;
+  name: string;
+  stages: PipelineStage[];
+}
+
+export const MAX_PIPELINE_STAGES = 6;
+
+// `mode` values sent before pipelines were configurable
+export const LEGACY_MODES: Record<string, string> = {
+  dual: "dual",
+  "analyze-only": "analyze-only",
+  "refine-only": "refine-only",
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  id: "Bahasa Indonesia",
+  es: "Spanish",
+  pt: "Portuguese",
+  fr: "French",
+  de: "German",
+  ja: "Japanese",
+  zh: "Chinese",
+};
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Returns null unless every stage is well-formed
+export function parseStages(value: unknown): PipelineStage[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PIPELINE_STAGES) return null;
+
+  const stages: PipelineStage[] = [];
+  for (const raw of value) {
+    const stage = raw as Record<string, unknown>;
+    if (typeof stage?.name !== "string" || !stage.name.trim()) return null;
+    if (typeof stage.model !== "string" || !stage.model.trim()) return null;
+    if (typeof stage.prompt !== "string" || !stage.prompt.trim()) return null;
+    stages.push({
+      name: stage.name.trim(),
+      model: stage.model.trim(),
+      prompt: stage.prompt,
+      language: typeof stage.language === "string" && stage.language ? stage.language : "en",
+      stream: stage.stream !== false,
+      edits: stage.edits === true,
+    });
+  }
+  return stages;
+}
+
+// Load a pipeline by id or slug, or the default one when ref is null.
+// Returns null when it does not exist, is disabled or is malformed.
+export async function loadPipeline(supabase: SupabaseClient, ref: string | null): Promise<Pipeline | null> {
+  let query = supabase.from("pipeline_presets").select("id, slug, name, stages").eq("enabled", true);
+  if (!ref) query = query.eq("is_default", true);
+  else query = query.eq(UUID_REGEX.test(ref) ? "id" : "slug", ref);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) console.error("Failed to load pipeline:", error);
+  if (!data) return null;
+
+  const stages = parseStages(data.stages);
+  if (!stages) {
+    console.error(`Pipeline ${data.slug} has invalid stages`);
+    return null;
+  }
+  return { id: data.id, slug: data.slug, name: data.name, stages };
+}
+
+const TEXT_EDIT_INSTRUCTIONS = `## File changes
+For every file you create or rewrite, output the COMPLETE file:
+
+===FILE: path/to/file.tsx===
+\`\`\`tsx
+// complete file
+\`\`\`
+===END_FILE===
+
+For small edits to an existing file, output SEARCH/REPLACE hunks; SEARCH must match the current file exactly, including indentation:
+
+===PATCH: path/to/file.tsx===
+<<<<<<< SEARCH
+old code
+=======
+new code
+>>>>>>> REPLACE
+===END_PATCH===
+
+To delete or rename a file:
+
+===DELETE: path/to/file.tsx===
+===RENAME: src/old.tsx -> src/new.tsx===`;
+
+const TOOL_EDIT_INSTRUCTIONS = `## File changes
+Only the file list is in the request. Use list_files and read_file to read what you need, never guess a file's contents. Make every change through write_file (complete contents), patch_file (search text must match exactly), delete_file and rename_file, never by pasting code into your reply.`;
+
+const TOOL_READ_INSTRUCTIONS = `## Files
+Only the file list is in the request. Use list_files and read_file to read what you need, never guess a file's contents. Do not change files in this stage.`;
+
+const TEXT_READ_INSTRUCTIONS = `## Files
+Do not write file changes in this stage.`;
+
+// The stage's system prompt: its role, then how to reply and handle files
+export function buildStagePrompt(stage: PipelineStage, toolMode: boolean): string {
+  const language = LANGUAGE_NAMES[stage.language] || stage.language;
+  const files = stage.edits
+    ? toolMode ? TOOL_EDIT_INSTRUCTIONS : TEXT_EDIT_INSTRUCTIONS
+    : toolMode ? TOOL_READ_INSTRUCTIONS : TEXT_READ_INSTRUCTIONS;
+  return `${stage.prompt.trim()}\n\n${files}\n\nReply in ${language}.`;
+}
@@ -0,0 +1,499 @@
+// AI provider adapters shared by the chat, dual-ai-generate and test-api-key
+// functions. Every adapter streams OpenAI-compatible SSE to the client.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { TokenUsage, estimateTokens } from "./credits.ts";
+import { getUserSecret } from "./secrets.ts";
+import { getAppSetting } from "./settings.ts";
+
+export type ProviderId = "lovable" | "openai" | "gemini" | "deepseek" | "groq" | "custom";
+
+// How the API key is sent: Authorization header or `?key=` query parameter
+export type AuthStyle = "bearer" | "query-key";
+
+export interface ProviderMessage {
+  role: string;
+  content: string;
+  // Calls requested by an assistant message in the tool-calling loop
+  tool_calls?: ToolCall[];
+  // The call a "tool" message answers
+  tool_call_id?: string;
+  // Images sent along with a user message; see supportsVision
+  images?: ImageInput[];
+}
+
+export interface ImageInput {
+  name: string;
+  mimeType: string;
+  // Base64 without a data: prefix
+  data: string;
+}
+
+// A function the model may call, described with a JSON schema
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments, as the model wrote them
+  arguments: string;
+}
+
+export interface ProviderCredentials {
+  apiKey: string | null;
+  baseUrl: string;
+  // Models served by a custom endpoint, first one is the default
+  models?: string[];
+  // The key is the caller's own (bring your own key), not the admin's
+  userKey?: boolean;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ProviderMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage;
+  // Empty unless the request offered tools
+  toolCalls: ToolCall[];
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  name: string;
+  baseUrl: string;
+  authStyle: AuthStyle;
+  format: "openai" | "gemini";
+  models: string[];
+  defaultModel: string;
+  // Where the admin's key comes from: an environment variable or an api_keys row
+  keyEnv?: string;
+  keyName?: string;
+  // Sends stream_options.include_usage; otherwise usage is normalized or estimated
+  streamUsage: boolean;
+  // Accepts tool definitions (function calling); see supportsTools
+  toolCalling: boolean;
+  // Accepts images in user messages
+  vision: boolean;
+  // Rewrites one upstream SSE data payload into OpenAI-compatible payloads
+  normalizeEvent?: (data: string) => string[];
+}
+
+export class ProviderRequestError extends Error {
+  constructor(public provider: string, public status: number, public body: string) {
+    super(`${provider} API error: ${status}`);
+  }
+}
+
+// Groq reports usage in an x_groq extension on the final chunk
+const liftGroqUsage = (data: string): string[] => {
+  try {
+    const parsed = JSON.parse(data);
+    if (parsed.x_groq?.usage && !parsed.usage) {
+      return [JSON.stringify({ ...parsed, usage: parsed.x_groq.usage })];
+    }
+  } catch {
+    // Not JSON ([DONE] or a partial payload), pass through
+  }
+  return [data];
+};
+
+// Gemini streams candidates with cumulative usage metadata
+const normalizeGeminiEvent = (data: string): string[] => {
+  try {
+    const parsed = JSON.parse(data);
+    const text = (parsed.candidates?.[0]?.content?.parts || [])
+      .map((part: { text?: string }) => part.text || "")
+      .join("");
+    const events: string[] = [];
+    if (text) events.push(JSON.stringify({ choices: [{ delta: { content: text } }] }));
+    if (parsed.usageMetadata && parsed.candidates?.[0]?.finishReason) {
+      events.push(JSON.stringify({
+        choices: [],
+        usage: {
+          prompt_tokens: parsed.usageMetadata.promptTokenCount ?? 0,
+          completion_tokens: parsed.usageMetadata.candidatesTokenCount ?? 0,
+        },
+      }));
+    }
+    return events;
+  } catch {
+    return [];
+  }
+};
+
+export const PROVIDERS: Record<ProviderId, ProviderAdapter> = {
+  lovable: {
+    id: "lovable",
+    name: "Lovable AI",
+    baseUrl: "https://ai.gateway.lovable.dev/v1",
+    authStyle: "bearer",
+    format: "openai",
+    models: ["google/gemini-2.5-flash", "google/gemini-2.5-pro", "openai/gpt-5", "openai/gpt-5-mini"],
+    defaultModel: "google/gemini-2.5-flash",
+    keyEnv: "LOVABLE_API_KEY",
+    streamUsage: true,
+    toolCalling: true,
+    vision: true,
+  },
+  openai: {
+    id: "openai",
+    name: "OpenAI",
+    baseUrl: "https://api.openai.com/v1",
+    authStyle: "bearer",
+    format: "openai",
+    models: ["gpt-4o", "gpt-4o-mini"],
+    defaultModel: "gpt-4o",
+    keyName: "openai",
+    streamUsage: true,
+    toolCalling: true,
+    vision: true,
+  },
+  gemini: {
+    id: "gemini",
+    name: "Gemini",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+    authStyle: "query-key",
+    format: "gemini",
+    models: ["gemini-1.5-pro", "gemini-1.5-flash"],
+    defaultModel: "gemini-1.5-pro",
+    keyName: "gemini",
+    streamUsage: false,
+    toolCalling: true,
+    vision: true,
+    normalizeEvent: normalizeGeminiEvent,
+  },
+  deepseek: {
+    id: "deepseek",
+    name: "DeepSeek",
+    baseUrl: "https://api.deepseek.com",
+    authStyle: "bearer",
+    format: "openai",
+    models: ["deepseek-chat", "deepseek-reasoner"],
+    defaultModel: "deepseek-chat",
+    keyName: "deepseek",
+    streamUsage: true,
+    toolCalling: true,
+    vision: false,
+  },
+  groq: {
+    id: "groq",
+    name: "Groq",
+    baseUrl: "https://api.groq.com/openai/v1",
+    authStyle: "bearer",
+    format: "openai",
+    models: ["llama-3.3-70b-versatile", "llama-3.1-8b-instant"],
+    defaultModel: "llama-3.3-70b-versatile",
+    keyName: "groq",
+    streamUsage: false,
+    toolCalling: true,
+    vision: false,
+    normalizeEvent: liftGroqUsage,
+  },
+  custom: {
+    id: "custom",
+    name: "Custom endpoint",
+    // Configured by an admin, e.g. a local Ollama or LM Studio server
+    baseUrl: "",
+    authStyle: "bearer",
+    format: "openai",
+    models: [],
+    defaultModel: "",
+    keyName: "custom_openai",
+    streamUsage: false,
+    toolCalling: false,
+    vision: false,
+  },
+};
+
+// Models served by a tool-calling provider that do not accept tools
+const TOOLLESS_MODELS = new Set(["deepseek-reasoner"]);
+
+// Whether a model can run the tool-calling agent loop. Custom endpoints are
+// left on the text protocol, since many local servers ignore tools.
+export function supportsTools(adapter: ProviderAdapter, model: string): boolean {
+  return adapter.toolCalling && !TOOLLESS_MODELS.has(model);
+}
+
+// Whether a model reads images. Custom endpoints are assumed text-only.
+export function supportsVision(adapter: ProviderAdapter): boolean {
+  return adapter.vision;
+}
+
+export function getProviderAdapter(id: string | undefined): ProviderAdapter | null {
+  return (id && PROVIDERS[id as ProviderId]) || null;
+}
+
+// Map a client model id ("groq/llama-3.3-70b-versatile", "lovable/gpt-5")
+// to the provider's model name, falling back to the default model
+export function resolveModel(adapter: ProviderAdapter, requested: string | undefined, credentials?: ProviderCredentials): string {
+  const models = adapter.id === "custom" ? credentials?.models || [] : adapter.models;
+  const defaultModel = adapter.id === "custom" ? models[0] || "default" : adapter.defaultModel;
+
+  const name = requested?.startsWith(`${adapter.id}/`) ? requested.slice(adapter.id.length + 1) : requested;
+  if (!name || name === "default") return defaultModel;
+
+  const match = models.find((m) => m === name || m.endsWith(`/${name}`));
+  // Custom endpoints may serve models that were not listed
+  if (match) return match;
+  return adapter.id === "custom" ? name : defaultModel;
+}
+
+const readApiKey = async (supabase: SupabaseClient, keyName: string): Promise<string | null> => {
+  const { data, error } = await supabase.from("api_keys").select("key_value").eq("key_name", keyName).maybeSingle();
+  if (error) console.error(`Failed to read ${keyName} key:`, error);
+  return data?.key_value || null;
+};
+
+// Users can store their own key for hosted providers. Custom endpoints are
+// admin-only: a user-supplied base URL would let anyone aim the server at
+// arbitrary hosts.
+export const supportsUserKey = (adapter: ProviderAdapter): boolean => !adapter.keyEnv && adapter.id !== "custom";
+
+// Prefers the user's own key when a userId is given, then the admin's key.
+// Returns null when the provider is not configured.
+export async function resolveProviderCredentials(
+  supabase: SupabaseClient,
+  adapter: ProviderAdapter,
+  userId?: string
+): Promise<ProviderCredentials | null> {
+  if (adapter.keyEnv) {
+    const apiKey = Deno.env.get(adapter.keyEnv);
+    return apiKey ? { apiKey, baseUrl: adapter.baseUrl } : null;
+  }
+
+  if (userId && supportsUserKey(adapter)) {
+    const userKey = await getUserSecret(supabase, userId, adapter.id);
+    if (userKey) return { apiKey: userKey, baseUrl: adapter.baseUrl, userKey: true };
+  }
+
+  if (adapter.id === "custom") {
+    const [baseUrl, apiKey, models] = await Promise.all([
+      getAppSetting(supabase, "custom_openai_base_url"),
+      readApiKey(supabase, adapter.keyName!),
+      getAppSetting(supabase, "custom_openai_models"),
+    ]);
+    if (!baseUrl) return null;
+    return { apiKey, baseUrl, models: models || [] };
+  }
+
+  const apiKey = await readApiKey(supabase, adapter.keyName!);
+  return apiKey ? { apiKey, baseUrl: adapter.baseUrl } : null;
+}
+
+// Gemini function responses are matched to calls by name, not id
+const toGeminiContent = (message: ProviderMessage, callNames: Map<string, string>) => {
+  if (message.role === "tool") {
+    const name = callNames.get(message.tool_call_id || "") || "unknown";
+    return { role: "user", parts: [{ functionResponse: { name, response: { content: message.content } } }] };
+  }
+
+  const parts: Record<string, unknown>[] = message.content ? [{ text: message.content }] : [];
+  for (const image of message.images || []) {
+    parts.push({ inline_data: { mime_type: image.mimeType, data: image.data } });
+  }
+  for (const call of message.tool_calls || []) {
+    callNames.set(call.id, call.name);
+    parts.push({ functionCall: { name: call.name, args: JSON.parse(call.arguments || "{}") } });
+  }
+  return { role: message.role === "assistant" ? "model" : "user", parts };
+};
+
+function buildGeminiBody(request: CompletionRequest) {
+  const system = request.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+  const callNames = new Map<string, string>();
+  return {
+    ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+    contents: request.messages
+      .filter((m) => m.role !== "system")
+      .map((m) => toGeminiContent(m, callNames)),
+    ...(request.tools?.length && { tools: [{ functionDeclarations: request.tools }] }),
+    generationConfig: {
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { maxOutputTokens: request.maxTokens }),
+    },
+  };
+}
+
+const toOpenAIMessage = ({ images, ...message }: ProviderMessage) => ({
+  ...message,
+  ...(images?.length && {
+    content: [
+      { type: "text", text: message.content },
+      ...images.map((image) => ({
+        type: "image_url",
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+      })),
+    ],
+  }),
+  ...(message.tool_calls && {
+    tool_calls: message.tool_calls.map((call) => ({
+      id: call.id,
+      type: "function",
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  }),
+});
+
+function buildRequest(
+  adapter: ProviderAdapter,
+  credentials: ProviderCredentials,
+  request: CompletionRequest,
+  stream: boolean
+): { url: string; init: RequestInit } {
+  const baseUrl = credentials.baseUrl.replace(/\/+$/, "");
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (adapter.authStyle === "bearer" && credentials.apiKey) {
+    headers.Authorization = `Bearer ${credentials.apiKey}`;
+  }
+
+  if (adapter.format === "gemini") {
+    const params = new URLSearchParams();
+    if (stream) params.set("alt", "sse");
+    if (adapter.authStyle === "query-key" && credentials.apiKey) params.set("key", credentials.apiKey);
+    const method = stream ? "streamGenerateContent" : "generateContent";
+    return {
+      url: `${baseUrl}/models/${request.model}:${method}?${params}`,
+      init: { method: "POST", headers, body: JSON.stringify(buildGeminiBody(request)) },
+    };
+  }
+
+  return {
+    url: `${baseUrl}/chat/completions`,
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages.map(toOpenAIMessage),
+        ...(request.tools?.length && {
+          tools: request.tools.map((tool) => ({ type: "function", function: tool })),
+        }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(stream && { stream: true }),
+        ...(stream && adapter.streamUsage && { stream_options: { include_usage: true } }),
+      }),
+    },
+  };
+}
+
+// Start a streaming completion. The caller checks `response.ok` and passes
+// the body through normalizeStream.
+export function streamCompletion(
+  adapter: ProviderAdapter,
+  credentials: ProviderCredentials,
+  request: CompletionRequest,
+  signal?: AbortSignal
+): Promise<Response> {
+  const { url, init } = buildRequest(adapter, credentials, request, true);
+  return fetch(url, { ...init, signal });
+}
+
+// Convert an upstream stream into OpenAI-compatible SSE ending in [DONE]
+export function normalizeStream(adapter: ProviderAdapter, body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const normalizeEvent = adapter.normalizeEvent;
+  if (!normalizeEvent) return body;
+
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+  let sawDone = false;
+
+  const emitLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith("data:")) return;
+    const data = line.slice(5).trim();
+    if (data === "[DONE]") {
+      sawDone = true;
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      return;
+    }
+    normalizeEvent(data).forEach((event) => controller.enqueue(encoder.encode(`data: ${event}\n\n`)));
+  };
+
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+          emitLine(buffer.slice(0, newlineIndex).replace(/\r$/, ""), controller);
+          buffer = buffer.slice(newlineIndex + 1);
+        }
+      },
+      flush(controller) {
+        if (buffer) emitLine(buffer.replace(/\r$/, ""), controller);
+        if (!sawDone) controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      },
+    })
+  );
+}
+
+// Run a non-streaming completion and return its text, usage and tool calls
+export async function complete(
+  adapter: ProviderAdapter,
+  credentials: ProviderCredentials,
+  request: CompletionRequest
+): Promise<CompletionResult> {
+  const { url, init } = buildRequest(adapter, credentials, request, false);
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw new ProviderRequestError(adapter.name, response.status, await response.text());
+  }
+
+  const data = await response.json();
+
+  let content: string;
+  let usage: TokenUsage | null = null;
+  let toolCalls: ToolCall[] = [];
+
+  if (adapter.format === "gemini") {
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    content = parts.map((p: { text?: string }) => p.text || "").join("");
+    toolCalls = parts
+      .filter((p: { functionCall?: unknown }) => p.functionCall)
+      .map((p: { functionCall: { name: string; args?: unknown } }, index: number) => ({
+        id: `call_${index}_${p.functionCall.name}`,
+        name: p.functionCall.name,
+        arguments: JSON.stringify(p.functionCall.args ?? {}),
+      }));
+    if (data.usageMetadata) {
+      usage = {
+        promptTokens: data.usageMetadata.promptTokenCount ?? 0,
+        completionTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+      };
+    }
+  } else {
+    const message = data.choices?.[0]?.message;
+    content = message?.content || "";
+    toolCalls = (message?.tool_calls || []).map(
+      (call: { id: string; function: { name: string; arguments?: string } }) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments || "{}",
+      })
+    );
+    if (data.usage) {
+      usage = { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 };
+    }
+  }
+
+  return {
+    content,
+    toolCalls,
+    usage: usage || {
+      promptTokens: estimateTokens(request.messages.map((m) => m.content).join("\n")),
+      completionTokens: estimateTokens(content),
+    },
+  };
+}
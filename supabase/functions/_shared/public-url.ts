@@ -0,0 +1,102 @@
+// Checks for URLs the server fetches on someone's behalf, so it cannot be
+// aimed at its own network: loopback, private ranges and link-local
+// addresses (where cloud metadata lives) are refused after resolving the host.
+
+export class PublicUrlError extends Error {}
+
+const parseIPv4 = (value: string): number[] | null => {
+  const parts = value.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+};
+
+// The eight 16-bit groups of an IPv6 address, with an embedded IPv4 tail
+const parseIPv6 = (value: string): number[] | null => {
+  if (!value.includes(":")) return null;
+  let text = value.replace(/%.*$/, "");
+  const tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = parseIPv4(tail[1]);
+    if (!v4) return null;
+    text = `${text.slice(0, -tail[1].length)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const isPublicIPv4 = ([a, b, c]: number[]): boolean =>
+  !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+
+// Whether an IP address is reachable on the public internet; false for
+// anything that is not an IP address
+export function isPublicAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4) return isPublicIPv4(v4);
+
+  const v6 = parseIPv6(address.replace(/^\[|\]$/g, ""));
+  if (!v6) return false;
+  const [first] = v6;
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 address
+  const embedsIPv4 =
+    (v6.slice(0, 5).every((group) => group === 0) && v6[5] === 0xffff) ||
+    (first === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((group) => group === 0));
+  if (embedsIPv4) return isPublicIPv4([v6[6] >> 8, v6[6] & 0xff, v6[7] >> 8, v6[7] & 0xff]);
+
+  return !(
+    v6.slice(0, 7).every((group) => group === 0) || // :: and ::1
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Every address the host resolves to must be public
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (parseIPv4(host) || parseIPv6(host)) {
+    if (!isPublicAddress(host)) throw new PublicUrlError(`${hostname} is not a public address`);
+    return;
+  }
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+  if (addresses.length === 0) throw new PublicUrlError(`${hostname} could not be resolved`);
+  if (!addresses.every(isPublicAddress)) {
+    throw new PublicUrlError(`${hostname} resolves to an address that is not public`);
+  }
+}
+
+// An https URL on a public host, without credentials in it
+export async function assertPublicUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new PublicUrlError("The URL is not valid");
+  }
+  if (url.protocol !== "https:") throw new PublicUrlError("The URL must use https");
+  if (url.username || url.password) throw new PublicUrlError("The URL must not contain credentials");
+  await assertPublicHost(url.hostname);
+  return url;
+}
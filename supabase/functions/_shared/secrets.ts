@@ -0,0 +1,151 @@
+// Envelope encryption for the user_secrets table. Every value is sealed with
+// a fresh AES-GCM data key; the data key is sealed with the master key from
+// SECRETS_ENCRYPTION_KEY (base64, 32 bytes), which only edge functions hold.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Bumped when the master key is rotated
+const KEY_VERSION = 1;
+const IV_LENGTH = 12;
+
+export const GITHUB_TOKEN_SECRET = "github_token";
+
+export interface UserSecretInfo {
+  name: string;
+  hint: string | null;
+  updatedAt: string;
+}
+
+interface SealedSecret {
+  ciphertext: string;
+  wrappedKey: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+let masterKey: Promise<CryptoKey> | null = null;
+
+function getMasterKey(): Promise<CryptoKey> {
+  if (!masterKey) {
+    const raw = Deno.env.get("SECRETS_ENCRYPTION_KEY");
+    if (!raw) throw new Error("SECRETS_ENCRYPTION_KEY is not configured");
+    masterKey = crypto.subtle.importKey("raw", fromBase64(raw), "AES-GCM", false, ["encrypt", "decrypt"]);
+  }
+  return masterKey;
+}
+
+// Returns base64 of iv || ciphertext
+async function seal(key: CryptoKey, data: Uint8Array, context: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(context) },
+    key,
+    data
+  );
+  const out = new Uint8Array(IV_LENGTH + sealed.byteLength);
+  out.set(iv);
+  out.set(new Uint8Array(sealed), IV_LENGTH);
+  return toBase64(out);
+}
+
+async function unseal(key: CryptoKey, value: string, context: string): Promise<Uint8Array> {
+  const bytes = fromBase64(value);
+  const opened = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: bytes.slice(0, IV_LENGTH), additionalData: encoder.encode(context) },
+    key,
+    bytes.slice(IV_LENGTH)
+  );
+  return new Uint8Array(opened);
+}
+
+// The owner and name are bound as associated data, so a row copied to another
+// user or secret name fails to decrypt.
+const secretContext = (userId: string, name: string) => `${userId}:${name}`;
+
+export async function encryptSecret(userId: string, name: string, value: string): Promise<SealedSecret> {
+  const context = secretContext(userId, name);
+  const dataKeyBytes = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey("raw", dataKeyBytes, "AES-GCM", false, ["encrypt"]);
+
+  return {
+    ciphertext: await seal(dataKey, encoder.encode(value), context),
+    wrappedKey: await seal(await getMasterKey(), dataKeyBytes, context),
+  };
+}
+
+export async function decryptSecret(userId: string, name: string, sealed: SealedSecret): Promise<string> {
+  const context = secretContext(userId, name);
+  const dataKeyBytes = await unseal(await getMasterKey(), sealed.wrappedKey, context);
+  const dataKey = await crypto.subtle.importKey("raw", dataKeyBytes, "AES-GCM", false, ["decrypt"]);
+  return new TextDecoder().decode(await unseal(dataKey, sealed.ciphertext, context));
+}
+
+// Returns null when the secret is missing or cannot be decrypted
+export async function getUserSecret(supabase: SupabaseClient, userId: string, name: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("user_secrets")
+    .select("ciphertext, wrapped_key")
+    .eq("user_id", userId)
+    .eq("name", name)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to read ${name} secret:`, error);
+    return null;
+  }
+  if (!data) return null;
+
+  try {
+    return await decryptSecret(userId, name, { ciphertext: data.ciphertext, wrappedKey: data.wrapped_key });
+  } catch (e) {
+    console.error(`Failed to decrypt ${name} secret:`, e);
+    return null;
+  }
+}
+
+// `hint` replaces the default (the value's last characters) for values that
+// are not plain keys
+export async function setUserSecret(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string,
+  value: string,
+  hint: string | null = value.length > 8 ? value.slice(-4) : null
+): Promise<void> {
+  const sealed = await encryptSecret(userId, name, value);
+  const { error } = await supabase.from("user_secrets").upsert(
+    {
+      user_id: userId,
+      name,
+      ciphertext: sealed.ciphertext,
+      wrapped_key: sealed.wrappedKey,
+      key_version: KEY_VERSION,
+      hint,
+    },
+    { onConflict: "user_id,name" }
+  );
+  if (error) throw new Error(`Failed to save ${name} secret: ${error.message}`);
+}
+
+export async function deleteUserSecret(supabase: SupabaseClient, userId: string, name: string): Promise<void> {
+  const { error } = await supabase.from("user_secrets").delete().eq("user_id", userId).eq("name", name);
+  if (error) throw new Error(`Failed to delete ${name} secret: ${error.message}`);
+}
+
+// Names and hints only; values never leave the edge functions
+export async function listUserSecrets(supabase: SupabaseClient, userId: string): Promise<UserSecretInfo[]> {
+  const { data, error } = await supabase
+    .from("user_secrets")
+    .select("name, hint, updated_at")
+    .eq("user_id", userId)
+    .order("name");
+  if (error) throw new Error(`Failed to list secrets: ${error.message}`);
+  return (data || []).map((row) => ({ name: row.name, hint: row.hint, updatedAt: row.updated_at }));
+}
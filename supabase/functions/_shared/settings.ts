@@ -0,0 +1,33 @@
+// Typed access to the app_settings table. Keep in sync with
+// src/lib/app-settings.ts.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface SmtpConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  from_email: string;
+  from_name: string;
+  encryption: "none" | "tls" | "starttls";
+}
+
+export interface AppSettings {
+  setup_completed: boolean;
+  site_domain: string;
+  app_name: string;
+  smtp_config: SmtpConfig;
+  custom_openai_base_url: string;
+  custom_openai_models: string[];
+}
+
+// Returns null when the setting has never been saved
+export async function getAppSetting<K extends keyof AppSettings>(
+  supabase: SupabaseClient,
+  key: K
+): Promise<AppSettings[K] | null> {
+  const { data, error } = await supabase.from("app_settings").select("value").eq("key", key).maybeSingle();
+  if (error) console.error(`Failed to read ${key} setting:`, error);
+  return (data?.value as AppSettings[K]) ?? null;
+}
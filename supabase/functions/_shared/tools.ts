@@ -0,0 +1,340 @@
+// Tool-calling mode for the chat and dual-ai-generate functions. Instead of
+// every file being pasted into the prompt, the model reads the submitted
+// project on demand and edits it through function calls. Accepted edits are
+// streamed to the client in the edit protocol (===FILE===, ===PATCH===, ...),
+// so the client parses them exactly like a text-protocol response.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { combineCharges, CreditCharge, debitCredits, encodeCreditEvent, TokenUsage } from "./credits.ts";
+import {
+  complete,
+  ProviderAdapter,
+  ProviderCredentials,
+  ProviderMessage,
+  ToolCall,
+  ToolDefinition,
+} from "./providers.ts";
+
+// Path → content of every file in the project, as submitted by the client
+export type ProjectFiles = Record<string, string>;
+
+export const FILE_TOOLS: ToolDefinition[] = [
+  {
+    name: "list_files",
+    description: "List the project's files with their line counts.",
+    parameters: {
+      type: "object",
+      properties: {
+        directory: { type: "string", description: "Only list files under this directory, e.g. src/components" },
+      },
+    },
+  },
+  {
+    name: "read_file",
+    description: "Read the current contents of a file. Read a file before patching it.",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string" } },
+      required: ["path"],
+    },
+  },
+  {
+    name: "write_file",
+    description: "Create a file or replace its entire contents. Use for new files and large rewrites.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        content: { type: "string", description: "The complete file contents" },
+      },
+      required: ["path", "content"],
+    },
+  },
+  {
+    name: "patch_file",
+    description:
+      "Make targeted edits to an existing file. Each search text must match the current file exactly, including indentation, and occur only once.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        edits: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { search: { type: "string" }, replace: { type: "string" } },
+            required: ["search", "replace"],
+          },
+        },
+      },
+      required: ["path", "edits"],
+    },
+  },
+  {
+    name: "delete_file",
+    description: "Delete a file.",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string" } },
+      required: ["path"],
+    },
+  },
+  {
+    name: "rename_file",
+    description: "Move or rename a file. Imports that reference it must be updated separately.",
+    parameters: {
+      type: "object",
+      properties: { from: { type: "string" }, to: { type: "string" } },
+      required: ["from", "to"],
+    },
+  },
+];
+
+// For stages that only inspect the project
+export const READ_ONLY_TOOLS = FILE_TOOLS.filter((tool) => tool.name === "list_files" || tool.name === "read_file");
+
+const DEFAULT_MAX_STEPS = 16;
+
+export interface AgentOptions {
+  adapter: ProviderAdapter;
+  credentials: ProviderCredentials;
+  model: string;
+  messages: ProviderMessage[];
+  // Working copy; edits are applied to it as they are accepted
+  files: ProjectFiles;
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+  maxSteps?: number;
+  // The model's prose, and every accepted edit in edit-protocol form unless
+  // onEdit is given
+  onText: (text: string) => void;
+  onEdit?: (edit: string) => void;
+  // Called after each completion, so steps are billed even if a later one fails
+  onUsage: (usage: TokenUsage) => Promise<void>;
+}
+
+export interface AgentResult {
+  // All prose and edits, in order
+  content: string;
+  steps: number;
+  // The step limit was reached while the model still had tool calls
+  stoppedEarly: boolean;
+}
+
+interface ToolOutcome {
+  result: string;
+  // Edit-protocol text for an accepted edit
+  edit?: string;
+}
+
+const normalizePath = (path: unknown) => String(path ?? "").trim().replace(/^\.?\//, "");
+
+const countLines = (content: string) => content.split("\n").length;
+
+const occurrences = (content: string, search: string) => {
+  let count = 0;
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + 1)) count++;
+  return count;
+};
+
+const renderFile = (path: string, content: string) => {
+  const language = path.split(".").pop() || "";
+  return `===FILE: ${path}===\n\`\`\`${language}\n${content}\n\`\`\`\n===END_FILE===\n`;
+};
+
+const renderPatch = (path: string, edits: { search: string; replace: string }[]) => {
+  const hunks = edits.map((e) => `<<<<<<< SEARCH\n${e.search}\n=======\n${e.replace}\n>>>>>>> REPLACE`);
+  return `===PATCH: ${path}===\n${hunks.join("\n")}\n===END_PATCH===\n`;
+};
+
+const missingFile = (path: string) => `Error: ${path} does not exist. Call list_files to see the project.`;
+
+function executeTool(call: ToolCall, files: ProjectFiles): ToolOutcome {
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(call.arguments || "{}");
+  } catch {
+    return { result: `Error: the arguments for ${call.name} are not valid JSON.` };
+  }
+
+  switch (call.name) {
+    case "list_files": {
+      const directory = normalizePath(args.directory).replace(/\/+$/, "");
+      const paths = Object.keys(files)
+        .filter((path) => !directory || path.startsWith(`${directory}/`))
+        .sort();
+      if (paths.length === 0) return { result: "No files found." };
+      return { result: paths.map((path) => `${path} (${countLines(files[path])} lines)`).join("\n") };
+    }
+
+    case "read_file": {
+      const path = normalizePath(args.path);
+      if (!(path in files)) return { result: missingFile(path) };
+      return { result: files[path] };
+    }
+
+    case "write_file": {
+      const path = normalizePath(args.path);
+      const content = String(args.content ?? "");
+      if (!path) return { result: "Error: path is required." };
+      const existed = path in files;
+      files[path] = content;
+      return {
+        result: `${existed ? "Rewrote" : "Created"} ${path} (${countLines(content)} lines).`,
+        edit: renderFile(path, content),
+      };
+    }
+
+    case "patch_file": {
+      const path = normalizePath(args.path);
+      if (!(path in files)) return { result: missingFile(path) };
+      const edits = Array.isArray(args.edits) ? (args.edits as { search: unknown; replace: unknown }[]) : [];
+      if (edits.length === 0) return { result: "Error: edits must contain at least one search/replace pair." };
+
+      // All edits apply or none do
+      let content = files[path];
+      const normalized: { search: string; replace: string }[] = [];
+      for (const [index, edit] of edits.entries()) {
+        const search = String(edit.search ?? "");
+        const replace = String(edit.replace ?? "");
+        const found = search ? occurrences(content, search) : 0;
+        if (found !== 1) {
+          const problem = found === 0 ? "was not found" : `matches ${found} places; include more surrounding lines`;
+          return { result: `Error: search text of edit ${index + 1} ${problem} in ${path}. No edits were applied; read_file and try again.` };
+        }
+        content = content.replace(search, () => replace);
+        normalized.push({ search, replace });
+      }
+
+      files[path] = content;
+      return { result: `Patched ${path} (${normalized.length} edit(s)).`, edit: renderPatch(path, normalized) };
+    }
+
+    case "delete_file": {
+      const path = normalizePath(args.path);
+      if (!(path in files)) return { result: missingFile(path) };
+      delete files[path];
+      return { result: `Deleted ${path}.`, edit: `===DELETE: ${path}===\n` };
+    }
+
+    case "rename_file": {
+      const from = normalizePath(args.from);
+      const to = normalizePath(args.to);
+      if (!(from in files)) return { result: missingFile(from) };
+      if (!to) return { result: "Error: to is required." };
+      if (to in files) return { result: `Error: ${to} already exists.` };
+      files[to] = files[from];
+      delete files[from];
+      return { result: `Renamed ${from} to ${to}.`, edit: `===RENAME: ${from} -> ${to}===\n` };
+    }
+
+    default:
+      return { result: `Error: unknown tool ${call.name}.` };
+  }
+}
+
+// Run completions until the model answers without calling a tool
+export async function runToolAgent(options: AgentOptions): Promise<AgentResult> {
+  const { adapter, credentials, model, files, tools = FILE_TOOLS, maxSteps = DEFAULT_MAX_STEPS } = options;
+  const messages = [...options.messages];
+  let content = "";
+
+  const onEdit = options.onEdit ?? options.onText;
+  const emit = (text: string, edit = false) => {
+    content += text;
+    (edit ? onEdit : options.onText)(text);
+  };
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const result = await complete(adapter, credentials, {
+      model,
+      messages,
+      tools,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    });
+    await options.onUsage(result.usage);
+
+    if (result.content.trim()) emit(`${result.content.trim()}\n\n`);
+    if (result.toolCalls.length === 0) return { content, steps: step, stoppedEarly: false };
+
+    messages.push({ role: "assistant", content: result.content, tool_calls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      const outcome = executeTool(call, files);
+      console.log(`Tool ${call.name}:`, outcome.result.split("\n")[0].slice(0, 120));
+      if (outcome.edit) emit(`${outcome.edit}\n`, true);
+      messages.push({ role: "tool", tool_call_id: call.id, content: outcome.result });
+    }
+  }
+
+  return { content, steps: maxSteps, stoppedEarly: true };
+}
+
+const EDIT_BLOCK_REGEX = /===(?:FILE|PATCH):[^\n]*?===[\s\S]*?===END_(?:FILE|PATCH)===|===(?:DELETE|RENAME):[^\n]*?===/g;
+
+// The finished edit blocks of a text-protocol response, without its prose
+export function extractEditBlocks(response: string): string {
+  return (response.match(EDIT_BLOCK_REGEX) || []).map((block) => `${block}\n\n`).join("");
+}
+
+// Inline the project for models that cannot read it through tools
+export function formatProjectFiles(files: ProjectFiles): string {
+  return (
+    "## Project Files\n\n" +
+    Object.entries(files)
+      .map(([path, content]) => `### ${path}\n\`\`\`\n${content}\n\`\`\``)
+      .join("\n\n")
+  );
+}
+
+// Encode text as an OpenAI-compatible SSE delta
+export function encodeTextEvent(text: string): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+}
+
+interface AgentStreamOptions {
+  supabase: SupabaseClient;
+  userId: string;
+  source: string;
+}
+
+// Run the agent loop as an SSE response body: text deltas, one credit event
+// for all steps, then [DONE]. A failure is sent as an error event so the
+// client can retry.
+export function streamToolAgent(
+  agent: Omit<AgentOptions, "onText" | "onUsage">,
+  meter: AgentStreamOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      let charge: CreditCharge | null = null;
+      let failure: string | null = null;
+
+      try {
+        const result = await runToolAgent({
+          ...agent,
+          onText: (text) => controller.enqueue(encoder.encode(encodeTextEvent(text))),
+          onUsage: async (usage) => {
+            const stepCharge = await debitCredits(meter.supabase, meter.userId, meter.source, agent.model, usage);
+            charge = charge ? combineCharges(charge, stepCharge) : stepCharge;
+          },
+        });
+        if (result.stoppedEarly) {
+          console.warn(`${meter.source}: stopped after ${result.steps} tool steps`);
+          controller.enqueue(encoder.encode(encodeTextEvent(`\n\n_Stopped after ${result.steps} tool steps._`)));
+        }
+      } catch (error) {
+        console.error(`${meter.source} agent error:`, error);
+        failure = error instanceof Error ? error.message : "Unknown error";
+      }
+
+      // Credits first: the client stops reading at an error
+      if (charge) controller.enqueue(encoder.encode(encodeCreditEvent(charge)));
+      if (failure) controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: failure })}\n\n`));
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAppSetting } from "../_shared/settings.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -33,13 +34,7 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     // Get app name from settings (or use default)
-    const { data: appNameData } = await supabase
-      .from("api_keys")
-      .select("key_value")
-      .eq("key_name", "app_name")
-      .single();
-
-    const appName = appNameData?.key_value || "Our App";
+    const appName = (await getAppSetting(supabase, "app_name")) || "Our App";
 
     // Get user name from profile if available
     let userName = user_email.split('@')[0];
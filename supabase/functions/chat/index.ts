@@ -1,22 +1,42 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  authenticateRequest,
+  createServiceClient,
+  getCreditBalance,
+  insufficientCreditsResponse,
+  meterStream,
+  unauthorizedResponse,
+} from "../_shared/credits.ts";
+import {
+  getProviderAdapter,
+  normalizeStream,
+  PROVIDERS,
+  ProviderMessage,
+  resolveModel,
+  resolveProviderCredentials,
+  streamCompletion,
+  supportsTools,
+  supportsVision,
+} from "../_shared/providers.ts";
+import { AttachmentError, IncomingMessage, resolveMessageImages } from "../_shared/attachments.ts";
+import { formatProjectFiles, ProjectFiles, streamToolAgent } from "../_shared/tools.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Enhanced system prompt for better code generation
-const SYSTEM_PROMPT = `You are an expert AI code assistant integrated into Quine AI, a professional code editor. You help users build modern web applications.
+const INTRODUCTION = `You are an expert AI code assistant integrated into Quine AI, a professional code editor. You help users build modern web applications.
 
 ## Your Capabilities:
 - Create and modify React/TypeScript/Tailwind files
 - Build beautiful, responsive UI components
 - Implement complex business logic
-- Follow best practices and modern patterns
+- Follow best practices and modern patterns`;
 
-## Response Format:
-When creating or modifying code, use this EXACT format:
+// Text protocol, for models without tool support
+const TEXT_FORMAT = `## Response Format:
+To create a file or rewrite most of one, output the COMPLETE file:
 
 ===FILE: path/to/file.tsx===
 \`\`\`tsx
@@ -24,7 +44,42 @@ When creating or modifying code, use this EXACT format:
 \`\`\`
 ===END_FILE===
 
-## Coding Standards:
+To make targeted edits to an existing file, output SEARCH/REPLACE hunks. SEARCH must match the current file exactly (including indentation) and include enough lines to be unique:
+
+===PATCH: path/to/file.tsx===
+<<<<<<< SEARCH
+const [count, setCount] = useState(0);
+=======
+const [count, setCount] = useState(10);
+>>>>>>> REPLACE
+===END_PATCH===
+
+A unified diff (\`@@ -12,3 +12,4 @@\` hunks) is also accepted inside ===PATCH===.
+
+To delete or rename a file:
+
+===DELETE: path/to/old-file.tsx===
+===RENAME: src/old-name.tsx -> src/new-name.tsx===
+
+## Important Rules:
+- Use ===FILE=== with COMPLETE contents for new files and large rewrites
+- Prefer ===PATCH=== for small edits to large existing files`;
+
+// Tool-calling mode: the project is read and edited through function calls
+const TOOL_FORMAT = `## Working With Files:
+The request lists the project's files; only some are shown in full. Use the tools to work on the project:
+- list_files and read_file to look at any file you need. Never guess the contents of a file you have not read.
+- write_file with the COMPLETE contents for new files and large rewrites
+- patch_file for targeted edits; every search text must match the file exactly, as returned by read_file
+- delete_file and rename_file to remove or move files
+
+Make every change through the tools, never by pasting code into your reply. When you are done, reply with a short summary of what you changed.
+
+## Important Rules:
+- Read a file before patching it
+- Update imports when you rename or delete a file`;
+
+const GUIDELINES = `## Coding Standards:
 1. **TypeScript**: Use proper types, interfaces, and generics
 2. **React**: Functional components with hooks, proper state management
 3. **Tailwind CSS**: Use utility classes, semantic colors from design system
@@ -40,13 +95,16 @@ When creating or modifying code, use this EXACT format:
 - src/lib/ - Utility functions
 - src/contexts/ - React contexts
 
-## Important Rules:
-- Always provide COMPLETE file contents, never partial
+## Always:
 - Include all necessary imports
 - Make code beautiful AND functional
 - Use Shadcn UI components when available (Button, Card, Input, etc.)
 - Follow the existing project patterns
-- Handle edge cases gracefully`;
+- Handle edge cases gracefully
+- Follow the Project Instructions when a message includes them; they take precedence over these guidelines`;
+
+const SYSTEM_PROMPT = [INTRODUCTION, TEXT_FORMAT, GUIDELINES].join("\n\n");
+const TOOL_SYSTEM_PROMPT = [INTRODUCTION, TOOL_FORMAT, GUIDELINES].join("\n\n");
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -54,271 +112,125 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, provider = "lovable", model: requestedModel } = await req.json();
-
-    // Get API key from database for custom providers
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Determine which API to use based on provider
-    if (provider === "lovable" || !provider) {
-      // Use Lovable AI Gateway (default)
-      const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-
-      if (!LOVABLE_API_KEY) {
-        return new Response(
-          JSON.stringify({ error: "Lovable AI not configured. Contact administrator." }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
+    const supabase = createServiceClient();
 
-      // Determine model - extract the actual model from the ID
-      let modelToUse = "google/gemini-2.5-flash"; // default
-      if (requestedModel) {
-        if (requestedModel.includes("gemini-2.5-pro")) {
-          modelToUse = "google/gemini-2.5-pro";
-        } else if (requestedModel.includes("gemini-2.5-flash")) {
-          modelToUse = "google/gemini-2.5-flash";
-        } else if (requestedModel.includes("gpt-5-mini")) {
-          modelToUse = "openai/gpt-5-mini";
-        } else if (requestedModel.includes("gpt-5")) {
-          modelToUse = "openai/gpt-5";
-        }
-      }
-
-      console.log("Using Lovable AI with model:", modelToUse);
-
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: modelToUse,
-          messages: [
-            { role: "system", content: SYSTEM_PROMPT },
-            ...messages,
-          ],
-          stream: true,
-          temperature: 0.7,
-          max_tokens: 8192,
-        }),
-      });
-
-      if (!response.ok) {
-        const status = response.status;
-        const errorText = await response.text();
-        console.error("Lovable AI error:", status, errorText);
-
-        if (status === 429) {
-          return new Response(
-            JSON.stringify({ error: "Rate limit exceeded. Please wait a moment and try again." }),
-            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        if (status === 402) {
-          return new Response(
-            JSON.stringify({ error: "Credits exhausted. Please add credits to continue." }),
-            { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+    // Every generation is billed to the signed-in caller
+    const user = await authenticateRequest(req, supabase);
+    if (!user) {
+      return unauthorizedResponse(corsHeaders);
+    }
 
-        return new Response(
-          JSON.stringify({ error: "AI service temporarily unavailable. Trying fallback..." }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
+    const balance = await getCreditBalance(supabase, user.id);
+    if (balance <= 0) {
+      return insufficientCreditsResponse(corsHeaders, balance);
+    }
 
-      return new Response(response.body, {
-        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-      });
+    // files: the whole project, sent when the client wants tool-calling mode.
+    // A message's content may be text and image parts.
+    const { messages: incoming, provider = "lovable", model: requestedModel, files } = await req.json() as {
+      messages: IncomingMessage[];
+      provider?: string;
+      model?: string;
+      files?: ProjectFiles;
+    };
+
+    let adapter = getProviderAdapter(provider) || PROVIDERS.lovable;
+    let credentials = await resolveProviderCredentials(supabase, adapter, user.id);
+    let model = resolveModel(adapter, requestedModel, credentials || undefined);
+
+    if (!credentials && adapter.id !== "lovable") {
+      // Fall back to Lovable AI when the provider has no key configured
+      console.log(`No ${adapter.name} API key found, falling back to Lovable AI`);
+      adapter = PROVIDERS.lovable;
+      credentials = await resolveProviderCredentials(supabase, adapter);
+      model = adapter.defaultModel;
     }
 
-    // Custom API key flow for OpenAI or Gemini
-    const providerKey = provider === "openai" ? "openai" : "gemini";
-    const { data: apiKeyData, error: keyError } = await supabase
-      .from("api_keys")
-      .select("key_value")
-      .eq("key_name", providerKey)
-      .maybeSingle();
+    if (!credentials) {
+      return new Response(
+        JSON.stringify({ error: "No API key configured. Please add API keys in Admin settings." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    if (keyError || !apiKeyData?.key_value) {
-      // Fallback to Lovable AI if no custom key
-      console.log("No custom API key found, falling back to Lovable AI");
-      const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    console.log(`Using ${adapter.name}${credentials.userKey ? " (user key)" : ""} with model:`, model);
 
-      if (!LOVABLE_API_KEY) {
-        return new Response(
-          JSON.stringify({ error: "No API key configured. Please add API keys in Admin settings." }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
+    let messages: ProviderMessage[];
+    try {
+      messages = await resolveMessageImages(supabase, user.id, incoming, supportsVision(adapter));
+    } catch (error) {
+      if (!(error instanceof AttachmentError)) throw error;
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
+    if (files && supportsTools(adapter, model)) {
+      console.log(`Tool-calling mode with ${Object.keys(files).length} project file(s)`);
+      const stream = streamToolAgent(
+        {
+          adapter,
+          credentials,
+          model,
+          messages: [{ role: "system", content: TOOL_SYSTEM_PROMPT }, ...messages],
+          files: { ...files },
+          temperature: 0.7,
+          maxTokens: 8192,
         },
-        body: JSON.stringify({
-          model: "google/gemini-2.5-flash",
-          messages: [
-            { role: "system", content: SYSTEM_PROMPT },
-            ...messages,
-          ],
-          stream: true,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Fallback Lovable AI error:", errorText);
-        return new Response(
-          JSON.stringify({ error: "AI service error. Please try again." }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      return new Response(response.body, {
+        { supabase, userId: user.id, source: "chat" }
+      );
+      return new Response(stream, {
         headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
       });
     }
 
-    // Use custom API key
-    const apiKey = apiKeyData.key_value;
-
-    if (provider === "openai") {
-      console.log("Using custom OpenAI API key");
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o",
-          messages: [
-            { role: "system", content: SYSTEM_PROMPT },
-            ...messages,
-          ],
-          stream: true,
-          temperature: 0.7,
-          max_tokens: 8192,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error("OpenAI error:", error);
+    // Without tool support the submitted files are inlined
+    const systemMessages = [
+      { role: "system", content: SYSTEM_PROMPT },
+      ...(files ? [{ role: "system", content: formatProjectFiles(files) }] : []),
+    ];
+    const promptText = [...systemMessages, ...messages].map((m) => m.content).join("\n");
+
+    const response = await streamCompletion(adapter, credentials, {
+      model,
+      messages: [...systemMessages, ...messages],
+      temperature: 0.7,
+      maxTokens: 8192,
+    });
+
+    if (!response.ok) {
+      const status = response.status;
+      const errorText = await response.text();
+      console.error(`${adapter.name} error:`, status, errorText);
+
+      if (status === 429) {
         return new Response(
-          JSON.stringify({ error: "OpenAI API error. Check your API key." }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "Rate limit exceeded. Please wait a moment and try again." }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-
-      return new Response(response.body, {
-        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-      });
-    } else {
-      // Gemini with custom key
-      console.log("Using custom Gemini API key");
-      const contents = messages.map((msg: any) => ({
-        role: msg.role === "assistant" ? "model" : "user",
-        parts: [{ text: msg.role === "system" ? SYSTEM_PROMPT + "\n\n" + msg.content : msg.content }],
-      }));
-
-      // Add system prompt as first user message for Gemini
-      const geminiContents = [
-        { role: "user", parts: [{ text: SYSTEM_PROMPT }] },
-        { role: "model", parts: [{ text: "I understand. I will follow these guidelines for all code generation." }] },
-        ...contents,
-      ];
-
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:streamGenerateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: geminiContents,
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 8192,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error("Gemini error:", error);
+      if (status === 402) {
         return new Response(
-          JSON.stringify({ error: "Gemini API error. Check your API key." }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "Credits exhausted. Please add credits to continue." }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      // Transform Gemini response to OpenAI-compatible SSE format
-      const reader = response.body?.getReader();
-      const encoder = new TextEncoder();
-
-      const stream = new ReadableStream({
-        async start(controller) {
-          if (!reader) {
-            controller.close();
-            return;
-          }
-
-          const decoder = new TextDecoder();
-          let buffer = "";
-
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-
-              buffer += decoder.decode(value, { stream: true });
-
-              // Parse Gemini's JSON array response
-              try {
-                const lines = buffer.split("\n");
-                for (const line of lines) {
-                  if (line.trim().startsWith("{") || line.trim().startsWith("[")) {
-                    const cleanLine = line.replace(/^\[|\]$/g, "").trim();
-                    if (cleanLine) {
-                      const parsed = JSON.parse(cleanLine.replace(/^,/, ""));
-                      const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
-                      if (text) {
-                        // Convert to OpenAI SSE format
-                        const sseData = {
-                          choices: [{ delta: { content: text } }],
-                        };
-                        controller.enqueue(encoder.encode(`data: ${JSON.stringify(sseData)}\n\n`));
-                      }
-                    }
-                  }
-                }
-                buffer = "";
-              } catch {
-                // Keep buffer for next chunk
-              }
-            }
-
-            controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-            controller.close();
-          } catch (error) {
-            console.error("Stream error:", error);
-            controller.close();
-          }
-        },
-      });
-
-      return new Response(stream, {
-        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-      });
+      return new Response(
+        JSON.stringify({
+          error: adapter.id === "lovable"
+            ? "AI service temporarily unavailable. Trying fallback..."
+            : `${adapter.name} API error. Check your API key.`,
+        }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
+
+    const meter = { supabase, userId: user.id, source: "chat", model, promptText };
+    return new Response(meterStream(normalizeStream(adapter, response.body!), meter), {
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+    });
   } catch (error) {
     console.error("Chat function error:", error);
     return new Response(
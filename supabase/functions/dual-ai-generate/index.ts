@@ -1,93 +1,90 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  authenticateRequest,
+  createServiceClient,
+  CreditCharge,
+  combineCharges,
+  debitCredits,
+  encodeCreditEvent,
+  getCreditBalance,
+  insufficientCreditsResponse,
+  TokenUsage,
+  unauthorizedResponse,
+} from "../_shared/credits.ts";
+import {
+  complete,
+  getProviderAdapter,
+  PROVIDERS,
+  ProviderAdapter,
+  ProviderCredentials,
+  ProviderMessage,
+  resolveModel,
+  resolveProviderCredentials,
+  supportsTools,
+  supportsVision,
+} from "../_shared/providers.ts";
+import { AttachmentError, IncomingMessage, resolveMessageImages, withoutImages } from "../_shared/attachments.ts";
+import { buildStagePrompt, LEGACY_MODES, loadPipeline, PipelineStage } from "../_shared/pipelines.ts";
+import {
+  encodeTextEvent,
+  extractEditBlocks,
+  FILE_TOOLS,
+  formatProjectFiles,
+  ProjectFiles,
+  READ_ONLY_TOOLS,
+  runToolAgent,
+} from "../_shared/tools.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Step 1: Gemini ANALYZES all code (context window besar untuk membaca semua file)
-const GEMINI_ANALYZER_PROMPT = `Kamu adalah AI Code Analyzer dengan kemampuan membaca konteks yang sangat besar.
-
-TUGAS UTAMA:
-1. Baca dan pahami SELURUH kode yang diberikan
-2. Identifikasi masalah logika, bug, error, dan potensi perbaikan
-3. Analisis mendalam tentang apa yang salah dan mengapa
-4. Jelaskan lokasi exact dari masalah (file, line, function)
-
-FORMAT OUTPUT:
-## 🔍 Masalah Ditemukan
-- [Daftar masalah dengan lokasi spesifik]
-
-## 🎯 Root Cause
-- [Analisis penyebab utama]
-
-## 💡 Rekomendasi
-- [Langkah-langkah perbaikan yang diperlukan]
-
-Gunakan bahasa Indonesia yang jelas dan teknis.`;
-
-// Step 2: GPT-5 WRITES refined, efficient code fixes
-const GPT_REFINER_PROMPT = `Kamu adalah AI Code Refiner yang ahli menulis kode yang bersih dan efisien.
-
-TUGAS: Berdasarkan analisis yang diberikan, tulis kode perbaikan yang:
-1. Memperbaiki SEMUA masalah yang teridentifikasi
-2. Mengikuti best practices TypeScript/React
-3. Bersih, readable, dan well-documented
-4. Efficient dan maintainable
-
-FORMAT OUTPUT - WAJIB:
-Untuk setiap file yang perlu diubah, gunakan format EXACT ini:
-
-===FILE: path/to/file.tsx===
-\`\`\`tsx
-// Kode lengkap yang diperbaiki
-\`\`\`
-===END_FILE===
-
-PENTING:
-- Tulis kode LENGKAP, bukan snippet/potongan
-- Sertakan SEMUA import yang diperlukan
-- Pastikan kode langsung bisa dijalankan
-- Gunakan TypeScript strict mode
-- Gunakan Tailwind CSS untuk styling`;
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
 
-interface Message {
-  role: string;
-  content: string;
+// Satu tahap pipeline beserta provider dan model yang dipakai
+interface StageRuntime {
+  stage: PipelineStage;
+  adapter: ProviderAdapter;
+  credentials: ProviderCredentials;
+  model: string;
+  toolMode: boolean;
+  vision: boolean;
 }
 
-async function callLovableAI(
-  apiKey: string,
-  model: string,
-  systemPrompt: string,
-  messages: Message[]
-): Promise<string> {
-  console.log(`Calling Lovable AI: ${model}`);
-  
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        ...messages,
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error(`AI API error (${response.status}):`, error);
-    throw new Error(`AI API error: ${response.status}`);
+// Provider tanpa key jatuh ke Lovable AI, sama seperti fungsi chat
+async function prepareStage(
+  supabase: SupabaseClient,
+  stage: PipelineStage,
+  userId: string,
+  projectFiles: ProjectFiles | null
+): Promise<StageRuntime | null> {
+  let adapter = getProviderAdapter(stage.model.split("/")[0]) || PROVIDERS.lovable;
+  let credentials = await resolveProviderCredentials(supabase, adapter, userId);
+  let model = resolveModel(adapter, stage.model, credentials || undefined);
+
+  if (!credentials && adapter.id !== "lovable") {
+    console.log(`No ${adapter.name} API key for stage ${stage.name}, falling back to Lovable AI`);
+    adapter = PROVIDERS.lovable;
+    credentials = await resolveProviderCredentials(supabase, adapter);
+    model = adapter.defaultModel;
   }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || "";
+  if (!credentials) return null;
+
+  return {
+    stage,
+    adapter,
+    credentials,
+    model,
+    toolMode: !!projectFiles && supportsTools(adapter, model),
+    vision: supportsVision(adapter),
+  };
 }
 
 serve(async (req) => {
@@ -96,159 +93,161 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, currentCode, errorMessage, mode = "dual" } = await req.json();
+    const supabase = createServiceClient();
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY not configured");
-      return new Response(
-        JSON.stringify({ error: "Lovable AI not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Every pipeline run is billed to the signed-in caller
+    const user = await authenticateRequest(req, supabase);
+    if (!user) {
+      return unauthorizedResponse(corsHeaders);
+    }
+
+    const balance = await getCreditBalance(supabase, user.id);
+    if (balance <= 0) {
+      return insufficientCreditsResponse(corsHeaders, balance);
     }
 
-    // Models sesuai alur: Gemini analyze → GPT refine
-    const analyzerModel = "google/gemini-2.5-flash"; // Context window besar untuk analisis
-    const refinerModel = "openai/gpt-5"; // Menulis kode perbaikan
+    // pipeline: id atau slug preset; mode: nilai lama (dual, analyze-only, refine-only)
+    // files: seluruh proyek, dikirim klien untuk mode tool-calling
+    // messages: isi pesan boleh berupa bagian teks dan gambar
+    const { messages: incoming, currentCode, errorMessage, pipeline: pipelineRef, mode, files } = await req.json();
+    const projectFiles: ProjectFiles | null = files ? { ...files } : null;
+
+    const pipeline = await loadPipeline(supabase, pipelineRef || LEGACY_MODES[mode] || null);
+    if (!pipeline) {
+      return jsonResponse({ error: "Pipeline tidak ditemukan atau tidak aktif" }, 404);
+    }
+
+    const runtimes: StageRuntime[] = [];
+    for (const stage of pipeline.stages) {
+      const runtime = await prepareStage(supabase, stage, user.id, projectFiles);
+      if (!runtime) {
+        console.error(`No provider configured for stage ${stage.name}`);
+        return jsonResponse({ error: "Lovable AI not configured" }, 500);
+      }
+      runtimes.push(runtime);
+    }
+
+    // Gambar hanya diunduh bila ada tahap yang bisa membacanya
+    let messages: ProviderMessage[];
+    try {
+      messages = await resolveMessageImages(
+        supabase,
+        user.id,
+        incoming as IncomingMessage[],
+        runtimes.some((r) => r.vision)
+      );
+    } catch (error) {
+      if (!(error instanceof AttachmentError)) throw error;
+      return jsonResponse({ error: error.message }, error.status);
+    }
 
     const encoder = new TextEncoder();
 
     // Build context: Kode Saat Ini + Pesan Error + Instruksi User
     const userInstruction = messages[messages.length - 1]?.content || "Perbaiki kode ini";
-    const contextForAnalysis = `
+    const requestImages = messages[messages.length - 1]?.images || [];
+    // Pesan system dari klien (instruksi proyek, ringkasan percakapan) masuk ke
+    // system prompt setiap tahap; giliran lain menjadi riwayat percakapan
+    const earlier = messages.slice(0, -1);
+    const systemNotes = earlier
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const earlierTurns = earlier
+      .filter((m) => m.role !== "system")
+      .map((m) => `**${m.role}**: ${m.content}`)
+      .join("\n\n");
+    const requestContext = `
+${earlierTurns ? `## 💬 Percakapan Sebelumnya\n${earlierTurns}\n` : ""}
 ## 📝 Instruksi User
 ${userInstruction}
 
 ${errorMessage ? `## ❌ Pesan Error\n\`\`\`\n${errorMessage}\n\`\`\`` : ""}
 
-## 📁 Kode Saat Ini
-${currentCode || "Tidak ada kode yang diberikan"}
+${currentCode ? `## 📁 Kode Saat Ini\n${currentCode}` : ""}
 `;
 
-    // Single modes
-    if (mode === "analyze-only") {
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: analyzerModel,
-          messages: [
-            { role: "system", content: GEMINI_ANALYZER_PROMPT },
-            { role: "user", content: contextForAnalysis },
-          ],
-          stream: true,
-        }),
-      });
-
-      if (!response.ok) throw new Error("Analyzer AI failed");
-      return new Response(response.body, {
-        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-      });
-    }
-
-    if (mode === "refine-only") {
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: refinerModel,
-          messages: [
-            { role: "system", content: GPT_REFINER_PROMPT },
-            { role: "user", content: contextForAnalysis },
-          ],
-          stream: true,
-        }),
-      });
-
-      if (!response.ok) throw new Error("Refiner AI failed");
-      return new Response(response.body, {
-        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-      });
-    }
-
-    // ========================================
-    // DUAL MODE: Gemini Analyzes → GPT Refines
-    // ========================================
-    console.log("=== DUAL AI PIPELINE ===");
-    console.log("Step 1: Gemini 2.5 Flash (Analyzer)");
-    console.log("Step 2: GPT-5 (Refiner)");
+    console.log(`=== PIPELINE ${pipeline.slug} ===`);
+    runtimes.forEach((r, i) => console.log(`Step ${i + 1}: ${r.stage.name} (${r.adapter.name} ${r.model}${r.toolMode ? ", tools" : ""})`));
 
     const stream = new ReadableStream({
       async start(controller) {
-        try {
-          // === PHASE 1: GEMINI ANALYSIS ===
-          const phase1Header = "## 🔍 Fase 1: Analisis (Gemini)\n\n*Gemini membaca seluruh file dan mencari kesalahan logika...*\n\n";
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: phase1Header } }] })}\n\n`));
+        let charge: CreditCharge | null = null;
+        const addCharge = async (source: string, model: string, usage: TokenUsage) => {
+          const next = await debitCredits(supabase, user.id, source, model, usage);
+          charge = charge ? combineCharges(charge, next) : next;
+        };
+        const send = (text: string) => controller.enqueue(encoder.encode(encodeTextEvent(text)));
+
+        // One stage: an agent loop over the project in tool-calling mode,
+        // otherwise a single completion sent with a typing effect. Prose
+        // reaches the user only for streamed stages; file changes always do.
+        const runStage = async ({ stage, adapter, credentials, model, toolMode, vision }: StageRuntime, input: string) => {
+          const source = `dual-ai-generate:${stage.name}`;
+          const request: ProviderMessage = { role: "user", content: input, images: requestImages };
+          const messages = [
+            { role: "system", content: [buildStagePrompt(stage, toolMode), systemNotes].filter(Boolean).join("\n\n") },
+            ...(vision ? [request] : withoutImages([request])),
+          ];
+
+          if (toolMode) {
+            const result = await runToolAgent({
+              adapter,
+              credentials,
+              model,
+              messages,
+              files: projectFiles!,
+              tools: stage.edits ? FILE_TOOLS : READ_ONLY_TOOLS,
+              onText: stage.stream ? send : () => {},
+              onEdit: send,
+              onUsage: (usage) => addCharge(source, model, usage),
+            });
+            return result.content;
+          }
 
-          console.log("Calling Gemini for analysis...");
-          const analysis = await callLovableAI(
-            LOVABLE_API_KEY,
-            analyzerModel,
-            GEMINI_ANALYZER_PROMPT,
-            [{ role: "user", content: contextForAnalysis }]
-          );
-          console.log("Analysis complete, length:", analysis.length);
+          const result = await complete(adapter, credentials, { model, messages });
+          await addCharge(source, model, result.usage);
 
-          // Stream analysis dengan efek typing
+          const visible = stage.stream ? result.content : extractEditBlocks(result.content);
           const chunkSize = 30;
-          for (let i = 0; i < analysis.length; i += chunkSize) {
-            const chunk = analysis.slice(i, i + chunkSize);
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: chunk } }] })}\n\n`));
+          for (let i = 0; i < visible.length; i += chunkSize) {
+            send(visible.slice(i, i + chunkSize));
             await new Promise(r => setTimeout(r, 5));
           }
+          return result.content;
+        };
 
-          // === PHASE 2: GPT REFINEMENT ===
-          const phase2Header = "\n\n---\n\n## ✨ Fase 2: Perbaikan Kode (GPT-5)\n\n*GPT-5 menulis potongan kode perbaikan yang lebih efisien...*\n\n";
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: phase2Header } }] })}\n\n`));
-
-          // Build context untuk GPT dengan hasil analisis
-          const refineContext = `
-Berdasarkan analisis berikut, tulis kode perbaikan LENGKAP:
-
-## Hasil Analisis
-${analysis}
-
-## Kode Asli
-${currentCode || "Tidak ada kode"}
-
-## Instruksi User
-${userInstruction}
-
-Tulis kode perbaikan dengan format yang benar (===FILE: path===).
-`;
-
-          console.log("Calling GPT-5 for refinement...");
-          const refinedCode = await callLovableAI(
-            LOVABLE_API_KEY,
-            refinerModel,
-            GPT_REFINER_PROMPT,
-            [{ role: "user", content: refineContext }]
-          );
-          console.log("Refinement complete, length:", refinedCode.length);
-
-          // Stream refined code
-          for (let i = 0; i < refinedCode.length; i += chunkSize) {
-            const chunk = refinedCode.slice(i, i + chunkSize);
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: chunk } }] })}\n\n`));
-            await new Promise(r => setTimeout(r, 5));
+        try {
+          const outputs: { name: string; content: string }[] = [];
+
+          for (const [index, runtime] of runtimes.entries()) {
+            const { stage } = runtime;
+            if (index > 0) send("\n\n---\n\n");
+            send(stage.stream ? `## ${stage.name}\n\n` : `*${stage.name}...*\n\n`);
+
+            // Tanpa tools, model membaca proyek langsung dari prompt
+            const files = projectFiles && !runtime.toolMode ? `\n${formatProjectFiles(projectFiles)}\n` : "";
+            const previous = outputs.map((o) => `### ${o.name}\n${o.content}`).join("\n\n");
+            const input = `${requestContext}${files}${previous ? `\n## Hasil Tahap Sebelumnya\n${previous}\n` : ""}`;
+
+            console.log(`Running ${stage.name}...`);
+            const content = await runStage(runtime, input);
+            outputs.push({ name: stage.name, content });
+            console.log(`${stage.name} complete, length:`, content.length);
           }
 
           // === COMPLETE ===
-          const completeMsg = "\n\n---\n\n✅ **Dual AI Pipeline Selesai!** Kode telah dianalisis oleh Gemini dan diperbaiki oleh GPT-5.";
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: completeMsg } }] })}\n\n`));
+          send(`\n\n---\n\n✅ **${pipeline.name} Selesai!** ${runtimes.length} tahap dijalankan.`);
+          if (charge) controller.enqueue(encoder.encode(encodeCreditEvent(charge)));
 
           controller.enqueue(encoder.encode("data: [DONE]\n\n"));
           controller.close();
         } catch (error) {
-          console.error("Dual AI Pipeline error:", error);
+          console.error("Pipeline error:", error);
           const errorMsg = `\n\n❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`;
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: errorMsg } }] })}\n\n`));
+          send(errorMsg);
+          // Stages that finished are still billed
+          if (charge) controller.enqueue(encoder.encode(encodeCreditEvent(charge)));
           controller.enqueue(encoder.encode("data: [DONE]\n\n"));
           controller.close();
         }
@@ -260,9 +259,6 @@ Tulis kode perbaikan dengan format yang benar (===FILE: path===).
     });
   } catch (error) {
     console.error("Request error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
   }
 });
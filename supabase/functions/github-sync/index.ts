@@ -1,334 +1,312 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateRequest, createServiceClient, unauthorizedResponse } from "../_shared/credits.ts";
+import {
+  disconnectGitHub,
+  getGitHubToken,
+  getGitHubUser,
+  GitHubAuthError,
+  pollDeviceFlow,
+  startDeviceFlow,
+} from "../_shared/github-auth.ts";
+import {
+  assertRemoteHost,
+  createRemote,
+  githubApi,
+  githubRemote,
+  GitRemote,
+  GitRemoteConfig,
+  GitRemoteError,
+  loadRemoteConfig,
+  normalizeRemoteUrl,
+  REMOTE_PROVIDERS,
+  remoteSecretName,
+  repoNameFromUrl,
+} from "../_shared/git-remotes.ts";
+import { pullFromRemote, pushToRemote } from "../_shared/git-sync.ts";
+import { deleteUserSecret, getUserSecret, setUserSecret } from "../_shared/secrets.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface FileNode {
-  id: string;
-  name: string;
-  type: "file" | "folder";
-  content?: string;
-  children?: FileNode[];
+async function listRepositories(token: string) {
+  return await githubApi(token).json("/user/repos?per_page=100&sort=updated", {}, "Failed to list repositories");
 }
 
-function flattenFiles(files: FileNode[], basePath = ""): { path: string; content: string }[] {
-  const result: { path: string; content: string }[] = [];
-  
-  for (const file of files) {
-    const currentPath = basePath ? `${basePath}/${file.name}` : file.name;
-    
-    if (file.type === "file" && file.content !== undefined) {
-      result.push({ path: currentPath, content: file.content });
-    } else if (file.type === "folder" && file.children) {
-      result.push(...flattenFiles(file.children, currentPath));
-    }
-  }
-  
-  return result;
-}
-
-async function getDefaultBranch(token: string, repo: string): Promise<string> {
-  const response = await fetch(`https://api.github.com/repos/${repo}`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error("Failed to get repository info");
-  }
-
-  const data = await response.json();
-  return data.default_branch || "main";
+async function createRepository(token: string, name: string, isPrivate: boolean, description: string) {
+  return await githubApi(token).json(
+    "/user/repos",
+    { method: "POST", body: { name, private: isPrivate, auto_init: true, description } },
+    "Failed to create repository"
+  );
 }
 
-async function getLatestCommitSha(token: string, repo: string, branch: string): Promise<string> {
-  const response = await fetch(`https://api.github.com/repos/${repo}/git/ref/heads/${branch}`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
+// Point the repository's push webhook at github-webhook unless one already
+// does. Managing hooks needs admin access to the repository; without it the
+// project only hears of pushes if someone with access has set the hook up.
+async function ensurePushWebhook(token: string, repo: string): Promise<boolean> {
+  const secret = Deno.env.get("GITHUB_WEBHOOK_SECRET");
+  if (!secret) return false;
+
+  const api = githubApi(token);
+  const url = `${Deno.env.get("SUPABASE_URL")}/functions/v1/github-webhook`;
+  const response = await api.request(`/repos/${repo}/hooks?per_page=100`);
+  if (!response.ok) return false;
+  const hooks: { config?: { url?: string } }[] = await response.json();
+  if (hooks.some((hook) => hook.config?.url === url)) return true;
+
+  await api.json(
+    `/repos/${repo}/hooks`,
+    {
+      method: "POST",
+      body: { name: "web", active: true, events: ["push"], config: { url, content_type: "json", secret, insecure_ssl: "0" } },
     },
-  });
-
-  if (!response.ok) {
-    // If branch doesn't exist, try to get default
-    const defaultResponse = await fetch(`https://api.github.com/repos/${repo}/git/ref/heads/main`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: "application/vnd.github.v3+json",
-      },
-    });
-    
-    if (!defaultResponse.ok) {
-      throw new Error("Failed to get latest commit");
-    }
-    
-    const data = await defaultResponse.json();
-    return data.object.sha;
-  }
-
-  const data = await response.json();
-  return data.object.sha;
+    "Failed to create the push webhook"
+  );
+  return true;
 }
 
-async function createBlob(token: string, repo: string, content: string): Promise<string> {
-  const response = await fetch(`https://api.github.com/repos/${repo}/git/blobs`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      content: btoa(unescape(encodeURIComponent(content))),
-      encoding: "base64",
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error("Failed to create blob");
-  }
-
-  const data = await response.json();
-  return data.sha;
+async function ownsProject(supabase: SupabaseClient, userId: string, projectId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("id")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
 }
 
-async function createTree(
-  token: string, 
-  repo: string, 
-  baseTreeSha: string, 
-  files: { path: string; sha: string }[]
-): Promise<string> {
-  const tree = files.map((file) => ({
-    path: file.path,
-    mode: "100644" as const,
-    type: "blob" as const,
-    sha: file.sha,
-  }));
-
-  const response = await fetch(`https://api.github.com/repos/${repo}/git/trees`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      base_tree: baseTreeSha,
-      tree,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error("Failed to create tree");
-  }
+// Repository listing, creation and push webhooks use GitHub's own API
+const GITHUB_ONLY_ACTIONS = ["repos", "create-repo", "watch"];
 
-  const data = await response.json();
-  return data.sha;
-}
+const remoteStatus = (config: GitRemoteConfig) => ({
+  connected: true,
+  provider: config.provider,
+  username: config.username || config.repo,
+  remote: { url: config.url, repo: config.repo },
+});
 
-async function createCommit(
-  token: string, 
-  repo: string, 
-  message: string, 
-  treeSha: string, 
-  parentSha: string
-): Promise<string> {
-  const response = await fetch(`https://api.github.com/repos/${repo}/git/commits`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      message,
-      tree: treeSha,
-      parents: [parentSha],
-    }),
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
   });
 
-  if (!response.ok) {
-    throw new Error("Failed to create commit");
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
   }
 
-  const data = await response.json();
-  return data.sha;
-}
-
-async function updateRef(token: string, repo: string, branch: string, commitSha: string): Promise<void> {
-  const response = await fetch(`https://api.github.com/repos/${repo}/git/refs/heads/${branch}`, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      sha: commitSha,
-      force: true,
-    }),
-  });
+  try {
+    const supabase = createServiceClient();
+    const user = await authenticateRequest(req, supabase);
+    if (!user) {
+      return unauthorizedResponse(corsHeaders);
+    }
 
-  if (!response.ok) {
-    throw new Error("Failed to update reference");
-  }
-}
+    const body = await req.json();
+    const { action, repo, message, files } = body;
 
-async function pushToGitHub(
-  token: string, 
-  repo: string, 
-  message: string, 
-  files: FileNode[]
-): Promise<{ success: boolean; commitSha: string }> {
-  const branch = await getDefaultBranch(token, repo);
-  const latestCommitSha = await getLatestCommitSha(token, repo, branch);
-  
-  // Get base tree
-  const commitResponse = await fetch(`https://api.github.com/repos/${repo}/git/commits/${latestCommitSha}`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
-    },
-  });
-  
-  if (!commitResponse.ok) {
-    throw new Error("Failed to get commit info");
-  }
-  
-  const commitData = await commitResponse.json();
-  const baseTreeSha = commitData.tree.sha;
+    // Calls for a project use its own remote or GitHub connection when it has one
+    const projectId: string | null = body.projectId || null;
+    if (projectId && !(await ownsProject(supabase, user.id, projectId))) {
+      return jsonResponse({ error: "Project not found" }, 404);
+    }
 
-  // Flatten files and create blobs
-  const flatFiles = flattenFiles(files);
-  const blobPromises = flatFiles.map(async (file) => ({
-    path: file.path,
-    sha: await createBlob(token, repo, file.content),
-  }));
-  
-  const blobs = await Promise.all(blobPromises);
+    // Device flow sign-in. `scope: "project"` connects an account for this
+    // project only. Tokens are stored encrypted and never reach the client.
+    if (action === "device-start") {
+      if (body.scope === "project" && !projectId) {
+        return jsonResponse({ error: "A project is required for a project connection" }, 400);
+      }
+      return jsonResponse(await startDeviceFlow(supabase, user.id, body.scope === "project" ? projectId : null));
+    }
 
-  // Create tree
-  const treeSha = await createTree(token, repo, baseTreeSha, blobs);
+    if (action === "device-poll") {
+      return jsonResponse(await pollDeviceFlow(supabase, user.id));
+    }
 
-  // Create commit
-  const newCommitSha = await createCommit(token, repo, message, treeSha, latestCommitSha);
+    if (action === "disconnect") {
+      await disconnectGitHub(supabase, user.id, body.scope === "project" ? projectId : null);
+      return jsonResponse({ connected: false });
+    }
 
-  // Update ref
-  await updateRef(token, repo, branch, newCommitSha);
+    // GitLab, Gitea or a plain git server in place of GitHub, for one project.
+    // The credentials are checked against the server before they are stored.
+    if (action === "remote-connect") {
+      if (!projectId) {
+        return jsonResponse({ error: "A project is required to connect a remote" }, 400);
+      }
+      if (!REMOTE_PROVIDERS.includes(body.provider) || !body.url || !body.token) {
+        return jsonResponse({ error: "Provider, URL and token are required" }, 400);
+      }
+      const url = normalizeRemoteUrl(body.url);
+      await assertRemoteHost(url);
+      const config: GitRemoteConfig = {
+        provider: body.provider,
+        url,
+        repo: body.provider === "git" ? repoNameFromUrl(url) : String(body.repo || "").replace(/^\/+|\/+$/g, ""),
+        username: body.username?.trim() || null,
+      };
+      if (!config.repo) {
+        return jsonResponse({ error: "Repository path is required" }, 400);
+      }
 
-  return { success: true, commitSha: newCommitSha };
-}
+      await (await createRemote(config, body.token)).listBranches();
+      await setUserSecret(supabase, user.id, remoteSecretName(projectId), body.token);
+      const { error } = await supabase
+        .from("project_git_remotes")
+        .upsert({ project_id: projectId, ...config }, { onConflict: "project_id" });
+      if (error) throw error;
+      return jsonResponse(remoteStatus(config));
+    }
 
-async function pullFromGitHub(token: string, repo: string): Promise<FileNode[]> {
-  const branch = await getDefaultBranch(token, repo);
-  
-  // Get tree recursively
-  const response = await fetch(
-    `https://api.github.com/repos/${repo}/git/trees/${branch}?recursive=1`,
-    {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: "application/vnd.github.v3+json",
-      },
+    if (action === "remote-disconnect") {
+      if (!projectId) {
+        return jsonResponse({ error: "A project is required to disconnect a remote" }, 400);
+      }
+      const { error } = await supabase.from("project_git_remotes").delete().eq("project_id", projectId);
+      if (error) throw error;
+      await deleteUserSecret(supabase, user.id, remoteSecretName(projectId));
+      return jsonResponse({ connected: false });
     }
-  );
 
-  if (!response.ok) {
-    throw new Error("Failed to get repository tree");
-  }
+    let remote: GitRemote;
+    const remoteConfig = projectId ? await loadRemoteConfig(supabase, projectId) : null;
 
-  const data = await response.json();
-  const files: FileNode[] = [];
+    if (remoteConfig) {
+      const secret = await getUserSecret(supabase, user.id, remoteSecretName(projectId!));
+      if (action === "status") {
+        return jsonResponse(secret ? remoteStatus(remoteConfig) : { connected: false });
+      }
+      if (!secret) {
+        return jsonResponse({ error: "The remote's credentials are missing; connect it again" }, 400);
+      }
+      if (GITHUB_ONLY_ACTIONS.includes(action)) {
+        return jsonResponse({ error: `'${action}' is only available for GitHub` }, 400);
+      }
+      remote = await createRemote(remoteConfig, secret);
+    } else {
+      const credential = await getGitHubToken(supabase, user.id, projectId);
+      const token = credential?.token;
+
+      if (action === "status") {
+        const githubUser = token ? await getGitHubUser(token) : null;
+        return jsonResponse(
+          githubUser
+            ? {
+                connected: true,
+                provider: "github",
+                username: githubUser.login,
+                avatar_url: githubUser.avatar_url,
+                scope: credential!.scope,
+              }
+            : { connected: false }
+        );
+      }
 
-  // Filter and fetch file contents
-  const fileItems = data.tree.filter((item: any) => 
-    item.type === "blob" && 
-    !item.path.includes("node_modules") &&
-    !item.path.includes(".git") &&
-    item.size < 100000 // Skip large files
-  );
+      if (!token) {
+        return jsonResponse({ error: "GitHub is not connected" }, 400);
+      }
 
-  for (const item of fileItems.slice(0, 50)) { // Limit to 50 files
-    try {
-      const contentResponse = await fetch(
-        `https://api.github.com/repos/${repo}/contents/${item.path}?ref=${branch}`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            Accept: "application/vnd.github.v3+json",
-          },
-        }
-      );
+      if (action === "repos") {
+        return jsonResponse({ repositories: await listRepositories(token) });
+      }
 
-      if (contentResponse.ok) {
-        const contentData = await contentResponse.json();
-        if (contentData.encoding === "base64" && contentData.content) {
-          const content = decodeURIComponent(escape(atob(contentData.content.replace(/\n/g, ""))));
-          files.push({
-            id: item.path,
-            name: item.path.split("/").pop() || item.path,
-            type: "file",
-            content,
-          });
+      if (action === "create-repo") {
+        if (!body.name) {
+          return jsonResponse({ error: "Repository name is required" }, 400);
         }
+        const repository = await createRepository(token, body.name, body.private ?? true, body.description || "");
+        return jsonResponse({ repository });
       }
-    } catch (e) {
-      console.error(`Failed to fetch ${item.path}:`, e);
-    }
-  }
-
-  return files;
-}
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+      if (!repo) {
+        return jsonResponse({ error: "Repository is required" }, 400);
+      }
 
-  try {
-    const { action, token, repo, message, files } = await req.json();
+      if (action === "watch") {
+        // Record pushes to the repository for this project. Reading the
+        // repository first checks that the user may see its commits.
+        if (!projectId) {
+          return jsonResponse({ error: "A project is required to watch a repository" }, 400);
+        }
+        const repository = await githubApi(token).json(`/repos/${repo}`, {}, "Failed to get repository info");
+        const webhook = await ensurePushWebhook(token, repository.full_name);
+        const { error } = await supabase
+          .from("project_github_watches")
+          .upsert({ project_id: projectId, repo: repository.full_name }, { onConflict: "project_id" });
+        if (error) throw error;
+        return jsonResponse({ watching: true, webhook });
+      }
 
-    if (!token || !repo) {
-      return new Response(
-        JSON.stringify({ error: "Token and repository are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      remote = githubRemote(token, repo);
     }
 
     let result;
 
-    if (action === "push") {
+    if (action === "branches") {
+      const [defaultBranch, branches] = await Promise.all([remote.getDefaultBranch(), remote.listBranches()]);
+      result = { defaultBranch, branches };
+    } else if (action === "create-branch") {
+      if (!body.branch) {
+        return jsonResponse({ error: "Branch name is required" }, 400);
+      }
+      const from = body.from || (await remote.getDefaultBranch());
+      const sha = await remote.getBranchHead(from);
+      await remote.createBranch(body.branch, sha);
+      result = { branch: { name: body.branch, sha, protected: false } };
+    } else if (action === "push") {
       if (!message || !files) {
-        return new Response(
-          JSON.stringify({ error: "Message and files are required for push" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "Message and files are required for push" }, 400);
       }
-      result = await pushToGitHub(token, repo, message, files);
+      result = await pushToRemote(remote, message, files, { branch: body.branch, expectedSha: body.expectedSha });
+    } else if (action === "pull-request") {
+      // Push the project to a new branch cut from `base` and open a PR into it
+      if (!message || !files || !body.branch || !body.title) {
+        return jsonResponse({ error: "Message, files, branch and title are required for a pull request" }, 400);
+      }
+      if (!remote.createPullRequest) {
+        return jsonResponse({ error: `${remote.name} is a plain git server without pull requests` }, 400);
+      }
+      const base = body.base || (await remote.getDefaultBranch());
+      await remote.createBranch(body.branch, body.baseSha || (await remote.getBranchHead(base)));
+      const push = await pushToRemote(remote, message, files, {
+        branch: body.branch,
+        expectedSha: body.baseSha,
+      });
+      const pullRequest = await remote.createPullRequest({
+        head: body.branch,
+        base,
+        title: body.title,
+        body: body.body,
+      });
+      result = { ...push, pullRequest };
     } else if (action === "pull") {
-      const pulledFiles = await pullFromGitHub(token, repo);
-      result = { success: true, files: pulledFiles };
+      result = { success: true, ...(await pullFromRemote(remote, { branch: body.branch, baseSha: body.baseSha })) };
     } else {
-      return new Response(
-        JSON.stringify({ error: "Invalid action. Use 'push' or 'pull'" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      return jsonResponse(
+        {
+          error:
+            "Invalid action. Use 'device-start', 'device-poll', 'disconnect', 'remote-connect', 'remote-disconnect', 'status', 'repos', 'create-repo', 'watch', 'branches', 'create-branch', 'push', 'pull-request' or 'pull'",
+        },
+        400
       );
     }
 
-    return new Response(
-      JSON.stringify(result),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse(result);
   } catch (error: unknown) {
+    if (error instanceof GitRemoteError) {
+      return jsonResponse({ error: error.message, ...error.details }, error.status);
+    }
+    if (error instanceof GitHubAuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
     console.error("GitHub sync error:", error);
     const errorMessage = error instanceof Error ? error.message : "Internal server error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: errorMessage }, 500);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,159 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createServiceClient } from "../_shared/credits.ts";
+
+// Receives GitHub push webhooks (set up by github-sync's "watch" action) and
+// records each push for the projects watching the repository. The editor
+// picks the rows up over realtime and offers to merge.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Pushes are kept this long; the editor only needs the ones since its last sync
+const RETENTION_DAYS = 30;
+const MAX_MESSAGE_LENGTH = 500;
+
+interface PushCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  url: string;
+  author?: { name?: string; username?: string };
+}
+
+interface PushPayload {
+  ref: string;
+  before: string;
+  after: string;
+  created: boolean;
+  deleted: boolean;
+  forced: boolean;
+  commits?: PushCommit[];
+  pusher?: { name?: string };
+  repository: { full_name: string; default_branch: string };
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+// X-Hub-Signature-256 is the HMAC-SHA256 of the raw body. crypto.subtle.verify
+// compares in constant time.
+async function verifySignature(secret: string, payload: string, header: string | null): Promise<boolean> {
+  const signature = header?.startsWith("sha256=") ? hexToBytes(header.slice("sha256=".length)) : null;
+  if (!signature) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  return await crypto.subtle.verify("HMAC", key, signature, encoder.encode(payload));
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const secret = Deno.env.get("GITHUB_WEBHOOK_SECRET");
+    if (!secret) {
+      return jsonResponse({ error: "Webhooks are not configured" }, 503);
+    }
+
+    const payload = await req.text();
+    if (!(await verifySignature(secret, payload, req.headers.get("x-hub-signature-256")))) {
+      return jsonResponse({ error: "Invalid signature" }, 401);
+    }
+
+    const event = req.headers.get("x-github-event");
+    const deliveryId = req.headers.get("x-github-delivery");
+    if (event === "ping") {
+      return jsonResponse({ ok: true });
+    }
+    if (event !== "push" || !deliveryId) {
+      return jsonResponse({ ignored: event });
+    }
+
+    const push: PushPayload = JSON.parse(payload);
+    // Tags and deleted branches have nothing to merge
+    if (!push.ref.startsWith("refs/heads/") || push.deleted) {
+      return jsonResponse({ ignored: push.ref });
+    }
+
+    const supabase = createServiceClient();
+    const repo = push.repository.full_name;
+
+    // The watch proves the owner could read the repository; the project must
+    // also still be linked to it
+    const { data: watches, error: watchError } = await supabase
+      .from("project_github_watches")
+      .select("project_id, projects!inner(github_repo)")
+      .eq("repo", repo);
+    if (watchError) throw watchError;
+
+    // project_id references one project, so PostgREST embeds an object
+    const linked = (watches ?? []) as unknown as { project_id: string; projects: { github_repo: string | null } }[];
+    const projectIds = linked.filter((watch) => watch.projects.github_repo === repo).map((watch) => watch.project_id);
+    if (projectIds.length === 0) {
+      return jsonResponse({ recorded: 0 });
+    }
+
+    const commits = (push.commits ?? []).map((commit) => ({
+      id: commit.id,
+      message: commit.message.slice(0, MAX_MESSAGE_LENGTH),
+      author: commit.author?.username || commit.author?.name || null,
+      timestamp: commit.timestamp,
+      url: commit.url,
+    }));
+
+    const { error: insertError } = await supabase.from("github_push_events").upsert(
+      projectIds.map((projectId: string) => ({
+        project_id: projectId,
+        delivery_id: deliveryId,
+        repo,
+        branch: push.ref.slice("refs/heads/".length),
+        default_branch: push.repository.default_branch,
+        before_sha: push.before,
+        after_sha: push.after,
+        commits,
+        commit_count: commits.length,
+        forced: push.forced,
+        pusher: push.pusher?.name || null,
+      })),
+      { onConflict: "project_id,delivery_id", ignoreDuplicates: true }
+    );
+    if (insertError) throw insertError;
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { error: pruneError } = await supabase
+      .from("github_push_events")
+      .delete()
+      .in("project_id", projectIds)
+      .lt("created_at", cutoff);
+    if (pruneError) console.error("Failed to prune push events:", pruneError);
+
+    return jsonResponse({ recorded: projectIds.length });
+  } catch (error: unknown) {
+    console.error("GitHub webhook error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Internal server error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
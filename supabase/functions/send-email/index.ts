@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { getAppSetting } from "../_shared/settings.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -16,17 +17,6 @@ interface EmailRequest {
   variables?: Record<string, string>;
 }
 
-interface SmtpConfig {
-  enabled: boolean;
-  host: string;
-  port: number;
-  username: string;
-  password: string;
-  from_email: string;
-  from_name: string;
-  encryption: 'none' | 'tls' | 'starttls';
-}
-
 interface EmailTemplate {
   name: string;
   subject: string;
@@ -56,22 +46,15 @@ const handler = async (req: Request): Promise<Response> => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Get SMTP configuration from database
-    const { data: smtpData, error: smtpError } = await supabase
-      .from("api_keys")
-      .select("key_value")
-      .eq("key_name", "smtp_config")
-      .single();
-
-    if (smtpError || !smtpData) {
-      console.error("SMTP config error:", smtpError);
+    const smtpConfig = await getAppSetting(supabase, "smtp_config");
+
+    if (!smtpConfig) {
       return new Response(
         JSON.stringify({ error: "SMTP configuration not found" }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
-    const smtpConfig: SmtpConfig = JSON.parse(smtpData.key_value);
-
     if (!smtpConfig.enabled) {
       console.log("SMTP is disabled, skipping email");
       return new Response(
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  authenticateRequest,
+  createServiceClient,
+  debitCredits,
+  getCreditBalance,
+  insufficientCreditsResponse,
+  unauthorizedResponse,
+} from "../_shared/credits.ts";
+import { complete, PROVIDERS, ProviderRequestError, resolveProviderCredentials } from "../_shared/providers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Summaries only need to carry decisions forward, so the cheapest model does
+const SUMMARY_MODEL = "google/gemini-2.5-flash-lite";
+const MAX_SUMMARY_TOKENS = 1024;
+
+const SUMMARY_PROMPT = `You maintain the running memory of a conversation between a developer and an AI code assistant working on a web project.
+
+Merge the previous summary (if any) with the new turns into one updated summary. Keep:
+- What the developer asked for and the decisions that were made
+- Which files were created, changed, renamed or deleted, and why
+- Open problems, errors still being fixed, and stated preferences
+
+Do not include file contents or code; the assistant always receives the latest files separately. Write terse bullet points, at most 400 words, in the language the developer uses.`;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await authenticateRequest(req, supabase);
+    if (!user) {
+      return unauthorizedResponse(corsHeaders);
+    }
+
+    const balance = await getCreditBalance(supabase, user.id);
+    if (balance <= 0) {
+      return insufficientCreditsResponse(corsHeaders, balance);
+    }
+
+    const { summary, messages } = await req.json();
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return jsonResponse({ error: "No messages to summarize" }, 400);
+    }
+
+    const credentials = await resolveProviderCredentials(supabase, PROVIDERS.lovable);
+    if (!credentials) {
+      return jsonResponse({ error: "Lovable AI not configured" }, 500);
+    }
+
+    const transcript = messages
+      .map((m: { role: string; content: string }) => `### ${m.role === "user" ? "Developer" : "Assistant"}\n${m.content}`)
+      .join("\n\n");
+    const input = `## Previous summary\n${summary || "(none)"}\n\n## New turns\n${transcript}`;
+
+    const result = await complete(PROVIDERS.lovable, credentials, {
+      model: SUMMARY_MODEL,
+      messages: [
+        { role: "system", content: SUMMARY_PROMPT },
+        { role: "user", content: input },
+      ],
+      temperature: 0.2,
+      maxTokens: MAX_SUMMARY_TOKENS,
+    });
+
+    const credits = await debitCredits(supabase, user.id, "summarize-conversation", SUMMARY_MODEL, result.usage);
+    console.log(`Summarized ${messages.length} message(s) for user ${user.id}`);
+
+    return jsonResponse({ summary: result.content.trim(), credits });
+  } catch (error) {
+    console.error("Summarize function error:", error);
+    const status = error instanceof ProviderRequestError && error.status === 429 ? 429 : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, status);
+  }
+});
@@ -1,253 +1,141 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateRequest, createServiceClient, unauthorizedResponse } from "../_shared/credits.ts";
+import { complete, getProviderAdapter, PROVIDERS, ProviderRequestError, resolveModel } from "../_shared/providers.ts";
+import { assertPublicUrl, PublicUrlError } from "../_shared/public-url.ts";
+import { getAppSetting } from "../_shared/settings.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Turn a provider's error body into a message an admin can act on. Only
+// fixed messages go back; the provider's own text is logged, not returned.
+function describeProviderError(provider: string, errorData: string): string {
+  if (errorData.includes("API_KEY_INVALID")) {
+    return "Invalid API key. Please check your Gemini API key.";
+  }
+  if (errorData.includes("PERMISSION_DENIED")) {
+    return "Permission denied. Please enable the Generative Language API.";
+  }
+  if (errorData.includes("QUOTA_EXCEEDED")) {
+    return "API quota exceeded. Please check your usage limits.";
+  }
+
+  try {
+    const parsed = JSON.parse(errorData);
+    if (parsed.error?.code === "invalid_api_key") {
+      return `Invalid API key. Please check your ${provider} API key.`;
+    }
+    if (parsed.error?.code === "insufficient_quota") {
+      return `Insufficient quota. Please check your ${provider} billing.`;
+    }
+  } catch {
+    // Use default error message
+  }
+
+  return "Invalid API key or API error";
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { provider, apiKey } = await req.json();
+    const supabase = createServiceClient();
+    const user = await authenticateRequest(req, supabase);
+    if (!user) {
+      return unauthorizedResponse(corsHeaders);
+    }
 
-    if (!apiKey || !provider) {
+    const { data: isAdmin, error: roleError } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (roleError) throw new Error(`Failed to check role: ${roleError.message}`);
+    if (!isAdmin) {
       return new Response(
-        JSON.stringify({ success: false, error: "API key and provider are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: false, error: "Only admins can test provider keys" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log(`Testing ${provider} API key...`);
-
-    if (provider === "gemini") {
-      // Test Gemini API with a simple request
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [
-              {
-                role: "user",
-                parts: [{ text: "Say 'API key is valid' in exactly those words." }],
-              },
-            ],
-            generationConfig: {
-              maxOutputTokens: 20,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error("Gemini API error:", errorData);
-        
-        let errorMessage = "Invalid API key or API error";
-        if (errorData.includes("API_KEY_INVALID")) {
-          errorMessage = "Invalid API key. Please check your Gemini API key.";
-        } else if (errorData.includes("PERMISSION_DENIED")) {
-          errorMessage = "Permission denied. Please enable the Generative Language API.";
-        } else if (errorData.includes("QUOTA_EXCEEDED")) {
-          errorMessage = "API quota exceeded. Please check your usage limits.";
-        }
-        
-        return new Response(
-          JSON.stringify({ success: false, error: errorMessage }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      const data = await response.json();
-      const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-      
-      console.log("Gemini response:", responseText);
+    const { provider, apiKey, baseUrl, model } = await req.json();
+    const adapter = getProviderAdapter(provider);
 
+    if (!adapter || adapter.keyEnv) {
+      const supported = Object.values(PROVIDERS)
+        .filter((p) => !p.keyEnv)
+        .map((p) => `'${p.id}'`)
+        .join(", ");
       return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: "Gemini API key is valid!",
-          model: "gemini-1.5-flash",
-          response: responseText.substring(0, 100)
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: false, error: `Unknown provider. Use one of ${supported}.` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
+    }
 
-    } else if (provider === "openai") {
-      // Test OpenAI API
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [
-            { role: "user", content: "Say 'API key is valid' in exactly those words." }
-          ],
-          max_tokens: 20,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error("OpenAI API error:", errorData);
-        
-        let errorMessage = "Invalid API key or API error";
-        try {
-          const parsed = JSON.parse(errorData);
-          if (parsed.error?.code === "invalid_api_key") {
-            errorMessage = "Invalid API key. Please check your OpenAI API key.";
-          } else if (parsed.error?.code === "insufficient_quota") {
-            errorMessage = "Insufficient quota. Please check your OpenAI billing.";
-          } else if (parsed.error?.message) {
-            errorMessage = parsed.error.message;
-          }
-        } catch (e) {
-          // Use default error message
-        }
-        
-        return new Response(
-          JSON.stringify({ success: false, error: errorMessage }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      const data = await response.json();
-      const responseText = data.choices?.[0]?.message?.content || "";
-      
-      console.log("OpenAI response:", responseText);
-
+    // Custom endpoints need a base URL; the key is optional for local servers
+    const isCustom = adapter.id === "custom";
+    if (isCustom ? !baseUrl : !apiKey) {
       return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: "OpenAI API key is valid!",
-          model: data.model || "gpt-4o-mini",
-          response: responseText.substring(0, 100)
+        JSON.stringify({
+          success: false,
+          error: isCustom ? "Base URL is required" : "API key and provider are required",
         }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
+    }
 
-    } else if (provider === "deepseek") {
-      // Test DeepSeek API (OpenAI-compatible)
-      const response = await fetch("https://api.deepseek.com/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [
-            { role: "user", content: "Say 'API key is valid' in exactly those words." }
-          ],
-          max_tokens: 20,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error("DeepSeek API error:", errorData);
-        
-        let errorMessage = "Invalid API key or API error";
-        try {
-          const parsed = JSON.parse(errorData);
-          if (parsed.error?.message) {
-            errorMessage = parsed.error.message;
-          }
-        } catch (e) {
-          // Use default error message
-        }
-        
+    // The saved endpoint may be on the local network (e.g. Ollama); a URL that
+    // has not been saved yet must be a public https one
+    if (isCustom && baseUrl.trim() !== (await getAppSetting(supabase, "custom_openai_base_url"))) {
+      try {
+        await assertPublicUrl(baseUrl);
+      } catch (error) {
+        if (!(error instanceof PublicUrlError)) throw error;
         return new Response(
-          JSON.stringify({ success: false, error: errorMessage }),
+          JSON.stringify({ success: false, error: `${error.message}. Save the endpoint first to test a local server.` }),
           { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
+    }
 
-      const data = await response.json();
-      const responseText = data.choices?.[0]?.message?.content || "";
-      
-      console.log("DeepSeek response:", responseText);
+    console.log(`Testing ${provider} API key...`);
 
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: "DeepSeek API key is valid!",
-          model: data.model || "deepseek-chat",
-          response: responseText.substring(0, 100)
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const credentials = { apiKey: apiKey || null, baseUrl: isCustom ? baseUrl.trim() : adapter.baseUrl, models: model ? [model] : [] };
+    const testModel = resolveModel(adapter, model, credentials);
 
-    } else if (provider === "groq") {
-      // Test Groq API (OpenAI-compatible)
-      const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "llama-3.3-70b-versatile",
-          messages: [
-            { role: "user", content: "Say 'API key is valid' in exactly those words." }
-          ],
-          max_tokens: 20,
-        }),
+    try {
+      const result = await complete(adapter, credentials, {
+        model: testModel,
+        messages: [{ role: "user", content: "Say 'API key is valid' in exactly those words." }],
+        maxTokens: 20,
       });
 
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error("Groq API error:", errorData);
-        
-        let errorMessage = "Invalid API key or API error";
-        try {
-          const parsed = JSON.parse(errorData);
-          if (parsed.error?.message) {
-            errorMessage = parsed.error.message;
-          }
-        } catch (e) {
-          // Use default error message
-        }
-        
-        return new Response(
-          JSON.stringify({ success: false, error: errorMessage }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      const data = await response.json();
-      const responseText = data.choices?.[0]?.message?.content || "";
-      
-      console.log("Groq response:", responseText);
+      console.log(`${adapter.name} response:`, result.content);
 
       return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: "Groq API key is valid!",
-          model: data.model || "llama-3.3-70b-versatile",
-          response: responseText.substring(0, 100)
+        JSON.stringify({
+          success: true,
+          message: isCustom ? "Custom endpoint is reachable!" : `${adapter.name} API key is valid!`,
+          model: testModel,
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
+    } catch (error) {
+      if (!(error instanceof ProviderRequestError)) throw error;
 
-    } else {
+      console.error(`${adapter.name} API error:`, error.body);
+      const message = isCustom
+        ? `The endpoint answered with HTTP ${error.status}`
+        : describeProviderError(adapter.name, error.body);
       return new Response(
-        JSON.stringify({ success: false, error: "Unknown provider. Use 'gemini', 'openai', 'deepseek', or 'groq'." }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: false, error: message }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
-
   } catch (error) {
     console.error("Test API key error:", error);
     return new Response(
-      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Unknown error" }),
+      JSON.stringify({ success: false, error: "The test request failed" }),
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
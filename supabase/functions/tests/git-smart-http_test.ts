@@ -0,0 +1,236 @@
+// The plain git remote against a bare repository served over smart HTTP by
+// `git http-backend`, so pushes, pulls and branches go through the real git
+// protocol. Needs the git CLI. Run with:
+//   deno test --allow-all supabase/functions/tests
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createRemote, GitRemoteConfig, GitRemoteError } from "../_shared/git-remotes.ts";
+
+const USERNAME = "sync";
+const PASSWORD = "secret-token";
+const REPO = "team/app.git";
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const GIT_ENV = {
+  GIT_AUTHOR_NAME: "Someone Else",
+  GIT_AUTHOR_EMAIL: "someone@example.test",
+  GIT_COMMITTER_NAME: "Someone Else",
+  GIT_COMMITTER_EMAIL: "someone@example.test",
+};
+
+async function git(args: string[], cwd?: string): Promise<string> {
+  const { code, stdout, stderr } = await new Deno.Command("git", { args, cwd, env: GIT_ENV }).output();
+  if (code !== 0) throw new Error(`git ${args.join(" ")} failed: ${decoder.decode(stderr)}`);
+  return decoder.decode(stdout).trim();
+}
+
+// A CGI response: headers (with an optional Status), a blank line, the body
+function cgiResponse(output: Uint8Array): Response {
+  let split = 0;
+  while (split < output.length && !(output[split] === 10 && (output[split + 1] === 10 || output[split + 1] === 13))) {
+    split++;
+  }
+  const bodyStart = output[split + 1] === 13 ? split + 3 : split + 2;
+  const headers = new Headers();
+  let status = 200;
+  for (const line of decoder.decode(output.subarray(0, split)).split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const name = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    if (name.toLowerCase() === "status") status = parseInt(value, 10);
+    else headers.append(name, value);
+  }
+  return new Response(output.subarray(bodyStart), { status, headers });
+}
+
+// A bare repository with one commit on main, served by git http-backend
+// behind basic auth
+async function gitServer() {
+  const root = await Deno.makeTempDir({ prefix: "git-smart-http-" });
+  const bare = `${root}/${REPO}`;
+  await git(["init", "--quiet", "--bare", "--initial-branch=main", bare]);
+  await git(["config", "http.receivepack", "true"], bare);
+
+  const work = `${root}/work`;
+  await git(["clone", "--quiet", bare, work]);
+  await Deno.writeTextFile(`${work}/README.md`, "# App\n");
+  await Deno.mkdir(`${work}/bin`);
+  await Deno.writeTextFile(`${work}/bin/run.sh`, "#!/bin/sh\necho run\n");
+  await Deno.chmod(`${work}/bin/run.sh`, 0o755);
+  await git(["add", "."], work);
+  await git(["commit", "--quiet", "-m", "Initial commit"], work);
+  await git(["push", "--quiet", "origin", "main"], work);
+
+  const expectedAuth = `Basic ${btoa(`${USERNAME}:${PASSWORD}`)}`;
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen() {} }, async (req) => {
+    if (req.headers.get("Authorization") !== expectedAuth) {
+      return new Response(null, { status: 401, headers: { "WWW-Authenticate": 'Basic realm="git"' } });
+    }
+    const url = new URL(req.url);
+    const body = new Uint8Array(await req.arrayBuffer());
+    const child = new Deno.Command("git", {
+      args: ["http-backend"],
+      env: {
+        GIT_PROJECT_ROOT: root,
+        GIT_HTTP_EXPORT_ALL: "1",
+        PATH_INFO: decodeURIComponent(url.pathname),
+        REQUEST_METHOD: req.method,
+        QUERY_STRING: url.search.slice(1),
+        CONTENT_TYPE: req.headers.get("Content-Type") ?? "",
+        CONTENT_LENGTH: String(body.length),
+        REMOTE_USER: USERNAME,
+        REMOTE_ADDR: "127.0.0.1",
+      },
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "null",
+    }).spawn();
+    const writer = child.stdin.getWriter();
+    await writer.write(body);
+    await writer.close();
+    const { stdout } = await child.output();
+    return cgiResponse(stdout);
+  });
+
+  const config: GitRemoteConfig = {
+    provider: "git",
+    url: `http://127.0.0.1:${server.addr.port}/${REPO}`,
+    repo: "team/app",
+    username: USERNAME,
+  };
+
+  return {
+    config,
+    bare,
+    work,
+    // A commit pushed by someone else, straight to the bare repository
+    async pushElsewhere(path: string, content: string) {
+      await git(["pull", "--quiet", "--ff-only", "origin", "main"], work);
+      await Deno.writeTextFile(`${work}/${path}`, content);
+      await git(["add", path], work);
+      await git(["commit", "--quiet", "-m", `Update ${path}`], work);
+      await git(["push", "--quiet", "origin", "main"], work);
+      return await git(["rev-parse", "HEAD"], work);
+    },
+    async close() {
+      await server.shutdown();
+      await Deno.remove(root, { recursive: true });
+    },
+  };
+}
+
+Deno.test("plain git remote over smart HTTP", async (t) => {
+  Deno.env.set("GIT_REMOTE_ALLOW_HTTP", "true");
+  Deno.env.set("GIT_REMOTE_ALLOW_PRIVATE_HOSTS", "true");
+  const server = await gitServer();
+  const headOf = (branch: string) => git(["rev-parse", `refs/heads/${branch}`], server.bare);
+
+  try {
+    await t.step("pulls the default branch and its files", async () => {
+      const remote = await createRemote(server.config, PASSWORD);
+      assertEquals(await remote.getDefaultBranch(), "main");
+
+      const main = await headOf("main");
+      assertEquals(await remote.listBranches(), [{ name: "main", sha: main, protected: false }]);
+      assertEquals(await remote.getBranchHead("main"), main);
+
+      const tree = await remote.getTree(main);
+      assertEquals([...tree.keys()].sort(), ["README.md", "bin/run.sh"]);
+      assertEquals(tree.get("bin/run.sh")?.mode, "100755");
+      assertEquals(decoder.decode(await remote.readBlob(tree.get("README.md")!)), "# App\n");
+      assertEquals(await remote.blobSize(main, tree.get("README.md")!), 6);
+    });
+
+    await t.step("pushes a commit on top of the branch", async () => {
+      const remote = await createRemote(server.config, PASSWORD);
+      const parent = await remote.getBranchHead("main");
+      const tree = await remote.getTree(parent);
+
+      const sha = await remote.commit("main", parent, "Update from the editor", [
+        { path: "src/app.ts", mode: "100644", bytes: encoder.encode("export {};\n") },
+        { path: "README.md", mode: "100644", bytes: null, previous: tree.get("README.md") },
+        {
+          path: "bin/run.sh",
+          mode: "100644",
+          bytes: encoder.encode(""),
+          previous: tree.get("bin/run.sh"),
+          modeOnly: true,
+        },
+      ]);
+
+      assertEquals(await headOf("main"), sha);
+      assertEquals(await git(["log", "-1", "--format=%s%n%P", sha], server.bare), `Update from the editor\n${parent}`);
+      assertEquals(await git(["show", `${sha}:src/app.ts`], server.bare), "export {};");
+      assertEquals(
+        await git(["ls-tree", "-r", "--format=%(objectmode) %(path)", sha], server.bare),
+        "100644 bin/run.sh\n100644 src/app.ts"
+      );
+    });
+
+    await t.step("creates a branch and commits to it", async () => {
+      const remote = await createRemote(server.config, PASSWORD);
+      const main = await remote.getBranchHead("main");
+      await remote.createBranch("feature/login", main);
+      assertEquals(await headOf("feature/login"), main);
+
+      const sha = await remote.commit("feature/login", main, "Add login", [
+        { path: "src/login.ts", mode: "100644", bytes: encoder.encode("export const login = true;\n") },
+      ]);
+      assertEquals(await headOf("feature/login"), sha);
+      assertEquals(await headOf("main"), main);
+
+      const error = await assertRejects(() => remote.createBranch("feature/login", main), GitRemoteError);
+      assertEquals((error as GitRemoteError).status, 409);
+    });
+
+    await t.step("sees commits pushed by others", async () => {
+      const pushed = await server.pushElsewhere("NOTES.md", "notes\n");
+      const remote = await createRemote(server.config, PASSWORD);
+      assertEquals(await remote.getBranchHead("main"), pushed);
+      const tree = await remote.getTree(pushed);
+      assertEquals(decoder.decode(await remote.readBlob(tree.get("NOTES.md")!)), "notes\n");
+    });
+
+    await t.step("refuses to push on top of a stale head", async () => {
+      const remote = await createRemote(server.config, PASSWORD);
+      const parent = await remote.getBranchHead("main");
+      const late = [{ path: "late.txt", mode: "100644" as const, bytes: encoder.encode("x") }];
+      const moved = await server.pushElsewhere("NOTES.md", "more notes\n");
+
+      // The server rejects the non-fast-forward push
+      const rejected = await assertRejects(() => remote.commit("main", parent, "Late edit", late), GitRemoteError);
+      assertEquals((rejected as GitRemoteError).status, 409);
+      assertEquals(await headOf("main"), moved);
+
+      // A fresh remote sees the new head before pushing anything
+      const fresh = await createRemote(server.config, PASSWORD);
+      const stale = await assertRejects(() => fresh.commit("main", parent, "Late edit", late), GitRemoteError);
+      assertEquals((stale as GitRemoteError).status, 409);
+      assertEquals(await headOf("main"), moved);
+    });
+
+    await t.step("reports wrong credentials", async () => {
+      const remote = await createRemote(server.config, "wrong-token");
+      const error = await assertRejects(() => remote.listBranches(), GitRemoteError);
+      assertEquals((error as GitRemoteError).status, 401);
+    });
+
+    await t.step("refuses the server's own network unless allowed", async () => {
+      Deno.env.delete("GIT_REMOTE_ALLOW_PRIVATE_HOSTS");
+      try {
+        const remote = await createRemote(server.config, PASSWORD);
+        const error = await assertRejects(() => remote.listBranches(), GitRemoteError, "not a public address");
+        assertEquals((error as GitRemoteError).status, 400);
+      } finally {
+        Deno.env.set("GIT_REMOTE_ALLOW_PRIVATE_HOSTS", "true");
+      }
+      assert((await (await createRemote(server.config, PASSWORD)).listBranches()).length > 0);
+    });
+  } finally {
+    await server.close();
+    Deno.env.delete("GIT_REMOTE_ALLOW_HTTP");
+    Deno.env.delete("GIT_REMOTE_ALLOW_PRIVATE_HOSTS");
+  }
+});
@@ -0,0 +1,125 @@
+// Pushes and pulls of github-sync against an in-memory remote, mostly which
+// paths take part. Run with:
+//   deno test --allow-all supabase/functions/tests
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { FileWrite, GitRemote, TreeEntry } from "../_shared/git-remotes.ts";
+import { FileNode, isSyncedPath, pullFromRemote, pushToRemote } from "../_shared/git-sync.ts";
+
+const HEAD = "1111111111111111111111111111111111111111";
+const CREATED = "2222222222222222222222222222222222222222";
+
+const encoder = new TextEncoder();
+
+// The object id git gives a blob
+async function blobSha(bytes: Uint8Array): Promise<string> {
+  const object = new Uint8Array([...encoder.encode(`blob ${bytes.length}\0`), ...bytes]);
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-1", object));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// A branch "main" at HEAD holding `files`; commits are recorded, not applied
+async function memoryRemote(files: Record<string, string>) {
+  const blobs = new Map<string, Uint8Array>();
+  const tree = new Map<string, TreeEntry>();
+  for (const [path, content] of Object.entries(files)) {
+    const bytes = encoder.encode(content);
+    const sha = await blobSha(bytes);
+    blobs.set(sha, bytes);
+    tree.set(path, { path, sha, mode: "100644", size: content.length });
+  }
+
+  const commits: FileWrite[][] = [];
+  const remote: GitRemote = {
+    provider: "git",
+    name: "team/app",
+    fileModes: true,
+    getDefaultBranch: () => Promise.resolve("main"),
+    listBranches: () => Promise.resolve([{ name: "main", sha: HEAD, protected: false }]),
+    getBranchHead: () => Promise.resolve(HEAD),
+    createBranch: () => Promise.resolve(),
+    getTree: (commitSha) => Promise.resolve(commitSha === HEAD ? new Map(tree) : new Map()),
+    blobSize: (_commitSha, entry) => Promise.resolve(entry.size ?? 0),
+    readBlob: (entry) => Promise.resolve(blobs.get(entry.sha)!),
+    commit: (_branch, _parentSha, _message, writes) => {
+      commits.push(writes);
+      return Promise.resolve(CREATED);
+    },
+  };
+  return { remote, commits };
+}
+
+// A FileNode tree from paths
+function fileTree(files: Record<string, string>): FileNode[] {
+  const root: FileNode[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    const parts = path.split("/");
+    let level = root;
+    parts.slice(0, -1).forEach((name, index) => {
+      let folder = level.find((node) => node.name === name && node.type === "folder");
+      if (!folder) {
+        folder = { id: parts.slice(0, index + 1).join("/"), name, type: "folder", children: [] };
+        level.push(folder);
+      }
+      level = folder.children!;
+    });
+    level.push({ id: path, name: parts[parts.length - 1], type: "file", content });
+  }
+  return root;
+}
+
+const writtenPaths = (writes: FileWrite[]) =>
+  writes.map((write) => `${write.bytes ? "write" : "delete"} ${write.path}`).sort();
+
+Deno.test("synced paths", () => {
+  const synced = [".gitignore", ".gitattributes", "assets/.gitkeep", ".github/workflows/ci.yml", "docs/me.github.io/a.html"];
+  for (const path of synced) assertEquals(isSyncedPath(path), true, path);
+  for (const path of [".git/config", "node_modules/react/index.js", "packages/ui/node_modules/x.js"]) {
+    assertEquals(isSyncedPath(path), false, path);
+  }
+});
+
+Deno.test("push", async (t) => {
+  await t.step("sends git dotfiles and workflows", async () => {
+    const { remote, commits } = await memoryRemote({ "README.md": "# App\n" });
+    const result = await pushToRemote(
+      remote,
+      "Update",
+      fileTree({
+        "README.md": "# App\n",
+        ".gitignore": "node_modules\n",
+        ".github/workflows/ci.yml": "on: push\n",
+        "docs/me.github.io/index.html": "<p></p>\n",
+        "node_modules/react/index.js": "module.exports = {};\n",
+      })
+    );
+
+    assertEquals(result.commitSha, CREATED);
+    assertEquals(result.changed, 3);
+    assertEquals(writtenPaths(commits[0]), [
+      "write .github/workflows/ci.yml",
+      "write .gitignore",
+      "write docs/me.github.io/index.html",
+    ]);
+  });
+
+  await t.step("deletes dotfiles the project removed, but not dependencies", async () => {
+    const { remote, commits } = await memoryRemote({
+      "README.md": "# App\n",
+      ".github/workflows/old.yml": "on: push\n",
+      "node_modules/react/index.js": "module.exports = {};\n",
+    });
+    const result = await pushToRemote(remote, "Update", fileTree({ "README.md": "# App\n" }), { expectedSha: HEAD });
+
+    assertEquals(result.deleted, 1);
+    assertEquals(writtenPaths(commits[0]), ["delete .github/workflows/old.yml"]);
+  });
+});
+
+Deno.test("pull reports changed dotfiles", async () => {
+  const { remote } = await memoryRemote({ ".gitattributes": "* text=auto\n", "node_modules/x.js": "x\n" });
+  const { changes } = await pullFromRemote(remote);
+  assertEquals(
+    changes.map((change) => [change.path, change.status, change.content]),
+    [[".gitattributes", "added", "* text=auto\n"]]
+  );
+});
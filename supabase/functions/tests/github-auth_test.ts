@@ -0,0 +1,210 @@
+// GitHub device-flow sign-in and token selection against a local mock of
+// GitHub's OAuth and REST endpoints. Run with:
+//   deno test --allow-all supabase/functions/tests
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  getGitHubToken,
+  githubTokenSecretName,
+  pollDeviceFlow,
+  startDeviceFlow,
+} from "../_shared/github-auth.ts";
+import { getUserSecret, setUserSecret } from "../_shared/secrets.ts";
+
+const USER_ID = "0b5e2a34-7c1d-4f6e-9a8b-1c2d3e4f5a6b";
+const PROJECT_ID = "6f1e0d2c-3b4a-4958-8776-a5b4c3d2e1f0";
+const DEVICE_FLOW_SECRET = "github_device_flow";
+
+// user_secrets in memory, behind the few query shapes secrets.ts uses
+function memorySupabase() {
+  const rows = new Map<string, Record<string, unknown>>();
+  const key = (filters: Record<string, unknown>) => `${filters.user_id}:${filters.name}`;
+
+  const query = (filters: Record<string, unknown> = {}, remove = false) => ({
+    eq(column: string, value: unknown) {
+      const next = query({ ...filters, [column]: value }, remove);
+      if (remove && "user_id" in next.filters && "name" in next.filters) {
+        rows.delete(key(next.filters));
+        return Promise.resolve({ error: null });
+      }
+      return next;
+    },
+    maybeSingle: () => Promise.resolve({ data: rows.get(key(filters)) ?? null, error: null }),
+    filters,
+  });
+
+  const client = {
+    from: () => ({
+      select: () => query(),
+      delete: () => query({}, true),
+      upsert: (row: Record<string, unknown>) => {
+        rows.set(key(row), row);
+        return Promise.resolve({ error: null });
+      },
+    }),
+  };
+  return { supabase: client as unknown as SupabaseClient, rows };
+}
+
+// Answers for the token endpoint, consumed one per poll
+type TokenReply = Record<string, unknown>;
+
+function mockGitHub() {
+  const tokenReplies: TokenReply[] = [];
+  const users: Record<string, string> = {};
+
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen() {} }, async (req) => {
+    const url = new URL(req.url);
+    if (req.method === "POST" && url.pathname === "/login/device/code") {
+      return Response.json({
+        device_code: "device-123",
+        user_code: "ABCD-1234",
+        verification_uri: `${url.origin}/login/device`,
+        expires_in: 900,
+        interval: 5,
+      });
+    }
+    if (req.method === "POST" && url.pathname === "/login/oauth/access_token") {
+      const params = new URLSearchParams(await req.text());
+      if (params.get("device_code") !== "device-123") return Response.json({ error: "incorrect_device_code" });
+      return Response.json(tokenReplies.shift() ?? { error: "authorization_pending" });
+    }
+    if (req.method === "GET" && url.pathname === "/user") {
+      const login = users[(req.headers.get("Authorization") || "").replace(/^Bearer /, "")];
+      return login ? Response.json({ login, avatar_url: `https://avatars.test/${login}` }) : new Response(null, { status: 401 });
+    }
+    return new Response(null, { status: 404 });
+  });
+
+  const origin = `http://127.0.0.1:${server.addr.port}`;
+  Deno.env.set("GITHUB_API_URL", origin);
+  Deno.env.set("GITHUB_WEB_URL", origin);
+  return { server, tokenReplies, users };
+}
+
+function configure() {
+  Deno.env.set("GITHUB_CLIENT_ID", "client-id");
+  Deno.env.delete("GITHUB_CLIENT_SECRET");
+  const key = crypto.getRandomValues(new Uint8Array(32));
+  Deno.env.set("SECRETS_ENCRYPTION_KEY", btoa(String.fromCharCode(...key)));
+}
+
+Deno.test("device flow", async (t) => {
+  configure();
+  const github = mockGitHub();
+
+  try {
+    await t.step("waits while authorization is pending", async () => {
+      const { supabase } = memorySupabase();
+      const started = await startDeviceFlow(supabase, USER_ID, null);
+      assertEquals(started.userCode, "ABCD-1234");
+      assertEquals(started.interval, 5);
+
+      github.tokenReplies.push({ error: "authorization_pending" });
+      assertEquals(await pollDeviceFlow(supabase, USER_ID), { status: "pending", interval: 5 });
+    });
+
+    await t.step("slows down and keeps the longer interval", async () => {
+      const { supabase } = memorySupabase();
+      await startDeviceFlow(supabase, USER_ID, null);
+
+      github.tokenReplies.push({ error: "slow_down", interval: 10 });
+      assertEquals(await pollDeviceFlow(supabase, USER_ID), { status: "slow_down", interval: 10 });
+
+      github.tokenReplies.push({ error: "authorization_pending" });
+      assertEquals(await pollDeviceFlow(supabase, USER_ID), { status: "pending", interval: 10 });
+    });
+
+    await t.step("stops when GitHub reports the code expired", async () => {
+      const { supabase } = memorySupabase();
+      await startDeviceFlow(supabase, USER_ID, null);
+
+      github.tokenReplies.push({ error: "expired_token" });
+      assertEquals(await pollDeviceFlow(supabase, USER_ID), { status: "expired" });
+      assertEquals(await getUserSecret(supabase, USER_ID, DEVICE_FLOW_SECRET), null);
+      // Nothing left to poll
+      assertEquals(await pollDeviceFlow(supabase, USER_ID), { status: "expired" });
+    });
+
+    await t.step("reports a denied authorization", async () => {
+      const { supabase } = memorySupabase();
+      await startDeviceFlow(supabase, USER_ID, null);
+
+      github.tokenReplies.push({ error: "access_denied" });
+      assertEquals(await pollDeviceFlow(supabase, USER_ID), { status: "denied" });
+    });
+
+    await t.step("stores the user's token on success", async () => {
+      const { supabase } = memorySupabase();
+      await startDeviceFlow(supabase, USER_ID, null);
+
+      github.users["user-token"] = "octocat";
+      github.tokenReplies.push({ access_token: "user-token", token_type: "bearer", scope: "repo" });
+      assertEquals(await pollDeviceFlow(supabase, USER_ID), {
+        status: "connected",
+        user: { login: "octocat", avatar_url: "https://avatars.test/octocat" },
+        scope: "user",
+      });
+      assertEquals(await getUserSecret(supabase, USER_ID, DEVICE_FLOW_SECRET), null);
+      assertEquals(await getGitHubToken(supabase, USER_ID, null), { token: "user-token", scope: "user" });
+    });
+
+    await t.step("stores a project's own token under the project", async () => {
+      const { supabase } = memorySupabase();
+      await startDeviceFlow(supabase, USER_ID, PROJECT_ID);
+
+      github.users["project-token"] = "bot";
+      github.tokenReplies.push({ access_token: "project-token", token_type: "bearer", scope: "repo" });
+      const result = await pollDeviceFlow(supabase, USER_ID);
+      assertEquals(result.status === "connected" && result.scope, "project");
+
+      const stored = await getUserSecret(supabase, USER_ID, githubTokenSecretName(PROJECT_ID));
+      assertEquals(JSON.parse(stored!).accessToken, "project-token");
+      assertEquals(await getGitHubToken(supabase, USER_ID, null), null);
+    });
+  } finally {
+    await github.server.shutdown();
+  }
+});
+
+Deno.test("token selection", async (t) => {
+  configure();
+  const otherProject = "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+
+  await t.step("prefers the project's own token", async () => {
+    const { supabase } = memorySupabase();
+    await setUserSecret(supabase, USER_ID, "github_token", JSON.stringify({ accessToken: "user-token" }));
+    await setUserSecret(supabase, USER_ID, githubTokenSecretName(PROJECT_ID), JSON.stringify({ accessToken: "project-token" }));
+
+    assertEquals(await getGitHubToken(supabase, USER_ID, PROJECT_ID), { token: "project-token", scope: "project" });
+    assertEquals(await getGitHubToken(supabase, USER_ID, otherProject), { token: "user-token", scope: "user" });
+    assertEquals(await getGitHubToken(supabase, USER_ID, null), { token: "user-token", scope: "user" });
+  });
+
+  await t.step("reads tokens stored before the device flow", async () => {
+    const { supabase } = memorySupabase();
+    await setUserSecret(supabase, USER_ID, "github_token", "ghp_pasted");
+    assertEquals(await getGitHubToken(supabase, USER_ID, PROJECT_ID), { token: "ghp_pasted", scope: "user" });
+  });
+
+  await t.step("falls back to the user's token when the project's expired", async () => {
+    const { supabase } = memorySupabase();
+    const projectSecret = githubTokenSecretName(PROJECT_ID);
+    await setUserSecret(supabase, USER_ID, "github_token", JSON.stringify({ accessToken: "user-token" }));
+    await setUserSecret(
+      supabase,
+      USER_ID,
+      projectSecret,
+      JSON.stringify({ accessToken: "old", refreshToken: "refresh", expiresAt: Date.now() - 1000 })
+    );
+
+    // No client secret is configured, so the token cannot be refreshed
+    assertEquals(await getGitHubToken(supabase, USER_ID, PROJECT_ID), { token: "user-token", scope: "user" });
+    assertEquals(await getUserSecret(supabase, USER_ID, projectSecret), null);
+  });
+
+  await t.step("returns null when nothing is connected", async () => {
+    const { supabase } = memorySupabase();
+    assertEquals(await getGitHubToken(supabase, USER_ID, PROJECT_ID), null);
+  });
+});
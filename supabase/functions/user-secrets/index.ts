@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateRequest, createServiceClient, unauthorizedResponse } from "../_shared/credits.ts";
+import { getProviderAdapter, PROVIDERS, supportsUserKey } from "../_shared/providers.ts";
+import { deleteUserSecret, listUserSecrets, setUserSecret } from "../_shared/secrets.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Provider keys a user may bring. The GitHub token is managed by github-sync,
+// which validates it before storing.
+const USER_KEY_NAMES = Object.values(PROVIDERS)
+  .filter(supportsUserKey)
+  .map((p) => p.id as string);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await authenticateRequest(req, supabase);
+    if (!user) {
+      return unauthorizedResponse(corsHeaders);
+    }
+
+    const { action, name, value } = await req.json();
+
+    if (action === "list") {
+      return jsonResponse({ secrets: await listUserSecrets(supabase, user.id) });
+    }
+
+    if (!USER_KEY_NAMES.includes(name)) {
+      return jsonResponse({ error: `Unknown key. Use one of ${USER_KEY_NAMES.join(", ")}.` }, 400);
+    }
+
+    if (action === "set") {
+      const trimmed = typeof value === "string" ? value.trim() : "";
+      if (!trimmed) {
+        return jsonResponse({ error: "A key value is required" }, 400);
+      }
+      await setUserSecret(supabase, user.id, name, trimmed);
+      console.log(`Stored ${getProviderAdapter(name)?.name} key for user ${user.id}`);
+      return jsonResponse({ success: true });
+    }
+
+    if (action === "delete") {
+      await deleteUserSecret(supabase, user.id, name);
+      return jsonResponse({ success: true });
+    }
+
+    return jsonResponse({ error: "Invalid action. Use 'list', 'set' or 'delete'" }, 400);
+  } catch (error) {
+    console.error("User secrets error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,103 @@
+-- Create credit_transactions ledger
+CREATE TABLE public.credit_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(12,6) NOT NULL,
+  balance_after DECIMAL(12,6) NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'generation' CHECK (kind IN ('generation', 'adjustment')),
+  source TEXT,
+  model TEXT,
+  prompt_tokens INTEGER DEFAULT 0 NOT NULL,
+  completion_tokens INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX credit_transactions_user_id_created_at_idx
+  ON public.credit_transactions (user_id, created_at DESC);
+
+-- Fractional-cent charges need more precision than DECIMAL(10,2)
+ALTER TABLE public.profiles ALTER COLUMN credits TYPE DECIMAL(12,6);
+
+-- Enable RLS
+ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit transactions" ON public.credit_transactions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit transactions" ON public.credit_transactions
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Atomically debit credits and record the charge. The balance never goes
+-- below zero; the actual amount charged is written to the ledger.
+CREATE OR REPLACE FUNCTION public.debit_credits(
+  _user_id UUID,
+  _amount DECIMAL,
+  _source TEXT,
+  _model TEXT,
+  _prompt_tokens INTEGER,
+  _completion_tokens INTEGER
+)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance DECIMAL;
+  _charged DECIMAL;
+BEGIN
+  SELECT credits INTO _balance
+  FROM public.profiles
+  WHERE user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found for user %', _user_id;
+  END IF;
+
+  _charged := LEAST(GREATEST(_amount, 0), _balance);
+
+  UPDATE public.profiles
+  SET credits = credits - _charged
+  WHERE user_id = _user_id
+  RETURNING credits INTO _balance;
+
+  INSERT INTO public.credit_transactions
+    (user_id, amount, balance_after, kind, source, model, prompt_tokens, completion_tokens)
+  VALUES
+    (_user_id, -_charged, _balance, 'generation', _source, _model, _prompt_tokens, _completion_tokens);
+
+  RETURN _balance;
+END;
+$$;
+
+-- Only the service role may call debit_credits
+REVOKE EXECUTE ON FUNCTION public.debit_credits(UUID, DECIMAL, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Users may update their own profile, but not their own balance. Admin
+-- adjustments are recorded in the ledger.
+CREATE OR REPLACE FUNCTION public.guard_profile_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.credits IS DISTINCT FROM OLD.credits THEN
+    IF auth.role() = 'service_role' THEN
+      RETURN NEW;
+    ELSIF public.has_role(auth.uid(), 'admin') THEN
+      INSERT INTO public.credit_transactions (user_id, amount, balance_after, kind, source)
+      VALUES (NEW.user_id, NEW.credits - OLD.credits, NEW.credits, 'adjustment', 'admin');
+    ELSE
+      NEW.credits := OLD.credits;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_credits
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_credits();
@@ -0,0 +1,82 @@
+-- Create chat_sessions table, one conversation thread per project
+CREATE TABLE public.chat_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL DEFAULT 'New chat',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX chat_sessions_project_id_updated_at_idx
+  ON public.chat_sessions (project_id, updated_at DESC);
+
+-- Create chat_messages table
+CREATE TABLE public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.chat_sessions(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL DEFAULT '',
+  model TEXT,
+  prompt_tokens INTEGER DEFAULT 0 NOT NULL,
+  completion_tokens INTEGER DEFAULT 0 NOT NULL,
+  file_changes JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX chat_messages_session_id_created_at_idx
+  ON public.chat_messages (session_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Sessions belong to the user and must live in one of their projects
+CREATE POLICY "Users can manage their own chat sessions" ON public.chat_sessions
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = chat_sessions.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all chat sessions" ON public.chat_sessions
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can manage messages in their own chat sessions" ON public.chat_messages
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.chat_sessions
+      WHERE chat_sessions.id = chat_messages.session_id
+        AND chat_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all chat messages" ON public.chat_messages
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_chat_sessions_updated_at
+  BEFORE UPDATE ON public.chat_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- New messages move their session to the top of the history
+CREATE OR REPLACE FUNCTION public.touch_chat_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_sessions SET updated_at = now() WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_chat_session_on_message
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_chat_session();
@@ -0,0 +1,72 @@
+-- Content-addressed file contents, shared by every version of a project
+CREATE TABLE public.project_blobs (
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  hash TEXT NOT NULL CHECK (hash ~ '^[0-9a-f]{64}$'),
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (project_id, hash)
+);
+
+-- Create project_versions table. The manifest maps file paths to blob hashes.
+CREATE TABLE public.project_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.project_versions(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  -- Chat message that produced this version. Not a foreign key: versions
+  -- can be written before the message row is saved.
+  message_id UUID,
+  manifest JSONB DEFAULT '{}'::jsonb NOT NULL,
+  file_count INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX project_versions_project_id_created_at_idx
+  ON public.project_versions (project_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.project_blobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_versions ENABLE ROW LEVEL SECURITY;
+
+-- Blobs are immutable: owners may read and add them, never change them
+CREATE POLICY "Users can view blobs of their own projects" ON public.project_blobs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_blobs.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add blobs to their own projects" ON public.project_blobs
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_blobs.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view versions of their own projects" ON public.project_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_versions.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add versions to their own projects" ON public.project_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_versions.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all project versions" ON public.project_versions
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,97 @@
+-- Typed instance configuration, split out of api_keys. api_keys keeps only
+-- the admin's provider keys.
+CREATE TABLE public.app_settings (
+  key TEXT PRIMARY KEY CHECK (key IN (
+    'setup_completed',
+    'site_domain',
+    'app_name',
+    'smtp_config',
+    'custom_openai_base_url',
+    'custom_openai_models'
+  )),
+  value JSONB NOT NULL,
+  -- Readable before sign-in (the landing page checks setup_completed)
+  is_public BOOLEAN GENERATED ALWAYS AS (key IN ('setup_completed', 'site_domain', 'app_name')) STORED,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Per-user secrets (bring-your-own provider keys, GitHub tokens). Each value
+-- is encrypted by the edge functions with a random AES-GCM data key, and the
+-- data key is wrapped with SECRETS_ENCRYPTION_KEY, which never reaches the
+-- database. Both columns hold base64 of iv || ciphertext.
+CREATE TABLE public.user_secrets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (name ~ '^[a-z0-9_]{1,64}$'),
+  ciphertext TEXT NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  key_version INTEGER DEFAULT 1 NOT NULL,
+  -- Last characters of the value, shown in the UI
+  hint TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, name)
+);
+
+-- Repository link per project, replacing the global github_* api_keys rows
+ALTER TABLE public.projects
+  ADD COLUMN github_repo TEXT,
+  ADD COLUMN github_auto_sync BOOLEAN DEFAULT false NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view public app settings" ON public.app_settings
+  FOR SELECT USING (is_public);
+
+CREATE POLICY "Admins can manage app settings" ON public.app_settings
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- user_secrets has no client policies: reads and writes go through the
+-- user-secrets and github-sync functions with the service role.
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_user_secrets_updated_at
+  BEFORE UPDATE ON public.user_secrets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move instance config out of api_keys
+INSERT INTO public.app_settings (key, value)
+SELECT
+  key_name,
+  CASE key_name
+    WHEN 'setup_completed' THEN to_jsonb(key_value = 'true')
+    WHEN 'smtp_config' THEN key_value::jsonb
+    WHEN 'custom_openai_models' THEN to_jsonb(array_remove(regexp_split_to_array(trim(key_value), '\s*,\s*'), ''))
+    ELSE to_jsonb(key_value)
+  END
+FROM public.api_keys
+WHERE key_name IN (
+  'setup_completed',
+  'site_domain',
+  'app_name',
+  'smtp_config',
+  'custom_openai_base_url',
+  'custom_openai_models'
+);
+
+-- The old GitHub rows cannot be attributed to a user, so they are dropped and
+-- users reconnect from the editor.
+DELETE FROM public.api_keys
+WHERE key_name IN (
+  'setup_completed',
+  'site_domain',
+  'app_name',
+  'smtp_config',
+  'custom_openai_base_url',
+  'custom_openai_models',
+  'github_token',
+  'github_selected_repo',
+  'github_auto_sync'
+);
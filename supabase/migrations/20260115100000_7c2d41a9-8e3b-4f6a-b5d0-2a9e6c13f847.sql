@@ -0,0 +1,5 @@
+-- Running summary of the turns that no longer fit the model's context.
+-- summary_through is the last message folded into the summary.
+ALTER TABLE public.chat_sessions
+  ADD COLUMN summary TEXT,
+  ADD COLUMN summary_through UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL;
@@ -0,0 +1,191 @@
+-- Multi-stage AI pipelines for dual-ai-generate. Each stage is
+-- {name, model, prompt, language, stream, edits}: model is a client model id
+-- ("lovable/gpt-5"), stream says whether its prose reaches the user and edits
+-- whether it may change files. Stages run in order, each seeing the request
+-- and the output of the stages before it.
+CREATE TABLE public.pipeline_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Stable name for built-in presets and the legacy `mode` values
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9-]{1,64}$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  stages JSONB NOT NULL CHECK (jsonb_typeof(stages) = 'array' AND jsonb_array_length(stages) > 0),
+  -- Offered in the editor's pipeline picker
+  enabled BOOLEAN DEFAULT true NOT NULL,
+  -- Used when a request names no pipeline
+  is_default BOOLEAN DEFAULT false NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX pipeline_presets_single_default ON public.pipeline_presets (is_default) WHERE is_default;
+
+ALTER TABLE public.pipeline_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view enabled pipelines" ON public.pipeline_presets
+  FOR SELECT TO authenticated USING (enabled OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage pipelines" ON public.pipeline_presets
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_pipeline_presets_updated_at
+  BEFORE UPDATE ON public.pipeline_presets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Built-in presets: the previous fixed Gemini → GPT-5 pipeline, its two
+-- single-stage modes, and a planner → coder → reviewer example
+INSERT INTO public.pipeline_presets (slug, name, description, stages, is_default) VALUES
+(
+  'dual',
+  'Dual AI',
+  'Gemini menganalisis, GPT-5 menulis perbaikan',
+  jsonb_build_array(
+    jsonb_build_object(
+      'name', 'Analisis (Gemini)',
+      'model', 'lovable/gemini-2.5-flash',
+      'language', 'id',
+      'stream', true,
+      'edits', false,
+      'prompt', $$Kamu adalah AI Code Analyzer dengan kemampuan membaca konteks yang sangat besar.
+
+TUGAS UTAMA:
+1. Baca dan pahami SELURUH kode yang diberikan
+2. Identifikasi masalah logika, bug, error, dan potensi perbaikan
+3. Analisis mendalam tentang apa yang salah dan mengapa
+4. Jelaskan lokasi exact dari masalah (file, line, function)
+
+FORMAT OUTPUT:
+## 🔍 Masalah Ditemukan
+- [Daftar masalah dengan lokasi spesifik]
+
+## 🎯 Root Cause
+- [Analisis penyebab utama]
+
+## 💡 Rekomendasi
+- [Langkah-langkah perbaikan yang diperlukan]$$
+    ),
+    jsonb_build_object(
+      'name', 'Perbaikan Kode (GPT-5)',
+      'model', 'lovable/gpt-5',
+      'language', 'id',
+      'stream', true,
+      'edits', true,
+      'prompt', $$Kamu adalah AI Code Refiner yang ahli menulis kode yang bersih dan efisien.
+
+TUGAS: Berdasarkan analisis yang diberikan, tulis kode perbaikan yang:
+1. Memperbaiki SEMUA masalah yang teridentifikasi
+2. Mengikuti best practices TypeScript/React
+3. Bersih, readable, dan well-documented
+4. Efficient dan maintainable
+
+PENTING:
+- Sertakan SEMUA import yang diperlukan
+- Pastikan kode langsung bisa dijalankan
+- Gunakan TypeScript strict mode
+- Gunakan Tailwind CSS untuk styling$$
+    )
+  ),
+  true
+),
+(
+  'analyze-only',
+  'Analisis saja',
+  'Gemini mencari masalah tanpa mengubah file',
+  jsonb_build_array(
+    jsonb_build_object(
+      'name', 'Analisis (Gemini)',
+      'model', 'lovable/gemini-2.5-flash',
+      'language', 'id',
+      'stream', true,
+      'edits', false,
+      'prompt', $$Kamu adalah AI Code Analyzer dengan kemampuan membaca konteks yang sangat besar.
+
+TUGAS UTAMA:
+1. Baca dan pahami SELURUH kode yang diberikan
+2. Identifikasi masalah logika, bug, error, dan potensi perbaikan
+3. Analisis mendalam tentang apa yang salah dan mengapa
+4. Jelaskan lokasi exact dari masalah (file, line, function)
+
+FORMAT OUTPUT:
+## 🔍 Masalah Ditemukan
+- [Daftar masalah dengan lokasi spesifik]
+
+## 🎯 Root Cause
+- [Analisis penyebab utama]
+
+## 💡 Rekomendasi
+- [Langkah-langkah perbaikan yang diperlukan]$$
+    )
+  ),
+  false
+),
+(
+  'refine-only',
+  'Perbaikan saja',
+  'GPT-5 langsung menulis perbaikan',
+  jsonb_build_array(
+    jsonb_build_object(
+      'name', 'Perbaikan Kode (GPT-5)',
+      'model', 'lovable/gpt-5',
+      'language', 'id',
+      'stream', true,
+      'edits', true,
+      'prompt', $$Kamu adalah AI Code Refiner yang ahli menulis kode yang bersih dan efisien.
+
+TUGAS: Tulis kode perbaikan yang:
+1. Memperbaiki SEMUA masalah yang diminta user
+2. Mengikuti best practices TypeScript/React
+3. Bersih, readable, dan well-documented
+4. Efficient dan maintainable
+
+PENTING:
+- Sertakan SEMUA import yang diperlukan
+- Pastikan kode langsung bisa dijalankan
+- Gunakan TypeScript strict mode
+- Gunakan Tailwind CSS untuk styling$$
+    )
+  ),
+  false
+),
+(
+  'plan-code-review',
+  'Planner → Coder → Reviewer',
+  'Gemini Pro plans, GPT-5 writes the code, GPT-5 Mini reviews and fixes it',
+  jsonb_build_array(
+    jsonb_build_object(
+      'name', 'Planner',
+      'model', 'lovable/gemini-2.5-pro',
+      'language', 'en',
+      'stream', false,
+      'edits', false,
+      'prompt', $$You are a senior software architect. Turn the user's request into a concrete implementation plan for the coder who comes after you.
+
+List every file to create, change, delete or rename, what changes in each and why, in the order they should be made. Call out edge cases, shared types and imports that must stay consistent. Do not write the code itself.$$
+    ),
+    jsonb_build_object(
+      'name', 'Coder',
+      'model', 'lovable/gpt-5',
+      'language', 'en',
+      'stream', true,
+      'edits', true,
+      'prompt', $$You are an expert React, TypeScript and Tailwind engineer. Implement the plan from the previous stage completely.
+
+- Follow the existing project patterns and use shadcn/ui components where they fit
+- Include every import that is needed
+- Keep components small and typed
+- Briefly say what you changed$$
+    ),
+    jsonb_build_object(
+      'name', 'Reviewer',
+      'model', 'lovable/gpt-5-mini',
+      'language', 'en',
+      'stream', true,
+      'edits', true,
+      'prompt', $$You are a meticulous code reviewer. Review the coder's changes against the request and the plan.
+
+Look for bugs, missing imports, type errors, broken references to renamed or deleted files and unhandled edge cases. Fix every real problem with targeted edits, then give a short verdict. If everything is correct, make no changes and say so.$$
+    )
+  ),
+  false
+);
@@ -0,0 +1,34 @@
+-- Per-project instructions for the AI and pinned "knowledge" files that are
+-- always sent in full ahead of the relevance-ranked files. Kept out of
+-- projects so editing them does not bump projects.updated_at, which the
+-- autosave uses to detect conflicting writes.
+CREATE TABLE public.project_instructions (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  instructions TEXT DEFAULT '' NOT NULL,
+  -- File ids (paths) in the project's file tree, in the order they are sent
+  knowledge_files TEXT[] DEFAULT '{}' NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.project_instructions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage instructions of their own projects" ON public.project_instructions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_instructions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_instructions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_project_instructions_updated_at
+  BEFORE UPDATE ON public.project_instructions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,46 @@
+-- Images attached to chat messages (screenshots, mockups). Files live in the
+-- private chat-attachments bucket under <project id>/<file>; the chat
+-- functions download them with the service role after checking that the
+-- caller owns the project.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view attachments of their own projects" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'chat-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id::text = (storage.foldername(objects.name))[1]
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can upload attachments to their own projects" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'chat-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id::text = (storage.foldername(objects.name))[1]
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete attachments of their own projects" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'chat-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id::text = (storage.foldername(objects.name))[1]
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- [{path, name, mimeType, size}] for each image sent with the message
+ALTER TABLE public.chat_messages ADD COLUMN attachments JSONB DEFAULT '[]'::jsonb NOT NULL;
@@ -0,0 +1,34 @@
+-- GitHub sync state per project: the branch the project tracks and the last
+-- commit it was pushed to or merged from. Pulls merge three-way against that
+-- commit, and pushes are refused when the branch has moved past it. Kept out
+-- of projects so syncing does not bump projects.updated_at.
+CREATE TABLE public.project_git_sync (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- NULL tracks the repository's default branch
+  branch TEXT,
+  synced_sha TEXT,
+  synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.project_git_sync ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage sync state of their own projects" ON public.project_git_sync
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_git_sync.project_id
+      AND projects.user_id = auth.uid()
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_git_sync.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_project_git_sync_updated_at
+  BEFORE UPDATE ON public.project_git_sync
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,64 @@
+-- Inbound GitHub sync. github-sync records a watch once it has checked that
+-- the user can read the linked repository and pointed the repository's push
+-- webhook at github-webhook; github-webhook records each push for the
+-- projects watching that repository. Both are written by the service role
+-- only, so a project cannot subscribe to pushes of a repository its owner
+-- has no access to.
+CREATE TABLE public.project_github_watches (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  repo TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_project_github_watches_repo ON public.project_github_watches(repo);
+
+ALTER TABLE public.project_github_watches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view watches of their own projects" ON public.project_github_watches
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_github_watches.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_project_github_watches_updated_at
+  BEFORE UPDATE ON public.project_github_watches
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.github_push_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- X-GitHub-Delivery; redeliveries of a push are recorded once
+  delivery_id TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  branch TEXT NOT NULL,
+  default_branch TEXT NOT NULL,
+  before_sha TEXT NOT NULL,
+  after_sha TEXT NOT NULL,
+  -- [{ id, message, author, timestamp, url }], at most the 20 GitHub sends
+  commits JSONB NOT NULL DEFAULT '[]'::jsonb,
+  commit_count INTEGER NOT NULL DEFAULT 0,
+  forced BOOLEAN NOT NULL DEFAULT false,
+  pusher TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (project_id, delivery_id)
+);
+
+CREATE INDEX idx_github_push_events_project_created ON public.github_push_events(project_id, created_at DESC);
+
+ALTER TABLE public.github_push_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pushes to their own projects" ON public.github_push_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = github_push_events.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- The editor is notified of new pushes as they are recorded
+ALTER PUBLICATION supabase_realtime ADD TABLE public.github_push_events;
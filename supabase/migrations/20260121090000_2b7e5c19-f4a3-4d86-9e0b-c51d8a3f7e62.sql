@@ -0,0 +1,31 @@
+-- A project's git remote when it is not on GitHub: GitLab, Gitea or any git
+-- server speaking smart HTTP. The token or password is kept encrypted in
+-- user_secrets. Written by github-sync only, after it has checked the
+-- credentials against the server.
+CREATE TABLE public.project_git_remotes (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('gitlab', 'gitea', 'git')),
+  -- Instance URL for GitLab and Gitea, clone URL for plain git
+  url TEXT NOT NULL,
+  -- Repository path on the instance, e.g. group/project
+  repo TEXT NOT NULL,
+  -- HTTP user for plain git
+  username TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.project_git_remotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view remotes of their own projects" ON public.project_git_remotes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_git_remotes.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_project_git_remotes_updated_at
+  BEFORE UPDATE ON public.project_git_remotes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,48 @@
+-- debit_credits reports what it actually charged as well as the new balance.
+-- The charge is clamped to the balance, so it can be less than requested.
+DROP FUNCTION public.debit_credits(UUID, DECIMAL, TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.debit_credits(
+  _user_id UUID,
+  _amount DECIMAL,
+  _source TEXT,
+  _model TEXT,
+  _prompt_tokens INTEGER,
+  _completion_tokens INTEGER
+)
+RETURNS TABLE (charged DECIMAL, balance DECIMAL)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance DECIMAL;
+  _charged DECIMAL;
+BEGIN
+  SELECT credits INTO _balance
+  FROM public.profiles
+  WHERE user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found for user %', _user_id;
+  END IF;
+
+  _charged := LEAST(GREATEST(_amount, 0), _balance);
+
+  UPDATE public.profiles
+  SET credits = credits - _charged
+  WHERE user_id = _user_id
+  RETURNING credits INTO _balance;
+
+  INSERT INTO public.credit_transactions
+    (user_id, amount, balance_after, kind, source, model, prompt_tokens, completion_tokens)
+  VALUES
+    (_user_id, -_charged, _balance, 'generation', _source, _model, _prompt_tokens, _completion_tokens);
+
+  RETURN QUERY SELECT _charged, _balance;
+END;
+$$;
+
+-- Only the service role may call debit_credits
+REVOKE EXECUTE ON FUNCTION public.debit_credits(UUID, DECIMAL, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Set when auto-sync found the branch ahead of the synced commit. Auto-sync
+-- stays off until a pull or merge brings the project up to date, instead of
+-- retrying the same refused push after every edit.
+ALTER TABLE public.project_git_sync
+  ADD COLUMN auto_sync_paused BOOLEAN DEFAULT false NOT NULL;